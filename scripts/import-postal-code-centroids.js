@@ -0,0 +1,88 @@
+// Builds the postal_code_centroids seed from a postal code dataset.
+//
+// Usage: node scripts/import-postal-code-centroids.js <file> [output]
+//
+// <file> is either the GeoNames postal code dump for Sweden (SE.txt from
+// https://download.geonames.org/export/zip/SE.zip, CC BY 4.0) or a CSV with
+// the header postal_code,locality,latitude,longitude. The output defaults to
+// supabase/seed/postal_code_centroids.sql, which `supabase db reset` loads
+// into a fresh database. The seed upserts, so it can also be run against an
+// existing database to refresh the centroids.
+import { readFileSync, writeFileSync, mkdirSync } from 'node:fs';
+import { dirname } from 'node:path';
+
+const [input, output = 'supabase/seed/postal_code_centroids.sql'] = process.argv.slice(2);
+
+if (!input) {
+  console.error('Usage: node scripts/import-postal-code-centroids.js <file> [output]');
+  process.exit(1);
+}
+
+// GeoNames: country, postal code, place name, admin1 name, admin1 code,
+// admin2 name, admin2 code, admin3 name, admin3 code, latitude, longitude, accuracy
+const parseGeoNames = (line) => {
+  const fields = line.split('\t');
+  return { postalCode: fields[1], locality: fields[2], latitude: fields[9], longitude: fields[10] };
+};
+
+const parseCsv = (line) => {
+  const [postalCode, locality, latitude, longitude] = line.split(',').map(f => f.trim().replace(/^"|"$/g, ''));
+  return { postalCode, locality, latitude, longitude };
+};
+
+const lines = readFileSync(input, 'utf8').split(/\r?\n/).filter(line => line.trim());
+const isGeoNames = lines[0]?.includes('\t');
+const rows = isGeoNames ? lines.map(parseGeoNames) : lines.slice(1).map(parseCsv);
+
+// A postal code can be listed once per locality, so average its coordinates
+const centroids = new Map();
+let skipped = 0;
+
+rows.forEach(({ postalCode, locality, latitude, longitude }) => {
+  const code = (postalCode || '').replace(/\s/g, '');
+  const lat = parseFloat(latitude);
+  const lng = parseFloat(longitude);
+
+  if (!/^[0-9]{5}$/.test(code) || !Number.isFinite(lat) || !Number.isFinite(lng)) {
+    skipped++;
+    return;
+  }
+
+  const centroid = centroids.get(code) || { locality: locality || null, latitude: 0, longitude: 0, count: 0 };
+  centroid.latitude += lat;
+  centroid.longitude += lng;
+  centroid.count++;
+  centroids.set(code, centroid);
+});
+
+if (centroids.size === 0) {
+  console.error(`No postal codes found in ${input}`);
+  process.exit(1);
+}
+
+const quote = (value) => (value === null ? 'NULL' : `'${value.replace(/'/g, "''")}'`);
+const round = (value) => Math.round(value * 1e6) / 1e6;
+
+const values = [...centroids.entries()]
+  .sort(([a], [b]) => a.localeCompare(b))
+  .map(([code, c]) =>
+    `  ('${code}', ${quote(c.locality)}, ${round(c.latitude / c.count)}, ${round(c.longitude / c.count)})`
+  );
+
+const sql = `-- Swedish postal code centroids, generated by
+-- scripts/import-postal-code-centroids.js. Do not edit by hand.
+INSERT INTO public.postal_code_centroids (postal_code, locality, latitude, longitude)
+VALUES
+${values.join(',\n')}
+ON CONFLICT (postal_code) DO UPDATE
+SET locality = EXCLUDED.locality,
+    latitude = EXCLUDED.latitude,
+    longitude = EXCLUDED.longitude;
+
+-- Contacts created before the centroids were loaded
+SELECT public.backfill_contact_coordinates();
+`;
+
+mkdirSync(dirname(output), { recursive: true });
+writeFileSync(output, sql);
+console.log(`Wrote ${centroids.size} postal codes to ${output}${skipped ? ` (skipped ${skipped} rows)` : ''}`);
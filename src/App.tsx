@@ -1,21 +1,27 @@
 import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
-import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
-import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
+import { QueryClientProvider } from "@tanstack/react-query";
+import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { ThemeProvider } from "next-themes";
 import { AuthProvider } from "@/contexts/AuthContext";
 import AppLayout from "@/components/layout/AppLayout";
+import { RequirePermission, RoleHomeRedirect } from "@/components/layout/RouteGuards";
+import { createQueryClient } from "@/lib/queryClient";
 import Login from "./pages/Login";
 import Deals from "./pages/Deals";
 import Kreditera from "./pages/Kreditera";
 import MinSida from "./pages/MinSida";
 import Admin from "./pages/Admin";
 import Saljare from "./pages/Saljare";
+import Team from "./pages/Team";
+import MinPrestation from "./pages/MinPrestation";
 import Partners from "./pages/Partners";
+import PartnerPortal from "./pages/PartnerPortal";
+import Pipeline from "./pages/Pipeline";
 import NotFound from "./pages/NotFound";
 
-const queryClient = new QueryClient();
+const queryClient = createQueryClient();
 
 const App = () => (
   <ThemeProvider attribute="class" defaultTheme="system" enableSystem storageKey="proffskontakt-theme">
@@ -27,14 +33,38 @@ const App = () => (
           <BrowserRouter>
             <Routes>
               <Route path="/login" element={<Login />} />
-              <Route path="/" element={<Navigate to="/deals" replace />} />
               <Route element={<AppLayout />}>
-                <Route path="/deals" element={<Deals />} />
-                <Route path="/kreditera" element={<Kreditera />} />
-                <Route path="/installningar" element={<Admin />} />
-                <Route path="/saljare" element={<Saljare />} />
-                <Route path="/partners" element={<Partners />} />
-                <Route path="/admin" element={<MinSida />} />
+                <Route path="/" element={<RoleHomeRedirect />} />
+                <Route element={<RequirePermission permission="deals.view" />}>
+                  <Route path="/deals" element={<Deals />} />
+                </Route>
+                <Route element={<RequirePermission permission="credits.request" />}>
+                  <Route path="/kreditera" element={<Kreditera />} />
+                </Route>
+                <Route element={<RequirePermission permission="settings.view" />}>
+                  <Route path="/installningar" element={<Admin />} />
+                </Route>
+                <Route element={<RequirePermission permission="sellers.view" />}>
+                  <Route path="/saljare" element={<Saljare />} />
+                </Route>
+                <Route element={<RequirePermission permission="team.view" />}>
+                  <Route path="/team" element={<Team />} />
+                </Route>
+                <Route element={<RequirePermission permission="performance.view" />}>
+                  <Route path="/prestation" element={<MinPrestation />} />
+                </Route>
+                <Route element={<RequirePermission permission="partners.view" />}>
+                  <Route path="/partners" element={<Partners />} />
+                </Route>
+                <Route element={<RequirePermission permission="portal.view" />}>
+                  <Route path="/portal" element={<PartnerPortal />} />
+                </Route>
+                <Route element={<RequirePermission permission="pipeline.view" />}>
+                  <Route path="/pipeline" element={<Pipeline />} />
+                </Route>
+                <Route element={<RequirePermission permission="dashboard.view" />}>
+                  <Route path="/admin" element={<MinSida />} />
+                </Route>
               </Route>
               <Route path="*" element={<NotFound />} />
             </Routes>
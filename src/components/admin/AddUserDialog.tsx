@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
@@ -8,6 +8,8 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { toast } from 'sonner';
 import { UserPlus } from 'lucide-react';
 import type { Database } from '@/integrations/supabase/types';
+import { createUser, type UserDelivery } from '@/lib/users';
+import { UserDeliveryField } from './UserDeliveryField';
 
 type UserRole = Database['public']['Enums']['user_role'];
 
@@ -19,11 +21,13 @@ interface AddUserDialogProps {
 export const AddUserDialog = ({ onCreated, defaultUserType = 'internal' }: AddUserDialogProps) => {
   const [open, setOpen] = useState(false);
   const [loading, setLoading] = useState(false);
+  const [organizations, setOrganizations] = useState<{ id: string; name: string }[]>([]);
   const [formData, setFormData] = useState({
     email: '',
-    password: '',
     full_name: '',
     role: (defaultUserType === 'internal' ? 'opener' : 'organization') as UserRole,
+    organization_id: '',
+    delivery: 'invite' as UserDelivery,
     personal_number: '',
     bank_name: '',
     account_number: '',
@@ -33,102 +37,77 @@ export const AddUserDialog = ({ onCreated, defaultUserType = 'internal' }: AddUs
 
   const isInternalRole = (role: UserRole) => ['admin', 'teamleader', 'opener', 'closer'].includes(role);
 
+  useEffect(() => {
+    if (open && defaultUserType === 'external') {
+      fetchOrganizations();
+    }
+  }, [open, defaultUserType]);
+
+  const fetchOrganizations = async () => {
+    const { data } = await supabase
+      .from('organizations')
+      .select('id, name')
+      .eq('status', 'active')
+      .order('name');
+    if (data) setOrganizations(data);
+  };
+
+  const resetForm = () => {
+    setFormData({
+      email: '',
+      full_name: '',
+      role: defaultUserType === 'internal' ? 'opener' : 'organization',
+      organization_id: '',
+      delivery: 'invite',
+      personal_number: '',
+      bank_name: '',
+      account_number: '',
+      employer_fee_percent: 31.42,
+      vacation_pay_percent: 12,
+    });
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!formData.email.trim() || !formData.password) {
-      toast.error('E-post och lösenord krävs');
+    if (!formData.email.trim()) {
+      toast.error('E-post krävs');
       return;
     }
 
-    if (formData.password.length < 6) {
-      toast.error('Lösenordet måste vara minst 6 tecken');
+    if (formData.role === 'organization' && !formData.organization_id) {
+      toast.error('Välj vilket bolag användaren tillhör');
       return;
     }
 
     setLoading(true);
-    try {
-      // Save current admin session BEFORE creating new user
-      const { data: { session: currentSession } } = await supabase.auth.getSession();
-      
-      if (!currentSession) {
-        toast.error('Du måste vara inloggad som admin');
-        setLoading(false);
-        return;
-      }
-
-      // Store the admin tokens
-      const adminAccessToken = currentSession.access_token;
-      const adminRefreshToken = currentSession.refresh_token;
-
-      // Create user via Supabase Auth
-      const { data, error } = await supabase.auth.signUp({
-        email: formData.email.trim(),
-        password: formData.password,
-        options: {
-          data: {
-            full_name: formData.full_name.trim() || null,
-          },
-        },
-      });
-
-      if (error) throw error;
-
-      if (data.user) {
-        // Prepare profile update data
-        const profileUpdate: any = { 
-          role: formData.role,
-          full_name: formData.full_name.trim() || null,
-          user_type: isInternalRole(formData.role) ? 'internal' : 'external',
-        };
-
-        // Add internal fields only for internal users
-        if (isInternalRole(formData.role)) {
-          profileUpdate.personal_number = formData.personal_number.trim() || null;
-          profileUpdate.bank_name = formData.bank_name.trim() || null;
-          profileUpdate.account_number = formData.account_number.trim() || null;
-          profileUpdate.employer_fee_percent = formData.employer_fee_percent;
-          profileUpdate.vacation_pay_percent = formData.vacation_pay_percent;
-        }
-
-        // Update the profile with the correct role and additional fields
-        await supabase
-          .from('profiles')
-          .update(profileUpdate)
-          .eq('id', data.user.id);
+    const error = await createUser({
+      email: formData.email.trim(),
+      full_name: formData.full_name.trim() || undefined,
+      role: formData.role,
+      organization_id: formData.role === 'organization' ? formData.organization_id : undefined,
+      delivery: formData.delivery,
+      profile: isInternalRole(formData.role)
+        ? {
+            personal_number: formData.personal_number.trim() || undefined,
+            bank_name: formData.bank_name.trim() || undefined,
+            account_number: formData.account_number.trim() || undefined,
+            employer_fee_percent: formData.employer_fee_percent,
+            vacation_pay_percent: formData.vacation_pay_percent,
+          }
+        : undefined,
+    });
+    setLoading(false);
 
-        // Update user_roles table
-        await supabase
-          .from('user_roles')
-          .update({ role: formData.role })
-          .eq('user_id', data.user.id);
-      }
-
-      // IMMEDIATELY restore the admin's session - this is critical
-      await supabase.auth.setSession({
-        access_token: adminAccessToken,
-        refresh_token: adminRefreshToken,
-      });
-
-      toast.success('Användare skapad');
-      setFormData({ 
-        email: '', 
-        password: '', 
-        full_name: '', 
-        role: defaultUserType === 'internal' ? 'opener' : 'organization',
-        personal_number: '',
-        bank_name: '',
-        account_number: '',
-        employer_fee_percent: 31.42,
-        vacation_pay_percent: 12,
-      });
-      setOpen(false);
-      onCreated();
-    } catch (error: any) {
-      toast.error('Kunde inte skapa användare: ' + error.message);
-    } finally {
-      setLoading(false);
+    if (error) {
+      toast.error(error);
+      return;
     }
+
+    toast.success('Användare skapad och mejl skickat');
+    resetForm();
+    setOpen(false);
+    onCreated();
   };
 
   return (
@@ -164,17 +143,6 @@ export const AddUserDialog = ({ onCreated, defaultUserType = 'internal' }: AddUs
               required
             />
           </div>
-          <div className="space-y-2">
-            <Label htmlFor="user-password">Lösenord *</Label>
-            <Input
-              id="user-password"
-              type="password"
-              value={formData.password}
-              onChange={(e) => setFormData(prev => ({ ...prev, password: e.target.value }))}
-              placeholder="Minst 6 tecken"
-              required
-            />
-          </div>
           <div className="space-y-2">
             <Label htmlFor="user-role">Roll</Label>
             <Select
@@ -199,6 +167,31 @@ export const AddUserDialog = ({ onCreated, defaultUserType = 'internal' }: AddUs
             </Select>
           </div>
 
+          {formData.role === 'organization' && (
+            <div className="space-y-2">
+              <Label htmlFor="user-organization">Kopplat bolag *</Label>
+              <Select
+                value={formData.organization_id}
+                onValueChange={(value) => setFormData(prev => ({ ...prev, organization_id: value }))}
+              >
+                <SelectTrigger id="user-organization">
+                  <SelectValue placeholder="Välj bolag..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {organizations.map(org => (
+                    <SelectItem key={org.id} value={org.id}>{org.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <UserDeliveryField
+            id="user-delivery"
+            value={formData.delivery}
+            onChange={(delivery) => setFormData(prev => ({ ...prev, delivery }))}
+          />
+
           {isInternalRole(formData.role) && (
             <>
               <div className="border-t pt-4 mt-4">
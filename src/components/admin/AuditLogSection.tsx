@@ -38,6 +38,7 @@ const ACTION_LABELS: Record<string, { label: string; color: string }> = {
   INSERT: { label: 'Skapad', color: 'bg-emerald-500/10 text-emerald-600' },
   UPDATE: { label: 'Uppdaterad', color: 'bg-blue-500/10 text-blue-600' },
   DELETE: { label: 'Borttagen', color: 'bg-red-500/10 text-red-600' },
+  MERGE: { label: 'Sammanslagen', color: 'bg-amber-500/10 text-amber-600' },
 };
 
 export function AuditLogSection() {
@@ -189,6 +190,7 @@ export function AuditLogSection() {
               <SelectItem value="INSERT">Skapad</SelectItem>
               <SelectItem value="UPDATE">Uppdaterad</SelectItem>
               <SelectItem value="DELETE">Borttagen</SelectItem>
+              <SelectItem value="MERGE">Sammanslagen</SelectItem>
             </SelectContent>
           </Select>
         </div>
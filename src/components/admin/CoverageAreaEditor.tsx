@@ -0,0 +1,150 @@
+import { useState, useEffect, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from 'sonner';
+import { Map as MapIcon, Upload, Trash2 } from 'lucide-react';
+import {
+  COVERAGE_LEAD_TYPES,
+  parseCoveragePolygons,
+  type CoverageArea,
+  type CoverageLeadType,
+  type GeoJsonPolygon,
+} from '@/lib/coverage';
+
+interface CoverageAreaEditorProps {
+  organizationId: string;
+}
+
+export const CoverageAreaEditor = ({ organizationId }: CoverageAreaEditorProps) => {
+  const [areas, setAreas] = useState<CoverageArea[]>([]);
+  const [leadType, setLeadType] = useState<CoverageLeadType>('offert');
+  const [geoJson, setGeoJson] = useState('');
+  const [saving, setSaving] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const fetchAreas = async () => {
+    const { data, error } = await supabase.rpc('get_organization_coverage_areas', {
+      _organization_id: organizationId,
+    });
+    if (error) {
+      console.error('Error fetching coverage areas:', error);
+      return;
+    }
+    setAreas(data || []);
+  };
+
+  useEffect(() => {
+    fetchAreas();
+  }, [organizationId]);
+
+  const handleFileImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setGeoJson(await file.text());
+    e.target.value = '';
+  };
+
+  const saveAreas = async (polygons: GeoJsonPolygon[]) => {
+    setSaving(true);
+    try {
+      const { data, error } = await supabase.rpc('replace_organization_coverage_areas', {
+        _organization_id: organizationId,
+        _lead_type: leadType,
+        _polygons: polygons,
+      });
+      if (error) throw error;
+
+      toast.success(data ? `${data} område${data === 1 ? '' : 'n'} sparade` : 'Områden borttagna');
+      setGeoJson('');
+      fetchAreas();
+    } catch (error) {
+      toast.error('Kunde inte spara täckningsområden: ' + (error as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleReplace = () => {
+    try {
+      saveAreas(parseCoveragePolygons(geoJson));
+    } catch (error) {
+      toast.error((error as Error).message);
+    }
+  };
+
+  const areasForType = areas.filter(a => a.lead_type === leadType);
+  const totalArea = areasForType.reduce((sum, a) => sum + Number(a.area_km2), 0);
+
+  return (
+    <div className="space-y-4">
+      <h3 className="font-medium flex items-center gap-2 text-sm text-muted-foreground uppercase tracking-wide">
+        <MapIcon className="h-4 w-4" />
+        Täckningsområden
+      </h3>
+      <p className="text-xs text-muted-foreground">
+        Polygoner i GeoJSON (WGS 84). Leads med koordinater matchas mot områdena i stället för regionerna ovan.
+      </p>
+
+      <div className="flex items-end gap-4">
+        <div className="space-y-2 w-40">
+          <Label>Leadtyp</Label>
+          <Select value={leadType} onValueChange={(value: CoverageLeadType) => setLeadType(value)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {COVERAGE_LEAD_TYPES.map(type => (
+                <SelectItem key={type.key} value={type.key}>{type.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <p className="text-sm text-muted-foreground pb-2">
+          {areasForType.length > 0
+            ? `${areasForType.length} område${areasForType.length === 1 ? '' : 'n'} • ${totalArea.toLocaleString('sv-SE')} km²`
+            : 'Inga områden'}
+        </p>
+      </div>
+
+      <Textarea
+        value={geoJson}
+        onChange={(e) => setGeoJson(e.target.value)}
+        placeholder='{"type": "Polygon", "coordinates": [[[18.0, 59.3], [18.1, 59.3], [18.1, 59.4], [18.0, 59.3]]]}'
+        className="font-mono text-xs min-h-[100px]"
+      />
+
+      <div className="flex flex-wrap gap-2">
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".geojson,.json,application/geo+json,application/json"
+          className="hidden"
+          onChange={handleFileImport}
+        />
+        <Button type="button" variant="outline" size="sm" className="gap-2" onClick={() => fileInputRef.current?.click()}>
+          <Upload className="h-4 w-4" />
+          Importera fil
+        </Button>
+        <Button type="button" size="sm" onClick={handleReplace} disabled={saving || !geoJson.trim()}>
+          {saving ? 'Sparar...' : 'Ersätt områden'}
+        </Button>
+        {areasForType.length > 0 && (
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            className="gap-2 text-destructive"
+            onClick={() => saveAreas([])}
+            disabled={saving}
+          >
+            <Trash2 className="h-4 w-4" />
+            Ta bort alla
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
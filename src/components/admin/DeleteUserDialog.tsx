@@ -0,0 +1,111 @@
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from 'sonner';
+import { deleteUser } from '@/lib/users';
+import type { UserRole } from '@/lib/permissions';
+
+interface ManagedUser {
+  id: string;
+  email: string;
+  full_name: string | null;
+  role: UserRole;
+  organization_id: string | null;
+  is_active: boolean;
+}
+
+interface DeleteUserDialogProps {
+  user: ManagedUser | null;
+  users: ManagedUser[];
+  onOpenChange: (open: boolean) => void;
+  onDeleted: () => void;
+}
+
+const NO_REASSIGNMENT = 'none';
+
+// Who may take over the user's records, mirroring reassign_user_records()
+const canTakeOver = (user: ManagedUser, candidate: ManagedUser) => {
+  if (candidate.id === user.id || !candidate.is_active) return false;
+  switch (user.role) {
+    case 'opener':
+    case 'teamleader':
+      return ['admin', 'teamleader', 'opener'].includes(candidate.role);
+    case 'closer':
+      return ['admin', 'closer'].includes(candidate.role);
+    case 'organization':
+      return candidate.role === 'admin'
+        || (candidate.role === 'organization' && candidate.organization_id === user.organization_id);
+    default:
+      return candidate.role === 'admin';
+  }
+};
+
+/**
+ * Deletes a user after handing their leads, sales and credit requests to someone else
+ */
+export const DeleteUserDialog = ({ user, users, onOpenChange, onDeleted }: DeleteUserDialogProps) => {
+  const [reassignTo, setReassignTo] = useState(NO_REASSIGNMENT);
+  const [deleting, setDeleting] = useState(false);
+
+  useEffect(() => {
+    setReassignTo(NO_REASSIGNMENT);
+  }, [user]);
+
+  const candidates = user ? users.filter(candidate => canTakeOver(user, candidate)) : [];
+
+  const handleDelete = async () => {
+    if (!user) return;
+
+    setDeleting(true);
+    const error = await deleteUser(user.id, reassignTo === NO_REASSIGNMENT ? undefined : reassignTo);
+    setDeleting(false);
+
+    if (error) {
+      toast.error(error);
+      return;
+    }
+
+    toast.success('Användare borttagen');
+    onOpenChange(false);
+    onDeleted();
+  };
+
+  return (
+    <Dialog open={!!user} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Ta bort användare?</DialogTitle>
+          <DialogDescription>
+            <strong>{user?.email}</strong> tas bort permanent. Vill du bara stänga av inloggningen, inaktivera användaren i stället.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor="reassign-to">Överför leads, affärer och kreditförfrågningar till</Label>
+          <Select value={reassignTo} onValueChange={setReassignTo}>
+            <SelectTrigger id="reassign-to">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_REASSIGNMENT}>Ingen – användaren har inget att överföra</SelectItem>
+              {candidates.map(candidate => (
+                <SelectItem key={candidate.id} value={candidate.id}>
+                  {candidate.full_name || candidate.email}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex justify-end gap-2 pt-4">
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Avbryt
+          </Button>
+          <Button variant="destructive" onClick={handleDelete} disabled={deleting}>
+            {deleting ? 'Tar bort...' : 'Ta bort'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
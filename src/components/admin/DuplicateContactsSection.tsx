@@ -0,0 +1,211 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { EmptyState } from '@/components/ui/empty-state';
+import { toast } from 'sonner';
+import { Copy, Merge, X } from 'lucide-react';
+import { format } from 'date-fns';
+import { sv } from 'date-fns/locale';
+import { DUPLICATE_REASON_LABELS, type DuplicateMatchReason } from '@/lib/duplicates';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+
+interface FlaggedContact {
+  id: string;
+  name: string | null;
+  email: string;
+  phone: string | null;
+  address: string | null;
+  postal_code: string | null;
+  date_sent: string;
+  contact_organizations: { organization: { name: string } | null }[];
+}
+
+interface DuplicateFlag {
+  id: string;
+  match_reasons: string[];
+  created_at: string;
+  contact: FlaggedContact | null;
+  duplicate_of: FlaggedContact | null;
+}
+
+const CONTACT_FIELDS = 'id, name, email, phone, address, postal_code, date_sent, contact_organizations(organization:organizations(name))';
+
+export const DuplicateContactsSection = () => {
+  const { user } = useAuth();
+  const [flags, setFlags] = useState<DuplicateFlag[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [pendingMerge, setPendingMerge] = useState<{ keep: FlaggedContact; merge: FlaggedContact } | null>(null);
+  const [merging, setMerging] = useState(false);
+
+  const fetchFlags = async () => {
+    const { data, error } = await supabase
+      .from('contact_duplicate_flags')
+      .select(`
+        id, match_reasons, created_at,
+        contact:contacts!contact_duplicate_flags_contact_id_fkey(${CONTACT_FIELDS}),
+        duplicate_of:contacts!contact_duplicate_flags_duplicate_of_contact_id_fkey(${CONTACT_FIELDS})
+      `)
+      .eq('status', 'open')
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching duplicate flags:', error);
+    } else {
+      setFlags((data || []) as unknown as DuplicateFlag[]);
+    }
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    fetchFlags();
+  }, []);
+
+  const handleDismiss = async (flagId: string) => {
+    const { error } = await supabase
+      .from('contact_duplicate_flags')
+      .update({ status: 'dismissed', resolved_by: user?.id, resolved_at: new Date().toISOString() })
+      .eq('id', flagId);
+
+    if (error) {
+      toast.error('Kunde inte avfärda dubbletten');
+      return;
+    }
+    toast.success('Markerad som inte dubblett');
+    fetchFlags();
+  };
+
+  const handleMerge = async () => {
+    if (!pendingMerge) return;
+
+    setMerging(true);
+    const { error } = await supabase.rpc('merge_contacts', {
+      _keep_contact_id: pendingMerge.keep.id,
+      _merge_contact_id: pendingMerge.merge.id,
+    });
+    setMerging(false);
+    setPendingMerge(null);
+
+    if (error) {
+      // Two sales for the same partner are resolved by hand, never merged
+      const salePartner = error.message.match(/^SALE_CONFLICT: both contacts have a sale for (.*)$/)?.[1];
+      toast.error(salePartner
+        ? `Båda kontakterna har en affär med ${salePartner}. Lös den dubbla affären innan de slås ihop.`
+        : 'Kunde inte slå ihop kontakterna: ' + error.message);
+      return;
+    }
+    toast.success('Kontakterna är sammanslagna');
+    fetchFlags();
+  };
+
+  const renderContact = (contact: FlaggedContact, other: FlaggedContact) => (
+    <div className="flex-1 p-3 rounded-lg bg-muted/30 space-y-1 text-sm">
+      <p className="font-medium">{contact.name || contact.email}</p>
+      <p className="text-muted-foreground">{contact.email}</p>
+      {contact.phone && <p className="text-muted-foreground">{contact.phone}</p>}
+      {contact.address && (
+        <p className="text-muted-foreground">
+          {contact.address}{contact.postal_code ? `, ${contact.postal_code}` : ''}
+        </p>
+      )}
+      <p className="text-xs text-muted-foreground">
+        Skickad {format(new Date(contact.date_sent), 'd MMM yyyy', { locale: sv })}
+        {contact.contact_organizations.length > 0 && (
+          <> • {contact.contact_organizations.map(co => co.organization?.name).filter(Boolean).join(', ')}</>
+        )}
+      </p>
+      <Button
+        size="sm"
+        variant="outline"
+        className="mt-2 h-7 text-xs gap-1"
+        onClick={() => setPendingMerge({ keep: contact, merge: other })}
+      >
+        <Merge className="w-3 h-3" />
+        Behåll denna
+      </Button>
+    </div>
+  );
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-32">
+        <div className="w-6 h-6 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <Card className="glass-card">
+      <CardHeader className="pb-4">
+        <CardTitle className="text-xl">Dubbletter</CardTitle>
+        <CardDescription>
+          Kontakter med samma e-post, telefon eller adress. Slå ihop dem så att partners inte faktureras två gånger.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {flags.length === 0 ? (
+          <EmptyState
+            icon={Copy}
+            title="Inga dubbletter"
+            description="Det finns inga misstänkta dubbletter att granska"
+          />
+        ) : (
+          <div className="space-y-4">
+            {flags.map((flag) => flag.contact && flag.duplicate_of && (
+              <div key={flag.id} className="p-4 rounded-xl border border-border space-y-3">
+                <div className="flex items-center justify-between">
+                  <div className="flex gap-1">
+                    {flag.match_reasons.map(reason => (
+                      <Badge key={reason} variant="outline">
+                        {DUPLICATE_REASON_LABELS[reason as DuplicateMatchReason] || reason}
+                      </Badge>
+                    ))}
+                  </div>
+                  <Button size="sm" variant="ghost" className="gap-1 text-muted-foreground" onClick={() => handleDismiss(flag.id)}>
+                    <X className="w-4 h-4" />
+                    Inte dubblett
+                  </Button>
+                </div>
+                <div className="flex flex-col sm:flex-row gap-3">
+                  {renderContact(flag.duplicate_of, flag.contact)}
+                  {renderContact(flag.contact, flag.duplicate_of)}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <AlertDialog open={!!pendingMerge} onOpenChange={() => setPendingMerge(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Slå ihop kontakter?</AlertDialogTitle>
+            <AlertDialogDescription>
+              <strong>{pendingMerge?.merge.name || pendingMerge?.merge.email}</strong> tas bort och dess partners, krediter,
+              affärer, aktiviteter och uppföljningar flyttas till <strong>{pendingMerge?.keep.name || pendingMerge?.keep.email}</strong>.
+              Dubbla kreditansökningar för samma partner avslås och partnernas utfall och anteckningar slås ihop.
+              Har båda en affär med samma partner stoppas sammanslagningen. Detta kan inte ångras.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Avbryt</AlertDialogCancel>
+            <AlertDialogAction onClick={handleMerge} disabled={merging}>
+              Slå ihop
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
@@ -10,6 +10,8 @@ import { Separator } from '@/components/ui/separator';
 import { toast } from 'sonner';
 import { Plus, Trash2, Building2, Settings2, DollarSign, Percent, Calculator, Package, MapPin, CreditCard, Clock } from 'lucide-react';
 import { Checkbox } from '@/components/ui/checkbox';
+import { CoverageAreaEditor } from '@/components/admin/CoverageAreaEditor';
+import { computeCommission, type BillingModel, type CommissionResult } from '@/lib/commission';
 
 interface CostSegment {
   id?: string;
@@ -40,6 +42,7 @@ interface Partner {
   contact_phone: string | null;
   price_per_solar_deal: number | null;
   price_per_battery_deal: number | null;
+  price_per_sun_battery_deal?: number | null;
   price_per_site_visit: number | null;
   is_sales_consultant?: boolean;
   billing_model?: string;
@@ -71,6 +74,7 @@ export const EditPartnerDialog = ({ partner, open, onOpenChange, onUpdated }: Ed
     contact_phone: '',
     price_per_solar_deal: '',
     price_per_battery_deal: '',
+    price_per_sun_battery_deal: '',
     price_per_site_visit: '',
     is_sales_consultant: false,
     billing_model: 'fixed',
@@ -96,6 +100,7 @@ export const EditPartnerDialog = ({ partner, open, onOpenChange, onUpdated }: Ed
   });
   const [regions, setRegions] = useState<{ id: string; name: string }[]>([]);
   const [selectedRegions, setSelectedRegions] = useState<string[]>([]);
+  const [engineBreakdown, setEngineBreakdown] = useState<CommissionResult | null>(null);
 
   useEffect(() => {
     fetchProducts();
@@ -110,6 +115,7 @@ export const EditPartnerDialog = ({ partner, open, onOpenChange, onUpdated }: Ed
         contact_phone: partner.contact_phone || '',
         price_per_solar_deal: partner.price_per_solar_deal?.toString() || '',
         price_per_battery_deal: partner.price_per_battery_deal?.toString() || '',
+        price_per_sun_battery_deal: partner.price_per_sun_battery_deal?.toString() || '',
         price_per_site_visit: partner.price_per_site_visit?.toString() || '',
         is_sales_consultant: partner.is_sales_consultant || false,
         billing_model: partner.billing_model || 'fixed',
@@ -278,15 +284,11 @@ export const EditPartnerDialog = ({ partner, open, onOpenChange, onUpdated }: Ed
     toast.success('Kostnadssegment borttaget');
   };
 
-  // Calculate the "Allt över" billing breakdown
+  // Customer benefit for the "Allt över" preview. Billing itself comes from the commission engine.
   const billingBreakdown = useMemo(() => {
     const totalPriceInclMoms = parseFloat(formData.preview_total_price) || 0;
     const propertyOwners = parseInt(formData.preview_property_owners) || 1;
     const eurRate = parseFloat(formData.eur_to_sek_rate) || 11;
-    const lfFinansPercent = parseFloat(formData.lf_finans_percent) || 3;
-    const baseCost = parseFloat(formData.base_cost_for_billing) || 23000;
-    const companyShare = parseFloat(formData.company_markup_share) || 70;
-    const billingModel = formData.billing_model;
     
     const selectedProduct = products.find(p => p.id === formData.preview_product_id);
     const greenTechPercent = selectedProduct?.green_tech_deduction_percent || 48.5;
@@ -304,38 +306,11 @@ export const EditPartnerDialog = ({ partner, open, onOpenChange, onUpdated }: Ed
     // Price after green tech deduction (what customer actually pays)
     const priceAfterDeduction = totalPriceInclMoms - greenTechDeduction;
     
-    // Material cost in SEK (only for Emaldo products with EUR cost)
-    const materialCostSek = materialCostEur > 0 ? materialCostEur * eurRate : 0;
-    
-    // LF Finans fee (percentage of total price)
-    const lfFinansFee = totalPriceInclMoms * (lfFinansPercent / 100);
-    
     // Custom cost segments in SEK
     const customCostsSek = costSegments.reduce((sum, segment) => {
       return sum + (segment.is_eur ? segment.amount * eurRate : segment.amount);
     }, 0);
     
-    // Total costs
-    const totalCosts = baseCost + materialCostSek + lfFinansFee + customCostsSek;
-    
-    // BILLING IS BASED ON FULL PRICE (not after deduction)
-    // The green tech deduction only benefits the customer, not our billing
-    // Property owners do NOT affect what we bill - only what customer pays out of pocket
-    const priceExMoms = totalPriceInclMoms / 1.25;
-    
-    // Billable amount = price ex moms - costs
-    // NO extra from property owners - that deduction is a state subsidy for the customer
-    const billableAmount = priceExMoms - totalCosts;
-    
-    // For "Allt över" model: ALL påslag goes to ProffsKontakt (no split with installer)
-    // For "Satt provision" model: påslag is split between ProffsKontakt and installer
-    const companyBillable = billingModel === 'above_cost' 
-      ? billableAmount  // ProffsKontakt gets all of it
-      : billableAmount * (companyShare / 100);  // Split only for fixed model
-    const partnerBillable = billingModel === 'above_cost'
-      ? 0  // Installer gets nothing from påslag in "Allt över"
-      : billableAmount * ((100 - companyShare) / 100);
-    
     return {
       totalPriceInclMoms,
       greenTechDeduction,
@@ -344,21 +319,44 @@ export const EditPartnerDialog = ({ partner, open, onOpenChange, onUpdated }: Ed
       maxDeductionByPercent,
       deductionLimitedBy: totalMaxDeductionByOwners < maxDeductionByPercent ? 'owners' : 'percent',
       priceAfterDeduction,
-      priceExMoms,
-      baseCost,
-      materialCostSek,
       materialCostEur,
-      lfFinansFee,
       customCostsSek,
-      totalCosts,
-      billableAmount,
-      companyShare,
-      companyBillable,
-      partnerBillable,
-      billingModel,
     };
   }, [formData, products, costSegments]);
 
+  // Run the unsaved settings through the commission engine so the preview
+  // matches what won sales will be billed. Waits for a pause in typing, so a
+  // price is not sent once per keystroke.
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+
+    const timeout = setTimeout(() => {
+      computeCommission({
+        priceInclMoms: billingBreakdown.totalPriceInclMoms,
+        materialCostEur: billingBreakdown.materialCostEur,
+        eurToSekRate: parseFloat(formData.eur_to_sek_rate) || 11,
+        baseCost: parseFloat(formData.base_cost_for_billing) || 23000,
+        lfFinansPercent: parseFloat(formData.lf_finans_percent) || 3,
+        costSegmentsSek: billingBreakdown.customCostsSek,
+        billingModel: formData.billing_model as BillingModel,
+        companyMarkupShare: parseFloat(formData.company_markup_share) || 70,
+        fixedProvision: productProvisions[formData.preview_product_id] ?? null,
+      })
+        .then((result) => {
+          if (!cancelled) setEngineBreakdown(result);
+        })
+        .catch((error) => {
+          console.error('Error computing commission preview:', error);
+        });
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [open, billingBreakdown, formData, productProvisions]);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!partner) return;
@@ -373,6 +371,7 @@ export const EditPartnerDialog = ({ partner, open, onOpenChange, onUpdated }: Ed
           contact_phone: formData.contact_phone.trim() || null,
           price_per_solar_deal: formData.price_per_solar_deal ? parseFloat(formData.price_per_solar_deal) : null,
           price_per_battery_deal: formData.price_per_battery_deal ? parseFloat(formData.price_per_battery_deal) : null,
+          price_per_sun_battery_deal: formData.price_per_sun_battery_deal ? parseFloat(formData.price_per_sun_battery_deal) : null,
           price_per_site_visit: formData.price_per_site_visit ? parseFloat(formData.price_per_site_visit) : null,
           is_sales_consultant: formData.is_sales_consultant,
           billing_model: formData.billing_model,
@@ -504,6 +503,11 @@ export const EditPartnerDialog = ({ partner, open, onOpenChange, onUpdated }: Ed
 
           <Separator />
 
+          {/* Coverage polygons - saved directly, not with the form */}
+          <CoverageAreaEditor organizationId={partner.id} />
+
+          <Separator />
+
           {/* Lead Pricing */}
           <div className="space-y-4">
             <h3 className="font-medium flex items-center gap-2 text-sm text-muted-foreground uppercase tracking-wide">
@@ -511,7 +515,7 @@ export const EditPartnerDialog = ({ partner, open, onOpenChange, onUpdated }: Ed
               Lead-prissättning
             </h3>
             
-            <div className="grid grid-cols-3 gap-4">
+            <div className="grid grid-cols-2 gap-4">
               <div className="space-y-2">
                 <Label htmlFor="price_solar">Sol-pris (kr)</Label>
                 <Input
@@ -532,6 +536,16 @@ export const EditPartnerDialog = ({ partner, open, onOpenChange, onUpdated }: Ed
                   placeholder="300"
                 />
               </div>
+              <div className="space-y-2">
+                <Label htmlFor="price_sun_battery">Sol+batteri-pris (kr)</Label>
+                <Input
+                  id="price_sun_battery"
+                  type="number"
+                  value={formData.price_per_sun_battery_deal}
+                  onChange={(e) => setFormData(prev => ({ ...prev, price_per_sun_battery_deal: e.target.value }))}
+                  placeholder="Sol + batteri"
+                />
+              </div>
               <div className="space-y-2">
                 <Label htmlFor="price_visit">Platsbesök-pris (kr)</Label>
                 <Input
@@ -905,7 +919,7 @@ export const EditPartnerDialog = ({ partner, open, onOpenChange, onUpdated }: Ed
                         
                         <div className="flex justify-between text-muted-foreground">
                           <span>Pris ex. moms (÷ 1.25)</span>
-                          <span>{formatCurrency(billingBreakdown.priceExMoms)} kr</span>
+                          <span>{formatCurrency(engineBreakdown?.priceExMoms ?? 0)} kr</span>
                         </div>
                         
                         <Separator className="my-2" />
@@ -914,45 +928,45 @@ export const EditPartnerDialog = ({ partner, open, onOpenChange, onUpdated }: Ed
                         
                         <div className="flex justify-between text-muted-foreground">
                           <span>Baskostnad (installation)</span>
-                          <span>-{formatCurrency(billingBreakdown.baseCost)} kr</span>
+                          <span>-{formatCurrency(engineBreakdown?.baseCost ?? 0)} kr</span>
                         </div>
                         
-                        {billingBreakdown.materialCostSek > 0 && (
+                        {(engineBreakdown?.materialCostSek ?? 0) > 0 && (
                           <div className="flex justify-between text-muted-foreground">
                             <span>Materialkostnad ({billingBreakdown.materialCostEur} EUR × {formData.eur_to_sek_rate})</span>
-                            <span>-{formatCurrency(billingBreakdown.materialCostSek)} kr</span>
+                            <span>-{formatCurrency(engineBreakdown?.materialCostSek ?? 0)} kr</span>
                           </div>
                         )}
                         
                         <div className="flex justify-between text-muted-foreground">
                           <span>LF Finans ({formData.lf_finans_percent}%)</span>
-                          <span>-{formatCurrency(billingBreakdown.lfFinansFee)} kr</span>
+                          <span>-{formatCurrency(engineBreakdown?.lfFinansFee ?? 0)} kr</span>
                         </div>
                         
-                        {billingBreakdown.customCostsSek > 0 && (
+                        {(engineBreakdown?.costSegmentsSek ?? 0) > 0 && (
                           <div className="flex justify-between text-muted-foreground">
                             <span>Övriga kostnader</span>
-                            <span>-{formatCurrency(billingBreakdown.customCostsSek)} kr</span>
+                            <span>-{formatCurrency(engineBreakdown?.costSegmentsSek ?? 0)} kr</span>
                           </div>
                         )}
                         
                         <div className="flex justify-between font-medium pt-1 border-t">
                           <span>Totala kostnader</span>
-                          <span>-{formatCurrency(billingBreakdown.totalCosts)} kr</span>
+                          <span>-{formatCurrency(engineBreakdown?.totalCosts ?? 0)} kr</span>
                         </div>
                         
                         <Separator className="my-2" />
                         
                         <div className="flex justify-between text-lg font-bold pt-1 border-t">
                           <span>Fakturaunderlag (påslag)</span>
-                          <span className={billingBreakdown.billableAmount >= 0 ? 'text-success' : 'text-destructive'}>
-                            {formatCurrency(billingBreakdown.billableAmount)} kr
+                          <span className={(engineBreakdown?.billableAmount ?? 0) >= 0 ? 'text-success' : 'text-destructive'}>
+                            {formatCurrency(engineBreakdown?.billableAmount ?? 0)} kr
                           </span>
                         </div>
                         
                         <div className="flex justify-between text-primary font-medium">
                           <span>→ ProffsKontakt fakturerar</span>
-                          <span>{formatCurrency(billingBreakdown.companyBillable)} kr</span>
+                          <span>{formatCurrency(engineBreakdown?.invoiceableAmount ?? 0)} kr</span>
                         </div>
                         
                         <p className="text-xs text-muted-foreground mt-2 pt-2 border-t border-dashed">
@@ -0,0 +1,214 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { EmptyState } from '@/components/ui/empty-state';
+import { toast } from 'sonner';
+import { KeyRound, Plus, Copy } from 'lucide-react';
+import { format } from 'date-fns';
+import { sv } from 'date-fns/locale';
+
+interface LeadSource {
+  id: string;
+  name: string;
+  api_key_prefix: string;
+  is_active: boolean;
+  last_used_at: string | null;
+  created_at: string;
+}
+
+/**
+ * API keys for the create-deal ingestion API, one per lead source.
+ * Keys are generated in the database and only shown once.
+ */
+export const LeadSourceManagement = () => {
+  const [sources, setSources] = useState<LeadSource[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [addDialogOpen, setAddDialogOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [creating, setCreating] = useState(false);
+  const [createdKey, setCreatedKey] = useState<string | null>(null);
+
+  const fetchSources = async () => {
+    const { data, error } = await supabase
+      .from('lead_sources')
+      .select('id, name, api_key_prefix, is_active, last_used_at, created_at')
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching lead sources:', error);
+    } else {
+      setSources(data || []);
+    }
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    fetchSources();
+  }, []);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    setCreating(true);
+    const { data, error } = await supabase.rpc('create_lead_source', { _name: name });
+    setCreating(false);
+
+    if (error) {
+      toast.error('Kunde inte skapa leadkälla: ' + error.message);
+      return;
+    }
+
+    setCreatedKey(data);
+    setName('');
+    fetchSources();
+  };
+
+  const handleToggleActive = async (source: LeadSource) => {
+    const { error } = await supabase
+      .from('lead_sources')
+      .update({ is_active: !source.is_active })
+      .eq('id', source.id);
+
+    if (error) {
+      toast.error('Kunde inte uppdatera leadkälla');
+      return;
+    }
+    toast.success(source.is_active ? 'API-nyckeln är spärrad' : 'API-nyckeln är aktiv');
+    fetchSources();
+  };
+
+  const closeAddDialog = (open: boolean) => {
+    setAddDialogOpen(open);
+    if (!open) {
+      setCreatedKey(null);
+      setName('');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-32">
+        <div className="w-6 h-6 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <Card className="glass-card">
+      <CardHeader className="flex flex-row items-center justify-between pb-4">
+        <div>
+          <CardTitle className="text-xl">Leadkällor</CardTitle>
+          <CardDescription>API-nycklar för externa källor som skickar leads via create-deal</CardDescription>
+        </div>
+        <Button className="gap-2" onClick={() => setAddDialogOpen(true)}>
+          <Plus className="w-4 h-4" />
+          Ny leadkälla
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {sources.length === 0 ? (
+          <EmptyState
+            icon={KeyRound}
+            title="Inga leadkällor"
+            description="Skapa en leadkälla för att få en API-nyckel"
+          />
+        ) : (
+          <div className="rounded-xl border border-border overflow-hidden">
+            <Table>
+              <TableHeader>
+                <TableRow className="bg-muted/30 hover:bg-muted/30">
+                  <TableHead className="font-semibold">Namn</TableHead>
+                  <TableHead className="font-semibold">Nyckel</TableHead>
+                  <TableHead className="font-semibold">Senast använd</TableHead>
+                  <TableHead className="font-semibold">Skapad</TableHead>
+                  <TableHead className="w-24 font-semibold">Aktiv</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sources.map((source) => (
+                  <TableRow key={source.id}>
+                    <TableCell className="font-medium">{source.name}</TableCell>
+                    <TableCell className="font-mono text-xs text-muted-foreground">{source.api_key_prefix}…</TableCell>
+                    <TableCell className="text-muted-foreground">
+                      {source.last_used_at
+                        ? format(new Date(source.last_used_at), 'd MMM yyyy HH:mm', { locale: sv })
+                        : 'Aldrig'}
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">
+                      {format(new Date(source.created_at), 'd MMM yyyy', { locale: sv })}
+                    </TableCell>
+                    <TableCell>
+                      <Switch checked={source.is_active} onCheckedChange={() => handleToggleActive(source)} />
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={addDialogOpen} onOpenChange={closeAddDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{createdKey ? 'API-nyckel skapad' : 'Ny leadkälla'}</DialogTitle>
+            {createdKey && (
+              <DialogDescription>
+                Kopiera nyckeln nu. Den sparas bara som hash och kan inte visas igen.
+              </DialogDescription>
+            )}
+          </DialogHeader>
+          {createdKey ? (
+            <div className="space-y-4">
+              <div className="flex gap-2">
+                <Input readOnly value={createdKey} className="font-mono text-xs" />
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="icon"
+                  onClick={() => {
+                    navigator.clipboard.writeText(createdKey);
+                    toast.success('Nyckeln är kopierad');
+                  }}
+                >
+                  <Copy className="w-4 h-4" />
+                </Button>
+              </div>
+              <div className="flex justify-end">
+                <Button onClick={() => closeAddDialog(false)}>Klar</Button>
+              </div>
+            </div>
+          ) : (
+            <form onSubmit={handleCreate} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="source_name">Namn</Label>
+                <Input
+                  id="source_name"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="Webbformulär"
+                  required
+                />
+              </div>
+              <div className="flex justify-end gap-2 pt-4">
+                <Button type="button" variant="outline" onClick={() => closeAddDialog(false)}>
+                  Avbryt
+                </Button>
+                <Button type="submit" disabled={creating}>
+                  {creating ? 'Skapar...' : 'Skapa nyckel'}
+                </Button>
+              </div>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
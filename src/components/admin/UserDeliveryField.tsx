@@ -0,0 +1,29 @@
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { USER_DELIVERY_OPTIONS, type UserDelivery } from '@/lib/users';
+
+interface UserDeliveryFieldProps {
+  id: string;
+  value: UserDelivery;
+  onChange: (value: UserDelivery) => void;
+}
+
+/**
+ * How a new user gets access: an invite or a sign-in link by email
+ */
+export const UserDeliveryField = ({ id, value, onChange }: UserDeliveryFieldProps) => (
+  <div className="space-y-2">
+    <Label>Åtkomst via e-post</Label>
+    <RadioGroup value={value} onValueChange={(v: UserDelivery) => onChange(v)} className="space-y-1">
+      {USER_DELIVERY_OPTIONS.map(option => (
+        <div key={option.key} className="flex items-start gap-2">
+          <RadioGroupItem value={option.key} id={`${id}-${option.key}`} className="mt-0.5" />
+          <Label htmlFor={`${id}-${option.key}`} className="font-normal cursor-pointer">
+            {option.label}
+            <span className="block text-xs text-muted-foreground">{option.description}</span>
+          </Label>
+        </div>
+      ))}
+    </RadioGroup>
+  </div>
+);
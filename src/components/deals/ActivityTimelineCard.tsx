@@ -0,0 +1,187 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Activity, Phone, Mail, StickyNote, CalendarCheck, ArrowRight, Trash2, type LucideIcon } from 'lucide-react';
+import { format } from 'date-fns';
+import { sv } from 'date-fns/locale';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { getPipelineStageLabel } from '@/lib/pipeline';
+import {
+  ACTIVITY_TYPE_LABELS,
+  LOGGABLE_ACTIVITY_TYPES,
+  VISIBILITY_LABELS,
+  fetchContactActivities,
+  type ActivityType,
+  type ActivityVisibility,
+  type ContactActivity,
+} from '@/lib/activities';
+
+const ACTIVITY_ICONS: Record<ActivityType, LucideIcon> = {
+  call: Phone,
+  email: Mail,
+  note: StickyNote,
+  meeting: CalendarCheck,
+  stage_change: ArrowRight,
+};
+
+interface ActivityTimelineCardProps {
+  contactId: string;
+  saleId?: string | null;
+}
+
+/**
+ * The contact's timeline. Internal users log calls, emails, notes and meetings;
+ * partners only see what was shared with them.
+ */
+export const ActivityTimelineCard = ({ contactId, saleId }: ActivityTimelineCardProps) => {
+  const { profile } = useAuth();
+  const [activities, setActivities] = useState<ContactActivity[]>([]);
+  const [activityType, setActivityType] = useState<ActivityType>('note');
+  const [visibility, setVisibility] = useState<ActivityVisibility>('internal');
+  const [body, setBody] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const canLog = !!profile && profile.role !== 'organization';
+
+  const loadActivities = async () => {
+    setActivities(await fetchContactActivities(contactId));
+  };
+
+  useEffect(() => {
+    loadActivities();
+  }, [contactId]);
+
+  const handleLog = async () => {
+    if (!profile || !body.trim()) return;
+
+    setSaving(true);
+    const { error } = await supabase.from('contact_activities').insert({
+      contact_id: contactId,
+      sale_id: saleId || null,
+      activity_type: activityType,
+      visibility,
+      body: body.trim(),
+      author_id: profile.id,
+    });
+    setSaving(false);
+
+    if (error) {
+      toast.error('Kunde inte spara aktiviteten');
+      return;
+    }
+    setBody('');
+    loadActivities();
+  };
+
+  const handleDelete = async (activity: ContactActivity) => {
+    const { error } = await supabase.from('contact_activities').delete().eq('id', activity.id);
+    if (error) {
+      toast.error('Kunde inte ta bort aktiviteten');
+      return;
+    }
+    setActivities(prev => prev.filter(a => a.id !== activity.id));
+  };
+
+  return (
+    <Card className="glass-card">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-sm font-medium text-muted-foreground flex items-center gap-2">
+          <Activity className="w-4 h-4" />
+          Aktiviteter
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {canLog && (
+          <div className="space-y-2">
+            <div className="grid grid-cols-2 gap-2">
+              <Select value={activityType} onValueChange={(v) => setActivityType(v as ActivityType)}>
+                <SelectTrigger className="h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {LOGGABLE_ACTIVITY_TYPES.map(type => (
+                    <SelectItem key={type} value={type}>{ACTIVITY_TYPE_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={visibility} onValueChange={(v) => setVisibility(v as ActivityVisibility)}>
+                <SelectTrigger className="h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(VISIBILITY_LABELS) as ActivityVisibility[]).map(key => (
+                    <SelectItem key={key} value={key}>{VISIBILITY_LABELS[key]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Textarea
+              value={body}
+              onChange={(e) => setBody(e.target.value)}
+              placeholder="Vad hände?"
+              rows={2}
+            />
+            <div className="flex justify-end">
+              <Button size="sm" onClick={handleLog} disabled={saving || !body.trim()}>
+                {saving ? 'Sparar...' : 'Logga'}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {activities.length === 0 ? (
+          <p className="text-muted-foreground text-sm">Inga aktiviteter ännu</p>
+        ) : (
+          <div className="space-y-2">
+            {activities.map(activity => {
+              const Icon = ACTIVITY_ICONS[activity.activity_type];
+              return (
+                <div key={activity.id} className="flex gap-3 p-3 rounded-lg bg-muted/30 text-sm group">
+                  <div className="p-1.5 h-fit rounded-md bg-primary/10">
+                    <Icon className="w-3.5 h-3.5 text-primary" />
+                  </div>
+                  <div className="flex-1 min-w-0 space-y-1">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-medium">{ACTIVITY_TYPE_LABELS[activity.activity_type]}</span>
+                      {activity.visibility === 'partner' && (
+                        <Badge variant="outline" className="text-xs">{VISIBILITY_LABELS.partner}</Badge>
+                      )}
+                    </div>
+                    {activity.activity_type === 'stage_change' ? (
+                      <p className="text-muted-foreground">
+                        {activity.from_status ? `${getPipelineStageLabel(activity.from_status)} → ` : ''}
+                        {getPipelineStageLabel(activity.to_status)}
+                      </p>
+                    ) : (
+                      <p className="whitespace-pre-wrap break-words">{activity.body}</p>
+                    )}
+                    <p className="text-xs text-muted-foreground">
+                      {activity.author?.full_name || activity.author?.email || (activity.author_id ? 'ProffsKontakt' : 'System')}
+                      {' · '}
+                      {format(new Date(activity.created_at), 'd MMM yyyy HH:mm', { locale: sv })}
+                    </p>
+                  </div>
+                  {activity.author_id === profile?.id && activity.activity_type !== 'stage_change' && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 w-7 p-0 opacity-0 group-hover:opacity-100 transition-opacity"
+                      onClick={() => handleDelete(activity)}
+                    >
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </Button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -141,7 +141,7 @@ export const AssignToCloserDialog = ({
           contact_id: contact.id,
           closer_id: selectedCloserId,
           organization_id: org.id,
-          pipeline_status: 'new',
+          pipeline_status: 'new' as const,
         }));
       });
 
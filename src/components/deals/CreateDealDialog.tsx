@@ -7,17 +7,15 @@ import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Checkbox } from '@/components/ui/checkbox';
 import { toast } from 'sonner';
-import { Plus } from 'lucide-react';
+import { Plus, AlertTriangle } from 'lucide-react';
 import { z } from 'zod';
 import type { Database } from '@/integrations/supabase/types';
+import { findContactDuplicates, formatMatchReasons, type DuplicateCandidate } from '@/lib/duplicates';
+import { useCreateDeal } from '@/hooks/queries/use-contacts';
+import { useOrganizations } from '@/hooks/queries/use-organizations';
 
 type InterestType = Database['public']['Enums']['interest_type'];
 
-interface Organization {
-  id: string;
-  name: string;
-}
-
 interface Opener {
   id: string;
   full_name: string | null;
@@ -28,42 +26,50 @@ const dealSchema = z.object({
   email: z.string().trim().email({ message: "Ogiltig e-postadress" }).max(255),
   phone: z.string().trim().max(50).optional(),
   address: z.string().trim().max(500).optional(),
+  postal_code: z.string().trim().regex(/^\d{3}\s?\d{2}$/, { message: "Ogiltigt postnummer" }).optional(),
   interest: z.enum(['sun', 'battery', 'sun_battery']),
   opener_id: z.string().min(1, { message: "Välj en opener" }),
-  organizations: z.array(z.string()).min(1, { message: "Välj minst en organisation" })
+  organizations: z.array(z.string()),
+  auto_distribute: z.boolean()
+}).refine(data => data.auto_distribute || data.organizations.length > 0, {
+  message: "Välj minst en organisation",
+  path: ['organizations']
 });
 
-interface CreateDealDialogProps {
-  onDealCreated: () => void;
-}
-
-export const CreateDealDialog = ({ onDealCreated }: CreateDealDialogProps) => {
+export const CreateDealDialog = () => {
   const [open, setOpen] = useState(false);
-  const [loading, setLoading] = useState(false);
-  const [organizations, setOrganizations] = useState<Organization[]>([]);
+  const [checkingDuplicates, setCheckingDuplicates] = useState(false);
+  const { data: organizations = [] } = useOrganizations();
+  const createDeal = useCreateDeal();
+  const loading = checkingDuplicates || createDeal.isPending;
   const [openers, setOpeners] = useState<Opener[]>([]);
   const [formData, setFormData] = useState({
     email: '',
     phone: '',
     address: '',
+    postal_code: '',
     interest: 'sun' as InterestType,
     opener_id: '',
-    selectedOrgs: [] as string[]
+    selectedOrgs: [] as string[],
+    autoDistribute: true
   });
   const [errors, setErrors] = useState<Record<string, string>>({});
+  // Likely duplicates found on the first submit; a second submit creates the deal anyway
+  const [duplicates, setDuplicates] = useState<DuplicateCandidate[] | null>(null);
 
   useEffect(() => {
-    const fetchData = async () => {
-      const [orgsResult, openersResult] = await Promise.all([
-        supabase.from('organizations').select('id, name').order('name'),
-        supabase.from('profiles').select('id, full_name, email').in('role', ['opener', 'teamleader'])
-      ]);
-      if (orgsResult.data) setOrganizations(orgsResult.data);
-      if (openersResult.data) setOpeners(openersResult.data);
+    const fetchOpeners = async () => {
+      const { data } = await supabase.from('profiles').select('id, full_name, email').in('role', ['opener', 'teamleader']);
+      if (data) setOpeners(data);
     };
-    fetchData();
+    fetchOpeners();
   }, []);
 
+  // Contact details changed, so the duplicate check has to run again
+  useEffect(() => {
+    setDuplicates(null);
+  }, [formData.email, formData.phone, formData.address, formData.postal_code]);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -73,9 +79,11 @@ export const CreateDealDialog = ({ onDealCreated }: CreateDealDialogProps) => {
       email: formData.email,
       phone: formData.phone || undefined,
       address: formData.address || undefined,
+      postal_code: formData.postal_code || undefined,
       interest: formData.interest,
       opener_id: formData.opener_id,
-      organizations: formData.selectedOrgs
+      organizations: formData.selectedOrgs,
+      auto_distribute: formData.autoDistribute
     });
 
     if (!validation.success) {
@@ -89,53 +97,71 @@ export const CreateDealDialog = ({ onDealCreated }: CreateDealDialogProps) => {
       return;
     }
 
-    setLoading(true);
+    if (duplicates === null) {
+      setCheckingDuplicates(true);
+      try {
+        const found = await findContactDuplicates({
+          email: formData.email.trim(),
+          phone: formData.phone.trim(),
+          address: formData.address.trim(),
+          postal_code: formData.postal_code,
+        });
+        if (found.length > 0) {
+          setDuplicates(found);
+          return;
+        }
+      } catch (error) {
+        console.error('Error checking duplicates:', error);
+        toast.error('Kunde inte skapa deal');
+        return;
+      } finally {
+        setCheckingDuplicates(false);
+      }
+    }
 
-    try {
-      // Create contact with selected opener
-      const { data: contact, error: contactError } = await supabase
-        .from('contacts')
-        .insert({
+    createDeal.mutate(
+      {
+        contact: {
           email: formData.email.trim(),
           phone: formData.phone.trim() || null,
           address: formData.address.trim() || null,
+          postal_code: formData.postal_code.replace(/\s/g, '') || null,
           interest: formData.interest,
-          opener_id: formData.opener_id
-        })
-        .select()
-        .single();
-
-      if (contactError) throw contactError;
-
-      // Create contact_organizations relationships
-      const orgRelations = formData.selectedOrgs.map(orgId => ({
-        contact_id: contact.id,
-        organization_id: orgId
-      }));
-
-      const { error: orgError } = await supabase
-        .from('contact_organizations')
-        .insert(orgRelations);
-
-      if (orgError) throw orgError;
-
-      toast.success('Deal skapad!');
-      setOpen(false);
-      setFormData({
-        email: '',
-        phone: '',
-        address: '',
-        interest: 'sun',
-        opener_id: '',
-        selectedOrgs: []
-      });
-      onDealCreated();
-    } catch (error: any) {
-      console.error('Error creating deal:', error);
-      toast.error('Kunde inte skapa deal');
-    } finally {
-      setLoading(false);
-    }
+          opener_id: formData.opener_id,
+        },
+        organizationIds: formData.autoDistribute ? undefined : formData.selectedOrgs,
+      },
+      {
+        onSuccess: (data) => {
+          if (formData.autoDistribute) {
+            const selectedCount = (data.distribution || []).filter(d => d.selected).length;
+            if (selectedCount === 0) {
+              toast.warning('Deal skapad, men ingen partner matchade. Koppla organisationer manuellt.');
+            } else {
+              toast.success(`Deal skapad och fördelad till ${selectedCount} partner${selectedCount === 1 ? '' : 's'}`);
+            }
+          } else {
+            toast.success('Deal skapad!');
+          }
+          setOpen(false);
+          setFormData({
+            email: '',
+            phone: '',
+            address: '',
+            postal_code: '',
+            interest: 'sun',
+            opener_id: '',
+            selectedOrgs: [],
+            autoDistribute: true
+          });
+          setDuplicates(null);
+        },
+        onError: (error) => {
+          console.error('Error creating deal:', error);
+          toast.error('Kunde inte skapa deal');
+        },
+      }
+    );
   };
 
   const toggleOrganization = (orgId: string) => {
@@ -193,6 +219,17 @@ export const CreateDealDialog = ({ onDealCreated }: CreateDealDialogProps) => {
             />
           </div>
 
+          <div className="space-y-2">
+            <Label htmlFor="postal_code">Postnummer</Label>
+            <Input
+              id="postal_code"
+              value={formData.postal_code}
+              onChange={(e) => setFormData(prev => ({ ...prev, postal_code: e.target.value }))}
+              placeholder="123 45"
+            />
+            {errors.postal_code && <p className="text-sm text-destructive">{errors.postal_code}</p>}
+          </div>
+
           <div className="space-y-2">
             <Label htmlFor="interest">Intresse *</Label>
             <Select
@@ -230,31 +267,69 @@ export const CreateDealDialog = ({ onDealCreated }: CreateDealDialogProps) => {
             {errors.opener_id && <p className="text-sm text-destructive">{errors.opener_id}</p>}
           </div>
 
-          <div className="space-y-2">
-            <Label>Organisationer *</Label>
-            <div className="border rounded-lg p-3 space-y-2 max-h-40 overflow-y-auto bg-muted/30">
-              {organizations.map((org) => (
-                <div key={org.id} className="flex items-center gap-2">
-                  <Checkbox
-                    id={org.id}
-                    checked={formData.selectedOrgs.includes(org.id)}
-                    onCheckedChange={() => toggleOrganization(org.id)}
-                  />
-                  <label htmlFor={org.id} className="text-sm cursor-pointer">
-                    {org.name}
-                  </label>
+          <div className="flex items-start gap-2">
+            <Checkbox
+              id="auto-distribute"
+              checked={formData.autoDistribute}
+              onCheckedChange={(checked) => setFormData(prev => ({ ...prev, autoDistribute: checked === true }))}
+            />
+            <div className="space-y-1">
+              <label htmlFor="auto-distribute" className="text-sm font-medium cursor-pointer">
+                Automatisk fördelning
+              </label>
+              <p className="text-xs text-muted-foreground">
+                Väljer partners utifrån område, intresse, kvot och status
+              </p>
+            </div>
+          </div>
+
+          {!formData.autoDistribute && (
+            <div className="space-y-2">
+              <Label>Organisationer *</Label>
+              <div className="border rounded-lg p-3 space-y-2 max-h-40 overflow-y-auto bg-muted/30">
+                {organizations.map((org) => (
+                  <div key={org.id} className="flex items-center gap-2">
+                    <Checkbox
+                      id={org.id}
+                      checked={formData.selectedOrgs.includes(org.id)}
+                      onCheckedChange={() => toggleOrganization(org.id)}
+                    />
+                    <label htmlFor={org.id} className="text-sm cursor-pointer">
+                      {org.name}
+                    </label>
+                  </div>
+                ))}
+              </div>
+              {errors.organizations && <p className="text-sm text-destructive">{errors.organizations}</p>}
+            </div>
+          )}
+
+          {duplicates && duplicates.length > 0 && (
+            <div className="rounded-lg border border-amber-500/50 bg-amber-500/10 p-3 space-y-2">
+              <p className="text-sm font-medium flex items-center gap-2">
+                <AlertTriangle className="w-4 h-4 text-amber-600" />
+                Möjlig dubblett
+              </p>
+              {duplicates.map((duplicate) => (
+                <div key={duplicate.contact_id} className="text-xs text-muted-foreground">
+                  <span className="font-medium text-foreground">
+                    {duplicate.name || duplicate.email || 'Befintlig kontakt'}
+                  </span>
+                  {' '}• skickad {duplicate.date_sent} • matchar {formatMatchReasons(duplicate.match_reasons).toLowerCase()}
                 </div>
               ))}
+              <p className="text-xs text-muted-foreground">
+                Kontrollera att det inte är samma kund innan du skapar dealen.
+              </p>
             </div>
-            {errors.organizations && <p className="text-sm text-destructive">{errors.organizations}</p>}
-          </div>
+          )}
 
           <div className="flex justify-end gap-2 pt-4">
             <Button type="button" variant="outline" onClick={() => setOpen(false)}>
               Avbryt
             </Button>
             <Button type="submit" disabled={loading}>
-              {loading ? 'Skapar...' : 'Skapa Deal'}
+              {loading ? 'Skapar...' : duplicates?.length ? 'Skapa ändå' : 'Skapa Deal'}
             </Button>
           </div>
         </form>
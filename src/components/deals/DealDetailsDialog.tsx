@@ -15,10 +15,20 @@ import { sv } from 'date-fns/locale';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/contexts/AuthContext';
+import { useUpdateDeal } from '@/hooks/queries/use-contacts';
+import { useUpdateCreditRequest } from '@/hooks/queries/use-credits';
+import type { DealOrganization } from '@/lib/deals';
+import { LeadDistributionCard } from '@/components/deals/LeadDistributionCard';
+import { ActivityTimelineCard } from '@/components/deals/ActivityTimelineCard';
+import { FollowUpCard } from '@/components/deals/FollowUpCard';
 
 interface Organization {
   id: string;
   name: string;
+  price_per_solar_deal?: number | null;
+  price_per_battery_deal?: number | null;
+  is_sales_consultant?: boolean | null;
+  sales_consultant_lead_type?: string | null;
 }
 
 interface Opener {
@@ -79,14 +89,15 @@ interface DealDetailsDialogProps {
   organizations: Organization[];
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  onDealUpdated?: () => void;
 }
 
-export const DealDetailsDialog = ({ contact, organizations, open, onOpenChange, onDealUpdated }: DealDetailsDialogProps) => {
+export const DealDetailsDialog = ({ contact, organizations, open, onOpenChange }: DealDetailsDialogProps) => {
   const { profile } = useAuth();
   const { toast } = useToast();
+  const updateDeal = useUpdateDeal();
+  const updateCreditRequest = useUpdateCreditRequest();
   const [isEditing, setIsEditing] = useState(false);
-  const [loading, setLoading] = useState(false);
+  const loading = updateDeal.isPending || updateCreditRequest.isPending;
   const [openers, setOpeners] = useState<Opener[]>([]);
   const [products, setProducts] = useState<Product[]>([]);
   const [fullCreditRequests, setFullCreditRequests] = useState<CreditRequest[]>([]);
@@ -123,20 +134,22 @@ export const DealDetailsDialog = ({ contact, organizations, open, onOpenChange,
     fetchData();
   }, []);
   
-  // Fetch full credit requests and contact_organizations when dialog opens
+  // Fetch full credit requests and contact_organizations when dialog opens.
+  // Keyed on the id, the contact itself is replaced whenever the list refetches.
+  const contactId = contact?.id;
   useEffect(() => {
-    if (!contact || !open) return;
+    if (!contactId || !open) return;
     
     const fetchCreditDetails = async () => {
       const [creditRes, contactOrgsRes] = await Promise.all([
         supabase
           .from('credit_requests')
           .select('id, status, organization_id, credit_date, reason')
-          .eq('contact_id', contact.id),
+          .eq('contact_id', contactId),
         supabase
           .from('contact_organizations')
           .select('id, organization_id, sold_to_partner')
-          .eq('contact_id', contact.id)
+          .eq('contact_id', contactId)
       ]);
       
       if (creditRes.data) {
@@ -158,7 +171,7 @@ export const DealDetailsDialog = ({ contact, organizations, open, onOpenChange,
     };
     
     fetchCreditDetails();
-  }, [contact, open]);
+  }, [contactId, open]);
 
   const isAdmin = profile?.role === 'admin';
   const isCloser = profile?.role === ('closer' as string);
@@ -238,123 +251,94 @@ export const DealDetailsDialog = ({ contact, organizations, open, onOpenChange,
     }));
   };
   
-  const saveCreditChanges = async (creditId: string) => {
+  const fetchCreditRequests = async (contactId: string) => {
+    const { data } = await supabase
+      .from('credit_requests')
+      .select('id, status, organization_id, credit_date, reason')
+      .eq('contact_id', contactId);
+    if (data) setFullCreditRequests(data as CreditRequest[]);
+  };
+
+  const fetchContactOrgs = async (contactId: string) => {
+    const { data } = await supabase
+      .from('contact_organizations')
+      .select('id, organization_id, sold_to_partner')
+      .eq('contact_id', contactId);
+    if (data) setContactOrgs(data as ContactOrg[]);
+  };
+
+  const saveCreditChanges = (creditId: string) => {
     const edit = creditEdits[creditId];
-    if (!edit) return;
-    
-    setLoading(true);
-    try {
-      const { error } = await supabase
-        .from('credit_requests')
-        .update({ 
-          status: edit.status as 'pending' | 'approved' | 'denied',
-          credit_date: edit.credit_date,
-        })
-        .eq('id', creditId);
-      
-      if (error) throw error;
-      
-      toast({ title: 'Kreditstatus uppdaterad' });
-      onDealUpdated?.();
-      
-      // Refresh credit requests
-      const { data } = await supabase
-        .from('credit_requests')
-        .select('id, status, organization_id, credit_date, reason')
-        .eq('contact_id', contact!.id);
-      if (data) setFullCreditRequests(data as CreditRequest[]);
-    } catch (error: unknown) {
-      toast({ title: 'Fel', description: (error as Error).message, variant: 'destructive' });
-    } finally {
-      setLoading(false);
-    }
+    if (!edit || !contact) return;
+
+    updateCreditRequest.mutate(
+      {
+        creditRequestId: creditId,
+        status: edit.status as 'pending' | 'approved' | 'denied',
+        creditDate: edit.credit_date,
+      },
+      {
+        onSuccess: () => toast({ title: 'Kreditstatus uppdaterad' }),
+        onError: (error) => toast({ title: 'Fel', description: error.message, variant: 'destructive' }),
+        onSettled: () => fetchCreditRequests(contact.id),
+      }
+    );
   };
 
-  const handleSave = async () => {
+  const handleSave = () => {
     if (!contact) return;
-    setLoading(true);
 
-    try {
-      // Update contact
-      const { error: contactError } = await supabase
-        .from('contacts')
-        .update({
+    const linkedOrganizations: DealOrganization[] = organizations
+      .filter(org => editData.selectedOrganizations.includes(org.id))
+      .map(org => ({
+        id: org.id,
+        name: org.name,
+        price_per_solar_deal: org.price_per_solar_deal ?? null,
+        price_per_battery_deal: org.price_per_battery_deal ?? null,
+        is_sales_consultant: org.is_sales_consultant ?? false,
+        sales_consultant_lead_type: org.sales_consultant_lead_type ?? null,
+        sold_to_partner: editData.soldToPartner[org.id] || false,
+      }));
+
+    const opener = openers.find(o => o.id === editData.opener_id);
+    const sale = contact.sales?.[0];
+
+    updateDeal.mutate(
+      {
+        contactId: contact.id,
+        fields: {
           name: editData.name || null,
           email: editData.email,
           phone: editData.phone || null,
           address: editData.address || null,
           interest: editData.interest,
           opener_id: editData.opener_id,
-        })
-        .eq('id', contact.id);
-
-      if (contactError) throw contactError;
-
-      // Update organization links
-      // First, delete existing links
-      await supabase
-        .from('contact_organizations')
-        .delete()
-        .eq('contact_id', contact.id);
-
-      // Then, insert new links with sold_to_partner flags
-      if (editData.selectedOrganizations.length > 0) {
-        const orgLinks = editData.selectedOrganizations.map(orgId => ({
-          contact_id: contact.id,
-          organization_id: orgId,
-          sold_to_partner: editData.soldToPartner[orgId] || false,
-        }));
-
-        const { error: linkError } = await supabase
-          .from('contact_organizations')
-          .insert(orgLinks);
-
-        if (linkError) throw linkError;
-      }
-
-      // Update local contact data immediately for instant UI update
-      if (contact) {
-        const updatedOrgs = organizations.filter(org => 
-          editData.selectedOrganizations.includes(org.id)
-        );
-        contact.organizations = updatedOrgs;
-        contact.name = editData.name || null;
-        contact.email = editData.email;
-        contact.phone = editData.phone || null;
-        contact.address = editData.address || null;
-        contact.interest = editData.interest;
-      }
-
-      // Update product info if user has permission and there's a sale
-      if (canEditProduct && contact.sales?.[0]) {
-        const saleUpdate: Record<string, unknown> = {
-          product_id: editData.useCustomProduct ? null : (editData.product_id || null),
-          custom_product_name: editData.useCustomProduct ? editData.custom_product_name || null : null,
-          custom_product_price: editData.useCustomProduct && editData.custom_product_price ? parseFloat(editData.custom_product_price) : null,
-          custom_product_material_cost_eur: editData.useCustomProduct && editData.custom_product_material_cost_eur ? parseFloat(editData.custom_product_material_cost_eur) : null,
-        };
-
-        await supabase
-          .from('sales')
-          .update(saleUpdate)
-          .eq('id', contact.sales[0].id);
+        },
+        opener: opener ? { email: opener.email, full_name: opener.full_name } : undefined,
+        organizations: linkedOrganizations,
+        // Product info only for users who may change it
+        sale: canEditProduct && sale
+          ? {
+            id: sale.id,
+            changes: {
+              product_id: editData.useCustomProduct ? null : (editData.product_id || null),
+              custom_product_name: editData.useCustomProduct ? editData.custom_product_name || null : null,
+              custom_product_price: editData.useCustomProduct && editData.custom_product_price ? parseFloat(editData.custom_product_price) : null,
+              custom_product_material_cost_eur: editData.useCustomProduct && editData.custom_product_material_cost_eur ? parseFloat(editData.custom_product_material_cost_eur) : null,
+            },
+          }
+          : null,
+      },
+      {
+        onSuccess: () => {
+          toast({ title: 'Deal uppdaterad' });
+          setIsEditing(false);
+        },
+        onError: (error) => toast({ title: 'Fel', description: error.message, variant: 'destructive' }),
+        // New links get their ids on save
+        onSettled: () => fetchContactOrgs(contact.id),
       }
-      
-      // Refresh contact_organizations
-      const { data: coData } = await supabase
-        .from('contact_organizations')
-        .select('id, organization_id, sold_to_partner')
-        .eq('contact_id', contact.id);
-      if (coData) setContactOrgs(coData as ContactOrg[]);
-
-      toast({ title: 'Deal uppdaterad' });
-      setIsEditing(false);
-      onDealUpdated?.();
-    } catch (error: unknown) {
-      toast({ title: 'Fel', description: (error as Error).message, variant: 'destructive' });
-    } finally {
-      setLoading(false);
-    }
+    );
   };
 
   if (!contact) return null;
@@ -769,6 +753,20 @@ export const DealDetailsDialog = ({ contact, organizations, open, onOpenChange,
               </CardContent>
             </Card>
           )}
+
+          {/* Lead distribution - why each partner was selected or skipped */}
+          {!isEditing && (isAdmin || profile?.role === 'teamleader') && (
+            <LeadDistributionCard contactId={contact.id} />
+          )}
+
+          {/* Follow-ups and the activity timeline */}
+          {!isEditing && profile && profile.role !== 'organization' && (
+            <FollowUpCard contactId={contact.id} saleId={contact.sales?.[0]?.id} />
+          )}
+
+          {!isEditing && (
+            <ActivityTimelineCard contactId={contact.id} saleId={contact.sales?.[0]?.id} />
+          )}
         </div>
       </DialogContent>
     </Dialog>
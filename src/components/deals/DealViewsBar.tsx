@@ -0,0 +1,268 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Bookmark, Pencil, Save, Star, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import type { DealSortColumn } from '@/lib/deals';
+import type { UserRole } from '@/lib/permissions';
+import {
+  SHARE_ROLE_OPTIONS,
+  createDealView,
+  deleteDealView,
+  fetchDealViews,
+  fetchDefaultDealViewId,
+  setDefaultDealView,
+  toDealViewSettings,
+  updateDealView,
+  type DealView,
+  type DealViewSettings,
+} from '@/lib/dealViews';
+
+const STANDARD_VIEW = 'standard';
+const NOT_SHARED = 'none';
+
+interface DealViewsBarProps {
+  settings: DealViewSettings;
+  allColumns: DealSortColumn[];
+  // null goes back to the standard layout
+  onApply: (settings: DealViewSettings | null) => void;
+  // Called once the default view, if any, has been applied
+  onReady?: () => void;
+}
+
+/**
+ * Pick, save and share Deals views. Opens the user's default view on load.
+ */
+export const DealViewsBar = ({ settings, allColumns, onApply, onReady }: DealViewsBarProps) => {
+  const { profile } = useAuth();
+  const [views, setViews] = useState<DealView[]>([]);
+  const [activeViewId, setActiveViewId] = useState<string | null>(null);
+  const [defaultViewId, setDefaultViewId] = useState<string | null>(null);
+  const [dialogMode, setDialogMode] = useState<'create' | 'edit' | null>(null);
+  const [name, setName] = useState('');
+  const [sharedWithRole, setSharedWithRole] = useState<string>(NOT_SHARED);
+  const [saving, setSaving] = useState(false);
+
+  const activeView = views.find(v => v.id === activeViewId) || null;
+  const ownsActiveView = !!activeView && activeView.owner_id === profile?.id;
+
+  useEffect(() => {
+    if (!profile) return;
+
+    const loadViews = async () => {
+      const [viewData, defaultId] = await Promise.all([
+        fetchDealViews(),
+        fetchDefaultDealViewId(profile.id),
+      ]);
+      setViews(viewData);
+      setDefaultViewId(defaultId);
+
+      const defaultView = viewData.find(v => v.id === defaultId);
+      if (defaultView) {
+        setActiveViewId(defaultView.id);
+        onApply(toDealViewSettings(defaultView, allColumns));
+      }
+      onReady?.();
+    };
+    loadViews();
+  }, [profile?.id]);
+
+  const handleSelect = (value: string) => {
+    if (value === STANDARD_VIEW) {
+      setActiveViewId(null);
+      onApply(null);
+      return;
+    }
+
+    const view = views.find(v => v.id === value);
+    if (!view) return;
+    setActiveViewId(view.id);
+    onApply(toDealViewSettings(view, allColumns));
+  };
+
+  const openDialog = (mode: 'create' | 'edit') => {
+    setName(mode === 'edit' && activeView ? activeView.name : '');
+    setSharedWithRole(mode === 'edit' && activeView?.shared_with_role ? activeView.shared_with_role : NOT_SHARED);
+    setDialogMode(mode);
+  };
+
+  const replaceView = (view: DealView) => {
+    setViews(prev => [...prev.filter(v => v.id !== view.id), view].sort((a, b) => a.name.localeCompare(b.name, 'sv')));
+    setActiveViewId(view.id);
+  };
+
+  // Store the current layout in the active view
+  const handleSave = async () => {
+    if (!activeView) return;
+
+    setSaving(true);
+    const { data, error } = await updateDealView(activeView.id, activeView.name, activeView.shared_with_role, settings);
+    setSaving(false);
+
+    if (error || !data) {
+      toast.error('Kunde inte spara vyn');
+      return;
+    }
+    replaceView(data);
+    toast.success('Vyn sparad');
+  };
+
+  const handleDialogSave = async () => {
+    if (!profile || !name.trim()) return;
+
+    const role = sharedWithRole === NOT_SHARED ? null : (sharedWithRole as UserRole);
+    setSaving(true);
+    const { data, error } = dialogMode === 'edit' && activeView
+      ? await updateDealView(activeView.id, name.trim(), role, settings)
+      : await createDealView(profile.id, name.trim(), role, settings);
+    setSaving(false);
+
+    if (error || !data) {
+      toast.error('Kunde inte spara vyn');
+      return;
+    }
+    replaceView(data);
+    setDialogMode(null);
+    toast.success('Vyn sparad');
+  };
+
+  const handleDelete = async () => {
+    if (!activeView) return;
+
+    const { error } = await deleteDealView(activeView.id);
+    if (error) {
+      toast.error('Kunde inte ta bort vyn');
+      return;
+    }
+    setViews(prev => prev.filter(v => v.id !== activeView.id));
+    if (defaultViewId === activeView.id) setDefaultViewId(null);
+    setActiveViewId(null);
+    onApply(null);
+    toast.success('Vyn borttagen');
+  };
+
+  const handleToggleDefault = async () => {
+    if (!profile) return;
+
+    const viewId = activeViewId && activeViewId !== defaultViewId ? activeViewId : null;
+    const { error } = await setDefaultDealView(profile.id, viewId);
+    if (error) {
+      toast.error('Kunde inte ändra standardvyn');
+      return;
+    }
+    setDefaultViewId(viewId);
+    toast.success(viewId ? 'Deals öppnas med den här vyn' : 'Deals öppnas med standardlayouten');
+  };
+
+  const roleLabel = (role: string | null) => SHARE_ROLE_OPTIONS.find(o => o.key === role)?.label;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Bookmark className="w-5 h-5 text-primary" />
+      <Select value={activeViewId || STANDARD_VIEW} onValueChange={handleSelect}>
+        <SelectTrigger className="w-56 h-9">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={STANDARD_VIEW}>Standardlayout</SelectItem>
+          {views.map(view => (
+            <SelectItem key={view.id} value={view.id}>
+              {view.name}
+              {view.owner_id !== profile?.id && ' (delad)'}
+              {view.id === defaultViewId && ' ★'}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {ownsActiveView && (
+        <>
+          <Button variant="outline" size="sm" onClick={handleSave} disabled={saving}>
+            <Save className="w-4 h-4 mr-1" />
+            Spara
+          </Button>
+          <Button variant="ghost" size="icon" className="h-9 w-9" onClick={() => openDialog('edit')} title="Byt namn eller dela">
+            <Pencil className="w-4 h-4" />
+          </Button>
+        </>
+      )}
+      <Button variant="outline" size="sm" onClick={() => openDialog('create')}>
+        Spara som ny vy
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-9 w-9"
+        onClick={handleToggleDefault}
+        disabled={!activeViewId && !defaultViewId}
+        title={activeViewId && activeViewId === defaultViewId ? 'Sluta öppna Deals med den här vyn' : 'Öppna alltid Deals med den här vyn'}
+      >
+        <Star className={activeViewId && activeViewId === defaultViewId ? 'w-4 h-4 fill-amber-400 text-amber-500' : 'w-4 h-4'} />
+      </Button>
+      {ownsActiveView && (
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-9 w-9 text-destructive hover:text-destructive"
+          onClick={handleDelete}
+          title="Ta bort vyn"
+        >
+          <Trash2 className="w-4 h-4" />
+        </Button>
+      )}
+      {activeView?.shared_with_role && (
+        <span className="text-xs text-muted-foreground">Delad med {roleLabel(activeView.shared_with_role)}</span>
+      )}
+
+      <Dialog open={!!dialogMode} onOpenChange={(open) => !open && setDialogMode(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{dialogMode === 'edit' ? 'Redigera vy' : 'Spara vy'}</DialogTitle>
+            <DialogDescription>
+              Kolumner, bredder, filter, sortering och datumintervall sparas i vyn
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="deal_view_name">Namn</Label>
+              <Input
+                id="deal_view_name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="T.ex. Sol i Stockholm, detta kvartal"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Dela med</Label>
+              <Select value={sharedWithRole} onValueChange={setSharedWithRole}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NOT_SHARED}>Ingen, bara jag</SelectItem>
+                  {SHARE_ROLE_OPTIONS.map(option => (
+                    <SelectItem key={option.key} value={option.key}>Alla med rollen {option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="flex justify-end gap-2 pt-2">
+              <Button type="button" variant="outline" onClick={() => setDialogMode(null)}>
+                Avbryt
+              </Button>
+              <Button onClick={handleDialogSave} disabled={saving || !name.trim()}>
+                {saving ? 'Sparar...' : 'Spara'}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
@@ -0,0 +1,129 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { AlarmClock, Plus } from 'lucide-react';
+import { format, addDays, setHours, startOfHour } from 'date-fns';
+import { sv } from 'date-fns/locale';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { cn } from '@/lib/utils';
+import { fetchContactFollowUps, isOverdue, type FollowUpTask } from '@/lib/activities';
+
+interface FollowUpCardProps {
+  contactId: string;
+  saleId?: string | null;
+}
+
+// Tomorrow at nine, as a datetime-local value
+const defaultDueAt = () => format(setHours(startOfHour(addDays(new Date(), 1)), 9), "yyyy-MM-dd'T'HH:mm");
+
+/**
+ * Follow-up tasks on a contact. Tasks are assigned to whoever schedules them.
+ */
+export const FollowUpCard = ({ contactId, saleId }: FollowUpCardProps) => {
+  const { profile } = useAuth();
+  const [tasks, setTasks] = useState<FollowUpTask[]>([]);
+  const [title, setTitle] = useState('');
+  const [dueAt, setDueAt] = useState(defaultDueAt);
+  const [saving, setSaving] = useState(false);
+
+  const loadTasks = async () => {
+    setTasks(await fetchContactFollowUps(contactId));
+  };
+
+  useEffect(() => {
+    loadTasks();
+  }, [contactId]);
+
+  const handleSchedule = async () => {
+    if (!profile || !title.trim() || !dueAt) return;
+
+    setSaving(true);
+    const { error } = await supabase.from('follow_up_tasks').insert({
+      contact_id: contactId,
+      sale_id: saleId || null,
+      title: title.trim(),
+      due_at: new Date(dueAt).toISOString(),
+      assigned_to: profile.id,
+      created_by: profile.id,
+    });
+    setSaving(false);
+
+    if (error) {
+      toast.error('Kunde inte schemalägga uppföljningen');
+      return;
+    }
+    setTitle('');
+    setDueAt(defaultDueAt());
+    loadTasks();
+  };
+
+  const handleToggle = async (task: FollowUpTask, done: boolean) => {
+    const { error } = await supabase
+      .from('follow_up_tasks')
+      .update({ completed_at: done ? new Date().toISOString() : null })
+      .eq('id', task.id);
+
+    if (error) {
+      toast.error('Kunde inte uppdatera uppföljningen');
+      return;
+    }
+    loadTasks();
+  };
+
+  return (
+    <Card className="glass-card">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-sm font-medium text-muted-foreground flex items-center gap-2">
+          <AlarmClock className="w-4 h-4" />
+          Uppföljningar
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex gap-2">
+          <Input
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            placeholder="Ring tillbaka om offerten"
+            className="h-8 text-xs"
+          />
+          <Input
+            type="datetime-local"
+            value={dueAt}
+            onChange={(e) => setDueAt(e.target.value)}
+            className="h-8 text-xs w-44"
+          />
+          <Button size="sm" className="h-8" onClick={handleSchedule} disabled={saving || !title.trim() || !dueAt}>
+            <Plus className="w-4 h-4" />
+          </Button>
+        </div>
+
+        {tasks.length === 0 ? (
+          <p className="text-muted-foreground text-sm">Inga uppföljningar schemalagda</p>
+        ) : (
+          <div className="space-y-2">
+            {tasks.map(task => (
+              <div key={task.id} className="flex items-center gap-3 p-2 rounded-lg bg-muted/30 text-sm">
+                <Checkbox
+                  checked={!!task.completed_at}
+                  onCheckedChange={(checked) => handleToggle(task, checked === true)}
+                />
+                <span className={cn('flex-1', task.completed_at && 'line-through text-muted-foreground')}>
+                  {task.title}
+                </span>
+                <span className={cn('text-xs', isOverdue(task) ? 'text-destructive font-medium' : 'text-muted-foreground')}>
+                  {format(new Date(task.due_at), 'd MMM HH:mm', { locale: sv })}
+                </span>
+                {isOverdue(task) && <Badge variant="destructive" className="text-xs">Försenad</Badge>}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,92 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Shuffle } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+
+interface Decision {
+  id: string;
+  organization_id: string;
+  selected: boolean;
+  reason: string;
+  rank: number | null;
+  leads_this_month: number;
+  quota_amount: number | null;
+  organization?: { name: string } | null;
+}
+
+// Reason codes written by distribute_contact()
+const REASON_LABELS: Record<string, string> = {
+  selected: 'Vald',
+  inactive: 'Pausad',
+  interest_not_offered: 'Erbjuder inte intresset',
+  outside_area: 'Utanför område',
+  quota_full: 'Kvoten är full',
+  limit_reached: 'Max antal partners nått',
+};
+
+interface LeadDistributionCardProps {
+  contactId: string;
+}
+
+/**
+ * Why each partner was selected or skipped when the contact was distributed automatically
+ */
+export const LeadDistributionCard = ({ contactId }: LeadDistributionCardProps) => {
+  const [decisions, setDecisions] = useState<Decision[]>([]);
+
+  useEffect(() => {
+    const fetchDecisions = async () => {
+      const { data, error } = await supabase
+        .from('lead_distribution_decisions')
+        .select('id, organization_id, selected, reason, rank, leads_this_month, quota_amount, organization:organizations(name)')
+        .eq('contact_id', contactId)
+        .order('selected', { ascending: false })
+        .order('rank', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching lead distribution:', error);
+        return;
+      }
+      setDecisions(data || []);
+    };
+    fetchDecisions();
+  }, [contactId]);
+
+  // Contacts assigned manually have no distribution decisions
+  if (decisions.length === 0) return null;
+
+  return (
+    <Card className="glass-card">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-sm font-medium text-muted-foreground flex items-center gap-2">
+          <Shuffle className="w-4 h-4" />
+          Automatisk fördelning
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-2">
+          {decisions.map((decision) => (
+            <div
+              key={decision.id}
+              className="flex items-center justify-between gap-2 p-2 rounded-lg bg-muted/30 text-sm"
+            >
+              <span className={decision.selected ? 'font-medium' : 'text-muted-foreground'}>
+                {decision.organization?.name || 'Okänd'}
+              </span>
+              <div className="flex items-center gap-2">
+                <span className="text-xs text-muted-foreground">
+                  {decision.leads_this_month}
+                  {decision.quota_amount !== null ? ` / ${decision.quota_amount}` : ''} leads denna månad
+                </span>
+                <Badge variant={decision.selected ? 'default' : 'outline'}>
+                  {REASON_LABELS[decision.reason] || decision.reason}
+                </Badge>
+              </div>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
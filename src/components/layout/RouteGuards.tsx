@@ -0,0 +1,63 @@
+import { Link, Navigate, Outlet } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { ShieldAlert } from 'lucide-react';
+import { getHomePath, hasPermission, type Permission } from '@/lib/permissions';
+
+// The profile is fetched after the session, so it can briefly be missing
+const ProfileLoading = () => (
+  <div className="flex items-center justify-center h-64">
+    <div className="w-8 h-8 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+  </div>
+);
+
+interface RequirePermissionProps {
+  permission: Permission;
+}
+
+/**
+ * Renders the nested routes only for roles with the permission.
+ * Other roles get an access denied page instead of the page itself.
+ */
+export const RequirePermission = ({ permission }: RequirePermissionProps) => {
+  const { profile } = useAuth();
+
+  if (!profile) {
+    return <ProfileLoading />;
+  }
+
+  if (!hasPermission(profile.role, permission)) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Card className="glass-card max-w-md w-full">
+          <CardContent className="pt-6 text-center">
+            <ShieldAlert className="w-12 h-12 text-amber-400 mx-auto mb-4" />
+            <h2 className="text-lg font-semibold text-foreground mb-2">Åtkomst nekad</h2>
+            <p className="text-muted-foreground mb-4">
+              Du har inte behörighet att visa den här sidan
+            </p>
+            <Button asChild variant="outline">
+              <Link to={getHomePath(profile.role)}>Till startsidan</Link>
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return <Outlet />;
+};
+
+/**
+ * Sends "/" to the start page of the signed in role
+ */
+export const RoleHomeRedirect = () => {
+  const { profile } = useAuth();
+
+  if (!profile) {
+    return <ProfileLoading />;
+  }
+
+  return <Navigate to={getHomePath(profile.role)} replace />;
+};
@@ -3,9 +3,10 @@ import { NavLink, useNavigate } from "react-router-dom";
 import { useAuth } from "@/contexts/AuthContext";
 import { useTheme } from "next-themes";
 import { cn } from "@/lib/utils";
-import { FileText, CreditCard, User, LogOut, Settings, Sun, Moon, Users, Handshake } from "lucide-react";
+import { FileText, CreditCard, User, LogOut, Settings, Sun, Moon, Users, UsersRound, Handshake, Kanban, Gauge, Briefcase } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { supabase } from "@/integrations/supabase/client";
+import { hasPermission, type Permission } from "@/lib/permissions";
 import logoDark from "@/assets/logo-dark.png";
 import logoLight from "@/assets/logo-light.png";
 
@@ -13,17 +14,21 @@ interface NavItem {
   to: string;
   label: string;
   icon: React.ComponentType<{ className?: string }>;
-  roles: string[];
+  permission: Permission;
   requiresCreditPermission?: boolean;
 }
 
 const navItems: NavItem[] = [
-  { to: "/admin", label: "Admin", icon: User, roles: ["admin"] },
-  { to: "/deals", label: "Deals", icon: FileText, roles: ["admin", "teamleader", "opener", "organization", "closer"] },
-  { to: "/saljare", label: "Säljare", icon: Users, roles: ["admin"] },
-  { to: "/partners", label: "Partners", icon: Handshake, roles: ["admin"] },
-  { to: "/kreditera", label: "Kreditera", icon: CreditCard, roles: ["organization"], requiresCreditPermission: true },
-  { to: "/installningar", label: "Inställningar", icon: Settings, roles: ["admin"] },
+  { to: "/admin", label: "Admin", icon: User, permission: "dashboard.view" },
+  { to: "/deals", label: "Deals", icon: FileText, permission: "deals.view" },
+  { to: "/prestation", label: "Min prestation", icon: Gauge, permission: "performance.view" },
+  { to: "/pipeline", label: "Pipeline", icon: Kanban, permission: "pipeline.view" },
+  { to: "/saljare", label: "Säljare", icon: Users, permission: "sellers.view" },
+  { to: "/team", label: "Team", icon: UsersRound, permission: "team.view" },
+  { to: "/portal", label: "Mina leads", icon: Briefcase, permission: "portal.view" },
+  { to: "/partners", label: "Partners", icon: Handshake, permission: "partners.view" },
+  { to: "/kreditera", label: "Kreditera", icon: CreditCard, permission: "credits.request", requiresCreditPermission: true },
+  { to: "/installningar", label: "Inställningar", icon: Settings, permission: "settings.view" },
 ];
 
 export const Sidebar = () => {
@@ -61,7 +66,7 @@ export const Sidebar = () => {
 
   const filteredNav = navItems.filter((item) => {
     // Check role permission
-    if (!profile?.role || !item.roles.includes(profile.role)) {
+    if (!hasPermission(profile?.role, item.permission)) {
       return false;
     }
     
@@ -141,6 +141,9 @@ export function AddTimelineEventDialog({
           description: finalDescription || null,
           is_scheduled: isScheduled,
           status: eventType === 'status_change' ? status : null,
+          // A follow-up task is due this many days after the event. It's created with
+          // a logged event and by the scheduler for a scheduled one.
+          follow_up_days: status === 'test_batch_complete' && followupDays ? parseInt(followupDays) : null,
           created_by: user?.id,
         });
 
@@ -263,7 +266,7 @@ export function AddTimelineEventDialog({
                   ))}
                 </SelectContent>
               </Select>
-              <p className="text-xs text-muted-foreground">Påminnelse för uppföljning efter test-batch</p>
+              <p className="text-xs text-muted-foreground">Du får en uppföljningsuppgift efter test-batchen</p>
             </div>
           )}
 
@@ -272,7 +275,7 @@ export function AddTimelineEventDialog({
               <Clock className="w-4 h-4 text-muted-foreground" />
               <div>
                 <p className="text-sm font-medium">Schemalagd händelse</p>
-                <p className="text-xs text-muted-foreground">Händelsen sker i framtiden</p>
+                <p className="text-xs text-muted-foreground">Genomförs automatiskt på datumet</p>
               </div>
             </div>
             <Switch
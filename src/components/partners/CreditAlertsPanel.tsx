@@ -0,0 +1,332 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { toast } from 'sonner';
+import { AlertTriangle, Settings2, ShieldCheck, RefreshCw } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { sv } from 'date-fns/locale';
+
+interface CreditAlertRule {
+  id: string;
+  scope: string;
+  max_credit_rate: number;
+  min_leads: number;
+  window_days: number;
+  auto_suspend: boolean;
+  is_active: boolean;
+}
+
+interface CreditAlert {
+  id: string;
+  scope: string;
+  credit_rate: number;
+  max_credit_rate: number;
+  lead_count: number;
+  credit_count: number;
+  window_start: string;
+  window_end: string;
+  credits_suspended: boolean;
+  created_at: string;
+  organization: { name: string } | null;
+  opener: { full_name: string | null; email: string } | null;
+}
+
+const SCOPE_LABELS: Record<string, string> = {
+  organization: 'Partner',
+  opener: 'Opener',
+};
+
+/**
+ * Open credit-rate alerts and the rules that raise them.
+ * Alerts are raised by the database after every credit request.
+ */
+export function CreditAlertsPanel() {
+  const [alerts, setAlerts] = useState<CreditAlert[]>([]);
+  const [rules, setRules] = useState<CreditAlertRule[]>([]);
+  const [rulesOpen, setRulesOpen] = useState(false);
+  const [checking, setChecking] = useState(false);
+  const [resolving, setResolving] = useState<CreditAlert | null>(null);
+  const [resolutionNote, setResolutionNote] = useState('');
+  const [restoreCredits, setRestoreCredits] = useState(true);
+
+  const fetchAlerts = async () => {
+    const { data, error } = await supabase
+      .from('credit_alerts')
+      .select(`
+        id, scope, credit_rate, max_credit_rate, lead_count, credit_count,
+        window_start, window_end, credits_suspended, created_at,
+        organization:organizations(name),
+        opener:profiles!credit_alerts_opener_id_fkey(full_name, email)
+      `)
+      .eq('status', 'open')
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching credit alerts:', error);
+      return;
+    }
+    setAlerts((data || []) as CreditAlert[]);
+  };
+
+  const fetchRules = async () => {
+    const { data, error } = await supabase
+      .from('credit_alert_rules')
+      .select('id, scope, max_credit_rate, min_leads, window_days, auto_suspend, is_active')
+      .order('scope')
+      .order('created_at');
+
+    if (error) {
+      console.error('Error fetching credit alert rules:', error);
+      return;
+    }
+    setRules(data || []);
+  };
+
+  useEffect(() => {
+    fetchAlerts();
+    fetchRules();
+  }, []);
+
+  const handleRunCheck = async () => {
+    setChecking(true);
+    const { data, error } = await supabase.rpc('run_credit_alert_check');
+    setChecking(false);
+
+    if (error) {
+      toast.error('Kunde inte kontrollera kreditgrader');
+      return;
+    }
+    toast.success(data ? `${data} nya varningar` : 'Inga nya varningar');
+    fetchAlerts();
+  };
+
+  const updateRule = (id: string, changes: Partial<CreditAlertRule>) => {
+    setRules(prev => prev.map(rule => (rule.id === id ? { ...rule, ...changes } : rule)));
+  };
+
+  const handleSaveRule = async (rule: CreditAlertRule) => {
+    const { error } = await supabase
+      .from('credit_alert_rules')
+      .update({
+        max_credit_rate: rule.max_credit_rate,
+        min_leads: rule.min_leads,
+        window_days: rule.window_days,
+        auto_suspend: rule.scope === 'organization' && rule.auto_suspend,
+        is_active: rule.is_active,
+      })
+      .eq('id', rule.id);
+
+    if (error) {
+      toast.error('Kunde inte spara regeln');
+      return;
+    }
+    toast.success('Regeln är sparad');
+    fetchRules();
+  };
+
+  const openResolve = (alert: CreditAlert) => {
+    setResolving(alert);
+    setResolutionNote('');
+    setRestoreCredits(true);
+  };
+
+  const handleResolve = async () => {
+    if (!resolving) return;
+
+    const { error } = await supabase.rpc('resolve_credit_alert', {
+      _alert_id: resolving.id,
+      _restore_credits: resolving.credits_suspended && restoreCredits,
+      _note: resolutionNote,
+    });
+
+    if (error) {
+      toast.error('Kunde inte stänga varningen');
+      return;
+    }
+    toast.success('Varningen är hanterad');
+    setResolving(null);
+    fetchAlerts();
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h4 className="font-medium flex items-center gap-2">
+          <AlertTriangle className="w-4 h-4 text-amber-500" />
+          Varningar ({alerts.length})
+        </h4>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" className="gap-1" onClick={handleRunCheck} disabled={checking}>
+            <RefreshCw className={`w-4 h-4 ${checking ? 'animate-spin' : ''}`} />
+            Kontrollera nu
+          </Button>
+          <Button variant="outline" size="sm" className="gap-1" onClick={() => setRulesOpen(true)}>
+            <Settings2 className="w-4 h-4" />
+            Regler
+          </Button>
+        </div>
+      </div>
+
+      {alerts.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Inga partners eller openers över tröskelvärdena.</p>
+      ) : (
+        <div className="space-y-2">
+          {alerts.map(alert => (
+            <div
+              key={alert.id}
+              className="flex flex-wrap items-center justify-between gap-3 p-3 rounded-lg border border-amber-500/30 bg-amber-500/5"
+            >
+              <div className="space-y-1">
+                <div className="flex items-center gap-2">
+                  <Badge variant="outline">{SCOPE_LABELS[alert.scope] || alert.scope}</Badge>
+                  <span className="font-medium">
+                    {alert.organization?.name || alert.opener?.full_name || alert.opener?.email || 'Okänd'}
+                  </span>
+                  {alert.credits_suspended && (
+                    <Badge variant="destructive">Kreditering avstängd</Badge>
+                  )}
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  <span className="font-semibold text-red-600">{Number(alert.credit_rate).toFixed(1)}%</span>
+                  {' '}kreditgrad (gräns {Number(alert.max_credit_rate)}%) • {alert.credit_count} av {alert.lead_count} leads •{' '}
+                  {format(parseISO(alert.window_start), 'd MMM', { locale: sv })}–{format(parseISO(alert.window_end), 'd MMM yyyy', { locale: sv })}
+                </p>
+              </div>
+              <Button size="sm" variant="outline" className="gap-1" onClick={() => openResolve(alert)}>
+                <ShieldCheck className="w-4 h-4" />
+                Hantera
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Rules */}
+      <Dialog open={rulesOpen} onOpenChange={setRulesOpen}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Regler för kreditvarningar</DialogTitle>
+            <DialogDescription>
+              En varning skapas när kreditgraden under perioden går över gränsen och det finns tillräckligt många leads.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            {rules.map(rule => (
+              <div key={rule.id} className="p-4 rounded-lg border border-border space-y-4">
+                <div className="flex items-center justify-between">
+                  <span className="font-medium">{SCOPE_LABELS[rule.scope] || rule.scope}</span>
+                  <div className="flex items-center gap-2">
+                    <Label htmlFor={`active-${rule.id}`} className="text-sm text-muted-foreground">Aktiv</Label>
+                    <Switch
+                      id={`active-${rule.id}`}
+                      checked={rule.is_active}
+                      onCheckedChange={(checked) => updateRule(rule.id, { is_active: checked })}
+                    />
+                  </div>
+                </div>
+                <div className="grid gap-4 sm:grid-cols-3">
+                  <div className="space-y-2">
+                    <Label htmlFor={`rate-${rule.id}`}>Max kreditgrad (%)</Label>
+                    <Input
+                      id={`rate-${rule.id}`}
+                      type="number"
+                      min={0}
+                      max={100}
+                      value={rule.max_credit_rate}
+                      onChange={(e) => updateRule(rule.id, { max_credit_rate: Number(e.target.value) })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor={`leads-${rule.id}`}>Minst antal leads</Label>
+                    <Input
+                      id={`leads-${rule.id}`}
+                      type="number"
+                      min={1}
+                      value={rule.min_leads}
+                      onChange={(e) => updateRule(rule.id, { min_leads: parseInt(e.target.value) || 1 })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor={`window-${rule.id}`}>Period (dagar)</Label>
+                    <Input
+                      id={`window-${rule.id}`}
+                      type="number"
+                      min={1}
+                      value={rule.window_days}
+                      onChange={(e) => updateRule(rule.id, { window_days: parseInt(e.target.value) || 1 })}
+                    />
+                  </div>
+                </div>
+                <div className="flex items-center justify-between">
+                  {rule.scope === 'organization' ? (
+                    <div className="flex items-center gap-2">
+                      <Checkbox
+                        id={`suspend-${rule.id}`}
+                        checked={rule.auto_suspend}
+                        onCheckedChange={(checked) => updateRule(rule.id, { auto_suspend: checked === true })}
+                      />
+                      <Label htmlFor={`suspend-${rule.id}`} className="text-sm font-normal">
+                        Stäng av kreditering tills varningen är hanterad
+                      </Label>
+                    </div>
+                  ) : (
+                    <span />
+                  )}
+                  <Button size="sm" onClick={() => handleSaveRule(rule)}>Spara</Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Resolve */}
+      <Dialog open={!!resolving} onOpenChange={(open) => !open && setResolving(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Hantera varning</DialogTitle>
+            <DialogDescription>
+              {resolving?.organization?.name || resolving?.opener?.full_name || resolving?.opener?.email}
+              {' '}har {Number(resolving?.credit_rate ?? 0).toFixed(1)}% kreditgrad.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="resolution_note">Anteckning</Label>
+              <Textarea
+                id="resolution_note"
+                value={resolutionNote}
+                onChange={(e) => setResolutionNote(e.target.value)}
+                placeholder="T.ex. Genomgånget med partnern"
+                rows={3}
+              />
+            </div>
+            {resolving?.credits_suspended && (
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="restore_credits"
+                  checked={restoreCredits}
+                  onCheckedChange={(checked) => setRestoreCredits(checked === true)}
+                />
+                <Label htmlFor="restore_credits" className="text-sm font-normal">
+                  Slå på kreditering igen
+                </Label>
+              </div>
+            )}
+            <div className="flex justify-end gap-2 pt-2">
+              <Button variant="outline" onClick={() => setResolving(null)}>Avbryt</Button>
+              <Button onClick={handleResolve}>Markera som hanterad</Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
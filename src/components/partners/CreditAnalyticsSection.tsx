@@ -0,0 +1,151 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Table, TableBody, TableCell, TableHeader, TableRow } from '@/components/ui/table';
+import { ResizableTableHead } from '@/components/ui/resizable-table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { EmptyState } from '@/components/ui/empty-state';
+import { Percent } from 'lucide-react';
+import { format, subMonths, startOfMonth, endOfMonth, eachMonthOfInterval } from 'date-fns';
+import { sv } from 'date-fns/locale';
+import {
+  CREDIT_STATS_GROUPINGS,
+  fetchCreditRateStats,
+  summarizeCreditRates,
+  totalCreditRates,
+  type CreditRateStat,
+  type CreditStatsGrouping,
+} from '@/lib/creditAnalytics';
+
+interface CreditAnalyticsSectionProps {
+  selectedMonth: string; // Format: 'yyyy-MM', last month shown
+}
+
+const PERIOD_OPTIONS = [3, 6, 12];
+
+const getCreditRateColor = (rate: number) => {
+  if (rate >= 25) return 'text-red-600 bg-red-500/10';
+  if (rate >= 15) return 'text-amber-600 bg-amber-500/10';
+  return 'text-emerald-600 bg-emerald-500/10';
+};
+
+const formatRate = (rate: number | undefined) => (rate === undefined ? '–' : `${rate.toFixed(0)}%`);
+
+export function CreditAnalyticsSection({ selectedMonth }: CreditAnalyticsSectionProps) {
+  const [groupBy, setGroupBy] = useState<CreditStatsGrouping>('organization');
+  const [periodMonths, setPeriodMonths] = useState(6);
+  const [stats, setStats] = useState<CreditRateStat[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const months = useMemo(() => {
+    const lastMonth = new Date(selectedMonth + '-01');
+    return eachMonthOfInterval({
+      start: startOfMonth(subMonths(lastMonth, periodMonths - 1)),
+      end: lastMonth,
+    });
+  }, [selectedMonth, periodMonths]);
+
+  useEffect(() => {
+    const fetchStats = async () => {
+      setLoading(true);
+      const data = await fetchCreditRateStats(
+        groupBy,
+        format(months[0], 'yyyy-MM-dd'),
+        format(endOfMonth(months[months.length - 1]), 'yyyy-MM-dd')
+      );
+      setStats(data);
+      setLoading(false);
+    };
+    fetchStats();
+  }, [groupBy, months]);
+
+  const summaries = useMemo(() => summarizeCreditRates(stats, groupBy), [stats, groupBy]);
+  const totals = useMemo(() => totalCreditRates(stats, groupBy), [stats, groupBy]);
+  const groupLabel = CREDIT_STATS_GROUPINGS.find(g => g.key === groupBy)?.label;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-sm text-muted-foreground">
+          Andel leads som partnern begärt kredit för, per leadmånad
+        </p>
+        <div className="flex gap-2">
+          <Select value={groupBy} onValueChange={(value: CreditStatsGrouping) => setGroupBy(value)}>
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CREDIT_STATS_GROUPINGS.map(grouping => (
+                <SelectItem key={grouping.key} value={grouping.key}>{grouping.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={String(periodMonths)} onValueChange={(value) => setPeriodMonths(Number(value))}>
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PERIOD_OPTIONS.map(option => (
+                <SelectItem key={option} value={String(option)}>{option} månader</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center h-32">
+          <div className="w-6 h-6 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+        </div>
+      ) : summaries.length === 0 ? (
+        <EmptyState icon={Percent} title="Inga krediter" description="Inga leads eller krediter under perioden" />
+      ) : (
+        <div className="rounded-xl border border-border overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-muted/50 hover:bg-muted/50">
+                <ResizableTableHead className="font-semibold">{groupLabel}</ResizableTableHead>
+                {months.map(month => (
+                  <ResizableTableHead key={month.toISOString()} className="text-center font-semibold capitalize">
+                    {format(month, 'MMM yy', { locale: sv })}
+                  </ResizableTableHead>
+                ))}
+                <ResizableTableHead className="text-center font-semibold">Leads</ResizableTableHead>
+                <ResizableTableHead className="text-center font-semibold">Begärda</ResizableTableHead>
+                <ResizableTableHead className="text-center font-semibold">Godkända</ResizableTableHead>
+                <ResizableTableHead className="text-center font-semibold">Kreditgrad</ResizableTableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {summaries.map(summary => (
+                <TableRow key={summary.key}>
+                  <TableCell className="font-medium">{summary.label}</TableCell>
+                  {months.map(month => (
+                    <TableCell key={month.toISOString()} className="text-center text-muted-foreground">
+                      {formatRate(summary.monthlyRates[format(month, 'yyyy-MM-dd')])}
+                    </TableCell>
+                  ))}
+                  <TableCell className="text-center">{summary.leads}</TableCell>
+                  <TableCell className="text-center"><span className="text-amber-600">{summary.credits}</span></TableCell>
+                  <TableCell className="text-center"><span className="text-success">{summary.approved}</span></TableCell>
+                  <TableCell className="text-center">
+                    <span className={`px-2 py-1 rounded text-sm font-medium ${getCreditRateColor(summary.creditRate)}`}>
+                      {summary.creditRate.toFixed(1)}%
+                    </span>
+                  </TableCell>
+                </TableRow>
+              ))}
+              <TableRow className="bg-muted/30 hover:bg-muted/30 font-medium">
+                <TableCell>Totalt</TableCell>
+                {months.map(month => (
+                  <TableCell key={month.toISOString()} className="text-center">
+                    {formatRate(totals[format(month, 'yyyy-MM-dd')])}
+                  </TableCell>
+                ))}
+                <TableCell colSpan={4} />
+              </TableRow>
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
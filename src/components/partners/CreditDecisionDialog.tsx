@@ -0,0 +1,113 @@
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { toast } from 'sonner';
+import { getCreditErrorMessage } from '@/lib/credits';
+import { useCreditRequestDetails, useDecideCreditRequest } from '@/hooks/queries/use-credits';
+import { CreditEvidenceList } from './CreditEvidenceList';
+
+interface CreditDecisionDialogProps {
+  creditRequestId: string | null;
+  action: 'approved' | 'denied';
+  onOpenChange: (open: boolean) => void;
+  // Cached credit requests and deals refresh themselves, this is for anything else
+  onDecided?: () => void;
+}
+
+/**
+ * Approve or deny a credit request after reviewing its reason and evidence.
+ * The comment is shown to the partner in their request history.
+ */
+export const CreditDecisionDialog = ({ creditRequestId, action, onOpenChange, onDecided }: CreditDecisionDialogProps) => {
+  const [comment, setComment] = useState('');
+  const { data: details } = useCreditRequestDetails(creditRequestId);
+  const decideCreditRequest = useDecideCreditRequest();
+
+  useEffect(() => {
+    setComment('');
+  }, [creditRequestId]);
+
+  const handleConfirm = () => {
+    if (!creditRequestId) return;
+
+    if (action === 'denied' && !comment.trim()) {
+      toast.error('Skriv en motivering till partnern');
+      return;
+    }
+
+    decideCreditRequest.mutate({ creditRequestId, status: action, comment }, {
+      onSuccess: () => {
+        toast.success(action === 'approved' ? 'Kredit godkänd' : 'Kredit nekad');
+        onDecided?.();
+      },
+      onError: (error) => {
+        toast.error(getCreditErrorMessage(error, 'Kunde inte uppdatera kreditbegäran'));
+      },
+    });
+    // The new status shows in the request lists right away
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={!!creditRequestId} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{action === 'approved' ? 'Godkänn kredit' : 'Neka kredit'}</DialogTitle>
+          <DialogDescription>
+            {details
+              ? `${details.contact?.name || details.contact?.email || 'Okänd kontakt'} • ${details.organization?.name || '–'}`
+              : 'Laddar...'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {details && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Anledning</Label>
+              <div className="p-3 rounded-lg bg-muted/30 space-y-2 text-sm">
+                {details.reason_code_info && <Badge variant="outline">{details.reason_code_info.label}</Badge>}
+                <p className="text-muted-foreground whitespace-pre-wrap">{details.reason || 'Ingen beskrivning'}</p>
+              </div>
+            </div>
+
+            {details.attachments.length > 0 && (
+              <div className="space-y-2">
+                <Label>Bevis</Label>
+                <CreditEvidenceList attachments={details.attachments} />
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="decision_comment">
+                Kommentar till partnern{action === 'denied' ? '' : ' (valfritt)'}
+              </Label>
+              <Textarea
+                id="decision_comment"
+                value={comment}
+                onChange={(e) => setComment(e.target.value)}
+                placeholder={action === 'approved' ? 'T.ex. Krediteras på nästa faktura' : 'Förklara varför krediten nekas'}
+                rows={3}
+              />
+            </div>
+
+            <div className="flex justify-end gap-2 pt-2">
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Avbryt
+              </Button>
+              <Button
+                onClick={handleConfirm}
+                disabled={decideCreditRequest.isPending}
+                variant={action === 'approved' ? 'default' : 'destructive'}
+              >
+                {decideCreditRequest.isPending ? 'Sparar...' : action === 'approved' ? 'Godkänn' : 'Neka'}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,58 @@
+import { Button } from '@/components/ui/button';
+import { toast } from 'sonner';
+import { FileAudio, FileImage, FileText } from 'lucide-react';
+import { getCreditEvidenceUrl } from '@/lib/credits';
+
+export interface CreditEvidence {
+  id: string;
+  file_name: string;
+  storage_path: string;
+  content_type: string | null;
+}
+
+interface CreditEvidenceListProps {
+  attachments: CreditEvidence[];
+}
+
+const evidenceIcon = (contentType: string | null) => {
+  if (contentType?.startsWith('audio/')) return FileAudio;
+  if (contentType?.startsWith('image/')) return FileImage;
+  return FileText;
+};
+
+/**
+ * Evidence files on a credit request, opened through signed links
+ */
+export const CreditEvidenceList = ({ attachments }: CreditEvidenceListProps) => {
+  const openEvidence = async (attachment: CreditEvidence) => {
+    const url = await getCreditEvidenceUrl(attachment.storage_path);
+    if (!url) {
+      toast.error('Kunde inte öppna filen');
+      return;
+    }
+    window.open(url, '_blank', 'noopener,noreferrer');
+  };
+
+  if (attachments.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {attachments.map((attachment) => {
+        const Icon = evidenceIcon(attachment.content_type);
+        return (
+          <Button
+            key={attachment.id}
+            type="button"
+            variant="outline"
+            size="sm"
+            className="h-7 gap-1 text-xs"
+            onClick={() => openEvidence(attachment)}
+          >
+            <Icon className="w-3 h-3" />
+            {attachment.file_name}
+          </Button>
+        );
+      })}
+    </div>
+  );
+};
@@ -1,29 +1,16 @@
-import { useState, useEffect } from 'react';
-import { supabase } from '@/integrations/supabase/client';
+import { useState } from 'react';
 import { Table, TableBody, TableCell, TableHeader, TableRow } from '@/components/ui/table';
 import { ResizableTableHead } from '@/components/ui/resizable-table';
 import { Button } from '@/components/ui/button';
 import { StatusBadge } from '@/components/ui/status-badge';
 import { EmptyState } from '@/components/ui/empty-state';
-import { toast } from 'sonner';
-import { format, startOfMonth, endOfMonth, subMonths, addMonths, isAfter, isBefore, parseISO } from 'date-fns';
+import { format, parseISO } from 'date-fns';
 import { sv } from 'date-fns/locale';
 import { Inbox, Check, X, AlertTriangle, Info } from 'lucide-react';
-import type { Database } from '@/integrations/supabase/types';
 import { Badge } from '@/components/ui/badge';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
-
-type CreditStatus = Database['public']['Enums']['credit_status'];
-
-interface CreditRequest {
-  id: string;
-  status: CreditStatus;
-  reason: string | null;
-  created_at: string;
-  contact: { email: string; name: string | null; date_sent: string } | null;
-  organization: { name: string } | null;
-  requested_by_profile: { email: string } | null;
-}
+import { useMonthCreditRequests, type MonthCreditRequest } from '@/hooks/queries/use-credits';
+import { CreditDecisionDialog } from './CreditDecisionDialog';
 
 interface CreditsManagementProps {
   selectedMonth: string; // Format: 'yyyy-MM' (billing month)
@@ -31,101 +18,13 @@ interface CreditsManagementProps {
 }
 
 export function CreditsManagement({ selectedMonth, onUpdate }: CreditsManagementProps) {
-  const [creditRequests, setCreditRequests] = useState<CreditRequest[]>([]);
-  const [loading, setLoading] = useState(true);
-
-  useEffect(() => {
-    fetchCreditRequests();
-  }, [selectedMonth]);
-
-  const fetchCreditRequests = async () => {
-    try {
-      // Parse the selected month - this IS the leads month (not billing month)
-      const selectedDate = new Date(selectedMonth + '-01');
-      
-      // Leads generated in the selected month
-      const leadsMonthStart = startOfMonth(selectedDate);
-      const leadsMonthEnd = endOfMonth(selectedDate);
-      
-      // Credits must be requested BEFORE the 1st of the next month to avoid being billed
-      // If requested AFTER, they'll be deducted next month (we still show them but mark differently)
-      const billingCutoff = startOfMonth(addMonths(selectedDate, 1));
-
-      const { data, error } = await supabase
-        .from('credit_requests')
-        .select(`
-          *,
-          contact:contacts(email, name, date_sent),
-          organization:organizations(name),
-          requested_by_profile:profiles!credit_requests_requested_by_fkey(email)
-        `)
-        .order('created_at', { ascending: false });
+  const [decision, setDecision] = useState<{ id: string; action: 'approved' | 'denied' } | null>(null);
 
-      if (error) throw error;
+  // The selected month is the leads month and the billing month in the credit ledger
+  const { data: creditRequests = [], isLoading: loading } = useMonthCreditRequests(selectedMonth);
 
-      // Filter credits based on billing logic:
-      // Show credits where:
-      // 1. The lead (contact.date_sent) was generated in the leads month (month before billing)
-      // 2. OR the credit was requested in the previous month but approved late (deferred credits)
-      const filteredCredits = (data as CreditRequest[] || []).filter(request => {
-        if (!request.contact?.date_sent) return false;
-        
-        const leadDate = parseISO(request.contact.date_sent);
-        const creditRequestDate = parseISO(request.created_at);
-        
-        // Case 1: Lead was generated in the leads month
-        const leadInPeriod = !isBefore(leadDate, leadsMonthStart) && !isAfter(leadDate, leadsMonthEnd);
-        
-        if (leadInPeriod) return true;
-        
-        // Case 2: Deferred credit - lead from previous period, credit requested after billing cutoff
-        // These would be deducted from THIS month's invoice
-        const previousLeadsStart = startOfMonth(subMonths(leadsMonthStart, 1));
-        const previousLeadsEnd = endOfMonth(subMonths(leadsMonthStart, 1));
-        const previousBillingCutoff = startOfMonth(selectedDate);
-        
-        const leadInPreviousPeriod = !isBefore(leadDate, previousLeadsStart) && !isAfter(leadDate, previousLeadsEnd);
-        const creditRequestedAfterPreviousCutoff = isAfter(creditRequestDate, previousBillingCutoff);
-        
-        if (leadInPreviousPeriod && creditRequestedAfterPreviousCutoff && request.status === 'approved') {
-          return true; // This is a deferred credit to be deducted this month
-        }
-        
-        return false;
-      });
-
-      setCreditRequests(filteredCredits);
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  const handleCreditAction = async (requestId: string, status: 'approved' | 'denied') => {
-    const { error } = await supabase
-      .from('credit_requests')
-      .update({ status })
-      .eq('id', requestId);
-
-    if (error) {
-      toast.error('Kunde inte uppdatera kreditbegäran');
-      return;
-    }
-
-    toast.success(status === 'approved' ? 'Kredit godkänd' : 'Kredit nekad');
-    fetchCreditRequests();
-    onUpdate?.();
-  };
-
-  // Calculate if a credit is deferred (will be deducted next month)
-  const isDeferredCredit = (request: CreditRequest): boolean => {
-    if (!request.contact?.date_sent) return false;
-    
-    const selectedDate = new Date(selectedMonth + '-01');
-    const leadsMonthStart = startOfMonth(selectedDate);
-    const leadDate = parseISO(request.contact.date_sent);
-    
-    return isBefore(leadDate, leadsMonthStart);
-  };
+  // Deferred credits are paid back with a credit note in a later month than the lead's
+  const isDeferredCredit = (request: MonthCreditRequest): boolean => !!request.ledger?.is_deferred;
 
   if (loading) {
     return (
@@ -219,7 +118,10 @@ export function CreditsManagement({ selectedMonth, onUpdate }: CreditsManagement
                         </div>
                       </TableCell>
                       <TableCell className="text-muted-foreground max-w-xs truncate">
-                        {request.reason || '–'}
+                        {request.reason_code_info && (
+                          <Badge variant="outline" className="mr-2">{request.reason_code_info.label}</Badge>
+                        )}
+                        {request.reason || (request.reason_code_info ? '' : '–')}
                       </TableCell>
                       <TableCell className="text-muted-foreground">
                         {format(parseISO(request.created_at), 'dd MMM yyyy', { locale: sv })}
@@ -230,7 +132,7 @@ export function CreditsManagement({ selectedMonth, onUpdate }: CreditsManagement
                             size="sm"
                             variant="outline"
                             className="h-8 w-8 p-0 text-success hover:bg-success/10 hover:text-success hover:border-success/30"
-                            onClick={() => handleCreditAction(request.id, 'approved')}
+                            onClick={() => setDecision({ id: request.id, action: 'approved' })}
                           >
                             <Check className="w-4 h-4" />
                           </Button>
@@ -238,7 +140,7 @@ export function CreditsManagement({ selectedMonth, onUpdate }: CreditsManagement
                             size="sm"
                             variant="outline"
                             className="h-8 w-8 p-0 text-destructive hover:bg-destructive/10 hover:text-destructive hover:border-destructive/30"
-                            onClick={() => handleCreditAction(request.id, 'denied')}
+                            onClick={() => setDecision({ id: request.id, action: 'denied' })}
                           >
                             <X className="w-4 h-4" />
                           </Button>
@@ -297,7 +199,10 @@ export function CreditsManagement({ selectedMonth, onUpdate }: CreditsManagement
                         </div>
                       </TableCell>
                       <TableCell className="text-muted-foreground max-w-xs truncate">
-                        {request.reason || '–'}
+                        {request.reason_code_info && (
+                          <Badge variant="outline" className="mr-2">{request.reason_code_info.label}</Badge>
+                        )}
+                        {request.reason || (request.reason_code_info ? '' : '–')}
                       </TableCell>
                       <TableCell className="text-muted-foreground">
                         {format(parseISO(request.created_at), 'dd MMM yyyy', { locale: sv })}
@@ -313,6 +218,13 @@ export function CreditsManagement({ selectedMonth, onUpdate }: CreditsManagement
           </div>
         </div>
       )}
+
+      <CreditDecisionDialog
+        creditRequestId={decision?.id ?? null}
+        action={decision?.action ?? 'approved'}
+        onOpenChange={(open) => !open && setDecision(null)}
+        onDecided={onUpdate}
+      />
     </div>
   );
 }
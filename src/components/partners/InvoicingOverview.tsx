@@ -1,39 +1,24 @@
-import { useState, useEffect } from 'react';
-import { supabase } from '@/integrations/supabase/client';
+import { useState } from 'react';
 import { Table, TableBody, TableCell, TableHeader, TableRow } from '@/components/ui/table';
 import { ResizableTableHead } from '@/components/ui/resizable-table';
 import { Button } from '@/components/ui/button';
 import { EmptyState } from '@/components/ui/empty-state';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
 import { toast } from 'sonner';
-import { format, subMonths, startOfMonth, endOfMonth } from 'date-fns';
+import { format, subMonths } from 'date-fns';
 import { sv } from 'date-fns/locale';
-import { FileText, Copy, Download, Sun, Battery, ExternalLink, FileSpreadsheet } from 'lucide-react';
+import { FileText, Copy, Download, Sun, Battery, ExternalLink, FileSpreadsheet, Lock } from 'lucide-react';
 import * as XLSX from 'xlsx';
-
-interface DetailedLead {
-  id: string;
-  address: string | null;
-  contactPerson: string | null;
-  email: string;
-  phone: string | null;
-  interest: string;
-  organizationId: string;
-  organizationName: string;
-  pricePerLead: number;
-  status: string;
-}
-
-interface PartnerInvoice {
-  id: string;
-  name: string;
-  solarLeads: number;
-  batteryLeads: number;
-  sunBatteryLeads: number;
-  totalLeads: number;
-  pricePerSolar: number;
-  pricePerBattery: number;
-  totalValue: number;
-}
+import { useFinalizeInvoicingMonth, useInvoicingMonth } from '@/hooks/queries/use-invoicing';
 
 interface InvoicingOverviewProps {
   selectedMonth: string;
@@ -41,138 +26,32 @@ interface InvoicingOverviewProps {
 }
 
 export function InvoicingOverview({ selectedMonth, onPartnerClick }: InvoicingOverviewProps) {
-  const [invoices, setInvoices] = useState<PartnerInvoice[]>([]);
-  const [detailedLeads, setDetailedLeads] = useState<DetailedLead[]>([]);
-  const [loading, setLoading] = useState(true);
-
-  useEffect(() => {
-    fetchInvoiceData();
-  }, [selectedMonth]);
-
-  const fetchInvoiceData = async () => {
-    try {
-      const selectedDate = new Date(selectedMonth + '-01');
-      const leadsStart = startOfMonth(selectedDate);
-      const leadsEnd = endOfMonth(selectedDate);
-
-      // Fetch active organizations
-      const { data: organizations } = await supabase
-        .from('organizations')
-        .select('id, name, price_per_solar_deal, price_per_battery_deal')
-        .eq('status', 'active');
-
-      if (!organizations) {
-        setInvoices([]);
-        setDetailedLeads([]);
-        return;
-      }
-
-      // Fetch detailed contacts in billing period
-      const { data: contacts } = await supabase
-        .from('contacts')
-        .select('id, email, name, address, phone, interest, date_sent')
-        .gte('date_sent', format(leadsStart, 'yyyy-MM-dd'))
-        .lte('date_sent', format(leadsEnd, 'yyyy-MM-dd'));
-
-      // Fetch contact-org links
-      const { data: contactOrgs } = await supabase
-        .from('contact_organizations')
-        .select('organization_id, contact_id');
-
-      // Fetch approved credits to exclude
-      const { data: creditRequests } = await supabase
-        .from('credit_requests')
-        .select('contact_id, organization_id, status');
-
-      const contactMap = new Map(contacts?.map(c => [c.id, c]) || []);
-      const contactIdsInPeriod = new Set(contacts?.map(c => c.id) || []);
-      const approvedCredits = new Set(
-        creditRequests?.filter(cr => cr.status === 'approved').map(cr => `${cr.contact_id}-${cr.organization_id}`) || []
-      );
-      const creditedContacts = new Map(
-        creditRequests?.map(cr => [`${cr.contact_id}-${cr.organization_id}`, cr.status]) || []
-      );
-
-      const orgMap = new Map(organizations.map(o => [o.id, o]));
-      const allDetailedLeads: DetailedLead[] = [];
-
-      const partnerInvoices: PartnerInvoice[] = organizations.map((org) => {
-        const orgContactLinks = contactOrgs?.filter(co => 
-          co.organization_id === org.id && contactIdsInPeriod.has(co.contact_id)
-        ) || [];
-        
-        let solarLeads = 0;
-        let batteryLeads = 0;
-        let sunBatteryLeads = 0;
-
-        orgContactLinks.forEach(link => {
-          const contact = contactMap.get(link.contact_id);
-          if (!contact) return;
-
-          // Check credit status
-          const creditKey = `${link.contact_id}-${org.id}`;
-          const creditStatus = creditedContacts.get(creditKey);
-          const isCredited = creditStatus === 'approved';
-
-          // Calculate price based on interest
-          let pricePerLead = 0;
-          if (contact.interest === 'sun') {
-            pricePerLead = org.price_per_solar_deal || 0;
-            if (!isCredited) solarLeads++;
-          } else if (contact.interest === 'battery') {
-            pricePerLead = org.price_per_battery_deal || 0;
-            if (!isCredited) batteryLeads++;
-          } else if (contact.interest === 'sun_battery') {
-            pricePerLead = (org.price_per_solar_deal || 0) + (org.price_per_battery_deal || 0);
-            if (!isCredited) sunBatteryLeads++;
-          }
-
-          // Add to detailed leads for export
-          allDetailedLeads.push({
-            id: contact.id,
-            address: contact.address,
-            contactPerson: contact.name,
-            email: contact.email,
-            phone: contact.phone,
-            interest: contact.interest,
-            organizationId: org.id,
-            organizationName: org.name,
-            pricePerLead: isCredited ? 0 : pricePerLead,
-            status: isCredited ? 'Krediterad' : 'Offert',
-          });
-        });
-
-        const pricePerSolar = org.price_per_solar_deal || 0;
-        const pricePerBattery = org.price_per_battery_deal || 0;
-        const totalValue = (solarLeads * pricePerSolar) + 
-                          (batteryLeads * pricePerBattery) + 
-                          (sunBatteryLeads * (pricePerSolar + pricePerBattery));
-
-        return {
-          id: org.id,
-          name: org.name,
-          solarLeads,
-          batteryLeads,
-          sunBatteryLeads,
-          totalLeads: solarLeads + batteryLeads + sunBatteryLeads,
-          pricePerSolar,
-          pricePerBattery,
-          totalValue,
-        };
-      }).filter(i => i.totalLeads > 0).sort((a, b) => b.totalValue - a.totalValue);
-
-      setInvoices(partnerInvoices);
-      setDetailedLeads(allDetailedLeads);
-    } finally {
-      setLoading(false);
-    }
+  const { data, isPending: loading } = useInvoicingMonth(selectedMonth);
+  const { invoices = [], detailedLeads = [], period = null, creditedAmount = 0 } = data || {};
+  const finalizeMonth = useFinalizeInvoicingMonth();
+  const [confirmFinalize, setConfirmFinalize] = useState(false);
+  const finalizing = finalizeMonth.isPending;
+
+  const handleFinalizeMonth = () => {
+    finalizeMonth.mutate(selectedMonth, {
+      onSuccess: (count) => toast.success(`${count} fakturor skapade för ${leadsMonthLabel}`),
+      onError: (error) => {
+        console.error('Error finalizing invoicing month:', error);
+        toast.error('Kunde inte låsa månaden');
+      },
+      onSettled: () => setConfirmFinalize(false),
+    });
   };
 
   const selectedDate = new Date(selectedMonth + '-01');
   const leadsMonthLabel = format(selectedDate, 'MMMM yyyy', { locale: sv });
   const totalSum = invoices.reduce((sum, i) => sum + i.totalValue, 0);
   const totalLeadsCount = invoices.reduce((sum, i) => sum + i.totalLeads, 0);
-  const creditedLeadsCount = detailedLeads.filter(l => l.status === 'Krediterad').length;
+  const creditNotesSum = invoices.reduce(
+    (sum, i) => sum + (i.creditNotes || []).reduce((s, cn) => s - cn.amount, 0),
+    0
+  );
+  const deferredCreditsSum = invoices.reduce((sum, i) => sum + (i.deferredCredits?.amount || 0), 0);
 
   const getInterestLabel = (interest: string) => {
     switch (interest) {
@@ -235,7 +114,7 @@ export function InvoicingOverview({ selectedMonth, onPartnerClick }: InvoicingOv
       { label: 'Totalt levererade leads', value: totalLeadsCount },
       { label: '', value: '' },
       { label: 'Brutto', value: `${totalSum.toLocaleString('sv-SE')} kr` },
-      { label: 'Krediterade', value: `${(creditedLeadsCount * (invoices[0]?.pricePerSolar || 500)).toLocaleString('sv-SE')} kr` },
+      { label: 'Krediterade', value: `${(creditedAmount + creditNotesSum).toLocaleString('sv-SE')} kr` },
       { label: '', value: '' },
       { label: 'Faktureras – ex moms', value: `${Math.round(totalSum * 0.8).toLocaleString('sv-SE')} kr` },
       { label: 'Faktureras – ink moms', value: `${totalSum.toLocaleString('sv-SE')} kr` },
@@ -381,10 +260,24 @@ export function InvoicingOverview({ selectedMonth, onPartnerClick }: InvoicingOv
   return (
     <div className="space-y-4">
       <div className="flex items-center justify-between">
-        <p className="text-sm text-muted-foreground">
-          Fakturering för leads från {leadsMonthLabel}
-        </p>
+        <div className="space-y-1">
+          <p className="text-sm text-muted-foreground">
+            Fakturering för leads från {leadsMonthLabel}
+          </p>
+          {period && (
+            <p className="text-xs text-muted-foreground flex items-center gap-1">
+              <Lock className="w-3 h-3" />
+              Låst {format(new Date(period.finalized_at), 'd MMM yyyy', { locale: sv })} – krediter efter låsning blir kreditnotor
+            </p>
+          )}
+        </div>
         <div className="flex gap-2">
+          {!period && (
+            <Button variant="outline" size="sm" onClick={() => setConfirmFinalize(true)} disabled={finalizing}>
+              <Lock className="w-4 h-4 mr-1" />
+              Lås och fakturera
+            </Button>
+          )}
           <Button variant="outline" size="sm" onClick={handleCopyAll}>
             <Copy className="w-4 h-4 mr-1" />
             Kopiera
@@ -433,6 +326,19 @@ export function InvoicingOverview({ selectedMonth, onPartnerClick }: InvoicingOv
                     <span className="font-medium">{invoice.name}</span>
                     <ExternalLink className="w-3 h-3 text-muted-foreground opacity-0 group-hover:opacity-100 transition-opacity" />
                   </button>
+                  {invoice.invoiceNumber && (
+                    <p className="text-xs text-muted-foreground">Faktura #{invoice.invoiceNumber}</p>
+                  )}
+                  {invoice.creditNotes?.map((creditNote) => (
+                    <p key={creditNote.number} className="text-xs text-destructive">
+                      Kreditnota #{creditNote.number}: {creditNote.amount.toLocaleString('sv-SE')} kr
+                    </p>
+                  ))}
+                  {invoice.deferredCredits && (
+                    <p className="text-xs text-amber-600">
+                      {invoice.deferredCredits.count} krediter från tidigare månader: -{invoice.deferredCredits.amount.toLocaleString('sv-SE')} kr
+                    </p>
+                  )}
                 </TableCell>
                 <TableCell className="text-center">{invoice.solarLeads}</TableCell>
                 <TableCell className="text-center">{invoice.batteryLeads}</TableCell>
@@ -465,6 +371,29 @@ export function InvoicingOverview({ selectedMonth, onPartnerClick }: InvoicingOv
           </TableBody>
         </Table>
       </div>
+
+      {deferredCreditsSum > 0 && (
+        <p className="text-sm text-amber-600 text-right">
+          Krediter för leads från tidigare månader (betalas med kreditnota): -{deferredCreditsSum.toLocaleString('sv-SE')} kr
+        </p>
+      )}
+
+      <AlertDialog open={confirmFinalize} onOpenChange={setConfirmFinalize}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Lås {leadsMonthLabel}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Alla fakturerbara leads sparas som numrerade fakturor per partner. Fakturorna kan inte ändras efteråt – krediter som godkänns senare skapar kreditnotor.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Avbryt</AlertDialogCancel>
+            <AlertDialogAction onClick={handleFinalizeMonth} disabled={finalizing}>
+              {finalizing ? 'Låser...' : 'Lås och fakturera'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 }
\ No newline at end of file
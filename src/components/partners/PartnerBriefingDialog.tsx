@@ -33,6 +33,8 @@ import {
   Clock
 } from 'lucide-react';
 import { PartnerTimelineTab } from './PartnerTimelineTab';
+import { getPipelineFunnel, summarizePipeline, type FunnelStep } from '@/lib/pipeline';
+import { fetchPriceHistory, resolvePrice, type OrganizationPrices, type PriceHistoryEntry } from '@/lib/pricing';
 
 interface PartnerData {
   id: string;
@@ -60,6 +62,7 @@ interface SalesStats {
   totalDeals: number;
   wonDeals: number;
   closeRate: number;
+  funnel: FunnelStep[];
 }
 
 interface PartnerBriefingDialogProps {
@@ -76,8 +79,10 @@ export function PartnerBriefingDialog({
   selectedMonth,
 }: PartnerBriefingDialogProps) {
   const [leads, setLeads] = useState<Lead[]>([]);
-  const [salesStats, setSalesStats] = useState<SalesStats>({ totalDeals: 0, wonDeals: 0, closeRate: 0 });
+  const [salesStats, setSalesStats] = useState<SalesStats>({ totalDeals: 0, wonDeals: 0, closeRate: 0, funnel: [] });
   const [loading, setLoading] = useState(false);
+  const [priceHistory, setPriceHistory] = useState<PriceHistoryEntry[]>([]);
+  const [organizationPrices, setOrganizationPrices] = useState<OrganizationPrices | undefined>();
 
   useEffect(() => {
     if (open && partner) {
@@ -90,6 +95,18 @@ export function PartnerBriefingDialog({
     setLoading(true);
 
     try {
+      // Fetch current prices and price history so leads are valued at their date
+      const [{ data: orgPrices }, history] = await Promise.all([
+        supabase
+          .from('organizations')
+          .select('id, price_per_solar_deal, price_per_battery_deal, price_per_sun_battery_deal, price_per_site_visit')
+          .eq('id', partner.id)
+          .maybeSingle(),
+        fetchPriceHistory(partner.id),
+      ]);
+      setOrganizationPrices(orgPrices || undefined);
+      setPriceHistory(history);
+
       // Fetch leads for this partner in selected month
       const { data: contactOrgs } = await supabase
         .from('contact_organizations')
@@ -135,10 +152,14 @@ export function PartnerBriefingDialog({
         .eq('organization_id', partner.id);
 
       if (sales) {
-        const totalDeals = sales.length;
-        const wonDeals = sales.filter(s => s.pipeline_status === 'won').length;
-        const closeRate = totalDeals > 0 ? (wonDeals / totalDeals) * 100 : 0;
-        setSalesStats({ totalDeals, wonDeals, closeRate });
+        const statuses = sales.map(s => s.pipeline_status);
+        const summary = summarizePipeline(statuses);
+        setSalesStats({
+          totalDeals: summary.total,
+          wonDeals: summary.won,
+          closeRate: summary.closeRate,
+          funnel: getPipelineFunnel(statuses),
+        });
       }
     } finally {
       setLoading(false);
@@ -164,17 +185,12 @@ export function PartnerBriefingDialog({
     }
   };
 
-  const getLeadPrice = (interest: string) => {
+  const getLeadPrice = (lead: Lead) => {
     if (!partner) return 0;
-    switch (interest) {
-      case 'sun': return partner.pricePerSolar;
-      case 'battery': return partner.pricePerBattery;
-      case 'sun_battery': return partner.pricePerSolar + partner.pricePerBattery;
-      default: return 0;
-    }
+    return resolvePrice(priceHistory, organizationPrices, lead.interest, new Date(lead.date_sent));
   };
 
-  const totalValue = leads.reduce((sum, lead) => sum + getLeadPrice(lead.interest), 0);
+  const totalValue = leads.reduce((sum, lead) => sum + getLeadPrice(lead), 0);
   const solarLeads = leads.filter(l => l.interest === 'sun').length;
   const batteryLeads = leads.filter(l => l.interest === 'battery').length;
   const sunBatteryLeads = leads.filter(l => l.interest === 'sun_battery').length;
@@ -193,7 +209,7 @@ export function PartnerBriefingDialog({
       lead.postal_code || '',
       lead.interest === 'sun' ? 'Sol' : lead.interest === 'battery' ? 'Batteri' : 'Sol+Batteri',
       lead.opener_name || '',
-      getLeadPrice(lead.interest).toString(),
+      getLeadPrice(lead).toString(),
     ]);
     
     const tableText = [headers.join('\t'), ...rows.map(r => r.join('\t'))].join('\n');
@@ -212,7 +228,7 @@ export function PartnerBriefingDialog({
       lead.postal_code || '',
       lead.interest === 'sun' ? 'Sol' : lead.interest === 'battery' ? 'Batteri' : 'Sol+Batteri',
       lead.opener_name || '',
-      getLeadPrice(lead.interest).toString(),
+      getLeadPrice(lead).toString(),
     ]);
     
     const csvContent = [headers.join(';'), ...rows.map(r => r.join(';'))].join('\n');
@@ -335,6 +351,28 @@ export function PartnerBriefingDialog({
                       </div>
                     </CardContent>
                   </Card>
+
+                  {/* Conversion funnel */}
+                  {salesStats.totalDeals > 0 && (
+                    <Card>
+                      <CardHeader className="pb-2">
+                        <CardTitle className="text-sm font-medium text-muted-foreground">Konverteringstratt</CardTitle>
+                      </CardHeader>
+                      <CardContent className="space-y-2">
+                        {salesStats.funnel.map((step) => (
+                          <div key={step.key} className="space-y-1">
+                            <div className="flex justify-between text-sm">
+                              <span>{step.label}</span>
+                              <span className="text-muted-foreground">{step.count} ({step.conversion.toFixed(0)}%)</span>
+                            </div>
+                            <div className="h-2 rounded-full bg-muted overflow-hidden">
+                              <div className="h-full bg-primary" style={{ width: `${step.conversion}%` }} />
+                            </div>
+                          </div>
+                        ))}
+                      </CardContent>
+                    </Card>
+                  )}
                 </div>
               )}
             </TabsContent>
@@ -425,7 +463,7 @@ export function PartnerBriefingDialog({
                               </div>
                             </TableCell>
                             <TableCell className="text-right font-medium">
-                              {getLeadPrice(lead.interest).toLocaleString('sv-SE')} kr
+                              {getLeadPrice(lead).toLocaleString('sv-SE')} kr
                             </TableCell>
                           </TableRow>
                         ))}
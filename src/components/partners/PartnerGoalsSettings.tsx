@@ -1,45 +1,125 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent } from '@/components/ui/card';
-import { Settings2, Target, Users } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHeader, TableRow } from '@/components/ui/table';
+import { ResizableTableHead } from '@/components/ui/resizable-table';
+import { Settings2, Target, Users, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { sv } from 'date-fns/locale';
 import { toast } from 'sonner';
+import {
+  DEFAULT_SETTINGS,
+  fetchGoalThresholds,
+  resolveThresholds,
+  saveGoalThresholds,
+  type GoalScope,
+  type GoalThresholdRow,
+  type ThresholdSettings,
+} from '@/lib/partnerGoals';
 
-interface ThresholdSettings {
-  greenThreshold: number;
-  yellowThreshold: number;
-  redThreshold: number;
-  targetLeadsPerCompany: number;
+interface NamedOption {
+  id: string;
+  name: string;
 }
 
 interface PartnerGoalsSettingsProps {
-  onSettingsChange?: (settings: ThresholdSettings) => void;
+  selectedMonth: string;
+  onSaved?: () => void;
 }
 
-const DEFAULT_SETTINGS: ThresholdSettings = {
-  greenThreshold: 4,
-  yellowThreshold: 2,
-  redThreshold: 1,
-  targetLeadsPerCompany: 3,
+const GLOBAL_SCOPE = 'global';
+
+// Scope select values are 'global', 'region:<id>' or 'partner:<id>'
+const parseScope = (value: string): GoalScope => {
+  const [kind, id] = value.split(':');
+  if (kind === 'region') return { regionId: id };
+  if (kind === 'partner') return { organizationId: id };
+  return {};
 };
 
-export function PartnerGoalsSettings({ onSettingsChange }: PartnerGoalsSettingsProps) {
-  const [settings, setSettings] = useState<ThresholdSettings>(() => {
-    const saved = localStorage.getItem('partnerGoalsSettings');
-    return saved ? JSON.parse(saved) : DEFAULT_SETTINGS;
-  });
+export function PartnerGoalsSettings({ selectedMonth, onSaved }: PartnerGoalsSettingsProps) {
+  const { profile } = useAuth();
+  const [rows, setRows] = useState<GoalThresholdRow[]>([]);
+  const [regions, setRegions] = useState<NamedOption[]>([]);
+  const [organizations, setOrganizations] = useState<NamedOption[]>([]);
   const [isEditing, setIsEditing] = useState(false);
+  const [scopeValue, setScopeValue] = useState(GLOBAL_SCOPE);
+  const [effectiveMonth, setEffectiveMonth] = useState(selectedMonth);
+  const [settings, setSettings] = useState<ThresholdSettings>(DEFAULT_SETTINGS);
+  const [saving, setSaving] = useState(false);
+
+  const selectedDate = new Date(selectedMonth + '-01');
+
+  useEffect(() => {
+    loadRows();
+    const fetchOptions = async () => {
+      const [{ data: regionData }, { data: orgData }] = await Promise.all([
+        supabase.from('regions').select('id, name').order('name'),
+        supabase.from('organizations').select('id, name').order('name'),
+      ]);
+      setRegions(regionData || []);
+      setOrganizations(orgData || []);
+    };
+    fetchOptions();
+  }, []);
 
   useEffect(() => {
-    onSettingsChange?.(settings);
-  }, [settings, onSettingsChange]);
+    setEffectiveMonth(selectedMonth);
+  }, [selectedMonth]);
 
-  const handleSave = () => {
-    localStorage.setItem('partnerGoalsSettings', JSON.stringify(settings));
+  // Start editing from what applies to the chosen scope and month
+  useEffect(() => {
+    setSettings(resolveThresholds(rows, new Date(effectiveMonth + '-01'), parseScope(scopeValue)));
+  }, [rows, scopeValue, effectiveMonth]);
+
+  const loadRows = async () => {
+    setRows(await fetchGoalThresholds());
+  };
+
+  const current = useMemo(() => resolveThresholds(rows, selectedDate), [rows, selectedMonth]);
+
+  const overrides = useMemo(() => rows.filter(row => row.region_id || row.organization_id), [rows]);
+  const regionNames = useMemo(() => new Map(regions.map(r => [r.id, r.name])), [regions]);
+  const organizationNames = useMemo(() => new Map(organizations.map(o => [o.id, o.name])), [organizations]);
+
+  const handleSave = async () => {
+    if (settings.greenThreshold < settings.yellowThreshold || settings.yellowThreshold < settings.redThreshold) {
+      toast.error('Grön tröskel måste vara minst orange, och orange minst röd');
+      return;
+    }
+    if (settings.targetLeadsPerCompany < 1) {
+      toast.error('Målantalet partners per lead måste vara minst 1');
+      return;
+    }
+
+    setSaving(true);
+    const { error } = await saveGoalThresholds(rows, new Date(effectiveMonth + '-01'), parseScope(scopeValue), settings, profile?.id);
+    setSaving(false);
+
+    if (error) {
+      toast.error('Kunde inte spara inställningar');
+      return;
+    }
     setIsEditing(false);
     toast.success('Inställningar sparade');
-    onSettingsChange?.(settings);
+    await loadRows();
+    onSaved?.();
+  };
+
+  const handleDeleteOverride = async (row: GoalThresholdRow) => {
+    const { error } = await supabase.from('partner_goal_thresholds').delete().eq('id', row.id);
+    if (error) {
+      toast.error('Kunde inte ta bort undantaget');
+      return;
+    }
+    toast.success('Undantag borttaget');
+    await loadRows();
+    onSaved?.();
   };
 
   return (
@@ -61,6 +141,33 @@ export function PartnerGoalsSettings({ onSettingsChange }: PartnerGoalsSettingsP
 
       {isEditing ? (
         <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label>Gäller för</Label>
+            <Select value={scopeValue} onValueChange={setScopeValue}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={GLOBAL_SCOPE}>Alla (standard)</SelectItem>
+                {regions.map(region => (
+                  <SelectItem key={region.id} value={`region:${region.id}`}>Region: {region.name}</SelectItem>
+                ))}
+                {organizations.map(org => (
+                  <SelectItem key={org.id} value={`partner:${org.id}`}>Partner: {org.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="effectiveMonth">Gäller från</Label>
+            <Input
+              id="effectiveMonth"
+              type="month"
+              value={effectiveMonth}
+              onChange={(e) => setEffectiveMonth(e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">Tidigare månader bedöms mot de mål som gällde då</p>
+          </div>
           <div className="space-y-2">
             <Label htmlFor="greenThreshold" className="flex items-center gap-2">
               <span className="w-3 h-3 rounded-full bg-emerald-500" />
@@ -113,8 +220,8 @@ export function PartnerGoalsSettings({ onSettingsChange }: PartnerGoalsSettingsP
             />
           </div>
           <div className="sm:col-span-2">
-            <Button onClick={handleSave} className="w-full">
-              Spara inställningar
+            <Button onClick={handleSave} className="w-full" disabled={saving}>
+              {saving ? 'Sparar...' : 'Spara inställningar'}
             </Button>
           </div>
         </div>
@@ -122,39 +229,76 @@ export function PartnerGoalsSettings({ onSettingsChange }: PartnerGoalsSettingsP
         <div className="grid gap-3 sm:grid-cols-4">
           <Card className="bg-emerald-500/10 border-emerald-500/30">
             <CardContent className="p-3 text-center">
-              <p className="text-2xl font-bold text-emerald-600">{settings.greenThreshold}+</p>
+              <p className="text-2xl font-bold text-emerald-600">{current.greenThreshold}+</p>
               <p className="text-xs text-muted-foreground">partners = Grön</p>
             </CardContent>
           </Card>
           <Card className="bg-amber-500/10 border-amber-500/30">
             <CardContent className="p-3 text-center">
-              <p className="text-2xl font-bold text-amber-600">{settings.yellowThreshold}+</p>
+              <p className="text-2xl font-bold text-amber-600">{current.yellowThreshold}+</p>
               <p className="text-xs text-muted-foreground">partners = Orange</p>
             </CardContent>
           </Card>
           <Card className="bg-red-500/10 border-red-500/30">
             <CardContent className="p-3 text-center">
-              <p className="text-2xl font-bold text-red-600">&lt;{settings.redThreshold + 1}</p>
+              <p className="text-2xl font-bold text-red-600">&lt;{current.redThreshold + 1}</p>
               <p className="text-xs text-muted-foreground">partners = Röd</p>
             </CardContent>
           </Card>
           <Card className="bg-primary/10 border-primary/30">
             <CardContent className="p-3 text-center">
-              <p className="text-2xl font-bold text-primary">{settings.targetLeadsPerCompany}</p>
+              <p className="text-2xl font-bold text-primary">{current.targetLeadsPerCompany}</p>
               <p className="text-xs text-muted-foreground">målantal partners/lead</p>
             </CardContent>
           </Card>
         </div>
       )}
+
+      {overrides.length > 0 && (
+        <div className="rounded-xl border border-border overflow-hidden">
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-muted/50 hover:bg-muted/50">
+                <ResizableTableHead className="font-semibold">Undantag</ResizableTableHead>
+                <ResizableTableHead className="font-semibold">Gäller från</ResizableTableHead>
+                <ResizableTableHead className="text-center font-semibold">Grön</ResizableTableHead>
+                <ResizableTableHead className="text-center font-semibold">Orange</ResizableTableHead>
+                <ResizableTableHead className="text-center font-semibold">Röd</ResizableTableHead>
+                <ResizableTableHead className="text-center font-semibold">Partners/lead</ResizableTableHead>
+                <ResizableTableHead className="w-12" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {overrides.map(row => (
+                <TableRow key={row.id} className="hover:bg-muted/30 group">
+                  <TableCell className="font-medium">
+                    {row.region_id
+                      ? `Region: ${regionNames.get(row.region_id) || 'Okänd'}`
+                      : `Partner: ${organizationNames.get(row.organization_id || '') || 'Okänd'}`}
+                  </TableCell>
+                  <TableCell className="text-muted-foreground capitalize">
+                    {format(new Date(row.effective_from), 'MMMM yyyy', { locale: sv })}
+                  </TableCell>
+                  <TableCell className="text-center">{row.green_threshold}+</TableCell>
+                  <TableCell className="text-center">{row.yellow_threshold}+</TableCell>
+                  <TableCell className="text-center">&lt;{row.red_threshold + 1}</TableCell>
+                  <TableCell className="text-center">{row.target_leads_per_company}</TableCell>
+                  <TableCell>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-8 w-8 opacity-0 group-hover:opacity-100 transition-opacity text-destructive hover:text-destructive"
+                      onClick={() => handleDeleteOverride(row)}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
     </div>
   );
 }
-
-export function getThresholdColor(partnerCount: number, settings: ThresholdSettings): string {
-  if (partnerCount >= settings.greenThreshold) return 'text-emerald-600 bg-emerald-500/10';
-  if (partnerCount >= settings.yellowThreshold) return 'text-amber-600 bg-amber-500/10';
-  return 'text-red-600 bg-red-500/10';
-}
-
-export { DEFAULT_SETTINGS };
-export type { ThresholdSettings };
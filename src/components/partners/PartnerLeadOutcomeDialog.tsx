@@ -0,0 +1,125 @@
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from 'sonner';
+import {
+  LOST_REASON_LABELS,
+  PARTNER_OUTCOMES,
+  PARTNER_OUTCOME_LABELS,
+  getPartnerOutcomeErrorMessage,
+  setPartnerLeadOutcome,
+  type PartnerLead,
+  type PartnerLeadOutcome,
+} from '@/lib/partnerPortal';
+
+interface PartnerLeadOutcomeDialogProps {
+  lead: PartnerLead | null;
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => void;
+}
+
+/**
+ * Report how far a received lead has come. Lost leads need a reason.
+ */
+export const PartnerLeadOutcomeDialog = ({ lead, onOpenChange, onSaved }: PartnerLeadOutcomeDialogProps) => {
+  const [outcome, setOutcome] = useState<PartnerLeadOutcome>('new');
+  const [lostReason, setLostReason] = useState('');
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setOutcome(lead?.partner_outcome || 'new');
+    setLostReason(lead?.partner_lost_reason || '');
+    setNotes(lead?.partner_notes || '');
+  }, [lead]);
+
+  const handleSave = async () => {
+    if (!lead) return;
+
+    if (outcome === 'lost' && !lostReason) {
+      toast.error('Välj varför leadet förlorades');
+      return;
+    }
+
+    setSaving(true);
+    const { error } = await setPartnerLeadOutcome(lead.id, outcome, lostReason || null, notes);
+    setSaving(false);
+
+    if (error) {
+      toast.error(getPartnerOutcomeErrorMessage(error));
+      return;
+    }
+
+    toast.success('Utfallet sparat');
+    onOpenChange(false);
+    onSaved();
+  };
+
+  return (
+    <Dialog open={!!lead} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Uppdatera lead</DialogTitle>
+          <DialogDescription>
+            {lead ? lead.contact.name || lead.contact.email : ''}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Utfall</Label>
+            <Select value={outcome} onValueChange={(v) => setOutcome(v as PartnerLeadOutcome)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PARTNER_OUTCOMES.map(key => (
+                  <SelectItem key={key} value={key}>{PARTNER_OUTCOME_LABELS[key]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {outcome === 'lost' && (
+            <div className="space-y-2">
+              <Label>Anledning</Label>
+              <Select value={lostReason} onValueChange={setLostReason}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Varför förlorades leadet?" />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(LOST_REASON_LABELS).map(([code, label]) => (
+                    <SelectItem key={code} value={code}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="partner_notes">Anteckningar (valfritt)</Label>
+            <Textarea
+              id="partner_notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="T.ex. Platsbesök på tisdag, kunden vill ha offert på batteri"
+              rows={3}
+            />
+          </div>
+
+          <div className="flex justify-end gap-2 pt-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Avbryt
+            </Button>
+            <Button onClick={handleSave} disabled={saving || (outcome === 'lost' && !lostReason)}>
+              {saving ? 'Sparar...' : 'Spara'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
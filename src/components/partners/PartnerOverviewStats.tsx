@@ -1,36 +1,53 @@
 import { useState, useEffect, useMemo } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHeader, TableRow } from '@/components/ui/table';
+import { ResizableTableHead } from '@/components/ui/resizable-table';
 import { TrendingUp, Users, Target, BarChart3, Percent } from 'lucide-react';
 import { format, subMonths, startOfMonth, endOfMonth } from 'date-fns';
 import { sv } from 'date-fns/locale';
+import { summarizePipeline } from '@/lib/pipeline';
+import { fetchGoalThresholds, getThresholdColor, resolveThresholds, DEFAULT_SETTINGS, type ThresholdSettings } from '@/lib/partnerGoals';
+import { cn } from '@/lib/utils';
 
 interface RegionStats {
   regionId: string;
   regionName: string;
   partnerCount: number;
   leadCount: number;
-  avgLeadsPerPartner: number;
+  avgPartnersPerLead: number;
+  goals: ThresholdSettings;
+}
+
+interface PartnerBelowTarget {
+  id: string;
+  name: string;
+  avgPartnersPerLead: number;
+  target: number;
 }
 
 interface PartnerOverviewStatsProps {
   selectedMonth: string;
+  goalsVersion?: number;
 }
 
-export function PartnerOverviewStats({ selectedMonth }: PartnerOverviewStatsProps) {
+export function PartnerOverviewStats({ selectedMonth, goalsVersion }: PartnerOverviewStatsProps) {
   const [stats, setStats] = useState({
     totalLeads: 0,
     totalPartners: 0,
     avgLeadsPerPartner: 0,
     avgPartnersPerLead: 0,
     avgCloseRate: 0,
+    goals: DEFAULT_SETTINGS,
     regionStats: [] as RegionStats[],
+    partnersBelowTarget: [] as PartnerBelowTarget[],
   });
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
     fetchStats();
-  }, [selectedMonth]);
+  }, [selectedMonth, goalsVersion]);
 
   const fetchStats = async () => {
     try {
@@ -66,6 +83,14 @@ export function PartnerOverviewStats({ selectedMonth }: PartnerOverviewStatsProp
         .from('sales')
         .select('organization_id, pipeline_status');
 
+      const { data: organizationRegions } = await supabase
+        .from('organization_regions')
+        .select('organization_id, region_id');
+
+      // The month is judged by the targets that applied then
+      const goalRows = await fetchGoalThresholds();
+      const goals = resolveThresholds(goalRows, selectedDate);
+
       const totalPartners = organizations?.length || 0;
       const totalLeads = contacts?.length || 0;
       const contactIds = new Set(contacts?.map(c => c.id) || []);
@@ -85,28 +110,64 @@ export function PartnerOverviewStats({ selectedMonth }: PartnerOverviewStatsProp
         : 0;
 
       // Calculate close rate
-      const totalDeals = sales?.length || 0;
-      const wonDeals = sales?.filter(s => s.pipeline_status === 'won').length || 0;
-      const avgCloseRate = totalDeals > 0 ? (wonDeals / totalDeals) * 100 : 0;
+      const { closeRate: avgCloseRate } = summarizePipeline(sales?.map(s => s.pipeline_status) || []);
 
-      // Region stats - simplified (just count per region)
-      const regionMap = new Map(regions?.map(r => [r.id, r.name]) || []);
+      // Partners per lead, for every lead in the period
+      const linksPerContact = new Map<string, number>();
+      linksInPeriod.forEach(link => {
+        linksPerContact.set(link.contact_id, (linksPerContact.get(link.contact_id) || 0) + 1);
+      });
+
+      // Region stats: active partners covering the region and how many partners its leads got
+      const activeOrgIds = new Set(organizations?.map(o => o.id) || []);
       const regionLeadCounts = new Map<string, number>();
+      const regionLinkCounts = new Map<string, number>();
       const regionPartnerCounts = new Map<string, Set<string>>();
-      
+
       contacts?.forEach(c => {
         if (c.region_id) {
           regionLeadCounts.set(c.region_id, (regionLeadCounts.get(c.region_id) || 0) + 1);
+          regionLinkCounts.set(c.region_id, (regionLinkCounts.get(c.region_id) || 0) + (linksPerContact.get(c.id) || 0));
         }
       });
+      organizationRegions?.forEach(or => {
+        if (!activeOrgIds.has(or.organization_id)) return;
+        const partners = regionPartnerCounts.get(or.region_id) || new Set<string>();
+        partners.add(or.organization_id);
+        regionPartnerCounts.set(or.region_id, partners);
+      });
+
+      const regionStats: RegionStats[] = (regions || [])
+        .filter(r => regionLeadCounts.has(r.id) || regionPartnerCounts.has(r.id))
+        .map(r => {
+          const leadCount = regionLeadCounts.get(r.id) || 0;
+          return {
+            regionId: r.id,
+            regionName: r.name,
+            partnerCount: regionPartnerCounts.get(r.id)?.size || 0,
+            leadCount,
+            avgPartnersPerLead: leadCount > 0 ? (regionLinkCounts.get(r.id) || 0) / leadCount : 0,
+            goals: resolveThresholds(goalRows, selectedDate, { regionId: r.id }),
+          };
+        })
+        .sort((a, b) => a.partnerCount - b.partnerCount);
+
+      // Partners whose leads were shared with fewer partners than their target
+      const partnerLinkTotals = new Map<string, { leads: number; partners: number }>();
+      linksInPeriod.forEach(link => {
+        const totals = partnerLinkTotals.get(link.organization_id) || { leads: 0, partners: 0 };
+        totals.leads += 1;
+        totals.partners += linksPerContact.get(link.contact_id) || 0;
+        partnerLinkTotals.set(link.organization_id, totals);
+      });
 
-      const regionStats: RegionStats[] = Array.from(regionLeadCounts.entries()).map(([regionId, leadCount]) => ({
-        regionId,
-        regionName: regionMap.get(regionId) || 'Okänd',
-        partnerCount: 0, // Would need org_regions data
-        leadCount,
-        avgLeadsPerPartner: 0,
-      }));
+      const partnersBelowTarget: PartnerBelowTarget[] = (organizations || []).flatMap(org => {
+        const totals = partnerLinkTotals.get(org.id);
+        if (!totals) return [];
+        const avg = totals.partners / totals.leads;
+        const target = resolveThresholds(goalRows, selectedDate, { organizationId: org.id }).targetLeadsPerCompany;
+        return avg < target ? [{ id: org.id, name: org.name, avgPartnersPerLead: avg, target }] : [];
+      });
 
       setStats({
         totalLeads,
@@ -114,7 +175,9 @@ export function PartnerOverviewStats({ selectedMonth }: PartnerOverviewStatsProp
         avgLeadsPerPartner,
         avgPartnersPerLead,
         avgCloseRate,
+        goals,
         regionStats,
+        partnersBelowTarget,
       });
     } finally {
       setLoading(false);
@@ -156,7 +219,9 @@ export function PartnerOverviewStats({ selectedMonth }: PartnerOverviewStatsProp
               <Users className="w-4 h-4 text-emerald-500" />
               <span className="text-xs text-muted-foreground">Aktiva partners</span>
             </div>
-            <p className="text-2xl font-bold text-emerald-600">{stats.totalPartners}</p>
+            <p className={cn('text-2xl font-bold inline-block rounded px-1', getThresholdColor(stats.totalPartners, stats.goals))}>
+              {stats.totalPartners}
+            </p>
           </CardContent>
         </Card>
 
@@ -166,7 +231,10 @@ export function PartnerOverviewStats({ selectedMonth }: PartnerOverviewStatsProp
               <Target className="w-4 h-4 text-amber-500" />
               <span className="text-xs text-muted-foreground">Partners/lead</span>
             </div>
-            <p className="text-2xl font-bold text-amber-600">{stats.avgPartnersPerLead.toFixed(1)}</p>
+            <p className={cn('text-2xl font-bold', stats.avgPartnersPerLead >= stats.goals.targetLeadsPerCompany ? 'text-emerald-600' : 'text-amber-600')}>
+              {stats.avgPartnersPerLead.toFixed(1)}
+            </p>
+            <p className="text-xs text-muted-foreground">Mål {stats.goals.targetLeadsPerCompany}</p>
           </CardContent>
         </Card>
 
@@ -190,6 +258,51 @@ export function PartnerOverviewStats({ selectedMonth }: PartnerOverviewStatsProp
           </CardContent>
         </Card>
       </div>
+
+      {stats.regionStats.length > 0 && (
+        <div className="rounded-xl border border-border overflow-hidden">
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-muted/50 hover:bg-muted/50">
+                <ResizableTableHead className="font-semibold">Region</ResizableTableHead>
+                <ResizableTableHead className="text-center font-semibold">Aktiva partners</ResizableTableHead>
+                <ResizableTableHead className="text-center font-semibold">Leads</ResizableTableHead>
+                <ResizableTableHead className="text-center font-semibold">Partners/lead</ResizableTableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {stats.regionStats.map(region => (
+                <TableRow key={region.regionId} className="hover:bg-muted/30">
+                  <TableCell className="font-medium">{region.regionName}</TableCell>
+                  <TableCell className="text-center">
+                    <span className={cn('inline-block rounded px-2 py-0.5 font-medium', getThresholdColor(region.partnerCount, region.goals))}>
+                      {region.partnerCount}
+                    </span>
+                  </TableCell>
+                  <TableCell className="text-center">{region.leadCount}</TableCell>
+                  <TableCell className={cn('text-center', region.leadCount > 0 && region.avgPartnersPerLead < region.goals.targetLeadsPerCompany && 'text-amber-600')}>
+                    {region.leadCount > 0 ? region.avgPartnersPerLead.toFixed(1) : '-'}
+                    <span className="text-xs text-muted-foreground"> / {region.goals.targetLeadsPerCompany}</span>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      {stats.partnersBelowTarget.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Partners under målet för partners/lead</p>
+          <div className="flex flex-wrap gap-2">
+            {stats.partnersBelowTarget.map(partner => (
+              <Badge key={partner.id} variant="outline" className="text-amber-600 border-amber-500/30">
+                {partner.name}: {partner.avgPartnersPerLead.toFixed(1)} / {partner.target}
+              </Badge>
+            ))}
+          </div>
+        </div>
+      )}
     </div>
   );
 }
@@ -1,5 +1,4 @@
-import { useState, useEffect } from 'react';
-import { supabase } from '@/integrations/supabase/client';
+import { useState, useEffect, useMemo } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { Table, TableBody, TableCell, TableHeader, TableRow } from '@/components/ui/table';
 import { ResizableTableHead } from '@/components/ui/resizable-table';
@@ -12,6 +11,8 @@ import { toast } from 'sonner';
 import { format, parseISO, startOfMonth } from 'date-fns';
 import { sv } from 'date-fns/locale';
 import { Target, Save, History, Building2, ChevronDown } from 'lucide-react';
+import { useOrganizations } from '@/hooks/queries/use-organizations';
+import { useMonthlyQuotas, useQuotaChanges, useSaveQuota, type QuotaChange, type QuotaMap } from '@/hooks/queries/use-quotas';
 
 interface Organization {
   id: string;
@@ -19,35 +20,14 @@ interface Organization {
   status: 'active' | 'archived';
 }
 
-interface Quota {
-  id?: string;
-  organization_id: string;
-  period_start: string;
-  quota_amount: number;
-  updated_at?: string;
-}
-
-interface QuotaChange {
-  id: string;
-  changed_at: string;
-  action: string;
-  changed_by: string | null;
-  old_values: { quota_amount?: number } | null;
-  new_values: { quota_amount?: number; organization_id?: string } | null;
-}
-
 interface PartnerQuotasSectionProps {
   selectedMonth: string;
 }
 
 export function PartnerQuotasSection({ selectedMonth }: PartnerQuotasSectionProps) {
   const { profile } = useAuth();
-  const [organizations, setOrganizations] = useState<Organization[]>([]);
-  const [quotas, setQuotas] = useState<Record<string, number>>({});
-  const [originalQuotas, setOriginalQuotas] = useState<Record<string, number>>({});
-  const [recentChanges, setRecentChanges] = useState<QuotaChange[]>([]);
-  const [userNames, setUserNames] = useState<Record<string, string>>({});
-  const [loading, setLoading] = useState(true);
+  // Edited but not yet saved quotas per organization id
+  const [drafts, setDrafts] = useState<QuotaMap>({});
   const [saving, setSaving] = useState<string | null>(null);
 
   // The quota period is the selected month
@@ -55,137 +35,54 @@ export function PartnerQuotasSection({ selectedMonth }: PartnerQuotasSectionProp
   const quotaPeriodStart = format(startOfMonth(selectedDate), 'yyyy-MM-dd');
   const quotaPeriodLabel = format(selectedDate, 'MMMM yyyy', { locale: sv });
 
+  const organizationsQuery = useOrganizations();
+  const quotasQuery = useMonthlyQuotas(quotaPeriodStart);
+  const { data: changeLog } = useQuotaChanges();
+  const saveQuotaMutation = useSaveQuota();
+
   useEffect(() => {
-    fetchData();
+    setDrafts({});
   }, [selectedMonth]);
 
-  const fetchData = async () => {
-    setLoading(true);
-    try {
-      // Fetch active organizations
-      const { data: orgs } = await supabase
-        .from('organizations')
-        .select('id, name, status')
-        .eq('status', 'active')
-        .order('name');
-
-      if (orgs) {
-        setOrganizations(orgs);
-      }
-
-      // Fetch quotas for this period
-      const { data: quotaData } = await supabase
-        .from('organization_lead_quotas')
-        .select('*')
-        .eq('period_type', 'monthly')
-        .eq('period_start', quotaPeriodStart);
-
-      const quotaMap: Record<string, number> = {};
-      quotaData?.forEach(q => {
-        quotaMap[q.organization_id] = q.quota_amount;
-      });
-      setQuotas(quotaMap);
-      setOriginalQuotas(quotaMap);
-
-      // Fetch recent quota changes from audit log
-      const { data: changes } = await supabase
-        .from('audit_log')
-        .select('id, changed_at, action, changed_by, old_values, new_values')
-        .eq('table_name', 'organization_lead_quotas')
-        .order('changed_at', { ascending: false })
-        .limit(10);
-
-      if (changes) {
-        setRecentChanges(changes as QuotaChange[]);
-        
-        // Fetch user names for changed_by ids
-        const userIds = changes.filter(c => c.changed_by).map(c => c.changed_by!);
-        if (userIds.length > 0) {
-          const { data: profiles } = await supabase
-            .from('profiles')
-            .select('id, full_name, email')
-            .in('id', userIds);
-          
-          if (profiles) {
-            const nameMap: Record<string, string> = {};
-            profiles.forEach(p => {
-              nameMap[p.id] = p.full_name || p.email;
-            });
-            setUserNames(nameMap);
-          }
-        }
-      }
-    } finally {
-      setLoading(false);
-    }
-  };
+  const organizations: Organization[] = useMemo(
+    () => (organizationsQuery.data || []).filter(org => org.status === 'active'),
+    [organizationsQuery.data]
+  );
+  const originalQuotas = quotasQuery.data || {};
+  const quotas: QuotaMap = { ...originalQuotas, ...drafts };
+  const recentChanges = changeLog?.changes || [];
+  const userNames = changeLog?.userNames || {};
+  const loading = organizationsQuery.isLoading || quotasQuery.isLoading;
 
   const handleQuotaChange = (orgId: string, value: string) => {
     const numValue = parseInt(value) || 0;
-    setQuotas(prev => ({ ...prev, [orgId]: numValue }));
+    setDrafts(prev => ({ ...prev, [orgId]: numValue }));
   };
 
-  const saveQuota = async (orgId: string) => {
+  const saveQuota = (orgId: string) => {
     if (!profile?.id) return;
-    
-    setSaving(orgId);
-    try {
-      const quotaAmount = quotas[orgId] || 0;
-      
-      const { error } = await supabase
-        .from('organization_lead_quotas')
-        .upsert({
-          organization_id: orgId,
-          period_type: 'monthly',
-          period_start: quotaPeriodStart,
-          quota_amount: quotaAmount,
-          created_by: profile.id,
-        }, {
-          onConflict: 'organization_id,period_type,period_start',
-        });
-
-      if (error) throw error;
 
-      setOriginalQuotas(prev => ({ ...prev, [orgId]: quotaAmount }));
-      toast.success('Kvot sparad');
-      
-      // Refresh changes
-      const { data: changes } = await supabase
-        .from('audit_log')
-        .select('id, changed_at, action, changed_by, old_values, new_values')
-        .eq('table_name', 'organization_lead_quotas')
-        .order('changed_at', { ascending: false })
-        .limit(10);
-      
-      if (changes) {
-        setRecentChanges(changes as QuotaChange[]);
-        
-        // Update user names
-        const userIds = changes.filter(c => c.changed_by).map(c => c.changed_by!);
-        if (userIds.length > 0) {
-          const { data: profiles } = await supabase
-            .from('profiles')
-            .select('id, full_name, email')
-            .in('id', userIds);
-          
-          if (profiles) {
-            const nameMap: Record<string, string> = { ...userNames };
-            profiles.forEach(p => {
-              nameMap[p.id] = p.full_name || p.email;
-            });
-            setUserNames(nameMap);
-          }
-        }
+    const quotaAmount = quotas[orgId] || 0;
+    setSaving(orgId);
+    saveQuotaMutation.mutate(
+      { organizationId: orgId, periodStart: quotaPeriodStart, quotaAmount, createdBy: profile.id },
+      {
+        onSuccess: () => {
+          setDrafts(prev => {
+            const next = { ...prev };
+            delete next[orgId];
+            return next;
+          });
+          toast.success('Kvot sparad');
+        },
+        onError: (error) => toast.error('Kunde inte spara kvot: ' + error.message),
+        onSettled: () => setSaving(null),
       }
-    } catch (error: any) {
-      toast.error('Kunde inte spara kvot: ' + error.message);
-    } finally {
-      setSaving(null);
-    }
+    );
   };
 
   const hasUnsavedChanges = (orgId: string) => {
-    return quotas[orgId] !== originalQuotas[orgId];
+    return orgId in drafts && drafts[orgId] !== originalQuotas[orgId];
   };
 
   const totalQuota = Object.values(quotas).reduce((sum, q) => sum + (q || 0), 0);
@@ -6,7 +6,11 @@ import { Badge } from '@/components/ui/badge';
 import { EmptyState } from '@/components/ui/empty-state';
 import { format, addMonths, startOfMonth, endOfMonth, differenceInDays } from 'date-fns';
 import { sv } from 'date-fns/locale';
-import { Calendar, Clock, Play, Pause, AlertTriangle, TrendingUp, ArrowRight, Plus } from 'lucide-react';
+import { Calendar, Clock, Play, Pause, AlertTriangle, TrendingUp, ArrowRight, Plus, RotateCcw } from 'lucide-react';
+import { toast } from 'sonner';
+import { getTimelineErrorMessage, retryTimelineEvent } from '@/lib/timeline';
+import { fetchGoalThresholds, getThresholdColor, resolveThresholds, type ThresholdSettings } from '@/lib/partnerGoals';
+import { cn } from '@/lib/utils';
 import { AddTimelineEventDialog } from './AddTimelineEventDialog';
 
 interface TimelineEvent {
@@ -21,19 +25,30 @@ interface TimelineEvent {
   is_scheduled: boolean;
 }
 
+interface FailedTimelineEvent {
+  id: string;
+  title: string;
+  event_date: string;
+  execution_error: string | null;
+  organization_name: string;
+}
+
 interface ForecastData {
   month: string;
   activePartners: number;
   projectedLeads: number;
   hasQuota: boolean;
+  goals: ThresholdSettings;
 }
 
 interface PartnerTimelineSectionProps {
   selectedMonth: string;
+  goalsVersion?: number;
 }
 
-export function PartnerTimelineSection({ selectedMonth }: PartnerTimelineSectionProps) {
+export function PartnerTimelineSection({ selectedMonth, goalsVersion }: PartnerTimelineSectionProps) {
   const [upcomingEvents, setUpcomingEvents] = useState<TimelineEvent[]>([]);
+  const [failedEvents, setFailedEvents] = useState<FailedTimelineEvent[]>([]);
   const [forecast, setForecast] = useState<ForecastData[]>([]);
   const [loading, setLoading] = useState(true);
   const [addEventOpen, setAddEventOpen] = useState(false);
@@ -43,7 +58,7 @@ export function PartnerTimelineSection({ selectedMonth }: PartnerTimelineSection
 
   useEffect(() => {
     fetchData();
-  }, [selectedMonth]);
+  }, [selectedMonth, goalsVersion]);
 
   const fetchData = async () => {
     try {
@@ -68,6 +83,24 @@ export function PartnerTimelineSection({ selectedMonth }: PartnerTimelineSection
         })));
       }
 
+      // Events the scheduler could not apply
+      const { data: failed } = await supabase
+        .from('organization_timeline_events')
+        .select(`
+          id, title, event_date, execution_error,
+          organizations!organization_timeline_events_organization_id_fkey(name)
+        `)
+        .eq('execution_status', 'failed')
+        .order('event_date', { ascending: true });
+
+      setFailedEvents((failed || []).map(e => ({
+        id: e.id,
+        title: e.title,
+        event_date: e.event_date,
+        execution_error: e.execution_error,
+        organization_name: e.organizations?.name || 'Okänd',
+      })));
+
       // Calculate forecast for next 3 months using actual quota data
       const { data: activeOrgs } = await supabase
         .from('organizations')
@@ -75,6 +108,7 @@ export function PartnerTimelineSection({ selectedMonth }: PartnerTimelineSection
         .eq('status', 'active');
 
       const activeCount = activeOrgs?.length || 0;
+      const goalRows = await fetchGoalThresholds();
       
       // Get quota data starting from the month AFTER selected month
       const forecastData: ForecastData[] = [];
@@ -108,6 +142,7 @@ export function PartnerTimelineSection({ selectedMonth }: PartnerTimelineSection
           activePartners: Math.max(0, adjustedCount),
           projectedLeads: hasQuota ? totalQuota : 0,
           hasQuota,
+          goals: resolveThresholds(goalRows, month),
         });
       }
       setForecast(forecastData);
@@ -116,6 +151,17 @@ export function PartnerTimelineSection({ selectedMonth }: PartnerTimelineSection
     }
   };
 
+  const handleRetry = async (eventId: string) => {
+    const { error } = await retryTimelineEvent(eventId);
+
+    if (error) {
+      toast.error('Kunde inte köa om händelsen');
+      return;
+    }
+    toast.success('Händelsen genomförs vid nästa körning');
+    fetchData();
+  };
+
   const getEventIcon = (eventType: string) => {
     switch (eventType) {
       case 'pause_scheduled':
@@ -162,7 +208,9 @@ export function PartnerTimelineSection({ selectedMonth }: PartnerTimelineSection
               <CardContent className="p-4">
                 <p className="text-sm text-muted-foreground capitalize">{f.month}</p>
                 <div className="mt-2 space-y-1">
-                  <p className="text-2xl font-bold">{f.activePartners}</p>
+                  <p className={cn('text-2xl font-bold inline-block rounded px-1', getThresholdColor(f.activePartners, f.goals))}>
+                    {f.activePartners}
+                  </p>
                   <p className="text-xs text-muted-foreground">aktiva partners</p>
                 </div>
                 <div className="mt-2 pt-2 border-t">
@@ -238,6 +286,38 @@ export function PartnerTimelineSection({ selectedMonth }: PartnerTimelineSection
         )}
       </div>
 
+      {/* Events the scheduler could not apply */}
+      {failedEvents.length > 0 && (
+        <Card className="bg-destructive/5 border-destructive/20">
+          <CardContent className="p-4">
+            <div className="flex items-start gap-3">
+              <AlertTriangle className="w-5 h-5 text-destructive shrink-0 mt-0.5" />
+              <div className="flex-1 space-y-2">
+                <p className="font-medium text-destructive">Händelser som inte kunde genomföras</p>
+                {failedEvents.map(event => (
+                  <div key={event.id} className="flex items-center justify-between gap-4 text-sm">
+                    <div>
+                      <p>
+                        <span className="font-medium">{event.organization_name}</span>
+                        {' · '}
+                        {event.title}
+                        {' · '}
+                        {format(new Date(event.event_date), 'd MMM yyyy', { locale: sv })}
+                      </p>
+                      <p className="text-xs text-muted-foreground">{getTimelineErrorMessage(event.execution_error)}</p>
+                    </div>
+                    <Button size="sm" variant="outline" onClick={() => handleRetry(event.id)}>
+                      <RotateCcw className="w-3 h-3 mr-1" />
+                      Försök igen
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Capacity warnings */}
       {upcomingEvents.filter(e => e.event_type === 'pause_scheduled').length > 0 && (
         <Card className="bg-amber-500/5 border-amber-500/20">
@@ -18,10 +18,12 @@ import {
   Edit,
   Trash2,
   CheckCircle,
-  AlertCircle
+  AlertCircle,
+  RotateCcw
 } from 'lucide-react';
 import { AddTimelineEventDialog } from './AddTimelineEventDialog';
 import { toast } from 'sonner';
+import { getTimelineErrorMessage, retryTimelineEvent } from '@/lib/timeline';
 
 interface TimelineEvent {
   id: string;
@@ -31,6 +33,8 @@ interface TimelineEvent {
   title: string;
   description: string | null;
   is_scheduled: boolean;
+  execution_status: string;
+  execution_error: string | null;
   created_at: string;
 }
 
@@ -77,6 +81,29 @@ export function PartnerTimelineTab({ partnerId, collaborationStartDate }: Partne
     fetchEvents();
   };
 
+  const handleRetryEvent = async (eventId: string) => {
+    const { error } = await retryTimelineEvent(eventId);
+
+    if (error) {
+      toast.error('Kunde inte köa om händelsen');
+      return;
+    }
+    toast.success('Händelsen genomförs vid nästa körning');
+    fetchEvents();
+  };
+
+  // Failed events show why and can be queued again
+  const renderExecutionFailure = (event: TimelineEvent) => event.execution_status === 'failed' && (
+    <div className="flex items-center gap-2 mt-2">
+      <Badge variant="destructive" className="text-xs">Misslyckades</Badge>
+      <p className="text-xs text-destructive">{getTimelineErrorMessage(event.execution_error)}</p>
+      <Button size="sm" variant="ghost" className="h-6 px-2 text-xs" onClick={() => handleRetryEvent(event.id)}>
+        <RotateCcw className="w-3 h-3 mr-1" />
+        Försök igen
+      </Button>
+    </div>
+  );
+
   const getEventIcon = (eventType: string) => {
     switch (eventType) {
       case 'collaboration_started':
@@ -166,6 +193,7 @@ export function PartnerTimelineTab({ partnerId, collaborationStartDate }: Partne
                         {event.description && (
                           <p className="text-sm text-muted-foreground mt-1">{event.description}</p>
                         )}
+                        {renderExecutionFailure(event)}
                       </div>
                     </div>
                     <div className="flex items-center gap-2">
@@ -234,6 +262,7 @@ export function PartnerTimelineTab({ partnerId, collaborationStartDate }: Partne
                           {event.description && (
                             <p className="text-sm text-muted-foreground mt-1">{event.description}</p>
                           )}
+                          {renderExecutionFailure(event)}
                         </div>
                         <div className="flex items-center gap-2 shrink-0">
                           <p className="text-sm text-muted-foreground">
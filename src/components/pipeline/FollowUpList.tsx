@@ -0,0 +1,95 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { AlarmClock, Phone } from 'lucide-react';
+import { format, isToday } from 'date-fns';
+import { sv } from 'date-fns/locale';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { cn } from '@/lib/utils';
+import { fetchOpenFollowUps, isOverdue, type FollowUpTask } from '@/lib/activities';
+
+interface FollowUpListProps {
+  userId: string;
+  partnersOnly?: boolean;
+}
+
+/**
+ * The signed in user's open follow-ups: overdue first, then today and later
+ */
+export const FollowUpList = ({ userId, partnersOnly = false }: FollowUpListProps) => {
+  const [tasks, setTasks] = useState<FollowUpTask[]>([]);
+
+  useEffect(() => {
+    fetchOpenFollowUps(userId).then(open => setTasks(partnersOnly ? open.filter(task => task.organization) : open));
+  }, [userId, partnersOnly]);
+
+  const handleComplete = async (task: FollowUpTask) => {
+    const { error } = await supabase
+      .from('follow_up_tasks')
+      .update({ completed_at: new Date().toISOString() })
+      .eq('id', task.id);
+
+    if (error) {
+      toast.error('Kunde inte markera uppföljningen som klar');
+      return;
+    }
+    setTasks(prev => prev.filter(t => t.id !== task.id));
+    toast.success('Uppföljning klar');
+  };
+
+  if (tasks.length === 0) return null;
+
+  const overdueCount = tasks.filter(task => isOverdue(task)).length;
+
+  return (
+    <Card className="glass-card">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center gap-2">
+          <AlarmClock className="w-4 h-4 text-primary" />
+          Uppföljningar
+          {overdueCount > 0 && (
+            <Badge variant="destructive" className="text-xs">{overdueCount} försenade</Badge>
+          )}
+        </CardTitle>
+        <CardDescription>Bocka av när du har följt upp kunden</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-2 max-h-64 overflow-y-auto">
+          {tasks.map(task => {
+            const overdue = isOverdue(task);
+            return (
+              <div
+                key={task.id}
+                className={cn(
+                  'flex items-center gap-3 p-2 rounded-lg text-sm',
+                  overdue ? 'bg-destructive/10' : 'bg-muted/30'
+                )}
+              >
+                <Checkbox checked={false} onCheckedChange={() => handleComplete(task)} />
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium truncate">{task.title}</p>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {task.organization ? `Partner: ${task.organization.name}` : task.contact?.name || task.contact?.email || 'Okänd kontakt'}
+                    {task.contact?.phone && (
+                      <span className="inline-flex items-center gap-1 ml-2">
+                        <Phone className="w-3 h-3" />
+                        {task.contact.phone}
+                      </span>
+                    )}
+                  </p>
+                </div>
+                <span className={cn('text-xs whitespace-nowrap', overdue ? 'text-destructive font-medium' : 'text-muted-foreground')}>
+                  {isToday(new Date(task.due_at))
+                    ? `Idag ${format(new Date(task.due_at), 'HH:mm')}`
+                    : format(new Date(task.due_at), 'd MMM HH:mm', { locale: sv })}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,97 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { EmptyState } from '@/components/ui/empty-state';
+import { History, ArrowRight } from 'lucide-react';
+import { format } from 'date-fns';
+import { sv } from 'date-fns/locale';
+import { getPipelineStageLabel } from '@/lib/pipeline';
+
+interface StageHistoryEntry {
+  id: string;
+  from_status: string | null;
+  to_status: string;
+  changed_at: string;
+}
+
+interface SaleStageHistoryDialogProps {
+  saleId: string | null;
+  title: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export const SaleStageHistoryDialog = ({ saleId, title, open, onOpenChange }: SaleStageHistoryDialogProps) => {
+  const [history, setHistory] = useState<StageHistoryEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (open && saleId) {
+      fetchHistory();
+    }
+  }, [open, saleId]);
+
+  const fetchHistory = async () => {
+    if (!saleId) return;
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('sales_stage_history')
+        .select('id, from_status, to_status, changed_at')
+        .eq('sale_id', saleId)
+        .order('changed_at', { ascending: false });
+
+      if (error) throw error;
+      setHistory(data || []);
+    } catch (error) {
+      console.error('Error fetching stage history:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="w-5 h-5 text-primary" />
+            Stegshistorik
+          </DialogTitle>
+          <DialogDescription>{title}</DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="w-6 h-6 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+          </div>
+        ) : history.length === 0 ? (
+          <EmptyState
+            icon={History}
+            title="Ingen historik"
+            description="Inga stegförflyttningar har registrerats ännu"
+          />
+        ) : (
+          <div className="space-y-2">
+            {history.map((entry) => (
+              <div key={entry.id} className="flex items-center justify-between p-3 rounded-lg bg-muted/30">
+                <div className="flex items-center gap-2 text-sm">
+                  {entry.from_status && (
+                    <>
+                      <span className="text-muted-foreground">{getPipelineStageLabel(entry.from_status)}</span>
+                      <ArrowRight className="w-3 h-3 text-muted-foreground" />
+                    </>
+                  )}
+                  <span className="font-medium">{getPipelineStageLabel(entry.to_status)}</span>
+                </div>
+                <span className="text-xs text-muted-foreground">
+                  {format(new Date(entry.changed_at), 'dd MMM yyyy, HH:mm', { locale: sv })}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -7,6 +7,8 @@ import { Label } from '@/components/ui/label';
 import { Checkbox } from '@/components/ui/checkbox';
 import { toast } from 'sonner';
 import { UserPlus } from 'lucide-react';
+import { createUser, type UserDelivery } from '@/lib/users';
+import { UserDeliveryField } from '@/components/admin/UserDeliveryField';
 
 interface Region {
   id: string;
@@ -29,8 +31,8 @@ export const CreateCloserDialog = ({ onCreated }: CreateCloserDialogProps) => {
   const [organizations, setOrganizations] = useState<Organization[]>([]);
   const [formData, setFormData] = useState({
     email: '',
-    password: '',
     full_name: '',
+    delivery: 'invite' as UserDelivery,
     base_commission: '8000',
     markup_percentage: '40',
   });
@@ -76,13 +78,8 @@ export const CreateCloserDialog = ({ onCreated }: CreateCloserDialogProps) => {
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!formData.email.trim() || !formData.password) {
-      toast.error('E-post och lösenord krävs');
-      return;
-    }
-
-    if (formData.password.length < 6) {
-      toast.error('Lösenordet måste vara minst 6 tecken');
+    if (!formData.email.trim()) {
+      toast.error('E-post krävs');
       return;
     }
 
@@ -97,64 +94,32 @@ export const CreateCloserDialog = ({ onCreated }: CreateCloserDialogProps) => {
     }
 
     setLoading(true);
-    try {
-      const { data, error } = await supabase.auth.signUp({
-        email: formData.email.trim(),
-        password: formData.password,
-        options: {
-          data: {
-            full_name: formData.full_name.trim(),
-          },
-        },
-      });
-
-      if (error) throw error;
-
-      if (data.user) {
-        // Update the profile with closer role, name and commission settings
-        await supabase
-          .from('profiles')
-          .update({ 
-            role: 'closer',
-            full_name: formData.full_name.trim(),
-            closer_base_commission: parseFloat(formData.base_commission) || 8000,
-            closer_markup_percentage: parseFloat(formData.markup_percentage) || 40,
-          })
-          .eq('id', data.user.id);
-
-        // Update user_roles table
-        await supabase
-          .from('user_roles')
-          .update({ role: 'closer' })
-          .eq('user_id', data.user.id);
-
-        // Create closer_regions entries
-        const closerRegionsData = selectedRegions.map(sr => ({
-          closer_id: data.user!.id,
-          region_id: sr.regionId,
-          organization_id: sr.organizationId,
-        }));
-
-        const { error: regionsError } = await supabase
-          .from('closer_regions')
-          .insert(closerRegionsData);
-
-        if (regionsError) {
-          console.error('Error creating closer regions:', regionsError);
-          toast.error('Closer skapad men kunde inte tilldela regioner');
-        }
-      }
-
-      toast.success('Closer skapad');
-      setFormData({ email: '', password: '', full_name: '', base_commission: '8000', markup_percentage: '40' });
-      setSelectedRegions([]);
-      setOpen(false);
-      onCreated();
-    } catch (error: any) {
-      toast.error('Kunde inte skapa closer: ' + error.message);
-    } finally {
-      setLoading(false);
+    const error = await createUser({
+      email: formData.email.trim(),
+      full_name: formData.full_name.trim(),
+      role: 'closer',
+      delivery: formData.delivery,
+      profile: {
+        closer_base_commission: parseFloat(formData.base_commission) || 8000,
+        closer_markup_percentage: parseFloat(formData.markup_percentage) || 40,
+      },
+      closer_regions: selectedRegions.map(sr => ({
+        region_id: sr.regionId,
+        organization_id: sr.organizationId,
+      })),
+    });
+    setLoading(false);
+
+    if (error) {
+      toast.error(error);
+      return;
     }
+
+    toast.success('Closer skapad och mejl skickat');
+    setFormData({ email: '', full_name: '', delivery: 'invite', base_commission: '8000', markup_percentage: '40' });
+    setSelectedRegions([]);
+    setOpen(false);
+    onCreated();
   };
 
   return (
@@ -191,17 +156,11 @@ export const CreateCloserDialog = ({ onCreated }: CreateCloserDialogProps) => {
               required
             />
           </div>
-          <div className="space-y-2">
-            <Label htmlFor="closer-password">Lösenord *</Label>
-            <Input
-              id="closer-password"
-              type="password"
-              value={formData.password}
-              onChange={(e) => setFormData(prev => ({ ...prev, password: e.target.value }))}
-              placeholder="Minst 6 tecken"
-              required
-            />
-          </div>
+          <UserDeliveryField
+            id="closer-delivery"
+            value={formData.delivery}
+            onChange={(delivery) => setFormData(prev => ({ ...prev, delivery }))}
+          />
 
           <div className="space-y-3">
             <Label>Tilldela regioner & organisationer *</Label>
@@ -1,11 +1,12 @@
 import { useState } from 'react';
-import { supabase } from '@/integrations/supabase/client';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { toast } from 'sonner';
 import { UserPlus } from 'lucide-react';
+import { createUser, type UserDelivery } from '@/lib/users';
+import { UserDeliveryField } from '@/components/admin/UserDeliveryField';
 
 interface CreateOpenerDialogProps {
   onCreated: () => void;
@@ -16,8 +17,8 @@ export const CreateOpenerDialog = ({ onCreated }: CreateOpenerDialogProps) => {
   const [loading, setLoading] = useState(false);
   const [formData, setFormData] = useState({
     email: '',
-    password: '',
     full_name: '',
+    delivery: 'invite' as UserDelivery,
     commission_per_lead: '200',
     commission_per_deal: '1000',
   });
@@ -25,58 +26,33 @@ export const CreateOpenerDialog = ({ onCreated }: CreateOpenerDialogProps) => {
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!formData.email.trim() || !formData.password) {
-      toast.error('E-post och lösenord krävs');
-      return;
-    }
-
-    if (formData.password.length < 6) {
-      toast.error('Lösenordet måste vara minst 6 tecken');
+    if (!formData.email.trim()) {
+      toast.error('E-post krävs');
       return;
     }
 
     setLoading(true);
-    try {
-      const { data, error } = await supabase.auth.signUp({
-        email: formData.email.trim(),
-        password: formData.password,
-        options: {
-          data: {
-            full_name: formData.full_name.trim() || null,
-          },
-        },
-      });
-
-      if (error) throw error;
+    const error = await createUser({
+      email: formData.email.trim(),
+      full_name: formData.full_name.trim() || undefined,
+      role: 'opener',
+      delivery: formData.delivery,
+      profile: {
+        opener_commission_per_lead: parseFloat(formData.commission_per_lead) || 200,
+        opener_commission_per_deal: parseFloat(formData.commission_per_deal) || 1000,
+      },
+    });
+    setLoading(false);
 
-      if (data.user) {
-        // Update the profile with opener role, name and commissions
-        await supabase
-          .from('profiles')
-          .update({ 
-            role: 'opener',
-            full_name: formData.full_name.trim() || null,
-            opener_commission_per_lead: parseFloat(formData.commission_per_lead) || 200,
-            opener_commission_per_deal: parseFloat(formData.commission_per_deal) || 1000,
-          })
-          .eq('id', data.user.id);
-
-        // Update user_roles table
-        await supabase
-          .from('user_roles')
-          .update({ role: 'opener' })
-          .eq('user_id', data.user.id);
-      }
-
-      toast.success('Opener skapad');
-      setFormData({ email: '', password: '', full_name: '', commission_per_lead: '200', commission_per_deal: '1000' });
-      setOpen(false);
-      onCreated();
-    } catch (error: any) {
-      toast.error('Kunde inte skapa opener: ' + error.message);
-    } finally {
-      setLoading(false);
+    if (error) {
+      toast.error(error);
+      return;
     }
+
+    toast.success('Opener skapad och mejl skickat');
+    setFormData({ email: '', full_name: '', delivery: 'invite', commission_per_lead: '200', commission_per_deal: '1000' });
+    setOpen(false);
+    onCreated();
   };
 
   return (
@@ -113,17 +89,11 @@ export const CreateOpenerDialog = ({ onCreated }: CreateOpenerDialogProps) => {
               required
             />
           </div>
-          <div className="space-y-2">
-            <Label htmlFor="opener-password">Lösenord *</Label>
-            <Input
-              id="opener-password"
-              type="password"
-              value={formData.password}
-              onChange={(e) => setFormData(prev => ({ ...prev, password: e.target.value }))}
-              placeholder="Minst 6 tecken"
-              required
-            />
-          </div>
+          <UserDeliveryField
+            id="opener-delivery"
+            value={formData.delivery}
+            onChange={(delivery) => setFormData(prev => ({ ...prev, delivery }))}
+          />
           <div className="space-y-2">
             <Label htmlFor="opener-commission-lead">Provision per lead (kr)</Label>
             <Input
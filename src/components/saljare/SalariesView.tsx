@@ -1,5 +1,4 @@
-import { useState, useEffect, useMemo } from 'react';
-import { supabase } from '@/integrations/supabase/client';
+import { useState, useMemo } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Table, TableBody, TableCell, TableHeader, TableRow } from '@/components/ui/table';
 import { ResizableTableHead } from '@/components/ui/resizable-table';
@@ -7,217 +6,20 @@ import { Button } from '@/components/ui/button';
 import { EmptyState } from '@/components/ui/empty-state';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Wallet, TrendingUp, Calendar, ChevronLeft, ChevronRight, Percent, Users } from 'lucide-react';
-import { format, startOfMonth, endOfMonth, subMonths, addMonths } from 'date-fns';
+import { format, subMonths, addMonths } from 'date-fns';
 import { sv } from 'date-fns/locale';
-
-interface LeadDetail {
-  id: string;
-  email: string;
-  interest: string;
-  date_sent: string;
-  organizations: string[];
-  commission: number;
-}
-
-interface SaleDetail {
-  id: string;
-  contactEmail: string;
-  organizationName: string;
-  closedAt: string;
-  commission: number;
-  invoiceableAmount: number;
-}
-
-interface OpenerSalaryData {
-  id: string;
-  name: string;
-  email: string;
-  qualifiedLeads: number;
-  commission: number;
-  commissionPerDeal: number;
-  leads: LeadDetail[];
-  employerFeePercent: number;
-  vacationPayPercent: number;
-  employerCost: number;
-  totalWithEmployerCost: number;
-}
-
-interface CloserSalaryData {
-  id: string;
-  name: string;
-  email: string;
-  closedDeals: number;
-  commission: number;
-  baseCommission: number;
-  sales: SaleDetail[];
-  employerFeePercent: number;
-  vacationPayPercent: number;
-  employerCost: number;
-  totalWithEmployerCost: number;
-}
+import { useSalaries, type CloserSalaryData, type OpenerSalaryData } from '@/hooks/queries/use-sellers';
 
 export const SalariesView = () => {
-  const [loading, setLoading] = useState(true);
   const [selectedMonth, setSelectedMonth] = useState(new Date());
-  const [openerSalaries, setOpenerSalaries] = useState<OpenerSalaryData[]>([]);
-  const [closerSalaries, setCloserSalaries] = useState<CloserSalaryData[]>([]);
+  const { data, isPending: loading } = useSalaries(format(selectedMonth, 'yyyy-MM'));
+  const { openers: openerSalaries = [], closers: closerSalaries = [] } = data || {};
   const [selectedOpener, setSelectedOpener] = useState<OpenerSalaryData | null>(null);
   const [selectedCloser, setSelectedCloser] = useState<CloserSalaryData | null>(null);
 
   const handlePreviousMonth = () => setSelectedMonth(prev => subMonths(prev, 1));
   const handleNextMonth = () => setSelectedMonth(prev => addMonths(prev, 1));
 
-  useEffect(() => {
-    fetchSalaries();
-  }, [selectedMonth]);
-
-  const fetchSalaries = async () => {
-    setLoading(true);
-    try {
-      const startDate = startOfMonth(selectedMonth);
-      const endDate = endOfMonth(selectedMonth);
-
-      // Fetch all profiles with individual employer cost settings
-      const { data: profiles } = await supabase
-        .from('profiles')
-        .select('id, email, full_name, role, opener_commission_per_deal, closer_base_commission, employer_fee_percent, vacation_pay_percent')
-        .in('role', ['opener', 'closer', 'teamleader']);
-
-      // Fetch contacts for the month (for opener commission)
-      const { data: contacts } = await supabase
-        .from('contacts')
-        .select(`
-          id, 
-          email, 
-          opener_id, 
-          interest, 
-          date_sent,
-          contact_organizations(organization:organizations(id, name)),
-          credit_requests(status, organization_id)
-        `)
-        .gte('date_sent', startDate.toISOString().split('T')[0])
-        .lte('date_sent', endDate.toISOString().split('T')[0]);
-
-      // Fetch closed sales for the month (for closer commission)
-      const { data: sales } = await supabase
-        .from('sales')
-        .select(`
-          id, 
-          closer_id, 
-          closer_commission, 
-          opener_commission,
-          contact_id, 
-          organization_id,
-          invoiceable_amount,
-          closed_at,
-          contact:contacts(email, opener_id),
-          organization:organizations(name)
-        `)
-        .eq('pipeline_status', 'closed_won')
-        .gte('closed_at', startDate.toISOString())
-        .lte('closed_at', endDate.toISOString());
-
-      // Calculate opener salaries
-      // Rule: Opener only gets commission if lead was sold to 2+ companies
-      const openers = profiles?.filter(p => p.role === 'opener' || p.role === 'teamleader') || [];
-      const openerData: OpenerSalaryData[] = openers.map(opener => {
-        const openerContacts = contacts?.filter(c => c.opener_id === opener.id) || [];
-        
-        // Filter to only leads sold to 2+ organizations (non-credited)
-        const qualifiedLeads = openerContacts.filter(contact => {
-          const orgs = contact.contact_organizations?.map((co: any) => co.organization) || [];
-          
-          // Count organizations that don't have approved credit
-          const validOrgs = orgs.filter((org: any) => {
-            const hasApprovedCredit = contact.credit_requests?.some(
-              (cr: any) => cr.organization_id === org.id && cr.status === 'approved'
-            );
-            return !hasApprovedCredit;
-          });
-          
-          return validOrgs.length >= 2;
-        });
-
-        const commissionPerDeal = opener.opener_commission_per_deal || 1000;
-        const totalCommission = qualifiedLeads.length * commissionPerDeal;
-
-        const leads: LeadDetail[] = qualifiedLeads.map(contact => ({
-          id: contact.id,
-          email: contact.email,
-          interest: contact.interest,
-          date_sent: contact.date_sent,
-          organizations: contact.contact_organizations?.map((co: any) => co.organization?.name).filter(Boolean) || [],
-          commission: commissionPerDeal
-        }));
-
-        // Calculate individual employer costs
-        const employerFeePercent = opener.employer_fee_percent ?? 31.42;
-        const vacationPayPercent = opener.vacation_pay_percent ?? 12;
-        const totalMultiplier = (employerFeePercent + vacationPayPercent) / 100;
-        const employerCost = totalCommission * totalMultiplier;
-        const totalWithEmployerCost = totalCommission + employerCost;
-
-        return {
-          id: opener.id,
-          name: opener.full_name || opener.email,
-          email: opener.email,
-          qualifiedLeads: qualifiedLeads.length,
-          commission: totalCommission,
-          commissionPerDeal,
-          leads,
-          employerFeePercent,
-          vacationPayPercent,
-          employerCost,
-          totalWithEmployerCost
-        };
-      });
-
-      // Calculate closer salaries
-      const closers = profiles?.filter(p => p.role === 'closer') || [];
-      const closerData: CloserSalaryData[] = closers.map(closer => {
-        const closerSales = sales?.filter(s => s.closer_id === closer.id) || [];
-        const totalCommission = closerSales.reduce((sum, s) => sum + (Number(s.closer_commission) || 0), 0);
-
-        const salesDetails: SaleDetail[] = closerSales.map(sale => ({
-          id: sale.id,
-          contactEmail: (sale.contact as any)?.email || 'Okänd',
-          organizationName: (sale.organization as any)?.name || 'Okänd',
-          closedAt: sale.closed_at || '',
-          commission: Number(sale.closer_commission) || 0,
-          invoiceableAmount: Number(sale.invoiceable_amount) || 0
-        }));
-
-        // Calculate individual employer costs
-        const employerFeePercent = closer.employer_fee_percent ?? 31.42;
-        const vacationPayPercent = closer.vacation_pay_percent ?? 12;
-        const totalMultiplier = (employerFeePercent + vacationPayPercent) / 100;
-        const employerCost = totalCommission * totalMultiplier;
-        const totalWithEmployerCost = totalCommission + employerCost;
-
-        return {
-          id: closer.id,
-          name: closer.full_name || closer.email,
-          email: closer.email,
-          closedDeals: closerSales.length,
-          commission: totalCommission,
-          baseCommission: closer.closer_base_commission || 8000,
-          sales: salesDetails,
-          employerFeePercent,
-          vacationPayPercent,
-          employerCost,
-          totalWithEmployerCost
-        };
-      });
-
-      setOpenerSalaries(openerData);
-      setCloserSalaries(closerData);
-    } catch (error) {
-      console.error('Error fetching salaries:', error);
-    } finally {
-      setLoading(false);
-    }
-  };
-
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('sv-SE', { style: 'currency', currency: 'SEK', minimumFractionDigits: 0 }).format(amount);
   };
@@ -482,6 +284,9 @@ export const SalariesView = () => {
               
               <div className="text-sm text-muted-foreground">
                 <p>Provision per lead: {formatCurrency(selectedOpener.commissionPerDeal)}</p>
+                {selectedOpener.overrideCommission > 0 && (
+                  <p>Override på teamets provision: {formatCurrency(selectedOpener.overrideCommission)}</p>
+                )}
                 <p className="text-xs mt-1">* Endast leads sålda till 2+ partners (ej krediterade) ger provision</p>
               </div>
 
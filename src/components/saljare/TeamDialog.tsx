@@ -0,0 +1,202 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from 'sonner';
+import type { Team } from '@/lib/teams';
+
+export interface TeamPerson {
+  id: string;
+  email: string;
+  full_name: string | null;
+  role: string;
+  team_id: string | null;
+}
+
+interface TeamDialogProps {
+  team: Team | null;
+  open: boolean;
+  teams: Team[];
+  people: TeamPerson[];
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => void;
+}
+
+const NO_LEADER = 'none';
+
+/**
+ * Creates or edits a team: name, teamleader, override rate and openers.
+ * An opener picked here moves over from any other team.
+ */
+export const TeamDialog = ({ team, open, teams, people, onOpenChange, onSaved }: TeamDialogProps) => {
+  const [loading, setLoading] = useState(false);
+  const [name, setName] = useState('');
+  const [leaderId, setLeaderId] = useState(NO_LEADER);
+  const [overridePercent, setOverridePercent] = useState('0');
+  const [memberIds, setMemberIds] = useState<string[]>([]);
+
+  const leaders = people.filter(p => p.role === 'teamleader');
+  const openers = people.filter(p => p.role === 'opener');
+
+  useEffect(() => {
+    if (open) {
+      setName(team?.name || '');
+      setLeaderId(team?.leader_id || NO_LEADER);
+      setOverridePercent((team?.override_percent ?? 0).toString());
+      setMemberIds(team ? openers.filter(p => p.team_id === team.id).map(p => p.id) : []);
+    }
+  }, [team, open]);
+
+  const toggleMember = (id: string, checked: boolean) => {
+    setMemberIds(prev => checked ? [...prev, id] : prev.filter(memberId => memberId !== id));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    const percent = parseFloat(overridePercent) || 0;
+    if (percent < 0 || percent > 100) {
+      toast.error('Override måste vara mellan 0 och 100 %');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const values = {
+        name: name.trim(),
+        leader_id: leaderId === NO_LEADER ? null : leaderId,
+        override_percent: percent,
+      };
+
+      const { data: saved, error } = team
+        ? await supabase.from('teams').update(values).eq('id', team.id).select('id').single()
+        : await supabase.from('teams').insert(values).select('id').single();
+
+      if (error) throw error;
+
+      const removedIds = openers
+        .filter(p => p.team_id === saved.id && !memberIds.includes(p.id))
+        .map(p => p.id);
+
+      if (removedIds.length > 0) {
+        const { error: removeError } = await supabase
+          .from('profiles')
+          .update({ team_id: null })
+          .in('id', removedIds);
+        if (removeError) throw removeError;
+      }
+
+      if (memberIds.length > 0) {
+        const { error: addError } = await supabase
+          .from('profiles')
+          .update({ team_id: saved.id })
+          .in('id', memberIds);
+        if (addError) throw addError;
+      }
+
+      toast.success(team ? 'Team uppdaterat' : 'Team skapat');
+      onOpenChange(false);
+      onSaved();
+    } catch (error) {
+      toast.error('Kunde inte spara team: ' + (error as { message: string }).message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const teamName = (teamId: string | null) => teams.find(t => t.id === teamId)?.name;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{team ? 'Redigera team' : 'Nytt team'}</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="team-name">Namn</Label>
+            <Input
+              id="team-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Team Syd"
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="team-leader">Teamleader</Label>
+            <Select value={leaderId} onValueChange={setLeaderId}>
+              <SelectTrigger id="team-leader">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_LEADER}>Ingen teamleader</SelectItem>
+                {leaders.map(leader => (
+                  <SelectItem key={leader.id} value={leader.id}>
+                    {leader.full_name || leader.email}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="team-override">Override (%)</Label>
+            <Input
+              id="team-override"
+              type="number"
+              min="0"
+              max="100"
+              step="0.1"
+              value={overridePercent}
+              onChange={(e) => setOverridePercent(e.target.value)}
+              placeholder="0"
+            />
+            <p className="text-xs text-muted-foreground">
+              Teamleadern får denna andel av teamets opener-provision varje månad
+            </p>
+          </div>
+          <div className="space-y-2">
+            <Label>Openers</Label>
+            {openers.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Det finns inga openers</p>
+            ) : (
+              <div className="max-h-56 overflow-y-auto rounded-lg border border-border p-3 space-y-2">
+                {openers.map(opener => {
+                  const otherTeam = opener.team_id && opener.team_id !== team?.id ? teamName(opener.team_id) : null;
+                  return (
+                    <div key={opener.id} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`team-member-${opener.id}`}
+                        checked={memberIds.includes(opener.id)}
+                        onCheckedChange={(checked) => toggleMember(opener.id, checked === true)}
+                      />
+                      <Label htmlFor={`team-member-${opener.id}`} className="font-normal cursor-pointer">
+                        {opener.full_name || opener.email}
+                        {otherTeam && (
+                          <span className="ml-1 text-xs text-muted-foreground">(i {otherTeam})</span>
+                        )}
+                      </Label>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+          <div className="flex justify-end gap-2 pt-4">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Avbryt
+            </Button>
+            <Button type="submit" disabled={loading}>
+              {loading ? 'Sparar...' : 'Spara'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,210 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHeader, TableRow } from '@/components/ui/table';
+import { ResizableTableHead } from '@/components/ui/resizable-table';
+import { EmptyState } from '@/components/ui/empty-state';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { toast } from 'sonner';
+import { UsersRound, Plus, Pencil, Trash2 } from 'lucide-react';
+import { fetchTeams, type Team } from '@/lib/teams';
+import { TeamDialog, type TeamPerson } from './TeamDialog';
+
+interface TeamManagementProps {
+  onChanged: () => void;
+}
+
+/**
+ * Teams of openers led by a teamleader. The team decides what the
+ * teamleader can see and earns override commission on.
+ */
+export const TeamManagement = ({ onChanged }: TeamManagementProps) => {
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [people, setPeople] = useState<TeamPerson[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingTeam, setEditingTeam] = useState<Team | null>(null);
+  const [deletingTeam, setDeletingTeam] = useState<Team | null>(null);
+
+  const fetchData = async () => {
+    const [teamData, { data: profileData }] = await Promise.all([
+      fetchTeams(),
+      supabase
+        .from('profiles')
+        .select('id, email, full_name, role, team_id')
+        .in('role', ['opener', 'teamleader'])
+        .order('full_name'),
+    ]);
+
+    setTeams(teamData);
+    setPeople(profileData || []);
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const handleSaved = () => {
+    fetchData();
+    onChanged();
+  };
+
+  const openDialog = (team: Team | null) => {
+    setEditingTeam(team);
+    setDialogOpen(true);
+  };
+
+  const handleDelete = async () => {
+    if (!deletingTeam) return;
+
+    // Members are released by profiles.team_id ON DELETE SET NULL
+    const { error } = await supabase.from('teams').delete().eq('id', deletingTeam.id);
+    setDeletingTeam(null);
+
+    if (error) {
+      toast.error('Kunde inte ta bort team');
+      return;
+    }
+    toast.success('Team borttaget');
+    handleSaved();
+  };
+
+  const personName = (id: string | null) => {
+    const person = people.find(p => p.id === id);
+    return person ? person.full_name || person.email : null;
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-32">
+        <div className="w-6 h-6 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <Card className="glass-card">
+      <CardHeader className="flex flex-row items-center justify-between pb-4">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <UsersRound className="h-5 w-5 text-primary" />
+            Team
+          </CardTitle>
+          <CardDescription>Teamleaders ser sitt teams leads och får override på teamets provision</CardDescription>
+        </div>
+        <Button className="gap-2" onClick={() => openDialog(null)}>
+          <Plus className="w-4 h-4" />
+          Nytt team
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {teams.length === 0 ? (
+          <EmptyState
+            icon={UsersRound}
+            title="Inga team"
+            description="Skapa ett team och koppla en teamleader och openers till det"
+          />
+        ) : (
+          <div className="rounded-xl border border-border overflow-hidden">
+            <Table>
+              <TableHeader>
+                <TableRow className="bg-muted/50 hover:bg-muted/50">
+                  <ResizableTableHead className="font-semibold">Team</ResizableTableHead>
+                  <ResizableTableHead className="font-semibold">Teamleader</ResizableTableHead>
+                  <ResizableTableHead className="font-semibold">Openers</ResizableTableHead>
+                  <ResizableTableHead className="text-center font-semibold">Override</ResizableTableHead>
+                  <ResizableTableHead className="w-24" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {teams.map(team => {
+                  const members = people.filter(p => p.role === 'opener' && p.team_id === team.id);
+                  return (
+                    <TableRow key={team.id} className="hover:bg-muted/30">
+                      <TableCell className="font-medium">{team.name}</TableCell>
+                      <TableCell>
+                        {personName(team.leader_id) || (
+                          <span className="text-muted-foreground text-sm">Ingen teamleader</span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {members.length > 0 ? (
+                            members.map(member => (
+                              <Badge key={member.id} variant="secondary" className="text-xs">
+                                {member.full_name || member.email}
+                              </Badge>
+                            ))
+                          ) : (
+                            <span className="text-muted-foreground text-sm">Inga openers</span>
+                          )}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-center">{Number(team.override_percent)} %</TableCell>
+                      <TableCell>
+                        <div className="flex justify-end gap-1">
+                          <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => openDialog(team)}>
+                            <Pencil className="w-3.5 h-3.5" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-7 w-7 p-0 text-destructive hover:text-destructive"
+                            onClick={() => setDeletingTeam(team)}
+                          >
+                            <Trash2 className="w-3.5 h-3.5" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+
+      <TeamDialog
+        team={editingTeam}
+        open={dialogOpen}
+        teams={teams}
+        people={people}
+        onOpenChange={setDialogOpen}
+        onSaved={handleSaved}
+      />
+
+      <AlertDialog open={!!deletingTeam} onOpenChange={(open) => !open && setDeletingTeam(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Ta bort team?</AlertDialogTitle>
+            <AlertDialogDescription>
+              <strong>{deletingTeam?.name}</strong> tas bort. Teamets openers blir kvar men tillhör inget team.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Avbryt</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Ta bort
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
@@ -4,16 +4,23 @@ import { cn } from "@/lib/utils";
 interface ResizableTableHeadProps extends React.ThHTMLAttributes<HTMLTableCellElement> {
   minWidth?: number;
   defaultWidth?: number;
+  // Called with the new width when the user stops resizing
+  onWidthChange?: (width: number) => void;
 }
 
 const ResizableTableHead = React.forwardRef<HTMLTableCellElement, ResizableTableHeadProps>(
-  ({ className, children, minWidth = 60, defaultWidth, style, ...props }, ref) => {
+  ({ className, children, minWidth = 60, defaultWidth, onWidthChange, style, ...props }, ref) => {
     const [width, setWidth] = React.useState<number | undefined>(defaultWidth);
     const [isResizing, setIsResizing] = React.useState(false);
     const thRef = React.useRef<HTMLTableCellElement | null>(null);
     const startX = React.useRef(0);
     const startWidth = React.useRef(0);
 
+    // A new default, e.g. from a saved layout, replaces the current width
+    React.useEffect(() => {
+      setWidth(defaultWidth);
+    }, [defaultWidth]);
+
     React.useEffect(() => {
       const handleMouseMove = (e: MouseEvent) => {
         if (!isResizing) return;
@@ -29,6 +36,7 @@ const ResizableTableHead = React.forwardRef<HTMLTableCellElement, ResizableTable
           setIsResizing(false);
           document.body.style.cursor = '';
           document.body.style.userSelect = '';
+          if (thRef.current) onWidthChange?.(thRef.current.offsetWidth);
         }
       };
 
@@ -41,7 +49,7 @@ const ResizableTableHead = React.forwardRef<HTMLTableCellElement, ResizableTable
         document.removeEventListener('mousemove', handleMouseMove);
         document.removeEventListener('mouseup', handleMouseUp);
       };
-    }, [isResizing, minWidth]);
+    }, [isResizing, minWidth, onWidthChange]);
 
     const handleMouseDown = (e: React.MouseEvent) => {
       e.preventDefault();
@@ -1,8 +1,7 @@
 import React, { createContext, useContext, useEffect, useState } from 'react';
 import { User, Session } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
-
-type UserRole = 'admin' | 'teamleader' | 'opener' | 'organization';
+import type { UserRole } from '@/lib/permissions';
 
 interface Profile {
   id: string;
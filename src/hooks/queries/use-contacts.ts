@@ -0,0 +1,185 @@
+import { useCallback } from 'react';
+import {
+  keepPreviousData,
+  useInfiniteQuery,
+  useMutation,
+  useQuery,
+  useQueryClient,
+  type InfiniteData,
+} from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import { queryKeys } from '@/lib/queryKeys';
+import {
+  fetchDealTotals,
+  fetchDealsPage,
+  type DealContact,
+  type DealCursor,
+  type DealFilters,
+  type DealOrganization,
+  type DealSort,
+  type DealsPage,
+} from '@/lib/deals';
+
+/**
+ * Deals matching the filters, one page per fetchNextPage(). The previous
+ * filters' deals stay on screen until the new ones have loaded.
+ */
+export const useDeals = (filters: DealFilters, sort: DealSort, enabled = true) =>
+  useInfiniteQuery({
+    queryKey: queryKeys.contacts.deals(filters, sort),
+    queryFn: ({ pageParam }) => fetchDealsPage(filters, sort, pageParam),
+    initialPageParam: null as DealCursor | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    placeholderData: keepPreviousData,
+    enabled,
+  });
+
+export const useDealTotals = (filters: DealFilters, enabled = true) =>
+  useQuery({
+    queryKey: queryKeys.contacts.dealTotals(filters),
+    queryFn: () => fetchDealTotals(filters),
+    placeholderData: keepPreviousData,
+    enabled,
+  });
+
+/**
+ * Refetch deal lists and totals after deals are assigned to a closer
+ */
+export const useInvalidateDeals = () => {
+  const queryClient = useQueryClient();
+  return useCallback(() => queryClient.invalidateQueries({ queryKey: queryKeys.contacts.all }), [queryClient]);
+};
+
+type InterestType = Database['public']['Enums']['interest_type'];
+
+interface NewDeal {
+  contact: {
+    email: string;
+    phone: string | null;
+    address: string | null;
+    postal_code: string | null;
+    interest: InterestType;
+    opener_id: string;
+  };
+  // Partners to link, or undefined to distribute the lead
+  organizationIds?: string[];
+}
+
+export interface CreatedDeal {
+  contact_id: string;
+  distribution: { organization_id: string; selected: boolean }[] | null;
+}
+
+/**
+ * Create a contact and link or distribute it in one transaction, so a failed
+ * distribution doesn't leave a contact without partners
+ */
+export const useCreateDeal = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ contact, organizationIds }: NewDeal) => {
+      const { data, error } = await supabase.rpc('create_deal', {
+        _contact: contact,
+        _organization_ids: organizationIds,
+      });
+
+      if (error) throw error;
+      return data as unknown as CreatedDeal;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.contacts.dealLists });
+      queryClient.invalidateQueries({ queryKey: queryKeys.contacts.allDealTotals });
+    },
+  });
+};
+
+export type SaleProductChanges = Pick<
+  Database['public']['Tables']['sales']['Update'],
+  'product_id' | 'custom_product_name' | 'custom_product_price' | 'custom_product_material_cost_eur'
+>;
+
+export interface DealEdit {
+  contactId: string;
+  fields: {
+    name: string | null;
+    email: string;
+    phone: string | null;
+    address: string | null;
+    interest: InterestType;
+    opener_id: string;
+  };
+  opener?: DealContact['opener'];
+  // Partners linked after the edit, with their sold_to_partner flag
+  organizations: DealOrganization[];
+  // Product changes for the contact's sale, if it has one
+  sale: { id: string; changes: SaleProductChanges } | null;
+}
+
+// Only the partners and interest change what a deal is worth
+const changesDealValue = (deal: DealContact | undefined, { fields, organizations }: DealEdit) => {
+  if (!deal || deal.interest !== fields.interest) return true;
+
+  const before = (deal.organizations || []).map(o => `${o.id}:${!!o.sold_to_partner}`).sort().join();
+  const after = organizations.map(o => `${o.id}:${!!o.sold_to_partner}`).sort().join();
+  return before !== after;
+};
+
+/**
+ * Save a deal's contact details, partner links and product in one
+ * transaction (update_deal). The deal changes at once in every loaded Deals
+ * list and goes back if the save fails. Only the lists are refetched, and
+ * the totals too when the deal's value changed.
+ */
+export const useUpdateDeal = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ contactId, fields, organizations, sale }: DealEdit) => {
+      const { error } = await supabase.rpc('update_deal', {
+        _contact_id: contactId,
+        _contact: fields,
+        _organizations: organizations.map(o => ({ organization_id: o.id, sold_to_partner: !!o.sold_to_partner })),
+        _sale_id: sale?.id,
+        _sale: sale?.changes,
+      });
+
+      if (error) throw error;
+    },
+    onMutate: async (edit) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.contacts.dealLists });
+      const previous = queryClient.getQueriesData<InfiniteData<DealsPage>>({ queryKey: queryKeys.contacts.dealLists });
+
+      const deal = previous
+        .flatMap(([, data]) => data?.pages.flatMap(page => page.deals) || [])
+        .find(d => d.id === edit.contactId);
+
+      queryClient.setQueriesData<InfiniteData<DealsPage>>({ queryKey: queryKeys.contacts.dealLists }, (data) =>
+        data && {
+          ...data,
+          pages: data.pages.map(page => ({
+            ...page,
+            deals: page.deals.map(d => (d.id === edit.contactId
+              ? { ...d, ...edit.fields, opener: edit.opener ?? d.opener, organizations: edit.organizations }
+              : d)),
+          })),
+        }
+      );
+      return { previous, changesValue: changesDealValue(deal, edit) };
+    },
+    onError: (_error, _edit, context) => {
+      context?.previous.forEach(([key, data]) => queryClient.setQueryData(key, data));
+    },
+    onSettled: (_data, error, edit, context) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.contacts.dealLists });
+      if (error || context?.changesValue !== false) {
+        queryClient.invalidateQueries({ queryKey: queryKeys.contacts.allDealTotals });
+      }
+      // Pipeline cards show the sale's contact
+      if (edit.sale) {
+        queryClient.invalidateQueries({ queryKey: queryKeys.sales.pipelines });
+      }
+    },
+  });
+};
@@ -0,0 +1,198 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { endOfMonth, format, startOfMonth } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import { decideCreditRequest } from '@/lib/credits';
+import { queryKeys } from '@/lib/queryKeys';
+import type { CreditEvidence } from '@/components/partners/CreditEvidenceList';
+
+type CreditStatus = Database['public']['Enums']['credit_status'];
+
+export interface CreditRequestListItem {
+  id: string;
+  status: CreditStatus;
+  reason: string | null;
+  reason_code_info: { label: string } | null;
+  created_at: string;
+  contact: { email: string; name: string | null; date_sent: string } | null;
+  organization: { name: string } | null;
+  requested_by_profile: { email: string } | null;
+}
+
+export interface MonthCreditRequest extends CreditRequestListItem {
+  ledger: { billing_month: string; is_deferred: boolean | null } | null;
+}
+
+export interface CreditRequestDetails {
+  reason: string | null;
+  reason_code_info: { label: string } | null;
+  contact: { email: string; name: string | null } | null;
+  organization: { name: string } | null;
+  attachments: CreditEvidence[];
+}
+
+const CREDIT_REQUEST_SELECT = `
+  *,
+  reason_code_info:credit_reason_codes(label),
+  contact:contacts!inner(email, name, date_sent),
+  organization:organizations(name),
+  requested_by_profile:profiles!credit_requests_requested_by_fkey(email)
+`;
+
+/**
+ * Every credit request the user can see, newest first
+ */
+export const useCreditRequests = (enabled = true) =>
+  useQuery({
+    queryKey: queryKeys.credits.requests(),
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('credit_requests')
+        .select(CREDIT_REQUEST_SELECT)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return (data || []) as unknown as CreditRequestListItem[];
+    },
+    enabled,
+  });
+
+/**
+ * Requests for leads generated in a month ('yyyy-MM'), and credits for
+ * earlier leads that the ledger defers to that month's billing
+ */
+export const useMonthCreditRequests = (month: string) =>
+  useQuery({
+    queryKey: queryKeys.credits.month(month),
+    queryFn: async () => {
+      const monthDate = new Date(month + '-01');
+      const monthStart = startOfMonth(monthDate);
+      const monthEnd = endOfMonth(monthDate);
+
+      const [leadsResult, deferredResult] = await Promise.all([
+        supabase
+          .from('credit_requests')
+          .select(`${CREDIT_REQUEST_SELECT}, ledger:partner_credit_ledger(billing_month, is_deferred)`)
+          .gte('contact.date_sent', format(monthStart, 'yyyy-MM-dd'))
+          .lte('contact.date_sent', format(monthEnd, 'yyyy-MM-dd'))
+          .order('created_at', { ascending: false }),
+        supabase
+          .from('credit_requests')
+          .select(`${CREDIT_REQUEST_SELECT}, ledger:partner_credit_ledger!inner(billing_month, is_deferred)`)
+          .eq('ledger.billing_month', format(monthStart, 'yyyy-MM-dd'))
+          .eq('ledger.is_deferred', true)
+          .order('created_at', { ascending: false }),
+      ]);
+
+      if (leadsResult.error) throw leadsResult.error;
+      if (deferredResult.error) throw deferredResult.error;
+
+      const leadRequests = (leadsResult.data || []) as unknown as MonthCreditRequest[];
+      const leadRequestIds = new Set(leadRequests.map(r => r.id));
+      const deferredRequests = ((deferredResult.data || []) as unknown as MonthCreditRequest[])
+        .filter(r => !leadRequestIds.has(r.id));
+
+      return [...leadRequests, ...deferredRequests].sort((a, b) => b.created_at.localeCompare(a.created_at));
+    },
+  });
+
+/**
+ * Reason, evidence and parties of one request, for the decision dialog
+ */
+export const useCreditRequestDetails = (creditRequestId: string | null) =>
+  useQuery({
+    queryKey: queryKeys.credits.details(creditRequestId || ''),
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('credit_requests')
+        .select(`
+          reason,
+          reason_code_info:credit_reason_codes(label),
+          contact:contacts(email, name),
+          organization:organizations(name),
+          attachments:credit_request_attachments(id, file_name, storage_path, content_type)
+        `)
+        .eq('id', creditRequestId!)
+        .single();
+
+      if (error) throw error;
+      return data as unknown as CreditRequestDetails;
+    },
+    enabled: !!creditRequestId,
+  });
+
+interface CreditDecision {
+  creditRequestId: string;
+  status: 'approved' | 'denied';
+  comment: string;
+}
+
+type CreditRequestRows = { id: string; status: CreditStatus }[];
+
+/**
+ * Approve or deny a request. Every cached request list shows the new status
+ * right away and goes back if the database refuses the decision. Deals are
+ * refetched afterwards since their credit status and totals change too.
+ */
+export const useDecideCreditRequest = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ creditRequestId, status, comment }: CreditDecision) => {
+      const { error } = await decideCreditRequest(creditRequestId, status, comment);
+      if (error) throw error;
+    },
+    onMutate: async ({ creditRequestId, status }) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.credits.all });
+      const previous = queryClient.getQueriesData<CreditRequestRows>({ queryKey: queryKeys.credits.all });
+
+      queryClient.setQueriesData<CreditRequestRows>({ queryKey: queryKeys.credits.all }, (rows) =>
+        // Details are a single request, not a list
+        Array.isArray(rows) ? rows.map(r => (r.id === creditRequestId ? { ...r, status } : r)) : rows
+      );
+      return { previous };
+    },
+    onError: (_error, _decision, context) => {
+      context?.previous.forEach(([key, rows]) => queryClient.setQueryData(key, rows));
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.credits.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.contacts.all });
+      // Approved credits come off invoices and partner stats
+      queryClient.invalidateQueries({ queryKey: queryKeys.invoicing.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.organizations.all });
+    },
+  });
+};
+
+interface CreditRequestEdit {
+  creditRequestId: string;
+  status: CreditStatus;
+  creditDate: string;
+}
+
+/**
+ * Admin correction of a request's status and credit date from the deal.
+ * Request lists and deals are refetched, their credit status and totals
+ * change with it.
+ */
+export const useUpdateCreditRequest = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ creditRequestId, status, creditDate }: CreditRequestEdit) => {
+      const { error } = await supabase
+        .from('credit_requests')
+        .update({ status, credit_date: creditDate })
+        .eq('id', creditRequestId);
+
+      if (error) throw error;
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.credits.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.contacts.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.invoicing.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.organizations.all });
+    },
+  });
+};
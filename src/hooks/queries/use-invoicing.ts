@@ -0,0 +1,324 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { endOfMonth, format, startOfMonth } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  creditedLeadKey,
+  fetchCreditLedger,
+  getCreditedLeadKeys,
+  summarizeDeferredCredits,
+  type DeferredCreditSummary,
+} from '@/lib/creditLedger';
+import { createPriceResolver, fetchPriceHistory, getPriceFromList } from '@/lib/pricing';
+import { queryKeys } from '@/lib/queryKeys';
+
+export interface DetailedLead {
+  id: string;
+  address: string | null;
+  contactPerson: string | null;
+  email: string;
+  phone: string | null;
+  interest: string;
+  organizationId: string;
+  organizationName: string;
+  pricePerLead: number;
+  status: string;
+}
+
+export interface PartnerInvoice {
+  id: string;
+  name: string;
+  solarLeads: number;
+  batteryLeads: number;
+  sunBatteryLeads: number;
+  totalLeads: number;
+  pricePerSolar: number;
+  pricePerBattery: number;
+  totalValue: number;
+  invoiceNumber?: number;
+  creditNotes?: { number: number; amount: number }[];
+  // Leads from earlier months credited against this month, paid back by credit note
+  deferredCredits?: DeferredCreditSummary;
+}
+
+export interface InvoicingPeriod {
+  period_month: string;
+  finalized_at: string;
+}
+
+interface LockedInvoiceLine {
+  id: string;
+  contact_id: string | null;
+  contact_name: string | null;
+  contact_email: string | null;
+  contact_phone: string | null;
+  contact_address: string | null;
+  interest: string | null;
+  amount_incl_moms: number;
+  credited_line_id: string | null;
+}
+
+interface LockedInvoice {
+  id: string;
+  invoice_number: number;
+  invoice_type: string;
+  organization_id: string;
+  credited_invoice_id: string | null;
+  amount_incl_moms: number;
+  organization: { name: string } | null;
+  lines: LockedInvoiceLine[];
+}
+
+export interface InvoicingMonth {
+  // Set once the month is finalized
+  period: InvoicingPeriod | null;
+  invoices: PartnerInvoice[];
+  detailedLeads: DetailedLead[];
+  // Credited leads left off this month's invoices, from the credit ledger
+  creditedAmount: number;
+}
+
+type InvoiceRows = Pick<InvoicingMonth, 'invoices' | 'detailedLeads'>;
+
+// Invoices of an open month, worked out from the month's leads
+const fetchOpenMonthInvoices = async (
+  leadsStart: Date,
+  leadsEnd: Date,
+  creditedLeads: Set<string>,
+  deferredCredits: Map<string, DeferredCreditSummary>
+): Promise<InvoiceRows> => {
+  // Fetch active organizations
+  const { data: organizations, error: organizationsError } = await supabase
+    .from('organizations')
+    .select('id, name, price_per_solar_deal, price_per_battery_deal, price_per_sun_battery_deal')
+    .eq('status', 'active');
+
+  if (organizationsError) throw organizationsError;
+
+  // Fetch detailed contacts in billing period
+  const { data: contacts, error: contactsError } = await supabase
+    .from('contacts')
+    .select('id, email, name, address, phone, interest, date_sent')
+    .gte('date_sent', format(leadsStart, 'yyyy-MM-dd'))
+    .lte('date_sent', format(leadsEnd, 'yyyy-MM-dd'));
+
+  if (contactsError) throw contactsError;
+
+  // Fetch contact-org links
+  const { data: contactOrgs, error: linksError } = await supabase
+    .from('contact_organizations')
+    .select('organization_id, contact_id');
+
+  if (linksError) throw linksError;
+
+  // Leads are billed at the price in effect when they were sent
+  const priceHistory = await fetchPriceHistory();
+  const getPriceAtDate = createPriceResolver(priceHistory, organizations || []);
+
+  const contactMap = new Map(contacts?.map(c => [c.id, c]) || []);
+  const contactIdsInPeriod = new Set(contacts?.map(c => c.id) || []);
+
+  const allDetailedLeads: DetailedLead[] = [];
+
+  const partnerInvoices: PartnerInvoice[] = (organizations || []).map((org) => {
+    const orgContactLinks = contactOrgs?.filter(co => 
+      co.organization_id === org.id && contactIdsInPeriod.has(co.contact_id)
+    ) || [];
+    
+    let solarLeads = 0;
+    let batteryLeads = 0;
+    let sunBatteryLeads = 0;
+    let leadsValue = 0;
+
+    orgContactLinks.forEach(link => {
+      const contact = contactMap.get(link.contact_id);
+      if (!contact) return;
+
+      // Leads credited against this month are left off the invoice
+      const isCredited = creditedLeads.has(creditedLeadKey(link.contact_id, org.id));
+
+      // Calculate price based on interest at the lead's date
+      const pricePerLead = getPriceAtDate(org.id, contact.interest, new Date(contact.date_sent));
+      if (!isCredited) {
+        leadsValue += pricePerLead;
+        if (contact.interest === 'sun') solarLeads++;
+        else if (contact.interest === 'battery') batteryLeads++;
+        else if (contact.interest === 'sun_battery') sunBatteryLeads++;
+      }
+
+      // Add to detailed leads for export
+      allDetailedLeads.push({
+        id: contact.id,
+        address: contact.address,
+        contactPerson: contact.name,
+        email: contact.email,
+        phone: contact.phone,
+        interest: contact.interest,
+        organizationId: org.id,
+        organizationName: org.name,
+        pricePerLead: isCredited ? 0 : pricePerLead,
+        status: isCredited ? 'Krediterad' : 'Offert',
+      });
+    });
+
+    const pricePerSolar = getPriceFromList(org, 'sun');
+    const pricePerBattery = getPriceFromList(org, 'battery');
+    return {
+      id: org.id,
+      name: org.name,
+      solarLeads,
+      batteryLeads,
+      sunBatteryLeads,
+      totalLeads: solarLeads + batteryLeads + sunBatteryLeads,
+      pricePerSolar,
+      pricePerBattery,
+      totalValue: leadsValue,
+      deferredCredits: deferredCredits.get(org.id),
+    };
+  }).filter(i => i.totalLeads > 0).sort((a, b) => b.totalValue - a.totalValue);
+
+  return { invoices: partnerInvoices, detailedLeads: allDetailedLeads };
+};
+
+// Invoices of a finalized month, read from the locked invoices
+const fetchLockedInvoices = async (
+  periodMonth: string,
+  deferredCredits: Map<string, DeferredCreditSummary>
+): Promise<InvoiceRows> => {
+  const { data, error } = await supabase
+    .from('invoices')
+    .select(`
+      id,
+      invoice_number,
+      invoice_type,
+      organization_id,
+      credited_invoice_id,
+      amount_incl_moms,
+      organization:organizations(name),
+      lines:invoice_lines(id, contact_id, contact_name, contact_email, contact_phone, contact_address, interest, amount_incl_moms, credited_line_id)
+    `)
+    .eq('period_month', periodMonth)
+    .order('invoice_number');
+
+  if (error) throw error;
+
+  const rows = (data as LockedInvoice[]) || [];
+  const creditNotes = rows.filter(i => i.invoice_type === 'credit_note');
+  const creditedLineIds = new Set(creditNotes.flatMap(cn => cn.lines.map(l => l.credited_line_id)));
+  const allDetailedLeads: DetailedLead[] = [];
+
+  const partnerInvoices: PartnerInvoice[] = rows
+    .filter(i => i.invoice_type === 'invoice')
+    .map((invoice) => {
+      const organizationName = invoice.organization?.name || '–';
+      const invoiceCreditNotes = creditNotes.filter(cn => cn.credited_invoice_id === invoice.id);
+
+      let solarLeads = 0;
+      let batteryLeads = 0;
+      let sunBatteryLeads = 0;
+      let pricePerSolar = 0;
+      let pricePerBattery = 0;
+
+      invoice.lines.forEach(line => {
+        const isCredited = creditedLineIds.has(line.id);
+        const amount = Number(line.amount_incl_moms);
+
+        if (line.interest === 'sun') {
+          pricePerSolar = amount;
+          if (!isCredited) solarLeads++;
+        } else if (line.interest === 'battery') {
+          pricePerBattery = amount;
+          if (!isCredited) batteryLeads++;
+        } else if (line.interest === 'sun_battery') {
+          if (!isCredited) sunBatteryLeads++;
+        }
+
+        allDetailedLeads.push({
+          id: line.contact_id || line.id,
+          address: line.contact_address,
+          contactPerson: line.contact_name,
+          email: line.contact_email || '',
+          phone: line.contact_phone,
+          interest: line.interest || '',
+          organizationId: invoice.organization_id,
+          organizationName,
+          pricePerLead: isCredited ? 0 : amount,
+          status: isCredited ? 'Krediterad' : 'Offert',
+        });
+      });
+
+      const creditedAmount = invoiceCreditNotes.reduce((sum, cn) => sum + Number(cn.amount_incl_moms), 0);
+
+      return {
+        id: invoice.organization_id,
+        name: organizationName,
+        solarLeads,
+        batteryLeads,
+        sunBatteryLeads,
+        totalLeads: solarLeads + batteryLeads + sunBatteryLeads,
+        pricePerSolar,
+        pricePerBattery,
+        totalValue: Number(invoice.amount_incl_moms) + creditedAmount,
+        invoiceNumber: invoice.invoice_number,
+        creditNotes: invoiceCreditNotes.map(cn => ({ number: cn.invoice_number, amount: Number(cn.amount_incl_moms) })),
+        deferredCredits: deferredCredits.get(invoice.organization_id),
+      };
+    })
+    .sort((a, b) => b.totalValue - a.totalValue);
+
+  return { invoices: partnerInvoices, detailedLeads: allDetailedLeads };
+};
+
+/**
+ * Invoicing basis for a leads month ('yyyy-MM'). Finalized months are read
+ * from the locked invoices, never recalculated.
+ */
+export const useInvoicingMonth = (month: string) =>
+  useQuery({
+    queryKey: queryKeys.invoicing.month(month),
+    queryFn: async (): Promise<InvoicingMonth> => {
+      const leadsStart = startOfMonth(new Date(month + '-01'));
+      const leadsEnd = endOfMonth(leadsStart);
+      const periodMonth = format(leadsStart, 'yyyy-MM-dd');
+
+      const { data: period, error } = await supabase
+        .from('invoicing_periods')
+        .select('period_month, finalized_at')
+        .eq('period_month', periodMonth)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      const ledger = await fetchCreditLedger(periodMonth);
+      const deferredCredits = summarizeDeferredCredits(ledger);
+      const creditedAmount = ledger
+        .filter(entry => !entry.is_deferred)
+        .reduce((sum, entry) => sum + Number(entry.amount_incl_moms), 0);
+
+      const rows = period
+        ? await fetchLockedInvoices(periodMonth, deferredCredits)
+        : await fetchOpenMonthInvoices(leadsStart, leadsEnd, getCreditedLeadKeys(ledger), deferredCredits);
+
+      return { period, creditedAmount, ...rows };
+    },
+  });
+
+/**
+ * Lock a month and create its invoices. Returns the number of invoices.
+ */
+export const useFinalizeInvoicingMonth = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (month: string) => {
+      const { data, error } = await supabase.rpc('finalize_invoicing_month', {
+        _period_month: `${month}-01`,
+      });
+
+      if (error) throw error;
+      return data;
+    },
+    onSettled: (_data, _error, month) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.invoicing.month(month) });
+    },
+  });
+};
@@ -0,0 +1,235 @@
+import { useCallback } from 'react';
+import { keepPreviousData, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { endOfMonth, format, startOfMonth } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { summarizePartnerOutcomes } from '@/lib/partnerPortal';
+import { summarizePipeline } from '@/lib/pipeline';
+import { createPriceResolver, fetchPriceHistory, getPriceFromList } from '@/lib/pricing';
+import { queryKeys } from '@/lib/queryKeys';
+
+/**
+ * All partner organizations the user can see, active and archived, by name
+ */
+export const useOrganizations = () =>
+  useQuery({
+    queryKey: queryKeys.organizations.list(),
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('organizations')
+        .select('*')
+        .order('name');
+
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+export const useRegions = () =>
+  useQuery({
+    queryKey: queryKeys.organizations.regions(),
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('regions')
+        .select('id, name')
+        .order('name');
+
+      if (error) throw error;
+      return data || [];
+    },
+    // Regions are rarely edited
+    staleTime: 5 * 60_000,
+  });
+
+export interface PartnerStats {
+  id: string;
+  name: string;
+  status: 'active' | 'archived';
+  contact_person_name: string | null;
+  contact_phone: string | null;
+  totalLeads: number;
+  solarLeads: number;
+  batteryLeads: number;
+  sunBatteryLeads: number;
+  totalValue: number;
+  requestedCredits: number;
+  approvedCredits: number;
+  pricePerSolar: number;
+  pricePerBattery: number;
+  closeRate: number;
+  partnerCloseRate: number | null; // From outcomes the partner reported, null until they report any
+}
+
+export type PartnerStatus = 'active' | 'archived';
+
+/**
+ * Lead, credit and close rate stats for partners that had the status at
+ * some point in the leads month ('yyyy-MM'), most leads first. The previous
+ * month's stats stay on screen while another month loads.
+ */
+export const usePartnerStats = (month: string, status: PartnerStatus, enabled = true) =>
+  useQuery({
+    queryKey: queryKeys.organizations.stats(month, status),
+    queryFn: async () => {
+      const selectedDate = new Date(month + '-01');
+      const leadsStart = startOfMonth(selectedDate);
+      const leadsEnd = endOfMonth(selectedDate);
+
+      const [organizationsResult, statusHistoryResult, contactsResult, contactOrgsResult, creditsResult, salesResult] = await Promise.all([
+        supabase
+          .from('organizations')
+          .select('id, name, price_per_solar_deal, price_per_battery_deal, price_per_sun_battery_deal, price_per_site_visit, status, contact_person_name, contact_phone, is_sales_consultant, billing_model'),
+        supabase
+          .from('organization_status_history')
+          .select('organization_id, status, effective_from, effective_until'),
+        supabase
+          .from('contacts')
+          .select('id, interest, date_sent')
+          .gte('date_sent', format(leadsStart, 'yyyy-MM-dd'))
+          .lte('date_sent', format(leadsEnd, 'yyyy-MM-dd')),
+        supabase
+          .from('contact_organizations')
+          .select('organization_id, contact_id, partner_outcome'),
+        supabase
+          .from('credit_requests')
+          .select('organization_id, status, contact_id'),
+        supabase
+          .from('sales')
+          .select('organization_id, pipeline_status'),
+      ]);
+
+      for (const result of [organizationsResult, statusHistoryResult, contactsResult, contactOrgsResult, creditsResult, salesResult]) {
+        if (result.error) throw result.error;
+      }
+
+      const allOrganizations = organizationsResult.data || [];
+      const statusHistory = statusHistoryResult.data || [];
+      const contacts = contactsResult.data || [];
+      const contactOrgs = contactOrgsResult.data || [];
+      const creditRequests = creditsResult.data || [];
+      const sales = salesResult.data || [];
+
+      // Partners that had the status at some point in the month
+      const organizations = allOrganizations.filter(org => {
+        const orgHistory = statusHistory.filter(h => h.organization_id === org.id);
+
+        if (orgHistory.length === 0) {
+          // No history, fallback to current status
+          return org.status === status;
+        }
+
+        return orgHistory.some(h => {
+          if (h.status !== status) return false;
+
+          const historyStart = new Date(h.effective_from);
+          const historyEnd = h.effective_until ? new Date(h.effective_until) : new Date();
+          return historyStart <= leadsEnd && historyEnd >= leadsStart;
+        });
+      });
+
+      // Leads are valued at the price in effect when they were sent
+      const priceHistory = await fetchPriceHistory();
+      const getPriceAtDate = createPriceResolver(priceHistory, allOrganizations);
+
+      const contactMap = new Map(contacts.map(c => [c.id, c]));
+
+      const partnerStats: PartnerStats[] = organizations.map((org) => {
+        const orgContactLinks = contactOrgs.filter(co => co.organization_id === org.id && contactMap.has(co.contact_id));
+        const orgCredits = creditRequests.filter(cr => cr.organization_id === org.id);
+        const orgSales = sales.filter(s => s.organization_id === org.id);
+
+        let solarLeads = 0;
+        let batteryLeads = 0;
+        let sunBatteryLeads = 0;
+        let totalValue = 0;
+
+        orgContactLinks.forEach(link => {
+          const contact = contactMap.get(link.contact_id);
+          if (!contact) return;
+          if (contact.interest === 'sun') solarLeads++;
+          else if (contact.interest === 'battery') batteryLeads++;
+          else if (contact.interest === 'sun_battery') sunBatteryLeads++;
+          totalValue += getPriceAtDate(org.id, contact.interest, new Date(contact.date_sent));
+        });
+
+        const { closeRate } = summarizePipeline(orgSales.map(s => s.pipeline_status));
+        const partnerOutcomes = summarizePartnerOutcomes(orgContactLinks.map(link => link.partner_outcome));
+        const hasReportedOutcomes = orgContactLinks.some(link => link.partner_outcome !== 'new');
+
+        return {
+          id: org.id,
+          name: org.name,
+          status: org.status as PartnerStatus,
+          contact_person_name: org.contact_person_name,
+          contact_phone: org.contact_phone,
+          totalLeads: orgContactLinks.length,
+          solarLeads,
+          batteryLeads,
+          sunBatteryLeads,
+          totalValue,
+          requestedCredits: orgCredits.length,
+          approvedCredits: orgCredits.filter(cr => cr.status === 'approved').length,
+          pricePerSolar: getPriceFromList(org, 'sun'),
+          pricePerBattery: getPriceFromList(org, 'battery'),
+          closeRate,
+          partnerCloseRate: hasReportedOutcomes ? partnerOutcomes.closeRate : null,
+        };
+      });
+
+      return partnerStats.sort((a, b) => b.totalLeads - a.totalLeads);
+    },
+    placeholderData: keepPreviousData,
+    enabled,
+  });
+
+/**
+ * Refetch partner lists and stats after partners are created, imported or
+ * edited, or their credits change
+ */
+export const useInvalidateOrganizations = () => {
+  const queryClient = useQueryClient();
+  return useCallback(() => queryClient.invalidateQueries({ queryKey: queryKeys.organizations.all }), [queryClient]);
+};
+
+interface OrganizationStatusChange {
+  organizationId: string;
+  status: PartnerStatus;
+}
+
+/**
+ * Archive or reactivate a partner
+ */
+export const useSetOrganizationStatus = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ organizationId, status }: OrganizationStatusChange) => {
+      const { error } = await supabase
+        .from('organizations')
+        .update({ status })
+        .eq('id', organizationId);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.organizations.all });
+    },
+  });
+};
+
+export const useDeleteOrganization = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (organizationId: string) => {
+      const { error } = await supabase
+        .from('organizations')
+        .delete()
+        .eq('id', organizationId);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.organizations.all });
+    },
+  });
+};
@@ -0,0 +1,120 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { queryKeys } from '@/lib/queryKeys';
+
+export interface QuotaChange {
+  id: string;
+  changed_at: string;
+  action: string;
+  changed_by: string | null;
+  old_values: { quota_amount?: number } | null;
+  new_values: { quota_amount?: number; organization_id?: string } | null;
+}
+
+// Lead quota per organization id
+export type QuotaMap = Record<string, number>;
+
+/**
+ * Monthly lead quotas for the month starting on periodStart ('yyyy-MM-dd')
+ */
+export const useMonthlyQuotas = (periodStart: string) =>
+  useQuery({
+    queryKey: queryKeys.quotas.monthly(periodStart),
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('organization_lead_quotas')
+        .select('organization_id, quota_amount')
+        .eq('period_type', 'monthly')
+        .eq('period_start', periodStart);
+
+      if (error) throw error;
+
+      const quotas: QuotaMap = {};
+      data?.forEach(q => {
+        quotas[q.organization_id] = q.quota_amount;
+      });
+      return quotas;
+    },
+  });
+
+/**
+ * The ten latest quota changes from the audit log, with who made them
+ */
+export const useQuotaChanges = () =>
+  useQuery({
+    queryKey: queryKeys.quotas.changes(),
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('audit_log')
+        .select('id, changed_at, action, changed_by, old_values, new_values')
+        .eq('table_name', 'organization_lead_quotas')
+        .order('changed_at', { ascending: false })
+        .limit(10);
+
+      if (error) throw error;
+
+      const changes = (data || []) as QuotaChange[];
+      const userNames: Record<string, string> = {};
+      const userIds = [...new Set(changes.filter(c => c.changed_by).map(c => c.changed_by!))];
+
+      if (userIds.length > 0) {
+        const { data: profiles } = await supabase
+          .from('profiles')
+          .select('id, full_name, email')
+          .in('id', userIds);
+
+        profiles?.forEach(p => {
+          userNames[p.id] = p.full_name || p.email;
+        });
+      }
+      return { changes, userNames };
+    },
+  });
+
+interface QuotaUpdate {
+  organizationId: string;
+  periodStart: string;
+  quotaAmount: number;
+  createdBy: string;
+}
+
+/**
+ * Set a partner's monthly quota. The saved value shows at once and is
+ * rolled back if the upsert fails; the change log is refetched after.
+ */
+export const useSaveQuota = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ organizationId, periodStart, quotaAmount, createdBy }: QuotaUpdate) => {
+      const { error } = await supabase
+        .from('organization_lead_quotas')
+        .upsert({
+          organization_id: organizationId,
+          period_type: 'monthly',
+          period_start: periodStart,
+          quota_amount: quotaAmount,
+          created_by: createdBy,
+        }, {
+          onConflict: 'organization_id,period_type,period_start',
+        });
+
+      if (error) throw error;
+    },
+    onMutate: async ({ organizationId, periodStart, quotaAmount }) => {
+      const key = queryKeys.quotas.monthly(periodStart);
+      await queryClient.cancelQueries({ queryKey: key });
+      const previous = queryClient.getQueryData<QuotaMap>(key);
+
+      queryClient.setQueryData<QuotaMap>(key, (quotas) => ({ ...quotas, [organizationId]: quotaAmount }));
+      return { previous };
+    },
+    onError: (_error, { periodStart }, context) => {
+      queryClient.setQueryData(queryKeys.quotas.monthly(periodStart), context?.previous);
+    },
+    onSettled: (_data, _error, { periodStart }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.quotas.monthly(periodStart) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.quotas.changes() });
+    },
+  });
+};
@@ -0,0 +1,115 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { getClosedAtAfterMove, type PipelineStatus } from '@/lib/pipeline';
+import { queryKeys } from '@/lib/queryKeys';
+
+export interface PipelineSale {
+  id: string;
+  closer_id: string;
+  pipeline_status: PipelineStatus;
+  closed_at: string | null;
+  updated_at: string;
+  contact: {
+    name: string | null;
+    email: string;
+    phone: string | null;
+    interest: 'sun' | 'battery' | 'sun_battery';
+  } | null;
+  organization: { name: string } | null;
+}
+
+export interface Closer {
+  id: string;
+  full_name: string | null;
+  email: string;
+}
+
+/**
+ * Sales in the pipeline, most recently moved first. Pass a closer's id
+ * for only their sales, or null for everyone's.
+ */
+export const usePipelineSales = (closerId: string | null, enabled = true) =>
+  useQuery({
+    queryKey: queryKeys.sales.pipeline(closerId),
+    queryFn: async () => {
+      let query = supabase
+        .from('sales')
+        .select(`
+          id,
+          closer_id,
+          pipeline_status,
+          closed_at,
+          updated_at,
+          contact:contacts(name, email, phone, interest),
+          organization:organizations(name)
+        `)
+        .order('updated_at', { ascending: false });
+
+      if (closerId) {
+        query = query.eq('closer_id', closerId);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return (data || []) as PipelineSale[];
+    },
+    enabled,
+  });
+
+export const useClosers = (enabled = true) =>
+  useQuery({
+    queryKey: queryKeys.sales.closers(),
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('id, full_name, email')
+        .eq('role', 'closer')
+        .order('full_name');
+
+      if (error) throw error;
+      return (data || []) as Closer[];
+    },
+    enabled,
+  });
+
+interface PipelineMove {
+  saleId: string;
+  toStatus: PipelineStatus;
+}
+
+/**
+ * Move a sale to another pipeline stage. The card moves at once in every
+ * cached pipeline and moves back if the update fails. The database trigger
+ * stamps the real closed_at, which comes back with the refetch.
+ */
+export const useMovePipelineSale = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ saleId, toStatus }: PipelineMove) => {
+      const { error } = await supabase
+        .from('sales')
+        .update({ pipeline_status: toStatus })
+        .eq('id', saleId);
+
+      if (error) throw error;
+    },
+    onMutate: async ({ saleId, toStatus }) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.sales.pipelines });
+      const previous = queryClient.getQueriesData<PipelineSale[]>({ queryKey: queryKeys.sales.pipelines });
+
+      queryClient.setQueriesData<PipelineSale[]>({ queryKey: queryKeys.sales.pipelines }, (sales) =>
+        sales?.map(s => (s.id === saleId
+          ? { ...s, pipeline_status: toStatus, closed_at: getClosedAtAfterMove(toStatus, s.closed_at) }
+          : s))
+      );
+      return { previous };
+    },
+    onError: (_error, _move, context) => {
+      context?.previous.forEach(([key, sales]) => queryClient.setQueryData(key, sales));
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.sales.pipelines });
+    },
+  });
+};
@@ -0,0 +1,389 @@
+import { useCallback } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { endOfMonth, startOfMonth } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { isClosed, isLost, isWon } from '@/lib/pipeline';
+import { queryKeys } from '@/lib/queryKeys';
+import { calculateOverrideCommission, fetchTeams, isQualifiedLead, DEFAULT_OPENER_COMMISSION_PER_DEAL } from '@/lib/teams';
+
+export interface OpenerStats {
+  id: string;
+  email: string;
+  full_name: string | null;
+  team_id: string | null;
+  totalDeals: number;
+  solarDeals: number;
+  batteryDeals: number;
+  sunBatteryDeals: number;
+  closedDeals: number;
+  openerCommission: number;
+  // Adversus API fields (placeholder - to be populated from API)
+  callsMade: number | null;
+  conversations: number | null;
+  bookings: number | null;
+  hitRate: number | null;
+}
+
+export interface CloserStats {
+  id: string;
+  email: string;
+  full_name: string | null;
+  regions: { name: string; organization: string }[];
+  totalSales: number;
+  closedWonSales: number;
+  closedLostSales: number;
+  processedSales: number;
+  totalCommission: number;
+  totalInvoiceable: number;
+  generatedRevenue: number;
+  profitMargin: number;
+}
+
+interface LeadDetail {
+  id: string;
+  email: string;
+  interest: string;
+  date_sent: string;
+  organizations: string[];
+  commission: number;
+}
+
+interface SaleDetail {
+  id: string;
+  contactEmail: string;
+  organizationName: string;
+  closedAt: string;
+  commission: number;
+  invoiceableAmount: number;
+}
+
+export interface OpenerSalaryData {
+  id: string;
+  name: string;
+  email: string;
+  qualifiedLeads: number;
+  commission: number;
+  commissionPerDeal: number;
+  overrideCommission: number;
+  leads: LeadDetail[];
+  employerFeePercent: number;
+  vacationPayPercent: number;
+  employerCost: number;
+  totalWithEmployerCost: number;
+}
+
+export interface CloserSalaryData {
+  id: string;
+  name: string;
+  email: string;
+  closedDeals: number;
+  commission: number;
+  baseCommission: number;
+  sales: SaleDetail[];
+  employerFeePercent: number;
+  vacationPayPercent: number;
+  employerCost: number;
+  totalWithEmployerCost: number;
+}
+
+/**
+ * Lead and commission stats per opener and teamleader, most leads first
+ */
+export const useOpenerStats = (enabled = true) =>
+  useQuery({
+    queryKey: queryKeys.sellers.openers(),
+    queryFn: async () => {
+      const { data: openerProfiles, error } = await supabase
+        .from('profiles')
+        .select('id, email, full_name, team_id')
+        .in('role', ['opener', 'teamleader']);
+
+      if (error) throw error;
+
+      const { data: contacts } = await supabase
+        .from('contacts')
+        .select('opener_id, interest');
+
+      // Get closed sales to calculate opener commissions
+      const { data: closedSales } = await supabase
+        .from('sales')
+        .select('id, contact_id, opener_commission, pipeline_status')
+        .eq('pipeline_status', 'closed_won');
+
+      // Get contact opener mapping for closed sales
+      const closedContactIds = closedSales?.map(s => s.contact_id) || [];
+      const { data: closedContacts } = await supabase
+        .from('contacts')
+        .select('id, opener_id')
+        .in('id', closedContactIds.length > 0 ? closedContactIds : ['00000000-0000-0000-0000-000000000000']);
+
+      const openerStats: OpenerStats[] = (openerProfiles || []).map((opener) => {
+        const openerContacts = contacts?.filter(c => c.opener_id === opener.id) || [];
+        
+        // Calculate closed deals and commission
+        const openerClosedContactIds = closedContacts?.filter(c => c.opener_id === opener.id).map(c => c.id) || [];
+        const openerClosedSales = closedSales?.filter(s => openerClosedContactIds.includes(s.contact_id)) || [];
+        const totalOpenerCommission = openerClosedSales.reduce((sum, s) => sum + (Number(s.opener_commission) || 1000), 0);
+
+        return {
+          id: opener.id,
+          email: opener.email,
+          full_name: opener.full_name,
+          team_id: opener.team_id,
+          totalDeals: openerContacts.length,
+          solarDeals: openerContacts.filter(c => c.interest === 'sun').length,
+          batteryDeals: openerContacts.filter(c => c.interest === 'battery').length,
+          sunBatteryDeals: openerContacts.filter(c => c.interest === 'sun_battery').length,
+          closedDeals: openerClosedSales.length,
+          openerCommission: totalOpenerCommission,
+          // Adversus API fields - placeholder (will be populated from API)
+          callsMade: null,
+          conversations: null,
+          bookings: null,
+          hitRate: null,
+        };
+      });
+
+      openerStats.sort((a, b) => b.totalDeals - a.totalDeals);
+      return openerStats;
+    },
+    enabled,
+  });
+
+/**
+ * Sales and commission stats per closer, most won sales first
+ */
+export const useCloserStats = (enabled = true) =>
+  useQuery({
+    queryKey: queryKeys.sellers.closers(),
+    queryFn: async () => {
+      const { data: closerProfiles, error } = await supabase
+        .from('profiles')
+        .select('id, email, full_name')
+        .eq('role', 'closer');
+
+      if (error) throw error;
+      if (!closerProfiles || closerProfiles.length === 0) return [];
+
+      // Get closer regions with organization info
+      const { data: closerRegions } = await supabase
+        .from('closer_regions')
+        .select(`
+          closer_id,
+          region:regions(name),
+          organization:organizations(name)
+        `);
+
+      // Get sales data
+      const { data: sales } = await supabase
+        .from('sales')
+        .select('closer_id, pipeline_status, closer_commission, invoiceable_amount');
+
+      const closerStats: CloserStats[] = closerProfiles.map((closer) => {
+        const closerSales = sales?.filter(s => s.closer_id === closer.id) || [];
+        const closedWonSales = closerSales.filter(s => isWon(s.pipeline_status));
+        const closedLostSales = closerSales.filter(s => isLost(s.pipeline_status));
+        const processedSales = closerSales.filter(s => isClosed(s.pipeline_status));
+        
+        const regionsForCloser = closerRegions
+          ?.filter(cr => cr.closer_id === closer.id)
+          .map(cr => ({
+            name: cr.region?.name || 'Okänd',
+            organization: cr.organization?.name || 'Okänt'
+          })) || [];
+
+        const totalCommission = closedWonSales.reduce((sum, s) => sum + (Number(s.closer_commission) || 0), 0);
+        const totalInvoiceable = closedWonSales.reduce((sum, s) => sum + (Number(s.invoiceable_amount) || 0), 0);
+
+        return {
+          id: closer.id,
+          email: closer.email,
+          full_name: closer.full_name,
+          regions: regionsForCloser,
+          totalSales: closerSales.length,
+          closedWonSales: closedWonSales.length,
+          closedLostSales: closedLostSales.length,
+          processedSales: processedSales.length,
+          totalCommission,
+          totalInvoiceable,
+          generatedRevenue: totalInvoiceable,
+          profitMargin: totalInvoiceable - totalCommission,
+        };
+      });
+
+      closerStats.sort((a, b) => b.closedWonSales - a.closedWonSales);
+      return closerStats;
+    },
+    enabled,
+  });
+
+export const useTeams = (enabled = true) =>
+  useQuery({
+    queryKey: queryKeys.sellers.teams(),
+    queryFn: fetchTeams,
+    enabled,
+  });
+
+/**
+ * Salaries for a month ('yyyy-MM'): openers are paid for the qualified leads
+ * sent that month, closers for the sales they won that month.
+ */
+export const useSalaries = (month: string) =>
+  useQuery({
+    queryKey: queryKeys.sellers.salaries(month),
+    queryFn: async () => {
+      const startDate = startOfMonth(new Date(month + '-01'));
+      const endDate = endOfMonth(startDate);
+
+      // Fetch all profiles with individual employer cost settings
+      const { data: profiles, error } = await supabase
+        .from('profiles')
+        .select('id, email, full_name, role, team_id, opener_commission_per_deal, closer_base_commission, employer_fee_percent, vacation_pay_percent')
+        .in('role', ['opener', 'closer', 'teamleader']);
+
+      if (error) throw error;
+
+      // Fetch contacts for the month (for opener commission)
+      const { data: contacts } = await supabase
+        .from('contacts')
+        .select(`
+          id, 
+          email, 
+          opener_id, 
+          interest, 
+          date_sent,
+          contact_organizations(organization:organizations(id, name)),
+          credit_requests(status, organization_id)
+        `)
+        .gte('date_sent', startDate.toISOString().split('T')[0])
+        .lte('date_sent', endDate.toISOString().split('T')[0]);
+
+      // Fetch closed sales for the month (for closer commission)
+      const { data: sales } = await supabase
+        .from('sales')
+        .select(`
+          id, 
+          closer_id, 
+          closer_commission, 
+          opener_commission,
+          contact_id, 
+          organization_id,
+          invoiceable_amount,
+          closed_at,
+          contact:contacts(email, opener_id),
+          organization:organizations(name)
+        `)
+        .eq('pipeline_status', 'closed_won')
+        .gte('closed_at', startDate.toISOString())
+        .lte('closed_at', endDate.toISOString());
+
+      const teams = await fetchTeams();
+
+      // Calculate opener salaries
+      // Rule: Opener only gets commission if lead was sold to 2+ companies
+      const openers = profiles?.filter(p => p.role === 'opener' || p.role === 'teamleader') || [];
+      const ownCommission = (opener: typeof openers[number]) => {
+        const qualifiedCount = contacts?.filter(c => c.opener_id === opener.id && isQualifiedLead(c)).length || 0;
+        return qualifiedCount * (opener.opener_commission_per_deal || DEFAULT_OPENER_COMMISSION_PER_DEAL);
+      };
+
+      const openerData: OpenerSalaryData[] = openers.map(opener => {
+        const openerContacts = contacts?.filter(c => c.opener_id === opener.id) || [];
+        
+        // Filter to only leads sold to 2+ organizations (non-credited)
+        const qualifiedLeads = openerContacts.filter(isQualifiedLead);
+
+        const commissionPerDeal = opener.opener_commission_per_deal || DEFAULT_OPENER_COMMISSION_PER_DEAL;
+
+        // Teamleaders get an override on the commission of the teams they lead
+        const overrideCommission = teams
+          .filter(team => team.leader_id === opener.id)
+          .reduce((sum, team) => {
+            const teamCommission = openers
+              .filter(member => member.team_id === team.id && member.id !== opener.id)
+              .reduce((teamSum, member) => teamSum + ownCommission(member), 0);
+            return sum + calculateOverrideCommission(teamCommission, team.override_percent);
+          }, 0);
+
+        const totalCommission = qualifiedLeads.length * commissionPerDeal + overrideCommission;
+
+        const leads: LeadDetail[] = qualifiedLeads.map(contact => ({
+          id: contact.id,
+          email: contact.email,
+          interest: contact.interest,
+          date_sent: contact.date_sent,
+          organizations: contact.contact_organizations?.map(co => co.organization?.name).filter(Boolean) || [],
+          commission: commissionPerDeal
+        }));
+
+        // Calculate individual employer costs
+        const employerFeePercent = opener.employer_fee_percent ?? 31.42;
+        const vacationPayPercent = opener.vacation_pay_percent ?? 12;
+        const totalMultiplier = (employerFeePercent + vacationPayPercent) / 100;
+        const employerCost = totalCommission * totalMultiplier;
+        const totalWithEmployerCost = totalCommission + employerCost;
+
+        return {
+          id: opener.id,
+          name: opener.full_name || opener.email,
+          email: opener.email,
+          qualifiedLeads: qualifiedLeads.length,
+          commission: totalCommission,
+          commissionPerDeal,
+          overrideCommission,
+          leads,
+          employerFeePercent,
+          vacationPayPercent,
+          employerCost,
+          totalWithEmployerCost
+        };
+      });
+
+      // Calculate closer salaries
+      const closers = profiles?.filter(p => p.role === 'closer') || [];
+      const closerData: CloserSalaryData[] = closers.map(closer => {
+        const closerSales = sales?.filter(s => s.closer_id === closer.id) || [];
+        const totalCommission = closerSales.reduce((sum, s) => sum + (Number(s.closer_commission) || 0), 0);
+
+        const salesDetails: SaleDetail[] = closerSales.map(sale => ({
+          id: sale.id,
+          contactEmail: sale.contact?.email || 'Okänd',
+          organizationName: sale.organization?.name || 'Okänd',
+          closedAt: sale.closed_at || '',
+          commission: Number(sale.closer_commission) || 0,
+          invoiceableAmount: Number(sale.invoiceable_amount) || 0
+        }));
+
+        // Calculate individual employer costs
+        const employerFeePercent = closer.employer_fee_percent ?? 31.42;
+        const vacationPayPercent = closer.vacation_pay_percent ?? 12;
+        const totalMultiplier = (employerFeePercent + vacationPayPercent) / 100;
+        const employerCost = totalCommission * totalMultiplier;
+        const totalWithEmployerCost = totalCommission + employerCost;
+
+        return {
+          id: closer.id,
+          name: closer.full_name || closer.email,
+          email: closer.email,
+          closedDeals: closerSales.length,
+          commission: totalCommission,
+          baseCommission: closer.closer_base_commission || 8000,
+          sales: salesDetails,
+          employerFeePercent,
+          vacationPayPercent,
+          employerCost,
+          totalWithEmployerCost
+        };
+      });
+
+      return { openers: openerData, closers: closerData };
+    },
+  });
+
+/**
+ * Refetch seller stats, teams and salaries after a seller or team changes
+ */
+export const useInvalidateSellers = () => {
+  const queryClient = useQueryClient();
+  return useCallback(() => queryClient.invalidateQueries({ queryKey: queryKeys.sellers.all }), [queryClient]);
+};
@@ -128,23 +128,147 @@ export type Database = {
           },
         ]
       }
+      contact_activities: {
+        Row: {
+          activity_type: Database["public"]["Enums"]["contact_activity_type"]
+          author_id: string | null
+          body: string | null
+          contact_id: string
+          created_at: string
+          from_status: Database["public"]["Enums"]["pipeline_status"] | null
+          id: string
+          sale_id: string | null
+          to_status: Database["public"]["Enums"]["pipeline_status"] | null
+          visibility: Database["public"]["Enums"]["activity_visibility"]
+        }
+        Insert: {
+          activity_type: Database["public"]["Enums"]["contact_activity_type"]
+          author_id?: string | null
+          body?: string | null
+          contact_id: string
+          created_at?: string
+          from_status?: Database["public"]["Enums"]["pipeline_status"] | null
+          id?: string
+          sale_id?: string | null
+          to_status?: Database["public"]["Enums"]["pipeline_status"] | null
+          visibility?: Database["public"]["Enums"]["activity_visibility"]
+        }
+        Update: {
+          activity_type?: Database["public"]["Enums"]["contact_activity_type"]
+          author_id?: string | null
+          body?: string | null
+          contact_id?: string
+          created_at?: string
+          from_status?: Database["public"]["Enums"]["pipeline_status"] | null
+          id?: string
+          sale_id?: string | null
+          to_status?: Database["public"]["Enums"]["pipeline_status"] | null
+          visibility?: Database["public"]["Enums"]["activity_visibility"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "contact_activities_author_id_fkey"
+            columns: ["author_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "contact_activities_contact_id_fkey"
+            columns: ["contact_id"]
+            isOneToOne: false
+            referencedRelation: "contacts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "contact_activities_sale_id_fkey"
+            columns: ["sale_id"]
+            isOneToOne: false
+            referencedRelation: "sales"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      contact_duplicate_flags: {
+        Row: {
+          contact_id: string
+          created_at: string
+          duplicate_of_contact_id: string
+          id: string
+          match_reasons: string[]
+          resolved_at: string | null
+          resolved_by: string | null
+          status: string
+        }
+        Insert: {
+          contact_id: string
+          created_at?: string
+          duplicate_of_contact_id: string
+          id?: string
+          match_reasons: string[]
+          resolved_at?: string | null
+          resolved_by?: string | null
+          status?: string
+        }
+        Update: {
+          contact_id?: string
+          created_at?: string
+          duplicate_of_contact_id?: string
+          id?: string
+          match_reasons?: string[]
+          resolved_at?: string | null
+          resolved_by?: string | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "contact_duplicate_flags_contact_id_fkey"
+            columns: ["contact_id"]
+            isOneToOne: false
+            referencedRelation: "contacts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "contact_duplicate_flags_duplicate_of_contact_id_fkey"
+            columns: ["duplicate_of_contact_id"]
+            isOneToOne: false
+            referencedRelation: "contacts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       contact_organizations: {
         Row: {
           contact_id: string
           id: string
           organization_id: string
+          partner_lost_reason: string | null
+          partner_notes: string | null
+          partner_outcome: Database["public"]["Enums"]["partner_lead_outcome"]
+          partner_outcome_updated_at: string | null
+          partner_outcome_updated_by: string | null
           sold_to_partner: boolean
         }
         Insert: {
           contact_id: string
           id?: string
           organization_id: string
+          partner_lost_reason?: string | null
+          partner_notes?: string | null
+          partner_outcome?: Database["public"]["Enums"]["partner_lead_outcome"]
+          partner_outcome_updated_at?: string | null
+          partner_outcome_updated_by?: string | null
           sold_to_partner?: boolean
         }
         Update: {
           contact_id?: string
           id?: string
           organization_id?: string
+          partner_lost_reason?: string | null
+          partner_notes?: string | null
+          partner_outcome?: Database["public"]["Enums"]["partner_lead_outcome"]
+          partner_outcome_updated_at?: string | null
+          partner_outcome_updated_by?: string | null
           sold_to_partner?: boolean
         }
         Relationships: [
@@ -162,49 +286,80 @@ export type Database = {
             referencedRelation: "organizations"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "contact_organizations_partner_outcome_updated_by_fkey"
+            columns: ["partner_outcome_updated_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
         ]
       }
       contacts: {
         Row: {
           address: string | null
+          address_normalized: string | null
           created_at: string
           date_sent: string
           email: string
+          email_normalized: string | null
+          geocode_source: string | null
+          geocoded_at: string | null
           id: string
           interest: Database["public"]["Enums"]["interest_type"]
+          latitude: number | null
+          longitude: number | null
           name: string | null
           opener_id: string
           phone: string | null
+          phone_normalized: string | null
           postal_code: string | null
           region_id: string | null
+          search_text: string | null
           updated_at: string
         }
         Insert: {
           address?: string | null
+          address_normalized?: never
           created_at?: string
           date_sent?: string
           email: string
+          email_normalized?: never
+          geocode_source?: string | null
+          geocoded_at?: string | null
           id?: string
           interest: Database["public"]["Enums"]["interest_type"]
+          latitude?: number | null
+          longitude?: number | null
           name?: string | null
           opener_id: string
           phone?: string | null
+          phone_normalized?: never
           postal_code?: string | null
           region_id?: string | null
+          search_text?: never
           updated_at?: string
         }
         Update: {
           address?: string | null
+          address_normalized?: never
           created_at?: string
           date_sent?: string
           email?: string
+          email_normalized?: never
+          geocode_source?: string | null
+          geocoded_at?: string | null
           id?: string
           interest?: Database["public"]["Enums"]["interest_type"]
+          latitude?: number | null
+          longitude?: number | null
           name?: string | null
           opener_id?: string
           phone?: string | null
+          phone_normalized?: never
           postal_code?: string | null
           region_id?: string | null
+          search_text?: never
           updated_at?: string
         }
         Relationships: [
@@ -224,14 +379,218 @@ export type Database = {
           },
         ]
       }
+      credit_alert_rules: {
+        Row: {
+          auto_suspend: boolean
+          created_at: string
+          id: string
+          is_active: boolean
+          max_credit_rate: number
+          min_leads: number
+          scope: string
+          updated_at: string
+          window_days: number
+        }
+        Insert: {
+          auto_suspend?: boolean
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          max_credit_rate: number
+          min_leads?: number
+          scope: string
+          updated_at?: string
+          window_days?: number
+        }
+        Update: {
+          auto_suspend?: boolean
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          max_credit_rate?: number
+          min_leads?: number
+          scope?: string
+          updated_at?: string
+          window_days?: number
+        }
+        Relationships: []
+      }
+      credit_alerts: {
+        Row: {
+          created_at: string
+          credit_count: number
+          credit_rate: number
+          credits_suspended: boolean
+          id: string
+          lead_count: number
+          max_credit_rate: number
+          opener_id: string | null
+          organization_id: string | null
+          resolution_note: string | null
+          resolved_at: string | null
+          resolved_by: string | null
+          rule_id: string | null
+          scope: string
+          status: string
+          window_end: string
+          window_start: string
+        }
+        Insert: {
+          created_at?: string
+          credit_count: number
+          credit_rate: number
+          credits_suspended?: boolean
+          id?: string
+          lead_count: number
+          max_credit_rate: number
+          opener_id?: string | null
+          organization_id?: string | null
+          resolution_note?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          rule_id?: string | null
+          scope: string
+          status?: string
+          window_end: string
+          window_start: string
+        }
+        Update: {
+          created_at?: string
+          credit_count?: number
+          credit_rate?: number
+          credits_suspended?: boolean
+          id?: string
+          lead_count?: number
+          max_credit_rate?: number
+          opener_id?: string | null
+          organization_id?: string | null
+          resolution_note?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          rule_id?: string | null
+          scope?: string
+          status?: string
+          window_end?: string
+          window_start?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "credit_alerts_opener_id_fkey"
+            columns: ["opener_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "credit_alerts_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "credit_alerts_resolved_by_fkey"
+            columns: ["resolved_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "credit_alerts_rule_id_fkey"
+            columns: ["rule_id"]
+            isOneToOne: false
+            referencedRelation: "credit_alert_rules"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      credit_reason_codes: {
+        Row: {
+          code: string
+          created_at: string
+          description: string | null
+          is_active: boolean
+          label: string
+          sort_order: number
+        }
+        Insert: {
+          code: string
+          created_at?: string
+          description?: string | null
+          is_active?: boolean
+          label: string
+          sort_order?: number
+        }
+        Update: {
+          code?: string
+          created_at?: string
+          description?: string | null
+          is_active?: boolean
+          label?: string
+          sort_order?: number
+        }
+        Relationships: []
+      }
+      credit_request_attachments: {
+        Row: {
+          content_type: string | null
+          created_at: string
+          credit_request_id: string
+          file_name: string
+          id: string
+          size_bytes: number | null
+          storage_path: string
+          uploaded_by: string | null
+        }
+        Insert: {
+          content_type?: string | null
+          created_at?: string
+          credit_request_id: string
+          file_name: string
+          id?: string
+          size_bytes?: number | null
+          storage_path: string
+          uploaded_by?: string | null
+        }
+        Update: {
+          content_type?: string | null
+          created_at?: string
+          credit_request_id?: string
+          file_name?: string
+          id?: string
+          size_bytes?: number | null
+          storage_path?: string
+          uploaded_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "credit_request_attachments_credit_request_id_fkey"
+            columns: ["credit_request_id"]
+            isOneToOne: false
+            referencedRelation: "credit_requests"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "credit_request_attachments_uploaded_by_fkey"
+            columns: ["uploaded_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       credit_requests: {
         Row: {
           contact_id: string
           created_at: string
           credit_date: string | null
+          decided_at: string | null
+          decided_by: string | null
+          decision_comment: string | null
           id: string
           organization_id: string
           reason: string | null
+          reason_code: string | null
           requested_by: string
           status: Database["public"]["Enums"]["credit_status"]
           updated_at: string
@@ -240,74 +599,561 @@ export type Database = {
           contact_id: string
           created_at?: string
           credit_date?: string | null
+          decided_at?: string | null
+          decided_by?: string | null
+          decision_comment?: string | null
           id?: string
           organization_id: string
           reason?: string | null
+          reason_code?: string | null
           requested_by: string
           status?: Database["public"]["Enums"]["credit_status"]
           updated_at?: string
         }
         Update: {
-          contact_id?: string
+          contact_id?: string
+          created_at?: string
+          credit_date?: string | null
+          decided_at?: string | null
+          decided_by?: string | null
+          decision_comment?: string | null
+          id?: string
+          organization_id?: string
+          reason?: string | null
+          reason_code?: string | null
+          requested_by?: string
+          status?: Database["public"]["Enums"]["credit_status"]
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "credit_requests_contact_id_fkey"
+            columns: ["contact_id"]
+            isOneToOne: false
+            referencedRelation: "contacts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "credit_requests_decided_by_fkey"
+            columns: ["decided_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "credit_requests_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "credit_requests_reason_code_fkey"
+            columns: ["reason_code"]
+            isOneToOne: false
+            referencedRelation: "credit_reason_codes"
+            referencedColumns: ["code"]
+          },
+          {
+            foreignKeyName: "credit_requests_requested_by_fkey"
+            columns: ["requested_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      deal_view_defaults: {
+        Row: {
+          updated_at: string
+          user_id: string
+          view_id: string
+        }
+        Insert: {
+          updated_at?: string
+          user_id: string
+          view_id: string
+        }
+        Update: {
+          updated_at?: string
+          user_id?: string
+          view_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "deal_view_defaults_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "deal_view_defaults_view_id_fkey"
+            columns: ["view_id"]
+            isOneToOne: false
+            referencedRelation: "deal_views"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      deal_views: {
+        Row: {
+          column_order: string[]
+          column_widths: Json
+          created_at: string
+          date_from: string | null
+          date_range_type: string
+          date_to: string | null
+          filters: Json
+          id: string
+          name: string
+          owner_id: string
+          shared_with_role: Database["public"]["Enums"]["user_role"] | null
+          sort_ascending: boolean
+          sort_column: string
+          updated_at: string
+          visible_columns: string[]
+        }
+        Insert: {
+          column_order?: string[]
+          column_widths?: Json
+          created_at?: string
+          date_from?: string | null
+          date_range_type?: string
+          date_to?: string | null
+          filters?: Json
+          id?: string
+          name: string
+          owner_id: string
+          shared_with_role?: Database["public"]["Enums"]["user_role"] | null
+          sort_ascending?: boolean
+          sort_column?: string
+          updated_at?: string
+          visible_columns?: string[]
+        }
+        Update: {
+          column_order?: string[]
+          column_widths?: Json
+          created_at?: string
+          date_from?: string | null
+          date_range_type?: string
+          date_to?: string | null
+          filters?: Json
+          id?: string
+          name?: string
+          owner_id?: string
+          shared_with_role?: Database["public"]["Enums"]["user_role"] | null
+          sort_ascending?: boolean
+          sort_column?: string
+          updated_at?: string
+          visible_columns?: string[]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "deal_views_owner_id_fkey"
+            columns: ["owner_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      employer_cost_settings: {
+        Row: {
+          created_at: string
+          description: string | null
+          id: string
+          is_active: boolean
+          name: string
+          percentage: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          name: string
+          percentage?: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          name?: string
+          percentage?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      follow_up_tasks: {
+        Row: {
+          assigned_to: string
+          completed_at: string | null
+          contact_id: string | null
+          created_at: string
+          created_by: string | null
+          due_at: string
+          id: string
+          organization_id: string | null
+          sale_id: string | null
+          timeline_event_id: string | null
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          assigned_to: string
+          completed_at?: string | null
+          contact_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          due_at: string
+          id?: string
+          organization_id?: string | null
+          sale_id?: string | null
+          timeline_event_id?: string | null
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          assigned_to?: string
+          completed_at?: string | null
+          contact_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          due_at?: string
+          id?: string
+          organization_id?: string | null
+          sale_id?: string | null
+          timeline_event_id?: string | null
+          title?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "follow_up_tasks_assigned_to_fkey"
+            columns: ["assigned_to"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "follow_up_tasks_contact_id_fkey"
+            columns: ["contact_id"]
+            isOneToOne: false
+            referencedRelation: "contacts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "follow_up_tasks_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "follow_up_tasks_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "follow_up_tasks_sale_id_fkey"
+            columns: ["sale_id"]
+            isOneToOne: false
+            referencedRelation: "sales"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "follow_up_tasks_timeline_event_id_fkey"
+            columns: ["timeline_event_id"]
+            isOneToOne: true
+            referencedRelation: "organization_timeline_events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invoice_lines: {
+        Row: {
+          amount_incl_moms: number
+          contact_address: string | null
+          contact_email: string | null
+          contact_id: string | null
+          contact_name: string | null
+          contact_phone: string | null
+          created_at: string
+          credit_request_id: string | null
+          credited_line_id: string | null
+          description: string
+          id: string
+          interest: string | null
+          invoice_id: string
+          lead_date: string | null
+        }
+        Insert: {
+          amount_incl_moms?: number
+          contact_address?: string | null
+          contact_email?: string | null
+          contact_id?: string | null
+          contact_name?: string | null
+          contact_phone?: string | null
+          created_at?: string
+          credit_request_id?: string | null
+          credited_line_id?: string | null
+          description: string
+          id?: string
+          interest?: string | null
+          invoice_id: string
+          lead_date?: string | null
+        }
+        Update: {
+          amount_incl_moms?: number
+          contact_address?: string | null
+          contact_email?: string | null
+          contact_id?: string | null
+          contact_name?: string | null
+          contact_phone?: string | null
+          created_at?: string
+          credit_request_id?: string | null
+          credited_line_id?: string | null
+          description?: string
+          id?: string
+          interest?: string | null
+          invoice_id?: string
+          lead_date?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoice_lines_credited_line_id_fkey"
+            columns: ["credited_line_id"]
+            isOneToOne: false
+            referencedRelation: "invoice_lines"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoice_lines_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invoices: {
+        Row: {
+          amount_ex_moms: number
+          amount_incl_moms: number
+          created_at: string
+          created_by: string | null
+          credited_invoice_id: string | null
+          id: string
+          invoice_number: number
+          invoice_type: string
+          organization_id: string
+          period_month: string
+          vat_amount: number
+        }
+        Insert: {
+          amount_ex_moms?: number
+          amount_incl_moms?: number
+          created_at?: string
+          created_by?: string | null
+          credited_invoice_id?: string | null
+          id?: string
+          invoice_number?: number
+          invoice_type?: string
+          organization_id: string
+          period_month: string
+          vat_amount?: number
+        }
+        Update: {
+          amount_ex_moms?: number
+          amount_incl_moms?: number
+          created_at?: string
+          created_by?: string | null
+          credited_invoice_id?: string | null
+          id?: string
+          invoice_number?: number
+          invoice_type?: string
+          organization_id?: string
+          period_month?: string
+          vat_amount?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoices_credited_invoice_id_fkey"
+            columns: ["credited_invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoices_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invoicing_periods: {
+        Row: {
+          finalized_at: string
+          finalized_by: string | null
+          id: string
+          period_month: string
+        }
+        Insert: {
+          finalized_at?: string
+          finalized_by?: string | null
+          id?: string
+          period_month: string
+        }
+        Update: {
+          finalized_at?: string
+          finalized_by?: string | null
+          id?: string
+          period_month?: string
+        }
+        Relationships: []
+      }
+      lead_distribution_decisions: {
+        Row: {
+          contact_id: string
+          created_at: string
+          created_by: string | null
+          id: string
+          leads_this_month: number
+          organization_id: string
+          quota_amount: number | null
+          rank: number | null
+          reason: string
+          selected: boolean
+        }
+        Insert: {
+          contact_id: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          leads_this_month?: number
+          organization_id: string
+          quota_amount?: number | null
+          rank?: number | null
+          reason: string
+          selected?: boolean
+        }
+        Update: {
+          contact_id?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          leads_this_month?: number
+          organization_id?: string
+          quota_amount?: number | null
+          rank?: number | null
+          reason?: string
+          selected?: boolean
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lead_distribution_decisions_contact_id_fkey"
+            columns: ["contact_id"]
+            isOneToOne: false
+            referencedRelation: "contacts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lead_distribution_decisions_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      lead_ingestion_requests: {
+        Row: {
+          contact_id: string | null
+          created_at: string
+          id: string
+          idempotency_key: string
+          request_hash: string
+          response: Json
+          response_status: number
+          source_id: string
+        }
+        Insert: {
+          contact_id?: string | null
+          created_at?: string
+          id?: string
+          idempotency_key: string
+          request_hash: string
+          response: Json
+          response_status?: number
+          source_id: string
+        }
+        Update: {
+          contact_id?: string | null
           created_at?: string
-          credit_date?: string | null
           id?: string
-          organization_id?: string
-          reason?: string | null
-          requested_by?: string
-          status?: Database["public"]["Enums"]["credit_status"]
-          updated_at?: string
+          idempotency_key?: string
+          request_hash?: string
+          response?: Json
+          response_status?: number
+          source_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "credit_requests_contact_id_fkey"
+            foreignKeyName: "lead_ingestion_requests_contact_id_fkey"
             columns: ["contact_id"]
             isOneToOne: false
             referencedRelation: "contacts"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "credit_requests_organization_id_fkey"
-            columns: ["organization_id"]
-            isOneToOne: false
-            referencedRelation: "organizations"
-            referencedColumns: ["id"]
-          },
-          {
-            foreignKeyName: "credit_requests_requested_by_fkey"
-            columns: ["requested_by"]
+            foreignKeyName: "lead_ingestion_requests_source_id_fkey"
+            columns: ["source_id"]
             isOneToOne: false
-            referencedRelation: "profiles"
+            referencedRelation: "lead_sources"
             referencedColumns: ["id"]
           },
         ]
       }
-      employer_cost_settings: {
+      lead_sources: {
         Row: {
+          api_key_hash: string
+          api_key_prefix: string
           created_at: string
-          description: string | null
+          created_by: string | null
           id: string
           is_active: boolean
+          last_used_at: string | null
           name: string
-          percentage: number
           updated_at: string
         }
         Insert: {
+          api_key_hash: string
+          api_key_prefix: string
           created_at?: string
-          description?: string | null
+          created_by?: string | null
           id?: string
           is_active?: boolean
+          last_used_at?: string | null
           name: string
-          percentage?: number
           updated_at?: string
         }
         Update: {
+          api_key_hash?: string
+          api_key_prefix?: string
           created_at?: string
-          description?: string | null
+          created_by?: string | null
           id?: string
           is_active?: boolean
+          last_used_at?: string | null
           name?: string
-          percentage?: number
           updated_at?: string
         }
         Relationships: []
@@ -485,6 +1331,7 @@ export type Database = {
           price_per_battery_deal: number | null
           price_per_site_visit: number | null
           price_per_solar_deal: number | null
+          price_per_sun_battery_deal: number | null
         }
         Insert: {
           created_at?: string
@@ -496,6 +1343,7 @@ export type Database = {
           price_per_battery_deal?: number | null
           price_per_site_visit?: number | null
           price_per_solar_deal?: number | null
+          price_per_sun_battery_deal?: number | null
         }
         Update: {
           created_at?: string
@@ -507,6 +1355,7 @@ export type Database = {
           price_per_battery_deal?: number | null
           price_per_site_visit?: number | null
           price_per_solar_deal?: number | null
+          price_per_sun_battery_deal?: number | null
         }
         Relationships: [
           {
@@ -641,6 +1490,10 @@ export type Database = {
           description: string | null
           event_date: string
           event_type: string
+          executed_at: string | null
+          execution_error: string | null
+          execution_status: string
+          follow_up_days: number | null
           id: string
           is_scheduled: boolean
           organization_id: string
@@ -654,6 +1507,10 @@ export type Database = {
           description?: string | null
           event_date: string
           event_type: string
+          executed_at?: string | null
+          execution_error?: string | null
+          execution_status?: string
+          follow_up_days?: number | null
           id?: string
           is_scheduled?: boolean
           organization_id: string
@@ -667,6 +1524,10 @@ export type Database = {
           description?: string | null
           event_date?: string
           event_type?: string
+          executed_at?: string | null
+          execution_error?: string | null
+          execution_status?: string
+          follow_up_days?: number | null
           id?: string
           is_scheduled?: boolean
           organization_id?: string
@@ -705,6 +1566,7 @@ export type Database = {
           price_per_battery_deal: number | null
           price_per_site_visit: number | null
           price_per_solar_deal: number | null
+          price_per_sun_battery_deal: number | null
           sales_consultant_lead_type: string | null
           status: Database["public"]["Enums"]["organization_status"]
           updated_at: string
@@ -729,6 +1591,7 @@ export type Database = {
           price_per_battery_deal?: number | null
           price_per_site_visit?: number | null
           price_per_solar_deal?: number | null
+          price_per_sun_battery_deal?: number | null
           sales_consultant_lead_type?: string | null
           status?: Database["public"]["Enums"]["organization_status"]
           updated_at?: string
@@ -753,12 +1616,156 @@ export type Database = {
           price_per_battery_deal?: number | null
           price_per_site_visit?: number | null
           price_per_solar_deal?: number | null
+          price_per_sun_battery_deal?: number | null
           sales_consultant_lead_type?: string | null
           status?: Database["public"]["Enums"]["organization_status"]
           updated_at?: string
         }
         Relationships: []
       }
+      partner_credit_ledger: {
+        Row: {
+          amount_incl_moms: number
+          billing_month: string
+          created_at: string
+          credit_note_id: string | null
+          credit_request_id: string
+          id: string
+          is_deferred: boolean | null
+          lead_month: string
+          organization_id: string
+        }
+        Insert: {
+          amount_incl_moms?: number
+          billing_month: string
+          created_at?: string
+          credit_note_id?: string | null
+          credit_request_id: string
+          id?: string
+          is_deferred?: never
+          lead_month: string
+          organization_id: string
+        }
+        Update: {
+          amount_incl_moms?: number
+          billing_month?: string
+          created_at?: string
+          credit_note_id?: string | null
+          credit_request_id?: string
+          id?: string
+          is_deferred?: never
+          lead_month?: string
+          organization_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "partner_credit_ledger_credit_note_id_fkey"
+            columns: ["credit_note_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "partner_credit_ledger_credit_request_id_fkey"
+            columns: ["credit_request_id"]
+            isOneToOne: true
+            referencedRelation: "credit_requests"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "partner_credit_ledger_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      partner_goal_thresholds: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          effective_from: string
+          green_threshold: number
+          id: string
+          organization_id: string | null
+          red_threshold: number
+          region_id: string | null
+          target_leads_per_company: number
+          updated_at: string
+          yellow_threshold: number
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          effective_from: string
+          green_threshold: number
+          id?: string
+          organization_id?: string | null
+          red_threshold: number
+          region_id?: string | null
+          target_leads_per_company: number
+          updated_at?: string
+          yellow_threshold: number
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          effective_from?: string
+          green_threshold?: number
+          id?: string
+          organization_id?: string | null
+          red_threshold?: number
+          region_id?: string | null
+          target_leads_per_company?: number
+          updated_at?: string
+          yellow_threshold?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "partner_goal_thresholds_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "partner_goal_thresholds_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "partner_goal_thresholds_region_id_fkey"
+            columns: ["region_id"]
+            isOneToOne: false
+            referencedRelation: "regions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      postal_code_centroids: {
+        Row: {
+          latitude: number
+          locality: string | null
+          longitude: number
+          postal_code: string
+        }
+        Insert: {
+          latitude: number
+          locality?: string | null
+          longitude: number
+          postal_code: string
+        }
+        Update: {
+          latitude?: number
+          locality?: string | null
+          longitude?: number
+          postal_code?: string
+        }
+        Relationships: []
+      }
       products: {
         Row: {
           base_price_incl_moms: number
@@ -803,15 +1810,18 @@ export type Database = {
           closer_company_markup_share: number | null
           closer_markup_percentage: number | null
           created_at: string
+          deactivated_at: string | null
           email: string
           employer_fee_percent: number | null
           full_name: string | null
           id: string
+          is_active: boolean
           opener_commission_per_deal: number | null
           opener_commission_per_lead: number | null
           organization_id: string | null
           personal_number: string | null
           role: Database["public"]["Enums"]["user_role"]
+          team_id: string | null
           updated_at: string
           user_type: string | null
           vacation_pay_percent: number | null
@@ -823,15 +1833,18 @@ export type Database = {
           closer_company_markup_share?: number | null
           closer_markup_percentage?: number | null
           created_at?: string
+          deactivated_at?: string | null
           email: string
           employer_fee_percent?: number | null
           full_name?: string | null
           id: string
+          is_active?: boolean
           opener_commission_per_deal?: number | null
           opener_commission_per_lead?: number | null
           organization_id?: string | null
           personal_number?: string | null
           role?: Database["public"]["Enums"]["user_role"]
+          team_id?: string | null
           updated_at?: string
           user_type?: string | null
           vacation_pay_percent?: number | null
@@ -843,15 +1856,18 @@ export type Database = {
           closer_company_markup_share?: number | null
           closer_markup_percentage?: number | null
           created_at?: string
+          deactivated_at?: string | null
           email?: string
           employer_fee_percent?: number | null
           full_name?: string | null
           id?: string
+          is_active?: boolean
           opener_commission_per_deal?: number | null
           opener_commission_per_lead?: number | null
           organization_id?: string | null
           personal_number?: string | null
           role?: Database["public"]["Enums"]["user_role"]
+          team_id?: string | null
           updated_at?: string
           user_type?: string | null
           vacation_pay_percent?: number | null
@@ -864,6 +1880,13 @@ export type Database = {
             referencedRelation: "organizations"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "profiles_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
         ]
       }
       regions: {
@@ -896,6 +1919,9 @@ export type Database = {
           closer_commission: number | null
           closer_id: string
           closer_notes: string | null
+          commission_calculated_at: string | null
+          commission_engine_version: string | null
+          commission_type_id: string | null
           contact_id: string
           created_at: string
           custom_product_material_cost_eur: number | null
@@ -910,7 +1936,7 @@ export type Database = {
           opener_commission: number | null
           organization_id: string
           partner_notes: string | null
-          pipeline_status: string
+          pipeline_status: Database["public"]["Enums"]["pipeline_status"]
           price_to_customer_incl_moms: number | null
           product_id: string | null
           total_order_value: number | null
@@ -921,6 +1947,9 @@ export type Database = {
           closer_commission?: number | null
           closer_id: string
           closer_notes?: string | null
+          commission_calculated_at?: string | null
+          commission_engine_version?: string | null
+          commission_type_id?: string | null
           contact_id: string
           created_at?: string
           custom_product_material_cost_eur?: number | null
@@ -935,7 +1964,7 @@ export type Database = {
           opener_commission?: number | null
           organization_id: string
           partner_notes?: string | null
-          pipeline_status?: string
+          pipeline_status?: Database["public"]["Enums"]["pipeline_status"]
           price_to_customer_incl_moms?: number | null
           product_id?: string | null
           total_order_value?: number | null
@@ -946,6 +1975,9 @@ export type Database = {
           closer_commission?: number | null
           closer_id?: string
           closer_notes?: string | null
+          commission_calculated_at?: string | null
+          commission_engine_version?: string | null
+          commission_type_id?: string | null
           contact_id?: string
           created_at?: string
           custom_product_material_cost_eur?: number | null
@@ -960,7 +1992,7 @@ export type Database = {
           opener_commission?: number | null
           organization_id?: string
           partner_notes?: string | null
-          pipeline_status?: string
+          pipeline_status?: Database["public"]["Enums"]["pipeline_status"]
           price_to_customer_incl_moms?: number | null
           product_id?: string | null
           total_order_value?: number | null
@@ -974,6 +2006,13 @@ export type Database = {
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "sales_commission_type_id_fkey"
+            columns: ["commission_type_id"]
+            isOneToOne: false
+            referencedRelation: "closer_commission_types"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "sales_contact_id_fkey"
             columns: ["contact_id"]
@@ -997,6 +2036,41 @@ export type Database = {
           },
         ]
       }
+      sales_stage_history: {
+        Row: {
+          changed_at: string
+          changed_by: string | null
+          from_status: Database["public"]["Enums"]["pipeline_status"] | null
+          id: string
+          sale_id: string
+          to_status: Database["public"]["Enums"]["pipeline_status"]
+        }
+        Insert: {
+          changed_at?: string
+          changed_by?: string | null
+          from_status?: Database["public"]["Enums"]["pipeline_status"] | null
+          id?: string
+          sale_id: string
+          to_status: Database["public"]["Enums"]["pipeline_status"]
+        }
+        Update: {
+          changed_at?: string
+          changed_by?: string | null
+          from_status?: Database["public"]["Enums"]["pipeline_status"] | null
+          id?: string
+          sale_id?: string
+          to_status?: Database["public"]["Enums"]["pipeline_status"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sales_stage_history_sale_id_fkey"
+            columns: ["sale_id"]
+            isOneToOne: false
+            referencedRelation: "sales"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       spatial_ref_sys: {
         Row: {
           auth_name: string | null
@@ -1021,6 +2095,41 @@ export type Database = {
         }
         Relationships: []
       }
+      teams: {
+        Row: {
+          created_at: string
+          id: string
+          leader_id: string | null
+          name: string
+          override_percent: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          leader_id?: string | null
+          name: string
+          override_percent?: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          leader_id?: string | null
+          name?: string
+          override_percent?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "teams_leader_id_fkey"
+            columns: ["leader_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       user_roles: {
         Row: {
           id: string
@@ -1212,7 +2321,118 @@ export type Database = {
             }
             Returns: string
           }
+      backfill_contact_coordinates: { Args: never; Returns: number }
+      calculate_sale_commission: {
+        Args: {
+          _closer_id: string
+          _commission_type_id?: string
+          _contact_id: string
+          _custom_product_material_cost_eur?: number
+          _custom_product_price?: number
+          _discount_amount?: number
+          _organization_id: string
+          _price_to_customer_incl_moms?: number
+          _product_id?: string
+        }
+        Returns: Json
+      }
+      commission_engine_version: { Args: never; Returns: string }
+      compute_commission: {
+        Args: {
+          _base_cost?: number
+          _billing_model?: string
+          _closer_base_commission?: number
+          _closer_markup_percentage?: number
+          _company_markup_share?: number
+          _cost_segments_sek?: number
+          _discount_amount?: number
+          _eur_to_sek_rate?: number
+          _fixed_provision?: number
+          _lf_finans_percent?: number
+          _material_cost_eur?: number
+          _opener_commission?: number
+          _price_incl_moms: number
+          _uses_commission_type?: boolean
+        }
+        Returns: Json
+      }
+      create_deal: {
+        Args: {
+          _contact: Json
+          _max_organizations?: number
+          _organization_ids?: string[]
+        }
+        Returns: Json
+      }
+      create_lead_source: { Args: { _name: string }; Returns: string }
+      credit_billing_month: { Args: { _lead_month: string }; Returns: string }
+      deal_list_rows: {
+        Args: {
+          _credit_status?: Database["public"]["Enums"]["credit_status"]
+          _from: string
+          _interest?: Database["public"]["Enums"]["interest_type"]
+          _organization_id?: string
+          _region_id?: string
+          _search?: string
+          _to: string
+        }
+        Returns: {
+          address: string
+          credit_requests: Json
+          credit_status: Database["public"]["Enums"]["credit_status"]
+          date_sent: string
+          email: string
+          id: string
+          interest: Database["public"]["Enums"]["interest_type"]
+          name: string
+          opener_email: string
+          opener_id: string
+          opener_name: string
+          organizations: Json
+          phone: string
+          postal_code: string
+          region_id: string
+          region_name: string
+          total_revenue: number
+        }[]
+      }
+      deal_rows: {
+        Args: { _contact_ids: string[] }
+        Returns: {
+          address: string
+          credit_requests: Json
+          credit_status: Database["public"]["Enums"]["credit_status"]
+          date_sent: string
+          email: string
+          id: string
+          interest: Database["public"]["Enums"]["interest_type"]
+          name: string
+          opener_email: string
+          opener_id: string
+          opener_name: string
+          organizations: Json
+          phone: string
+          postal_code: string
+          region_id: string
+          region_name: string
+          total_revenue: number
+        }[]
+      }
       disablelongtransactions: { Args: never; Returns: string }
+      distribute_contact: {
+        Args: {
+          _contact_id: string
+          _latitude?: number
+          _longitude?: number
+          _max_organizations?: number
+        }
+        Returns: {
+          organization_id: string
+          organization_name: string
+          reason: string
+          selected: boolean
+        }[]
+      }
       dropgeometrycolumn:
         | {
             Args: {
@@ -1245,6 +2465,62 @@ export type Database = {
         | { Args: { table_name: string }; Returns: string }
       enablelongtransactions: { Args: never; Returns: string }
       equals: { Args: { geom1: unknown; geom2: unknown }; Returns: boolean }
+      evaluate_credit_alerts: {
+        Args: { _opener_id?: string; _organization_id?: string }
+        Returns: number
+      }
+      filter_deals: {
+        Args: {
+          _credit_status?: Database["public"]["Enums"]["credit_status"]
+          _from: string
+          _interest?: Database["public"]["Enums"]["interest_type"]
+          _organization_id?: string
+          _region_id?: string
+          _search?: string
+          _to: string
+        }
+        Returns: {
+          contact_id: string
+        }[]
+      }
+      finalize_invoicing_month: {
+        Args: { _period_month: string }
+        Returns: number
+      }
+      find_contact_duplicates: {
+        Args: {
+          _address?: string
+          _email: string
+          _exclude_contact_id?: string
+          _phone?: string
+          _postal_code?: string
+        }
+        Returns: {
+          address: string
+          contact_id: string
+          date_sent: string
+          email: string
+          match_reasons: string[]
+          name: string
+          phone: string
+        }[]
+      }
+      find_partners_by_location: {
+        Args: { _latitude: number; _lead_type?: string; _longitude: number }
+        Returns: {
+          lead_type: string
+          organization_id: string
+          organization_name: string
+        }[]
+      }
+      geocode_postal_code: {
+        Args: { _postal_code: string }
+        Returns: {
+          latitude: number
+          longitude: number
+          source: string
+        }[]
+      }
       geometry: { Args: { "": string }; Returns: unknown }
       geometry_above: {
         Args: { geom1: unknown; geom2: unknown }
@@ -1343,6 +2619,42 @@ export type Database = {
         Returns: boolean
       }
       geomfromewkt: { Args: { "": string }; Returns: unknown }
+      get_credit_rate_stats: {
+        Args: { _from: string; _group_by: string; _to: string }
+        Returns: {
+          approved_count: number
+          credit_count: number
+          group_key: string
+          group_label: string
+          lead_count: number
+          month: string
+        }[]
+      }
+      get_deal_totals: {
+        Args: {
+          _credit_status?: Database["public"]["Enums"]["credit_status"]
+          _from: string
+          _interest?: Database["public"]["Enums"]["interest_type"]
+          _organization_id?: string
+          _region_id?: string
+          _search?: string
+          _to: string
+        }
+        Returns: Json
+      }
+      get_organization_coverage_areas: {
+        Args: { _organization_id: string }
+        Returns: {
+          area_km2: number
+          id: string
+          lead_type: string
+          polygon: Json
+        }[]
+      }
+      get_organization_price: {
+        Args: { _at: string; _organization_id: string; _price_type: string }
+        Returns: number
+      }
       get_region_by_postal_code: { Args: { postal: string }; Returns: string }
       get_user_organization: { Args: { _user_id: string }; Returns: string }
       get_user_role: {
@@ -1357,7 +2669,46 @@ export type Database = {
         }
         Returns: boolean
       }
+      ingest_contact: {
+        Args: {
+          _contact: Json
+          _idempotency_key: string
+          _max_organizations?: number
+          _organization_ids?: string[]
+          _request_hash: string
+          _source_id: string
+        }
+        Returns: Json
+      }
+      invoice_billable_leads: {
+        Args: { _organization_id: string; _period_month: string }
+        Returns: {
+          amount_incl_moms: number
+          contact_address: string
+          contact_email: string
+          contact_id: string
+          contact_name: string
+          contact_phone: string
+          interest: string
+          lead_date: string
+        }[]
+      }
+      is_team_contact: {
+        Args: { _contact_id: string; _leader_id: string }
+        Returns: boolean
+      }
+      is_team_member: {
+        Args: { _leader_id: string; _member_id: string }
+        Returns: boolean
+      }
       longtransactionsenabled: { Args: never; Returns: boolean }
+      merge_contacts: {
+        Args: { _keep_contact_id: string; _merge_contact_id: string }
+        Returns: undefined
+      }
+      normalize_address: { Args: { _address: string }; Returns: string }
+      normalize_email: { Args: { _email: string }; Returns: string }
+      normalize_phone: { Args: { _phone: string }; Returns: string }
       populate_geometry_columns:
         | { Args: { tbl_oid: unknown; use_typmod?: boolean }; Returns: number }
         | { Args: { use_typmod?: boolean }; Returns: string }
@@ -1398,7 +2749,65 @@ export type Database = {
       }
       postgis_version: { Args: never; Returns: string }
       postgis_wagyu_version: { Args: never; Returns: string }
-      process_scheduled_timeline_events: { Args: never; Returns: undefined }
+      process_scheduled_timeline_events: { Args: never; Returns: number }
+      reassign_user_records: {
+        Args: { _reassign_to: string; _user_id: string }
+        Returns: Json
+      }
+      replace_organization_coverage_areas: {
+        Args: { _lead_type: string; _organization_id: string; _polygons: Json }
+        Returns: number
+      }
+      resolve_credit_alert: {
+        Args: { _alert_id: string; _note?: string; _restore_credits?: boolean }
+        Returns: undefined
+      }
+      run_credit_alert_check: { Args: never; Returns: number }
+      search_deals: {
+        Args: {
+          _credit_status?: Database["public"]["Enums"]["credit_status"]
+          _cursor_id?: string
+          _cursor_value?: string
+          _from: string
+          _interest?: Database["public"]["Enums"]["interest_type"]
+          _limit?: number
+          _organization_id?: string
+          _region_id?: string
+          _search?: string
+          _sort_ascending?: boolean
+          _sort_column?: string
+          _to: string
+        }
+        Returns: {
+          address: string
+          credit_requests: Json
+          credit_status: Database["public"]["Enums"]["credit_status"]
+          date_sent: string
+          email: string
+          id: string
+          interest: Database["public"]["Enums"]["interest_type"]
+          name: string
+          opener_email: string
+          opener_id: string
+          opener_name: string
+          organizations: Json
+          phone: string
+          postal_code: string
+          region_id: string
+          region_name: string
+          sort_value: string
+          total_revenue: number
+        }[]
+      }
+      set_partner_lead_outcome: {
+        Args: {
+          _contact_organization_id: string
+          _lost_reason?: string
+          _notes?: string
+          _outcome: Database["public"]["Enums"]["partner_lead_outcome"]
+        }
+        Returns: undefined
+      }
       st_3dclosestpoint: {
         Args: { geom1: unknown; geom2: unknown }
         Returns: unknown
@@ -1981,6 +3390,16 @@ export type Database = {
         Returns: unknown
       }
       unlockrows: { Args: { "": string }; Returns: number }
+      update_deal: {
+        Args: {
+          _contact: Json
+          _contact_id: string
+          _organizations: Json
+          _sale?: Json
+          _sale_id?: string
+        }
+        Returns: undefined
+      }
       updategeometrysrid: {
         Args: {
           catalogn_name: string
@@ -1993,9 +3412,26 @@ export type Database = {
       }
     }
     Enums: {
+      activity_visibility: "internal" | "partner"
+      contact_activity_type: "call" | "email" | "note" | "meeting" | "stage_change"
       credit_status: "pending" | "approved" | "denied"
       interest_type: "sun" | "battery" | "sun_battery"
       organization_status: "active" | "archived"
+      partner_lead_outcome:
+        | "new"
+        | "contacted"
+        | "site_visit_booked"
+        | "offer_sent"
+        | "won"
+        | "lost"
+      pipeline_status:
+        | "new"
+        | "contacted"
+        | "meeting_booked"
+        | "offer_sent"
+        | "negotiation"
+        | "closed_won"
+        | "closed_lost"
       user_role: "admin" | "teamleader" | "opener" | "organization" | "closer"
     }
     CompositeTypes: {
@@ -2132,9 +3568,28 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
+      activity_visibility: ["internal", "partner"],
+      contact_activity_type: ["call", "email", "note", "meeting", "stage_change"],
       credit_status: ["pending", "approved", "denied"],
       interest_type: ["sun", "battery", "sun_battery"],
       organization_status: ["active", "archived"],
+      partner_lead_outcome: [
+        "new",
+        "contacted",
+        "site_visit_booked",
+        "offer_sent",
+        "won",
+        "lost",
+      ],
+      pipeline_status: [
+        "new",
+        "contacted",
+        "meeting_booked",
+        "offer_sent",
+        "negotiation",
+        "closed_won",
+        "closed_lost",
+      ],
       user_role: ["admin", "teamleader", "opener", "organization", "closer"],
     },
   },
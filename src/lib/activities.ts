@@ -0,0 +1,119 @@
+/**
+ * Contact activity log and follow-up tasks for Proffskontakt CRM
+ *
+ * contact_activities is the timeline of a contact: calls, emails, notes and
+ * meetings logged by internal users, plus a stage_change entry written by
+ * the database for every pipeline transition. Each activity is either
+ * internal or shared with the partners that bought the lead.
+ *
+ * follow_up_tasks are reminders with a due date, assigned to the user who
+ * scheduled them. A task is overdue when it is not completed and its due
+ * time has passed. Tasks on a partner instead of a contact are created by
+ * process_scheduled_timeline_events() when a test batch needs a follow-up.
+ */
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import type { PipelineStatus } from '@/lib/pipeline';
+
+export type ActivityType = Database['public']['Enums']['contact_activity_type'];
+export type ActivityVisibility = Database['public']['Enums']['activity_visibility'];
+
+export const ACTIVITY_TYPE_LABELS: Record<ActivityType, string> = {
+  call: 'Samtal',
+  email: 'E-post',
+  note: 'Anteckning',
+  meeting: 'Möte',
+  stage_change: 'Steg ändrat',
+};
+
+// Stage changes are logged by the database, never by hand
+export const LOGGABLE_ACTIVITY_TYPES: ActivityType[] = ['call', 'email', 'note', 'meeting'];
+
+export const VISIBILITY_LABELS: Record<ActivityVisibility, string> = {
+  internal: 'Intern',
+  partner: 'Delad med partner',
+};
+
+export interface ContactActivity {
+  id: string;
+  activity_type: ActivityType;
+  visibility: ActivityVisibility;
+  body: string | null;
+  from_status: PipelineStatus | null;
+  to_status: PipelineStatus | null;
+  author_id: string | null;
+  created_at: string;
+  author: { full_name: string | null; email: string } | null;
+}
+
+export interface FollowUpTask {
+  id: string;
+  contact_id: string | null;
+  sale_id: string | null;
+  title: string;
+  due_at: string;
+  completed_at: string | null;
+  contact: { name: string | null; email: string; phone: string | null } | null;
+  organization: { name: string } | null;
+}
+
+/**
+ * A contact's timeline, newest first. RLS leaves out internal entries for partners.
+ */
+export const fetchContactActivities = async (contactId: string): Promise<ContactActivity[]> => {
+  const { data, error } = await supabase
+    .from('contact_activities')
+    .select(`
+      id, activity_type, visibility, body, from_status, to_status, author_id, created_at,
+      author:profiles!contact_activities_author_id_fkey(full_name, email)
+    `)
+    .eq('contact_id', contactId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching contact activities:', error);
+    return [];
+  }
+  return data || [];
+};
+
+const FOLLOW_UP_SELECT = `
+  id, contact_id, sale_id, title, due_at, completed_at,
+  contact:contacts(name, email, phone),
+  organization:organizations(name)
+`;
+
+export const fetchContactFollowUps = async (contactId: string): Promise<FollowUpTask[]> => {
+  const { data, error } = await supabase
+    .from('follow_up_tasks')
+    .select(FOLLOW_UP_SELECT)
+    .eq('contact_id', contactId)
+    .order('due_at');
+
+  if (error) {
+    console.error('Error fetching follow-up tasks:', error);
+    return [];
+  }
+  return (data || []) as FollowUpTask[];
+};
+
+/**
+ * Open follow-up tasks assigned to a user, oldest due date first
+ */
+export const fetchOpenFollowUps = async (userId: string): Promise<FollowUpTask[]> => {
+  const { data, error } = await supabase
+    .from('follow_up_tasks')
+    .select(FOLLOW_UP_SELECT)
+    .eq('assigned_to', userId)
+    .is('completed_at', null)
+    .order('due_at');
+
+  if (error) {
+    console.error('Error fetching follow-up tasks:', error);
+    return [];
+  }
+  return (data || []) as FollowUpTask[];
+};
+
+export const isOverdue = (task: Pick<FollowUpTask, 'due_at' | 'completed_at'>, now = new Date()): boolean =>
+  !task.completed_at && new Date(task.due_at) < now;
@@ -1,121 +1,135 @@
 /**
- * Commission calculation utilities for Proffskontakt CRM
- * 
- * Base formula for SunBro/Hyllinge Solkraft:
- * 1. Customer pays price after green tech deduction (e.g., 78,000 SEK)
- * 2. Calculate total order value: price / (1 - green_tech_percent) = e.g., 78000 / 0.515 = 151,456.31
- * 3. Calculate ex-moms: total * 0.8 = 121,165.04
- * 4. Subtract base cost (23,000): 121,165.04 - 23,000 = 98,165.04
- * 5. Subtract battery material cost (6150 EUR * 11 SEK): 98,165.04 - 67,650 = 30,515
- * 6. Subtract LF Finans fee (3% of customer payment incl moms): 30,515 - (78000 * 0.03) = 28,175
- * 7. This is the invoiceable amount
- * 
+ * Commission engine client for Proffskontakt CRM
+ *
+ * All commission math lives in the database (compute_commission /
+ * calculate_sale_commission) so that won sales, salary views and every
+ * preview in the UI use exactly the same rules. Won sales get their
+ * invoiceable_amount, closer_commission and opener_commission written by a
+ * trigger together with the engine version that produced them.
+ *
+ * Billing is based on the full price incl. moms:
+ * 1. Price ex moms: (price - discount) / 1.25
+ * 2. Subtract base cost, material cost (EUR × rate), LF Finans fee and cost segments
+ * 3. The result is the påslag (billable amount)
+ * 4. "Allt över" (above_cost): ProffsKontakt invoices the whole påslag
+ *    "Satt provision" (fixed): product provision if set, otherwise company share of påslag
+ *
  * Closer commission:
- * - Base commission: 8,000 SEK for standard battery (min 22,000 SEK invoice)
+ * - Base commission (or commission type amount), min 22,000 SEK invoice
  * - If invoice < 22,000: commission reduced by 50% of the difference
- * 
+ * - "Allt över" without a commission type: closer's markup percentage of the påslag
+ * - 50% of any discount is taken from the commission
+ *
  * Opener commission:
- * - Fixed 1,000 SEK per closed deal from their booked lead
+ * - The opener's fixed commission per closed deal from their booked lead
  */
+import { supabase } from '@/integrations/supabase/client';
 
-export interface CommissionParams {
-  priceToCustomerInclMoms: number;  // Price customer pays after green tech deduction
-  greenTechDeductionPercent: number; // e.g., 48.5
-  materialCostEur: number;           // e.g., 6150
-  eurToSekRate: number;              // e.g., 11
-  baseCost: number;                  // e.g., 23000 (SunBro/Hyllinge base cost)
-  lfFinansPercent: number;           // e.g., 3
+export type BillingModel = 'fixed' | 'above_cost';
+
+export interface CommissionInputs {
+  priceInclMoms: number;             // Full price incl. moms (before green tech deduction)
   discountAmount?: number;           // Any discount given
-  numPropertyOwners?: number;        // Number of property owners (affects green tech eligibility)
-  fullGreenDeduction?: boolean;      // Whether full green deduction applies
+  materialCostEur?: number;          // e.g., 6150
+  eurToSekRate?: number;             // e.g., 11
+  baseCost?: number;                 // e.g., 23000
+  lfFinansPercent?: number;          // e.g., 3
+  costSegmentsSek?: number;          // Sum of the organization's cost segments in SEK
+  billingModel?: BillingModel;
+  companyMarkupShare?: number;       // Company share of påslag for the fixed model
+  fixedProvision?: number | null;    // Product provision for the fixed model
+  closerBaseCommission?: number;     // e.g., 8000
+  closerMarkupPercentage?: number;   // e.g., 40
+  usesCommissionType?: boolean;      // Whether a closer commission type applies
+  openerCommission?: number;         // e.g., 1000
 }
 
 export interface CommissionResult {
-  totalOrderValue: number;           // Full order value before green tech
-  exMomsValue: number;               // Value excluding VAT
-  afterBaseCost: number;             // After subtracting base cost
+  engineVersion: string;             // Version of the engine that produced the result
+  priceInclMoms: number;             // Price after discount
+  priceExMoms: number;               // Value excluding VAT
+  baseCost: number;                  // Base cost
   materialCostSek: number;           // Material cost in SEK
-  afterMaterialCost: number;         // After subtracting material
   lfFinansFee: number;               // LF Finans fee
-  invoiceableAmount: number;         // Final invoiceable amount
+  costSegmentsSek: number;           // Other cost segments in SEK
+  totalCosts: number;                // Sum of all costs
+  billableAmount: number;            // Påslag before split
+  invoiceableAmount: number;         // What ProffsKontakt invoices
   closerCommission: number;          // Closer's commission
-  openerCommission: number;          // Opener's commission (fixed 1000)
+  openerCommission: number;          // Opener's commission
 }
 
-export function calculateCommission(params: CommissionParams): CommissionResult {
-  const {
-    priceToCustomerInclMoms,
-    greenTechDeductionPercent,
-    materialCostEur,
-    eurToSekRate,
-    baseCost,
-    lfFinansPercent,
-    discountAmount = 0,
-  } = params;
-
-  // Step 1: Calculate total order value (reverse the green tech deduction)
-  // Green tech gives 48.5% off, so customer pays 51.5% (1 - 0.485 = 0.515)
-  const deductionMultiplier = 1 - (greenTechDeductionPercent / 100);
-  const totalOrderValue = priceToCustomerInclMoms / deductionMultiplier;
-
-  // Step 2: Calculate ex-moms (80% of total, since VAT is 25%)
-  const exMomsValue = totalOrderValue * 0.8;
-
-  // Step 3: Subtract base cost (organization's fixed costs)
-  const afterBaseCost = exMomsValue - baseCost;
-
-  // Step 4: Calculate and subtract material cost in SEK
-  const materialCostSek = materialCostEur * eurToSekRate;
-  const afterMaterialCost = afterBaseCost - materialCostSek;
-
-  // Step 5: Calculate LF Finans fee (percentage of what customer actually pays)
-  const lfFinansFee = priceToCustomerInclMoms * (lfFinansPercent / 100);
-  const invoiceableAmount = afterMaterialCost - lfFinansFee;
-
-  // Step 6: Calculate closer commission
-  // Base: 8,000 SEK if invoicing at least 22,000 SEK
-  // Reduced by 50% of any amount below 22,000 threshold
-  const baseCloserCommission = 8000;
-  const minimumInvoiceThreshold = 22000;
-  
-  let closerCommission = baseCloserCommission;
-  if (invoiceableAmount < minimumInvoiceThreshold) {
-    const shortfall = minimumInvoiceThreshold - invoiceableAmount;
-    closerCommission = baseCloserCommission - (shortfall * 0.5);
-  }
-  
-  // Apply any discount reduction (50% of discount comes from commission)
-  if (discountAmount > 0) {
-    closerCommission -= discountAmount * 0.5;
-  }
-  
-  // Commission can't be negative
-  closerCommission = Math.max(0, closerCommission);
-
-  // Step 7: Opener commission is fixed
-  const openerCommission = 1000;
+interface EngineResult {
+  engine_version: string;
+  price_incl_moms: number;
+  price_ex_moms: number;
+  base_cost: number;
+  material_cost_sek: number;
+  lf_finans_fee: number;
+  cost_segments_sek: number;
+  total_costs: number;
+  billable_amount: number;
+  invoiceable_amount: number;
+  closer_commission: number;
+  opener_commission: number;
+}
 
+const toCommissionResult = (data: unknown): CommissionResult => {
+  const result = data as EngineResult;
   return {
-    totalOrderValue: Math.round(totalOrderValue * 100) / 100,
-    exMomsValue: Math.round(exMomsValue * 100) / 100,
-    afterBaseCost: Math.round(afterBaseCost * 100) / 100,
-    materialCostSek: Math.round(materialCostSek * 100) / 100,
-    afterMaterialCost: Math.round(afterMaterialCost * 100) / 100,
-    lfFinansFee: Math.round(lfFinansFee * 100) / 100,
-    invoiceableAmount: Math.round(invoiceableAmount * 100) / 100,
-    closerCommission: Math.round(closerCommission * 100) / 100,
-    openerCommission,
+    engineVersion: result.engine_version,
+    priceInclMoms: Number(result.price_incl_moms),
+    priceExMoms: Number(result.price_ex_moms),
+    baseCost: Number(result.base_cost),
+    materialCostSek: Number(result.material_cost_sek),
+    lfFinansFee: Number(result.lf_finans_fee),
+    costSegmentsSek: Number(result.cost_segments_sek),
+    totalCosts: Number(result.total_costs),
+    billableAmount: Number(result.billable_amount),
+    invoiceableAmount: Number(result.invoiceable_amount),
+    closerCommission: Number(result.closer_commission),
+    openerCommission: Number(result.opener_commission),
   };
+};
+
+/**
+ * Run the engine with explicit inputs, e.g. for previews of unsaved settings
+ */
+export async function computeCommission(inputs: CommissionInputs): Promise<CommissionResult> {
+  const { data, error } = await supabase.rpc('compute_commission', {
+    _price_incl_moms: inputs.priceInclMoms,
+    _discount_amount: inputs.discountAmount ?? DEFAULT_COMMISSION_SETTINGS.discountAmount,
+    _material_cost_eur: inputs.materialCostEur ?? 0,
+    _eur_to_sek_rate: inputs.eurToSekRate ?? DEFAULT_COMMISSION_SETTINGS.eurToSekRate,
+    _base_cost: inputs.baseCost ?? DEFAULT_COMMISSION_SETTINGS.baseCost,
+    _lf_finans_percent: inputs.lfFinansPercent ?? DEFAULT_COMMISSION_SETTINGS.lfFinansPercent,
+    _cost_segments_sek: inputs.costSegmentsSek ?? 0,
+    _billing_model: inputs.billingModel ?? 'fixed',
+    _company_markup_share: inputs.companyMarkupShare ?? DEFAULT_COMMISSION_SETTINGS.companyMarkupShare,
+    _fixed_provision: inputs.fixedProvision ?? undefined,
+    _closer_base_commission: inputs.closerBaseCommission ?? DEFAULT_COMMISSION_SETTINGS.closerBaseCommission,
+    _closer_markup_percentage: inputs.closerMarkupPercentage ?? DEFAULT_COMMISSION_SETTINGS.closerMarkupPercentage,
+    _uses_commission_type: inputs.usesCommissionType ?? false,
+    _opener_commission: inputs.openerCommission ?? DEFAULT_COMMISSION_SETTINGS.openerCommission,
+  });
+
+  if (error) throw error;
+  return toCommissionResult(data);
 }
 
 /**
- * Default settings for SunBro and Hyllinge Solkraft
+ * Default settings for SunBro and Hyllinge Solkraft (mirror the engine defaults)
  */
 export const DEFAULT_COMMISSION_SETTINGS = {
   baseCost: 23000,
   eurToSekRate: 11,
   lfFinansPercent: 3,
   greenTechDeductionPercent: 48.5,
+  companyMarkupShare: 70,
+  closerBaseCommission: 8000,
+  closerMarkupPercentage: 40,
+  openerCommission: 1000,
+  discountAmount: 0,
 };
 
 /**
@@ -129,26 +143,24 @@ export const DEFAULT_EMALDO_BATTERY = {
 };
 
 /**
- * Example calculation for reference:
- * 
+ * Example calculation for reference ("Satt provision", no product provision):
+ *
  * Input:
- * - Customer price after green tech: 78,000 SEK
- * - Green tech deduction: 48.5%
+ * - Full price incl. moms: 151,456 SEK
  * - Material cost: 6,150 EUR
  * - EUR/SEK rate: 11
  * - Base cost: 23,000 SEK
  * - LF Finans: 3%
- * 
+ * - Company share: 70%
+ *
  * Calculation:
- * 1. Total order value: 78,000 / 0.515 = 151,456.31 SEK
- * 2. Ex-moms: 151,456.31 * 0.8 = 121,165.05 SEK
- * 3. After base cost: 121,165.05 - 23,000 = 98,165.05 SEK
- * 4. Material cost SEK: 6,150 * 11 = 67,650 SEK
- * 5. After material: 98,165.05 - 67,650 = 30,515.05 SEK
- * 6. LF Finans fee: 78,000 * 0.03 = 2,340 SEK
- * 7. Invoiceable: 30,515.05 - 2,340 = 28,175.05 SEK
- * 
+ * 1. Ex-moms: 151,456 / 1.25 = 121,164.80 SEK
+ * 2. Material cost SEK: 6,150 * 11 = 67,650 SEK
+ * 3. LF Finans fee: 151,456 * 0.03 = 4,543.68 SEK
+ * 4. Påslag: 121,164.80 - 23,000 - 67,650 - 4,543.68 = 25,971.12 SEK
+ * 5. Invoiceable: 25,971.12 * 0.7 = 18,179.78 SEK
+ *
  * Commission:
- * - Closer: 8,000 SEK (invoiceable > 22,000 threshold)
- * - Opener: 1,000 SEK (fixed)
+ * - Closer: 8,000 - (22,000 - 18,179.78) * 0.5 = 6,089.89 SEK
+ * - Opener: 1,000 SEK
  */
@@ -0,0 +1,84 @@
+/**
+ * Partner coverage areas for Proffskontakt CRM
+ *
+ * Coverage is stored as PostGIS polygons (WGS 84) per lead type in
+ * organization_coverage_areas. Admins import or paste GeoJSON; every
+ * Polygon found in it is saved as its own area. The database validates the
+ * geometry, this module only unpacks the GeoJSON structure.
+ */
+import type { Json } from '@/integrations/supabase/types';
+
+export type CoverageLeadType = 'offert' | 'salj';
+
+export const COVERAGE_LEAD_TYPES: { key: CoverageLeadType; label: string }[] = [
+  { key: 'offert', label: 'Offert' },
+  { key: 'salj', label: 'Sälj' },
+];
+
+export interface CoverageArea {
+  id: string;
+  lead_type: string;
+  polygon: Json;
+  area_km2: number;
+}
+
+// A type alias rather than an interface so it can be passed as Json to RPCs
+export type GeoJsonPolygon = {
+  type: 'Polygon';
+  coordinates: number[][][];
+};
+
+type GeoJsonObject = {
+  type?: string;
+  coordinates?: unknown;
+  geometry?: GeoJsonObject | null;
+  geometries?: GeoJsonObject[];
+  features?: GeoJsonObject[];
+};
+
+const collectPolygons = (object: GeoJsonObject | null | undefined, polygons: GeoJsonPolygon[]) => {
+  if (!object || typeof object !== 'object') return;
+
+  switch (object.type) {
+    case 'Polygon':
+      polygons.push({ type: 'Polygon', coordinates: object.coordinates as number[][][] });
+      break;
+    case 'MultiPolygon':
+      (object.coordinates as number[][][][]).forEach(coordinates => {
+        polygons.push({ type: 'Polygon', coordinates });
+      });
+      break;
+    case 'Feature':
+      collectPolygons(object.geometry, polygons);
+      break;
+    case 'FeatureCollection':
+      object.features?.forEach(feature => collectPolygons(feature, polygons));
+      break;
+    case 'GeometryCollection':
+      object.geometries?.forEach(geometry => collectPolygons(geometry, polygons));
+      break;
+    default:
+      throw new Error(`GeoJSON-typen ${object.type ?? 'okänd'} stöds inte`);
+  }
+};
+
+/**
+ * All polygons in a GeoJSON text. MultiPolygons are split into polygons.
+ * Throws with a Swedish message if the text isn't usable.
+ */
+export const parseCoveragePolygons = (text: string): GeoJsonPolygon[] => {
+  let parsed: GeoJsonObject;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('Ogiltig JSON');
+  }
+
+  const polygons: GeoJsonPolygon[] = [];
+  collectPolygons(parsed, polygons);
+
+  if (polygons.length === 0) {
+    throw new Error('Ingen polygon hittades i GeoJSON');
+  }
+  return polygons;
+};
@@ -0,0 +1,143 @@
+/**
+ * Credit-rate analytics for Proffskontakt CRM
+ *
+ * get_credit_rate_stats() returns monthly lead and credit counts grouped by
+ * partner, opener, region or reason. Leads are counted on date_sent, once
+ * per partner they were delivered to, and a lead counts as credited if the
+ * partner sent a credit request for it, whatever the outcome.
+ *
+ * For the reason grouping lead_count is every lead of the month, so the
+ * rate is the share of all leads credited for that reason. Uncredited leads
+ * come back as a row without group_key that only counts towards the total.
+ */
+import { supabase } from '@/integrations/supabase/client';
+
+export type CreditStatsGrouping = 'organization' | 'opener' | 'region' | 'reason';
+
+export const CREDIT_STATS_GROUPINGS: { key: CreditStatsGrouping; label: string }[] = [
+  { key: 'organization', label: 'Partner' },
+  { key: 'opener', label: 'Opener' },
+  { key: 'region', label: 'Region' },
+  { key: 'reason', label: 'Anledning' },
+];
+
+export interface CreditRateStat {
+  month: string;
+  group_key: string | null;
+  group_label: string | null;
+  lead_count: number;
+  credit_count: number;
+  approved_count: number;
+}
+
+export interface CreditRateSummary {
+  key: string;
+  label: string;
+  leads: number;
+  credits: number;
+  approved: number;
+  creditRate: number;
+  approvedRate: number;
+  // Credit rate per month, keyed by the first day (yyyy-MM-dd); months without leads are missing
+  monthlyRates: Record<string, number>;
+}
+
+export const creditRate = (credits: number, leads: number): number =>
+  leads > 0 ? (credits / leads) * 100 : 0;
+
+const FALLBACK_LABELS: Record<CreditStatsGrouping, string> = {
+  organization: 'Borttagen partner',
+  opener: 'Borttagen opener',
+  region: 'Ingen region',
+  reason: 'Ingen anledning angiven',
+};
+
+export const fetchCreditRateStats = async (
+  groupBy: CreditStatsGrouping,
+  from: string,
+  to: string
+): Promise<CreditRateStat[]> => {
+  const { data, error } = await supabase.rpc('get_credit_rate_stats', {
+    _group_by: groupBy,
+    _from: from,
+    _to: to,
+  });
+
+  if (error) {
+    console.error('Error fetching credit rate stats:', error);
+    return [];
+  }
+  return data || [];
+};
+
+/**
+ * One row per group across the months, highest credit rate first
+ */
+export const summarizeCreditRates = (
+  stats: CreditRateStat[],
+  groupBy: CreditStatsGrouping
+): CreditRateSummary[] => {
+  const groups = new Map<string, CreditRateSummary>();
+  // For reasons every row of a month carries the month's total, count it once
+  const reasonMonthLeads = new Map<string, number>();
+
+  stats.forEach(stat => {
+    reasonMonthLeads.set(stat.month, Number(stat.lead_count));
+    if (stat.group_key === null) return;
+
+    let group = groups.get(stat.group_key);
+    if (!group) {
+      group = {
+        key: stat.group_key,
+        label: stat.group_label || FALLBACK_LABELS[groupBy],
+        leads: 0,
+        credits: 0,
+        approved: 0,
+        creditRate: 0,
+        approvedRate: 0,
+        monthlyRates: {},
+      };
+      groups.set(stat.group_key, group);
+    }
+
+    group.leads += Number(stat.lead_count);
+    group.credits += Number(stat.credit_count);
+    group.approved += Number(stat.approved_count);
+    group.monthlyRates[stat.month] = creditRate(Number(stat.credit_count), Number(stat.lead_count));
+  });
+
+  const totalMonthLeads = [...reasonMonthLeads.values()].reduce((sum, n) => sum + n, 0);
+
+  return [...groups.values()]
+    .map(group => {
+      const leads = groupBy === 'reason' ? totalMonthLeads : group.leads;
+      return {
+        ...group,
+        leads,
+        creditRate: creditRate(group.credits, leads),
+        approvedRate: creditRate(group.approved, leads),
+      };
+    })
+    .sort((a, b) => b.creditRate - a.creditRate);
+};
+
+/**
+ * Overall credit rate per month across all groups
+ */
+export const totalCreditRates = (
+  stats: CreditRateStat[],
+  groupBy: CreditStatsGrouping
+): Record<string, number> => {
+  const months = new Map<string, { leads: number; credits: number }>();
+
+  stats.forEach(stat => {
+    const month = months.get(stat.month) || { leads: 0, credits: 0 };
+    month.leads = groupBy === 'reason' ? Number(stat.lead_count) : month.leads + Number(stat.lead_count);
+    month.credits += Number(stat.credit_count);
+    months.set(stat.month, month);
+  });
+
+  return Object.fromEntries(
+    [...months.entries()].map(([month, totals]) => [month, creditRate(totals.credits, totals.leads)])
+  );
+};
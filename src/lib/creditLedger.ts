@@ -0,0 +1,103 @@
+/**
+ * Partner credit ledger for Proffskontakt CRM
+ *
+ * The database writes one partner_credit_ledger entry per approved credit.
+ * billing_month is the month whose invoicing the credit reduces:
+ * - the lead's own month: the lead is left off that month's invoice
+ * - a later month (is_deferred): the lead was already invoiced and is paid
+ *   back with a credit note
+ *
+ * Months are the first day as 'yyyy-MM-dd', like invoicing_periods.
+ * Every view that shows credited leads or credited amounts reads them from
+ * here so invoicing, Deals and the partner view agree.
+ */
+import { supabase } from '@/integrations/supabase/client';
+
+export interface CreditLedgerEntry {
+  id: string;
+  credit_request_id: string;
+  organization_id: string;
+  lead_month: string;
+  billing_month: string;
+  amount_incl_moms: number;
+  credit_note_id: string | null;
+  is_deferred: boolean | null;
+  credit_request: { contact_id: string } | null;
+}
+
+export interface DeferredCreditSummary {
+  count: number;
+  amount: number;
+}
+
+/**
+ * Ledger entries that reduce a billing month
+ */
+export const fetchCreditLedger = async (billingMonth: string): Promise<CreditLedgerEntry[]> => {
+  const { data, error } = await supabase
+    .from('partner_credit_ledger')
+    .select(`
+      id, credit_request_id, organization_id, lead_month, billing_month,
+      amount_incl_moms, credit_note_id, is_deferred,
+      credit_request:credit_requests(contact_id)
+    `)
+    .eq('billing_month', billingMonth);
+
+  if (error) {
+    console.error('Error fetching credit ledger:', error);
+    return [];
+  }
+  return (data || []) as CreditLedgerEntry[];
+};
+
+export const creditedLeadKey = (contactId: string, organizationId: string) => `${contactId}-${organizationId}`;
+
+/**
+ * Leads left off their own month's invoice, as creditedLeadKey()
+ */
+export const getCreditedLeadKeys = (entries: CreditLedgerEntry[]): Set<string> =>
+  new Set(
+    entries.flatMap(entry =>
+      !entry.is_deferred && entry.credit_request
+        ? [creditedLeadKey(entry.credit_request.contact_id, entry.organization_id)]
+        : []
+    )
+  );
+
+/**
+ * Credits for leads from earlier months, per partner
+ */
+export const summarizeDeferredCredits = (entries: CreditLedgerEntry[]): Map<string, DeferredCreditSummary> => {
+  const summaries = new Map<string, DeferredCreditSummary>();
+
+  entries
+    .filter(entry => entry.is_deferred)
+    .forEach(entry => {
+      const summary = summaries.get(entry.organization_id) || { count: 0, amount: 0 };
+      summary.count += 1;
+      summary.amount += Number(entry.amount_incl_moms);
+      summaries.set(entry.organization_id, summary);
+    });
+
+  return summaries;
+};
+
+/**
+ * Ledger entries for every billing month from a month onwards
+ */
+export const fetchCreditLedgerSince = async (fromBillingMonth: string): Promise<CreditLedgerEntry[]> => {
+  const { data, error } = await supabase
+    .from('partner_credit_ledger')
+    .select(`
+      id, credit_request_id, organization_id, lead_month, billing_month,
+      amount_incl_moms, credit_note_id, is_deferred,
+      credit_request:credit_requests(contact_id)
+    `)
+    .gte('billing_month', fromBillingMonth);
+
+  if (error) {
+    console.error('Error fetching credit ledger:', error);
+    return [];
+  }
+  return (data || []) as CreditLedgerEntry[];
+};
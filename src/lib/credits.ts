@@ -0,0 +1,165 @@
+/**
+ * Credit requests for Proffskontakt CRM
+ *
+ * validate_credit_request() in the database enforces the partner rules on
+ * every insert. Its errors start with one of these codes.
+ *
+ * Partners pick a reason code from credit_reason_codes and can attach
+ * evidence files, stored in the private credit-evidence bucket under
+ * <organization_id>/<credit_request_id>/. Admins answer with a decision
+ * comment that the partner sees in their request history.
+ */
+import { supabase } from '@/integrations/supabase/client';
+
+export type CreditErrorCode =
+  | 'REASON_REQUIRED'
+  | 'CREDITS_NOT_ALLOWED'
+  | 'LEAD_NOT_ASSIGNED'
+  | 'CREDIT_DEADLINE_PASSED'
+  | 'BILLING_MONTH_LOCKED'
+  | 'CREDIT_ALREADY_REQUESTED'
+  | 'ALREADY_CREDITED'
+  | 'CREDIT_ALREADY_SETTLED';
+
+const CREDIT_ERROR_MESSAGES: Record<CreditErrorCode, string> = {
+  REASON_REQUIRED: 'Välj en anledning till krediteringen',
+  CREDITS_NOT_ALLOWED: 'Din organisation har inte behörighet att begära krediter',
+  LEAD_NOT_ASSIGNED: 'Leadet tillhör inte din organisation',
+  CREDIT_DEADLINE_PASSED: 'Tidsfristen för att kreditera leadet har passerat',
+  BILLING_MONTH_LOCKED: 'Leadets månad är redan fakturerad och låst',
+  CREDIT_ALREADY_REQUESTED: 'Det finns redan en öppen kreditförfrågan för leadet',
+  ALREADY_CREDITED: 'Leadet är redan krediterat',
+  CREDIT_ALREADY_SETTLED: 'Krediten är redan reglerad på en faktura eller kreditnota',
+};
+
+/**
+ * Swedish message for a failed credit request insert or decision
+ */
+export const getCreditErrorMessage = (
+  error: { message?: string } | null,
+  fallback = 'Kunde inte skicka kreditförfrågan'
+): string => {
+  const code = Object.keys(CREDIT_ERROR_MESSAGES).find(c => error?.message?.startsWith(c)) as CreditErrorCode | undefined;
+  return code ? CREDIT_ERROR_MESSAGES[code] : fallback;
+};
+
+export interface CreditReasonCode {
+  code: string;
+  label: string;
+  description: string | null;
+}
+
+/**
+ * Active reason codes in display order
+ */
+export const fetchCreditReasonCodes = async (): Promise<CreditReasonCode[]> => {
+  const { data, error } = await supabase
+    .from('credit_reason_codes')
+    .select('code, label, description')
+    .eq('is_active', true)
+    .order('sort_order');
+
+  if (error) {
+    console.error('Error fetching credit reason codes:', error);
+    return [];
+  }
+  return data || [];
+};
+
+export const CREDIT_EVIDENCE_BUCKET = 'credit-evidence';
+export const MAX_EVIDENCE_FILES = 5;
+export const MAX_EVIDENCE_FILE_SIZE = 10 * 1024 * 1024;
+// Must match allowed_mime_types on the bucket
+export const EVIDENCE_ACCEPT = 'image/png,image/jpeg,image/webp,application/pdf,audio/mpeg,audio/mp4,audio/wav,audio/x-wav,audio/ogg';
+
+/**
+ * Swedish message for the first file that can't be uploaded, or null if all are fine
+ */
+export const validateEvidenceFiles = (files: File[]): string | null => {
+  if (files.length > MAX_EVIDENCE_FILES) {
+    return `Du kan bifoga högst ${MAX_EVIDENCE_FILES} filer`;
+  }
+  const accepted = EVIDENCE_ACCEPT.split(',');
+  const unsupported = files.find(f => !accepted.includes(f.type));
+  if (unsupported) {
+    return `Filtypen för ${unsupported.name} stöds inte`;
+  }
+  const tooLarge = files.find(f => f.size > MAX_EVIDENCE_FILE_SIZE);
+  if (tooLarge) {
+    return `${tooLarge.name} är större än 10 MB`;
+  }
+  return null;
+};
+
+/**
+ * Uploads evidence for a pending request and registers each file.
+ * Returns the number of files that failed.
+ */
+export const uploadCreditEvidence = async (
+  organizationId: string,
+  creditRequestId: string,
+  uploadedBy: string,
+  files: File[]
+): Promise<number> => {
+  let failed = 0;
+
+  for (const file of files) {
+    const safeName = file.name.replace(/[^\w.-]+/g, '_');
+    const path = `${organizationId}/${creditRequestId}/${Date.now()}_${safeName}`;
+
+    const { error: uploadError } = await supabase.storage
+      .from(CREDIT_EVIDENCE_BUCKET)
+      .upload(path, file, { contentType: file.type });
+
+    if (uploadError) {
+      console.error('Error uploading credit evidence:', uploadError);
+      failed++;
+      continue;
+    }
+
+    const { error } = await supabase.from('credit_request_attachments').insert({
+      credit_request_id: creditRequestId,
+      storage_path: path,
+      file_name: file.name,
+      content_type: file.type || null,
+      size_bytes: file.size,
+      uploaded_by: uploadedBy,
+    });
+
+    if (error) {
+      console.error('Error registering credit evidence:', error);
+      failed++;
+    }
+  }
+
+  return failed;
+};
+
+/**
+ * Short-lived link to an evidence file; the bucket is private
+ */
+export const getCreditEvidenceUrl = async (storagePath: string): Promise<string | null> => {
+  const { data, error } = await supabase.storage
+    .from(CREDIT_EVIDENCE_BUCKET)
+    .createSignedUrl(storagePath, 60 * 10);
+
+  if (error) {
+    console.error('Error creating evidence link:', error);
+    return null;
+  }
+  return data.signedUrl;
+};
+
+/**
+ * Approves or denies a request with an optional comment for the partner
+ */
+export const decideCreditRequest = async (
+  creditRequestId: string,
+  status: 'approved' | 'denied',
+  comment: string
+) => {
+  return supabase
+    .from('credit_requests')
+    .update({ status, decision_comment: comment.trim() || null })
+    .eq('id', creditRequestId);
+};
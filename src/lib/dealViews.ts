@@ -0,0 +1,235 @@
+/**
+ * Saved Deals views for Proffskontakt CRM
+ *
+ * A view stores the Deals table layout (column order, visibility and
+ * widths), the filters, the sort and the date range. Views belong to their
+ * owner, who can share one with everyone in a role. Shared views can be
+ * used but only changed by the owner. deal_view_defaults holds the view
+ * each user opens Deals with.
+ *
+ * Week, month and quarter ranges are relative: a view opens on the period
+ * containing today. Custom ranges keep their dates.
+ */
+import {
+  addMonths,
+  addQuarters,
+  addWeeks,
+  endOfMonth,
+  endOfQuarter,
+  endOfWeek,
+  format,
+  startOfMonth,
+  startOfQuarter,
+  startOfWeek,
+} from 'date-fns';
+import { sv } from 'date-fns/locale';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json, Tables } from '@/integrations/supabase/types';
+import type { DealSort, DealSortColumn } from '@/lib/deals';
+import type { UserRole } from '@/lib/permissions';
+
+export type DealView = Tables<'deal_views'>;
+
+export type DateRangeType = 'week' | 'month' | 'quarter' | 'custom';
+
+export const DATE_RANGE_OPTIONS: { key: DateRangeType; label: string }[] = [
+  { key: 'week', label: 'Vecka' },
+  { key: 'month', label: 'Månad' },
+  { key: 'quarter', label: 'Kvartal' },
+  { key: 'custom', label: 'Anpassat' },
+];
+
+export const SHARE_ROLE_OPTIONS: { key: UserRole; label: string }[] = [
+  { key: 'admin', label: 'Admin' },
+  { key: 'teamleader', label: 'Teamleader' },
+  { key: 'opener', label: 'Opener' },
+  { key: 'closer', label: 'Closer' },
+  { key: 'organization', label: 'Partner' },
+];
+
+export interface DateRange {
+  from: Date;
+  to: Date;
+}
+
+export interface DealViewFilters {
+  search: string;
+  organizationId: string | null;
+  creditStatus: string | null;
+  interest: string | null;
+  regionId: string | null;
+}
+
+export interface DealViewSettings {
+  columnOrder: DealSortColumn[];
+  visibleColumns: DealSortColumn[];
+  // Pixels per column, columns without a width size themselves
+  columnWidths: Partial<Record<DealSortColumn, number>>;
+  filters: DealViewFilters;
+  sort: DealSort;
+  dateRangeType: DateRangeType;
+  // Only for custom ranges, as 'yyyy-MM-dd'
+  customRange: { from: string; to: string } | null;
+}
+
+export const EMPTY_DEAL_VIEW_FILTERS: DealViewFilters = {
+  search: '',
+  organizationId: null,
+  creditStatus: null,
+  interest: null,
+  regionId: null,
+};
+
+/**
+ * The week (from Monday), month or quarter containing a date
+ */
+export const getPeriodRange = (type: Exclude<DateRangeType, 'custom'>, date: Date): DateRange => {
+  switch (type) {
+    case 'week':
+      return { from: startOfWeek(date, { weekStartsOn: 1 }), to: endOfWeek(date, { weekStartsOn: 1 }) };
+    case 'quarter':
+      return { from: startOfQuarter(date), to: endOfQuarter(date) };
+    default:
+      return { from: startOfMonth(date), to: endOfMonth(date) };
+  }
+};
+
+/**
+ * Move a date a number of periods back or forward
+ */
+export const shiftPeriod = (type: Exclude<DateRangeType, 'custom'>, date: Date, periods: number): Date => {
+  switch (type) {
+    case 'week':
+      return addWeeks(date, periods);
+    case 'quarter':
+      return addQuarters(date, periods);
+    default:
+      return addMonths(date, periods);
+  }
+};
+
+export const formatDateRange = (type: DateRangeType, range: DateRange): string => {
+  switch (type) {
+    case 'week':
+      return `Vecka ${format(range.from, 'I, RRRR')}`;
+    case 'month':
+      return format(range.from, 'MMMM yyyy', { locale: sv });
+    case 'quarter':
+      return `Q${format(range.from, 'Q yyyy')}`;
+    default:
+      return `${format(range.from, 'd MMM yyyy', { locale: sv })} – ${format(range.to, 'd MMM yyyy', { locale: sv })}`;
+  }
+};
+
+/**
+ * A stored view as page settings. Columns added to Deals after the view
+ * was saved are put last and hidden.
+ */
+export const toDealViewSettings = (view: DealView, allColumns: DealSortColumn[]): DealViewSettings => {
+  const known = new Set<string>(allColumns);
+  const savedOrder = view.column_order.filter(key => known.has(key)) as DealSortColumn[];
+  const filters = (view.filters || {}) as Record<string, string | null>;
+
+  return {
+    columnOrder: [...savedOrder, ...allColumns.filter(key => !savedOrder.includes(key))],
+    visibleColumns: view.visible_columns.filter(key => known.has(key)) as DealSortColumn[],
+    columnWidths: (view.column_widths || {}) as DealViewSettings['columnWidths'],
+    filters: {
+      search: filters.search || '',
+      organizationId: filters.organization_id || null,
+      creditStatus: filters.credit_status || null,
+      interest: filters.interest || null,
+      regionId: filters.region_id || null,
+    },
+    sort: {
+      column: known.has(view.sort_column) ? (view.sort_column as DealSortColumn) : 'date',
+      ascending: view.sort_ascending,
+    },
+    dateRangeType: view.date_range_type as DateRangeType,
+    customRange: view.date_from && view.date_to ? { from: view.date_from, to: view.date_to } : null,
+  };
+};
+
+const toDealViewColumns = (settings: DealViewSettings) => ({
+  column_order: settings.columnOrder,
+  visible_columns: settings.visibleColumns,
+  column_widths: settings.columnWidths as Json,
+  filters: {
+    search: settings.filters.search,
+    organization_id: settings.filters.organizationId,
+    credit_status: settings.filters.creditStatus,
+    interest: settings.filters.interest,
+    region_id: settings.filters.regionId,
+  },
+  sort_column: settings.sort.column,
+  sort_ascending: settings.sort.ascending,
+  date_range_type: settings.dateRangeType,
+  date_from: settings.dateRangeType === 'custom' ? settings.customRange?.from || null : null,
+  date_to: settings.dateRangeType === 'custom' ? settings.customRange?.to || null : null,
+});
+
+/**
+ * The user's own views and the views shared with their role
+ */
+export const fetchDealViews = async (): Promise<DealView[]> => {
+  const { data, error } = await supabase
+    .from('deal_views')
+    .select('*')
+    .order('name');
+
+  if (error) {
+    console.error('Error fetching deal views:', error);
+    return [];
+  }
+  return data || [];
+};
+
+export const fetchDefaultDealViewId = async (userId: string): Promise<string | null> => {
+  const { data, error } = await supabase
+    .from('deal_view_defaults')
+    .select('view_id')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching default deal view:', error);
+    return null;
+  }
+  return data?.view_id || null;
+};
+
+export const createDealView = async (
+  ownerId: string,
+  name: string,
+  sharedWithRole: UserRole | null,
+  settings: DealViewSettings
+) =>
+  supabase
+    .from('deal_views')
+    .insert({ owner_id: ownerId, name, shared_with_role: sharedWithRole, ...toDealViewColumns(settings) })
+    .select()
+    .single();
+
+export const updateDealView = async (
+  viewId: string,
+  name: string,
+  sharedWithRole: UserRole | null,
+  settings: DealViewSettings
+) =>
+  supabase
+    .from('deal_views')
+    .update({ name, shared_with_role: sharedWithRole, ...toDealViewColumns(settings) })
+    .eq('id', viewId)
+    .select()
+    .single();
+
+export const deleteDealView = async (viewId: string) =>
+  supabase.from('deal_views').delete().eq('id', viewId);
+
+/**
+ * Open Deals with a view from now on, or with the standard layout for null
+ */
+export const setDefaultDealView = async (userId: string, viewId: string | null) =>
+  viewId
+    ? supabase.from('deal_view_defaults').upsert({ user_id: userId, view_id: viewId })
+    : supabase.from('deal_view_defaults').delete().eq('user_id', userId);
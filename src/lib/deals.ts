@@ -0,0 +1,214 @@
+/**
+ * Deals list query for Proffskontakt CRM
+ *
+ * search_deals() filters, sorts and pages the deals sent in a date range in
+ * the database, and get_deal_totals() sums every deal matching the same
+ * filters, so the summary is right however many pages have been loaded.
+ * Pages are fetched with a keyset cursor: the sort_value and id of the
+ * previous page's last row. Both run with the caller's RLS, so everyone
+ * sees the same deals as before. Both throw on errors so that the query
+ * hooks in src/hooks/queries/use-contacts.ts can retry them.
+ *
+ * Revenue follows the billing rules: leads are priced at the price in
+ * effect on their date and leads credited off their own month's invoice
+ * are left out (see pricing.ts and creditLedger.ts).
+ */
+import { format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+
+type CreditStatus = Database['public']['Enums']['credit_status'];
+type InterestType = Database['public']['Enums']['interest_type'];
+
+export type DealSortColumn =
+  | 'name' | 'email' | 'phone' | 'address' | 'postalCode' | 'interest' | 'date' | 'opener'
+  | 'bolag1' | 'bolag2' | 'bolag3' | 'bolag4' | 'totalRevenue' | 'creditStatus' | 'region';
+
+export interface DealFilters {
+  // Inclusive, on date_sent
+  from: Date;
+  to: Date;
+  search: string;
+  organizationId: string | null;
+  creditStatus: CreditStatus | null;
+  interest: InterestType | null;
+  regionId: string | null;
+}
+
+export interface DealSort {
+  column: DealSortColumn;
+  ascending: boolean;
+}
+
+export interface DealCursor {
+  value: string;
+  id: string;
+}
+
+export interface DealOrganization {
+  id: string;
+  name: string;
+  price_per_solar_deal: number | null;
+  price_per_battery_deal: number | null;
+  is_sales_consultant?: boolean;
+  sales_consultant_lead_type?: string | null;
+  sold_to_partner?: boolean;
+}
+
+export interface DealContact {
+  id: string;
+  email: string;
+  name: string | null;
+  phone: string | null;
+  address: string | null;
+  postal_code: string | null;
+  date_sent: string;
+  interest: InterestType;
+  opener_id: string;
+  region_id: string | null;
+  opener?: { email: string; full_name: string | null };
+  organizations?: DealOrganization[];
+  credit_requests?: { status: CreditStatus; organization_id: string }[];
+  region?: { id: string; name: string };
+  credit_status: CreditStatus | null;
+  total_revenue: number;
+}
+
+export interface DealsPage {
+  deals: DealContact[];
+  nextCursor: DealCursor | null;
+}
+
+export interface DealOrganizationTotals {
+  organizationId: string;
+  name: string;
+  value: number;
+  leadCount: number;
+  creditedValue: number;
+  creditedLeads: number;
+  deferredCredits: number;
+}
+
+export interface DealTotals {
+  totalLeads: number;
+  totalOrgLinks: number;
+  totalValue: number;
+  creditedValue: number;
+  // Earlier months' leads credited in the billing months the range covers in
+  // full, already paid back by credit note
+  deferredValue: number;
+  orgValues: DealOrganizationTotals[];
+}
+
+// get_deal_totals() as it comes back from the database
+interface DealTotalsResult {
+  total_leads: number;
+  total_org_links: number;
+  total_value: number;
+  credited_value: number;
+  deferred_value: number;
+  organizations: {
+    organization_id: string;
+    name: string;
+    lead_count: number;
+    value: number;
+    credited_value: number;
+    credited_leads: number;
+    deferred_credits: number;
+  }[];
+}
+
+export const DEAL_PAGE_SIZE = 50;
+
+export const EMPTY_DEAL_TOTALS: DealTotals = {
+  totalLeads: 0,
+  totalOrgLinks: 0,
+  totalValue: 0,
+  creditedValue: 0,
+  deferredValue: 0,
+  orgValues: [],
+};
+
+const toFilterArgs = (filters: DealFilters) => ({
+  _from: format(filters.from, 'yyyy-MM-dd'),
+  _to: format(filters.to, 'yyyy-MM-dd'),
+  _search: filters.search.trim() || undefined,
+  _organization_id: filters.organizationId || undefined,
+  _credit_status: filters.creditStatus || undefined,
+  _interest: filters.interest || undefined,
+  _region_id: filters.regionId || undefined,
+});
+
+/**
+ * One page of deals, and the cursor for the next page if there is one
+ */
+export const fetchDealsPage = async (
+  filters: DealFilters,
+  sort: DealSort,
+  cursor: DealCursor | null = null,
+  pageSize: number = DEAL_PAGE_SIZE
+): Promise<DealsPage> => {
+  const { data, error } = await supabase.rpc('search_deals', {
+    ...toFilterArgs(filters),
+    _sort_column: sort.column,
+    _sort_ascending: sort.ascending,
+    _cursor_value: cursor?.value,
+    _cursor_id: cursor?.id,
+    _limit: pageSize,
+  });
+
+  if (error) throw error;
+
+  const rows = data || [];
+  const last = rows[rows.length - 1];
+
+  return {
+    deals: rows.map(row => ({
+      id: row.id,
+      email: row.email,
+      name: row.name,
+      phone: row.phone,
+      address: row.address,
+      postal_code: row.postal_code,
+      date_sent: row.date_sent,
+      interest: row.interest,
+      opener_id: row.opener_id,
+      region_id: row.region_id,
+      opener: row.opener_email ? { email: row.opener_email, full_name: row.opener_name } : undefined,
+      organizations: (row.organizations as unknown as DealOrganization[]) || [],
+      credit_requests: (row.credit_requests as unknown as DealContact['credit_requests']) || [],
+      region: row.region_id && row.region_name ? { id: row.region_id, name: row.region_name } : undefined,
+      credit_status: row.credit_status,
+      total_revenue: Number(row.total_revenue) || 0,
+    })),
+    nextCursor: last && rows.length === pageSize ? { value: last.sort_value, id: last.id } : null,
+  };
+};
+
+/**
+ * Lead counts and invoice values for every deal matching the filters
+ */
+export const fetchDealTotals = async (filters: DealFilters): Promise<DealTotals> => {
+  const { data, error } = await supabase.rpc('get_deal_totals', toFilterArgs(filters));
+
+  if (error) throw error;
+  if (!data) return EMPTY_DEAL_TOTALS;
+
+  const totals = data as unknown as DealTotalsResult;
+  return {
+    totalLeads: Number(totals.total_leads) || 0,
+    totalOrgLinks: Number(totals.total_org_links) || 0,
+    totalValue: Number(totals.total_value) || 0,
+    creditedValue: Number(totals.credited_value) || 0,
+    deferredValue: Number(totals.deferred_value) || 0,
+    orgValues: (totals.organizations || []).map(org => ({
+      organizationId: org.organization_id,
+      name: org.name,
+      value: Number(org.value) || 0,
+      leadCount: Number(org.lead_count) || 0,
+      creditedValue: Number(org.credited_value) || 0,
+      creditedLeads: Number(org.credited_leads) || 0,
+      deferredCredits: Number(org.deferred_credits) || 0,
+    })),
+  };
+};
@@ -0,0 +1,53 @@
+/**
+ * Duplicate contact detection for Proffskontakt CRM
+ *
+ * find_contact_duplicates() compares normalized email, phone and address +
+ * postal code. New contacts are flagged automatically in
+ * contact_duplicate_flags; admins merge or dismiss them.
+ */
+import { supabase } from '@/integrations/supabase/client';
+
+export type DuplicateMatchReason = 'email' | 'phone' | 'address';
+
+export const DUPLICATE_REASON_LABELS: Record<DuplicateMatchReason, string> = {
+  email: 'E-post',
+  phone: 'Telefon',
+  address: 'Adress',
+};
+
+export const formatMatchReasons = (reasons: string[]): string =>
+  reasons.map(r => DUPLICATE_REASON_LABELS[r as DuplicateMatchReason] || r).join(', ');
+
+export interface DuplicateCandidate {
+  contact_id: string;
+  // Details are null for other openers' contacts
+  name: string | null;
+  email: string | null;
+  phone: string | null;
+  address: string | null;
+  date_sent: string;
+  match_reasons: string[];
+}
+
+/**
+ * Existing contacts that look like the one about to be created
+ */
+export const findContactDuplicates = async (contact: {
+  email: string;
+  phone?: string | null;
+  address?: string | null;
+  postal_code?: string | null;
+}): Promise<DuplicateCandidate[]> => {
+  const { data, error } = await supabase.rpc('find_contact_duplicates', {
+    _email: contact.email,
+    _phone: contact.phone || undefined,
+    _address: contact.address || undefined,
+    _postal_code: contact.postal_code || undefined,
+  });
+
+  if (error) {
+    console.error('Error checking duplicates:', error);
+    return [];
+  }
+  return data || [];
+};
@@ -0,0 +1,142 @@
+/**
+ * Partner goal thresholds for Proffskontakt CRM
+ *
+ * partner_goal_thresholds holds the traffic-light thresholds for how many
+ * partners a region or the whole network should have, and the target
+ * number of partners per lead. There is one global default, and a region
+ * or a partner can override it. A row applies from its effective_from
+ * month until a newer row for the same scope takes over, so past months
+ * are judged by the targets that applied then.
+ *
+ * The most specific scope wins: partner, then region, then global.
+ */
+import { format, startOfMonth } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type GoalThresholdRow = Tables<'partner_goal_thresholds'>;
+
+export interface ThresholdSettings {
+  greenThreshold: number;
+  yellowThreshold: number;
+  redThreshold: number;
+  targetLeadsPerCompany: number;
+}
+
+// Used when no row covers a month, e.g. before the table was seeded
+export const DEFAULT_SETTINGS: ThresholdSettings = {
+  greenThreshold: 4,
+  yellowThreshold: 2,
+  redThreshold: 1,
+  targetLeadsPerCompany: 3,
+};
+
+export interface GoalScope {
+  regionId?: string | null;
+  organizationId?: string | null;
+}
+
+export type GoalResolver = (month: Date, scope?: GoalScope) => ThresholdSettings;
+
+export const toThresholdSettings = (row: GoalThresholdRow): ThresholdSettings => ({
+  greenThreshold: row.green_threshold,
+  yellowThreshold: row.yellow_threshold,
+  redThreshold: row.red_threshold,
+  targetLeadsPerCompany: row.target_leads_per_company,
+});
+
+const isSameScope = (row: GoalThresholdRow, scope: GoalScope) =>
+  (row.region_id || null) === (scope.regionId || null) && (row.organization_id || null) === (scope.organizationId || null);
+
+/**
+ * The row in effect for exactly this scope in a month, without falling back
+ */
+export const findThresholdRow = (
+  rows: GoalThresholdRow[],
+  month: Date,
+  scope: GoalScope = {}
+): GoalThresholdRow | undefined => {
+  const monthStart = format(startOfMonth(month), 'yyyy-MM-dd');
+  let match: GoalThresholdRow | undefined;
+
+  rows.forEach(row => {
+    if (!isSameScope(row, scope) || row.effective_from > monthStart) return;
+    if (!match || row.effective_from > match.effective_from) {
+      match = row;
+    }
+  });
+
+  return match;
+};
+
+/**
+ * Thresholds for a scope in a month: partner, then region, then global
+ */
+export const resolveThresholds = (rows: GoalThresholdRow[], month: Date, scope: GoalScope = {}): ThresholdSettings => {
+  const row =
+    (scope.organizationId && findThresholdRow(rows, month, { organizationId: scope.organizationId })) ||
+    (scope.regionId && findThresholdRow(rows, month, { regionId: scope.regionId })) ||
+    findThresholdRow(rows, month);
+
+  return row ? toThresholdSettings(row) : DEFAULT_SETTINGS;
+};
+
+/**
+ * Bind the rows once, e.g. inside a useMemo
+ */
+export const createGoalResolver = (rows: GoalThresholdRow[]): GoalResolver =>
+  (month, scope) => resolveThresholds(rows, month, scope);
+
+export const fetchGoalThresholds = async (): Promise<GoalThresholdRow[]> => {
+  const { data, error } = await supabase
+    .from('partner_goal_thresholds')
+    .select('*')
+    .order('effective_from', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching partner goal thresholds:', error);
+    return [];
+  }
+  return data || [];
+};
+
+/**
+ * Save thresholds for a scope from a month on. Saving the same scope and
+ * month twice updates that row, so history before it is kept.
+ */
+export const saveGoalThresholds = async (
+  rows: GoalThresholdRow[],
+  month: Date,
+  scope: GoalScope,
+  settings: ThresholdSettings,
+  userId: string | undefined
+) => {
+  const effectiveFrom = format(startOfMonth(month), 'yyyy-MM-dd');
+  const values = {
+    green_threshold: settings.greenThreshold,
+    yellow_threshold: settings.yellowThreshold,
+    red_threshold: settings.redThreshold,
+    target_leads_per_company: settings.targetLeadsPerCompany,
+  };
+  const existing = rows.find(row => isSameScope(row, scope) && row.effective_from === effectiveFrom);
+
+  if (existing) {
+    return supabase.from('partner_goal_thresholds').update(values).eq('id', existing.id);
+  }
+  return supabase.from('partner_goal_thresholds').insert({
+    ...values,
+    region_id: scope.regionId || null,
+    organization_id: scope.organizationId || null,
+    effective_from: effectiveFrom,
+    created_by: userId || null,
+  });
+};
+
+/**
+ * Traffic-light classes for a partner count: green, orange, or red below orange
+ */
+export const getThresholdColor = (partnerCount: number, settings: ThresholdSettings): string => {
+  if (partnerCount >= settings.greenThreshold) return 'text-emerald-600 bg-emerald-500/10';
+  if (partnerCount >= settings.yellowThreshold) return 'text-amber-600 bg-amber-500/10';
+  return 'text-red-600 bg-red-500/10';
+};
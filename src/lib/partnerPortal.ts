@@ -0,0 +1,226 @@
+/**
+ * Partner portal for Proffskontakt CRM
+ *
+ * Partners report the outcome of every lead they received on its
+ * contact_organizations link, through set_partner_lead_outcome() in the
+ * database. Its errors start with one of the codes below. A lost lead
+ * always carries a reason code.
+ *
+ * The portal's monthly cost follows the same rules as invoicing: leads are
+ * priced when they were sent, leads we sell ourselves as sales consultant
+ * are free unless sold on to the partner, and leads credited in their own
+ * month are left off.
+ */
+import { format, startOfMonth } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import { resolvePrice, type OrganizationPrices, type PriceHistoryEntry } from '@/lib/pricing';
+import { creditedLeadKey, getCreditedLeadKeys, type CreditLedgerEntry } from '@/lib/creditLedger';
+
+export type PartnerLeadOutcome = Database['public']['Enums']['partner_lead_outcome'];
+
+// In the order a lead normally moves through them
+export const PARTNER_OUTCOMES: PartnerLeadOutcome[] = ['new', 'contacted', 'site_visit_booked', 'offer_sent', 'won', 'lost'];
+
+export const PARTNER_OUTCOME_LABELS: Record<PartnerLeadOutcome, string> = {
+  new: 'Ny',
+  contacted: 'Kontaktad',
+  site_visit_booked: 'Platsbesök bokat',
+  offer_sent: 'Offert skickad',
+  won: 'Vunnen',
+  lost: 'Förlorad',
+};
+
+// Must match contact_organizations_partner_lost_reason_check
+export const LOST_REASON_LABELS: Record<string, string> = {
+  price: 'Priset',
+  competitor: 'Valde en konkurrent',
+  not_interested: 'Inte längre intresserad',
+  unreachable: 'Gick inte att nå',
+  not_feasible: 'Inte tekniskt möjligt',
+  financing: 'Fick inte finansiering',
+  other: 'Annat',
+};
+
+export type PartnerOutcomeErrorCode = 'LEAD_NOT_FOUND' | 'LEAD_NOT_ASSIGNED' | 'LOST_REASON_REQUIRED';
+
+const PARTNER_OUTCOME_ERROR_MESSAGES: Record<PartnerOutcomeErrorCode, string> = {
+  LEAD_NOT_FOUND: 'Leadet finns inte längre',
+  LEAD_NOT_ASSIGNED: 'Leadet tillhör inte din organisation',
+  LOST_REASON_REQUIRED: 'Välj varför leadet förlorades',
+};
+
+/**
+ * Swedish message for a failed outcome update
+ */
+export const getPartnerOutcomeErrorMessage = (
+  error: { message?: string } | null,
+  fallback = 'Kunde inte spara utfallet'
+): string => {
+  const code = Object.keys(PARTNER_OUTCOME_ERROR_MESSAGES).find(c => error?.message?.startsWith(c)) as
+    | PartnerOutcomeErrorCode
+    | undefined;
+  return code ? PARTNER_OUTCOME_ERROR_MESSAGES[code] : fallback;
+};
+
+export interface PartnerOrganization extends OrganizationPrices {
+  name: string;
+  is_sales_consultant: boolean;
+  sales_consultant_lead_type: string | null;
+}
+
+export interface PartnerLead {
+  id: string; // contact_organizations.id
+  contact_id: string;
+  sold_to_partner: boolean;
+  partner_outcome: PartnerLeadOutcome;
+  partner_lost_reason: string | null;
+  partner_notes: string | null;
+  partner_outcome_updated_at: string | null;
+  contact: {
+    name: string | null;
+    email: string;
+    phone: string | null;
+    address: string | null;
+    postal_code: string | null;
+    interest: Database['public']['Enums']['interest_type'];
+    date_sent: string;
+  };
+}
+
+export const fetchPartnerOrganization = async (organizationId: string): Promise<PartnerOrganization | null> => {
+  const { data, error } = await supabase
+    .from('organizations')
+    .select('id, name, price_per_solar_deal, price_per_battery_deal, price_per_sun_battery_deal, price_per_site_visit, is_sales_consultant, sales_consultant_lead_type')
+    .eq('id', organizationId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching organization:', error);
+    return null;
+  }
+  return data;
+};
+
+// PostgREST returns at most 1000 rows per request by default
+const PARTNER_LEADS_PAGE_SIZE = 1000;
+
+/**
+ * Every lead sent to an organization, newest first. Fetched in pages, so
+ * partners with many leads get all of them.
+ */
+export const fetchPartnerLeads = async (organizationId: string): Promise<PartnerLead[]> => {
+  const leads: PartnerLead[] = [];
+
+  for (let from = 0; ; from += PARTNER_LEADS_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('contact_organizations')
+      .select(`
+        id, contact_id, sold_to_partner, partner_outcome, partner_lost_reason, partner_notes, partner_outcome_updated_at,
+        contact:contacts!inner(name, email, phone, address, postal_code, interest, date_sent)
+      `)
+      .eq('organization_id', organizationId)
+      .order('id')
+      .range(from, from + PARTNER_LEADS_PAGE_SIZE - 1);
+
+    if (error) {
+      console.error('Error fetching partner leads:', error);
+      return [];
+    }
+
+    leads.push(...((data || []) as PartnerLead[]));
+    if (!data || data.length < PARTNER_LEADS_PAGE_SIZE) break;
+  }
+
+  return leads.sort((a, b) => b.contact.date_sent.localeCompare(a.contact.date_sent));
+};
+
+export const setPartnerLeadOutcome = async (
+  contactOrganizationId: string,
+  outcome: PartnerLeadOutcome,
+  lostReason: string | null,
+  notes: string
+) =>
+  supabase.rpc('set_partner_lead_outcome', {
+    _contact_organization_id: contactOrganizationId,
+    _outcome: outcome,
+    _lost_reason: outcome === 'lost' ? lostReason ?? undefined : undefined,
+    _notes: notes,
+  });
+
+/**
+ * Whether the partner pays for a lead. Leads of the type we sell ourselves
+ * as sales consultant are only billed once sold on to the partner.
+ */
+export const isBillableLead = (
+  organization: Pick<PartnerOrganization, 'is_sales_consultant' | 'sales_consultant_lead_type'>,
+  interest: string,
+  soldToPartner: boolean
+): boolean => !(organization.is_sales_consultant && organization.sales_consultant_lead_type === interest && !soldToPartner);
+
+export interface PartnerOutcomeSummary {
+  total: number;
+  open: number;
+  won: number;
+  lost: number;
+  closeRate: number; // Percent of all leads that are won
+}
+
+export const summarizePartnerOutcomes = (outcomes: PartnerLeadOutcome[]): PartnerOutcomeSummary => {
+  const won = outcomes.filter(o => o === 'won').length;
+  const lost = outcomes.filter(o => o === 'lost').length;
+  const total = outcomes.length;
+
+  return {
+    total,
+    open: total - won - lost,
+    won,
+    lost,
+    closeRate: total > 0 ? (won / total) * 100 : 0,
+  };
+};
+
+export interface PartnerMonthCost {
+  month: string; // First day as 'yyyy-MM-dd'
+  leads: number;
+  creditedLeads: number;
+  cost: number;        // Billable leads at the price in effect when sent
+  creditNotes: number; // Credits for leads from earlier months, incl. moms
+}
+
+/**
+ * Cost per month for the given months, newest first
+ */
+export const summarizeMonthlyCosts = (
+  months: Date[],
+  leads: PartnerLead[],
+  organization: PartnerOrganization,
+  priceHistory: PriceHistoryEntry[],
+  ledger: CreditLedgerEntry[]
+): PartnerMonthCost[] => {
+  const creditedLeads = getCreditedLeadKeys(ledger);
+
+  return months.map(monthDate => {
+    const month = format(startOfMonth(monthDate), 'yyyy-MM-dd');
+    const summary: PartnerMonthCost = { month, leads: 0, creditedLeads: 0, cost: 0, creditNotes: 0 };
+
+    leads.forEach(lead => {
+      const sentAt = new Date(lead.contact.date_sent);
+      if (format(startOfMonth(sentAt), 'yyyy-MM-dd') !== month) return;
+
+      summary.leads++;
+      if (creditedLeads.has(creditedLeadKey(lead.contact_id, organization.id))) {
+        summary.creditedLeads++;
+        return;
+      }
+      if (!isBillableLead(organization, lead.contact.interest, lead.sold_to_partner)) return;
+      summary.cost += resolvePrice(priceHistory, organization, lead.contact.interest, sentAt);
+    });
+
+    summary.creditNotes = ledger
+      .filter(entry => entry.is_deferred && entry.billing_month === month)
+      .reduce((sum, entry) => sum + Number(entry.amount_incl_moms), 0);
+
+    return summary;
+  });
+};
@@ -0,0 +1,67 @@
+/**
+ * Role-based access control for Proffskontakt CRM
+ *
+ * ROLE_PERMISSIONS is the single matrix of what each role may do in the app.
+ * Routes, the sidebar and role-dependent controls all ask hasPermission()
+ * instead of comparing roles. Row level security in the database still
+ * decides which rows a role can read:
+ * - admin: everything
+ * - teamleader: leads opened by their own team and by themselves
+ * - opener: leads they opened
+ * - closer: leads assigned to them through sales
+ * - organization: leads sold to their partner organization, and the
+ *   outcome they report on them through the partner portal
+ */
+import type { Database } from '@/integrations/supabase/types';
+
+export type UserRole = Database['public']['Enums']['user_role'];
+
+export type Permission =
+  | 'dashboard.view'
+  | 'deals.view'
+  | 'deals.create'
+  | 'deals.assign_closer'
+  | 'deals.view_revenue'
+  | 'credits.request'
+  | 'credits.manage'
+  | 'pipeline.view'
+  | 'sellers.view'
+  | 'team.view'
+  | 'performance.view'
+  | 'partners.view'
+  | 'portal.view'
+  | 'settings.view';
+
+const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  admin: [
+    'dashboard.view',
+    'deals.view',
+    'deals.create',
+    'deals.assign_closer',
+    'deals.view_revenue',
+    'credits.manage',
+    'pipeline.view',
+    'sellers.view',
+    'team.view',
+    'partners.view',
+    'settings.view',
+  ],
+  teamleader: ['deals.view', 'deals.assign_closer', 'deals.view_revenue', 'team.view', 'performance.view'],
+  opener: ['deals.view', 'deals.create', 'deals.view_revenue', 'performance.view'],
+  closer: ['deals.view', 'pipeline.view'],
+  organization: ['deals.view', 'deals.view_revenue', 'credits.request', 'portal.view'],
+};
+
+export const hasPermission = (role: UserRole | null | undefined, permission: Permission): boolean =>
+  !!role && ROLE_PERMISSIONS[role].includes(permission);
+
+/**
+ * Where a role lands after signing in. Closers work from their pipeline,
+ * teamleaders from their team dashboard and partners from their portal.
+ */
+export const getHomePath = (role: UserRole | null | undefined): string => {
+  if (role === 'closer') return '/pipeline';
+  if (role === 'teamleader') return '/team';
+  if (role === 'organization') return '/portal';
+  return '/deals';
+};
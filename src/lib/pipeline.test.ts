@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import {
+  PIPELINE_STAGES,
+  getClosedAtAfterMove,
+  getPipelineFunnel,
+  getPipelineStageLabel,
+  isClosed,
+  isLost,
+  isOpen,
+  isWon,
+  summarizePipeline,
+} from './pipeline';
+
+const OPEN_STAGES = ['new', 'contacted', 'meeting_booked', 'offer_sent', 'negotiation'];
+
+describe('won and lost', () => {
+  it('only counts closed_won as won', () => {
+    expect(isWon('closed_won')).toBe(true);
+    // The legacy value the old stats compared against is not a pipeline status
+    expect(isWon('won')).toBe(false);
+    expect(isWon('closed_lost')).toBe(false);
+    expect(isWon(null)).toBe(false);
+  });
+
+  it('only counts closed_lost as lost', () => {
+    expect(isLost('closed_lost')).toBe(true);
+    expect(isLost('lost')).toBe(false);
+    expect(isLost('closed_won')).toBe(false);
+    expect(isLost(undefined)).toBe(false);
+  });
+
+  it('treats both closed stages as closed and every other stage as open', () => {
+    expect(isClosed('closed_won')).toBe(true);
+    expect(isClosed('closed_lost')).toBe(true);
+    OPEN_STAGES.forEach(stage => {
+      expect(isClosed(stage)).toBe(false);
+      expect(isOpen(stage)).toBe(true);
+    });
+  });
+
+  it('does not count unknown or missing statuses as open', () => {
+    expect(isOpen('won')).toBe(false);
+    expect(isOpen(null)).toBe(false);
+    expect(isOpen('')).toBe(false);
+  });
+
+  it('has a stage for every open and closed status', () => {
+    expect(PIPELINE_STAGES.map(s => s.key)).toEqual([...OPEN_STAGES, 'closed_won', 'closed_lost']);
+    expect(getPipelineStageLabel('closed_won')).toBe('Vunnen');
+    expect(getPipelineStageLabel(null)).toBe('–');
+  });
+});
+
+describe('getClosedAtAfterMove', () => {
+  const now = new Date('2026-03-15T10:00:00Z');
+
+  it('stamps closed_at when an open sale is won or lost', () => {
+    expect(getClosedAtAfterMove('closed_won', null, now)).toBe(now.toISOString());
+    expect(getClosedAtAfterMove('closed_lost', null, now)).toBe(now.toISOString());
+  });
+
+  it('keeps closed_at when moving between closed stages', () => {
+    const closedAt = '2026-02-01T08:00:00.000Z';
+    expect(getClosedAtAfterMove('closed_lost', closedAt, now)).toBe(closedAt);
+    expect(getClosedAtAfterMove('closed_won', closedAt, now)).toBe(closedAt);
+  });
+
+  it('clears closed_at when a sale is reopened', () => {
+    expect(getClosedAtAfterMove('negotiation', '2026-02-01T08:00:00.000Z', now)).toBeNull();
+    expect(getClosedAtAfterMove('new', null, now)).toBeNull();
+  });
+});
+
+describe('summarizePipeline', () => {
+  it('counts won, lost and open deals and the close rate over all deals', () => {
+    const summary = summarizePipeline(['closed_won', 'closed_won', 'closed_lost', 'negotiation', 'new']);
+    expect(summary).toEqual({ total: 5, open: 2, won: 2, lost: 1, closeRate: 40 });
+  });
+
+  it('has a close rate of 0 without deals', () => {
+    expect(summarizePipeline([]).closeRate).toBe(0);
+  });
+
+  it('does not count legacy won values', () => {
+    expect(summarizePipeline(['won', 'closed_won']).won).toBe(1);
+  });
+});
+
+describe('getPipelineFunnel', () => {
+  it('runs over the open stages up to closed_won', () => {
+    expect(getPipelineFunnel([]).map(step => step.key)).toEqual([...OPEN_STAGES, 'closed_won']);
+  });
+
+  it('counts a deal at every stage up to its current one', () => {
+    const funnel = getPipelineFunnel(['new', 'offer_sent', 'closed_won', 'closed_lost']);
+    const counts = Object.fromEntries(funnel.map(step => [step.key, step.count]));
+
+    expect(counts).toEqual({
+      new: 4,
+      contacted: 2,
+      meeting_booked: 2,
+      offer_sent: 2,
+      negotiation: 1,
+      closed_won: 1,
+    });
+    expect(funnel[funnel.length - 1].conversion).toBe(25);
+  });
+});
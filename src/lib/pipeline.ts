@@ -0,0 +1,120 @@
+/**
+ * Sales pipeline stages for Proffskontakt CRM
+ *
+ * PipelineStatus is the pipeline_status enum on sales. The order of
+ * PIPELINE_STAGES is the order the columns are shown on the closer board
+ * and the order of the conversion funnel.
+ *
+ * Every stats view counts won/lost deals through these helpers:
+ * - won: closed_won
+ * - lost: closed_lost
+ * - open: every other stage
+ * - close rate: won deals / all deals
+ *
+ * closed_at is stamped by stamp_sale_closed_at() in the database when a
+ * sale enters a closed stage and cleared when it is reopened.
+ * getClosedAtAfterMove() follows the same rule for optimistic updates.
+ */
+import type { Database } from '@/integrations/supabase/types';
+
+export type PipelineStatus = Database['public']['Enums']['pipeline_status'];
+
+export interface PipelineStage {
+  key: PipelineStatus;
+  label: string;
+  className: string;
+}
+
+export const PIPELINE_STAGES: PipelineStage[] = [
+  { key: 'new', label: 'Ny', className: 'border-t-slate-400' },
+  { key: 'contacted', label: 'Kontaktad', className: 'border-t-sky-500' },
+  { key: 'meeting_booked', label: 'Möte bokat', className: 'border-t-indigo-500' },
+  { key: 'offer_sent', label: 'Offert skickad', className: 'border-t-amber-500' },
+  { key: 'negotiation', label: 'Förhandling', className: 'border-t-orange-500' },
+  { key: 'closed_won', label: 'Vunnen', className: 'border-t-emerald-500' },
+  { key: 'closed_lost', label: 'Förlorad', className: 'border-t-red-500' },
+];
+
+export const getPipelineStageLabel = (status: string | null): string => {
+  if (!status) return '–';
+  return PIPELINE_STAGES.find(s => s.key === status)?.label || status;
+};
+
+export const isWon = (status: string | null | undefined): boolean => status === 'closed_won';
+
+export const isLost = (status: string | null | undefined): boolean => status === 'closed_lost';
+
+export const isClosed = (status: string | null | undefined): boolean => isWon(status) || isLost(status);
+
+export const isOpen = (status: string | null | undefined): boolean =>
+  !!status && !isClosed(status) && PIPELINE_STAGES.some(s => s.key === status);
+
+/**
+ * closed_at of a sale after moving it to a stage: kept when moving between
+ * closed stages, stamped with now when it closes and cleared when it reopens
+ */
+export const getClosedAtAfterMove = (
+  toStatus: string,
+  closedAt: string | null,
+  now: Date = new Date()
+): string | null => {
+  if (!isClosed(toStatus)) return null;
+  return closedAt ?? now.toISOString();
+};
+
+export interface PipelineSummary {
+  total: number;
+  open: number;
+  won: number;
+  lost: number;
+  closeRate: number; // Percent of all deals that are won
+}
+
+export const summarizePipeline = (statuses: (string | null | undefined)[]): PipelineSummary => {
+  const won = statuses.filter(isWon).length;
+  const lost = statuses.filter(isLost).length;
+  const open = statuses.filter(isOpen).length;
+  const total = statuses.length;
+
+  return {
+    total,
+    open,
+    won,
+    lost,
+    closeRate: total > 0 ? (won / total) * 100 : 0,
+  };
+};
+
+export interface FunnelStep {
+  key: PipelineStatus;
+  label: string;
+  count: number;       // Deals that reached this stage
+  conversion: number;  // Percent of all deals that reached this stage
+}
+
+/**
+ * Conversion funnel over the open stages up to closed_won.
+ * A deal counts as having reached every stage up to its current one; won
+ * deals have reached every stage. Lost deals only count towards the first
+ * stage since we don't know where they dropped out.
+ */
+export const getPipelineFunnel = (statuses: (string | null | undefined)[]): FunnelStep[] => {
+  const funnelStages = PIPELINE_STAGES.filter(s => !isLost(s.key));
+  const total = statuses.length;
+
+  return funnelStages.map((stage, index) => {
+    const count = index === 0
+      ? total
+      : statuses.filter(status => {
+          const position = funnelStages.findIndex(s => s.key === status);
+          return position >= index;
+        }).length;
+
+    return {
+      key: stage.key,
+      label: stage.label,
+      count,
+      conversion: total > 0 ? (count / total) * 100 : 0,
+    };
+  });
+};
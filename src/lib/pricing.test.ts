@@ -0,0 +1,106 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createPriceResolver, type OrganizationPrices, type PriceHistoryEntry } from './pricing';
+
+// Price resolution is pure, the client is only used to load history
+vi.mock('@/integrations/supabase/client', () => ({ supabase: {} }));
+
+const ORG_ID = 'org-1';
+
+// Current prices, in effect since the change on 1 February
+const organization: OrganizationPrices = {
+  id: ORG_ID,
+  price_per_solar_deal: 1200,
+  price_per_battery_deal: 900,
+  price_per_sun_battery_deal: 1800,
+  price_per_site_visit: 500,
+};
+
+const history: PriceHistoryEntry[] = [
+  {
+    organization_id: ORG_ID,
+    price_per_solar_deal: 1000,
+    price_per_battery_deal: 700,
+    price_per_sun_battery_deal: null,
+    price_per_site_visit: 400,
+    effective_from: '2025-06-01T00:00:00Z',
+    effective_until: '2026-02-01T00:00:00Z',
+  },
+  {
+    organization_id: ORG_ID,
+    price_per_solar_deal: 1200,
+    price_per_battery_deal: 900,
+    price_per_sun_battery_deal: 1800,
+    price_per_site_visit: 500,
+    effective_from: '2026-02-01T00:00:00Z',
+    effective_until: null,
+  },
+];
+
+const resolvePrice = createPriceResolver(history, [organization]);
+
+describe('createPriceResolver', () => {
+  describe('around a price change', () => {
+    it('uses the old price before the change date', () => {
+      expect(resolvePrice(ORG_ID, 'sun', new Date('2026-01-31T23:59:59Z'))).toBe(1000);
+    });
+
+    it('uses the new price on the change date', () => {
+      expect(resolvePrice(ORG_ID, 'sun', new Date('2026-02-01T00:00:00Z'))).toBe(1200);
+    });
+
+    it('uses the new price after the change date', () => {
+      expect(resolvePrice(ORG_ID, 'sun', new Date('2026-03-15T12:00:00Z'))).toBe(1200);
+    });
+  });
+
+  describe('interest types', () => {
+    const beforeChange = new Date('2026-01-15T12:00:00Z');
+    const afterChange = new Date('2026-02-15T12:00:00Z');
+
+    it('prices solar leads', () => {
+      expect(resolvePrice(ORG_ID, 'sun', beforeChange)).toBe(1000);
+      expect(resolvePrice(ORG_ID, 'sun', afterChange)).toBe(1200);
+    });
+
+    it('prices battery leads', () => {
+      expect(resolvePrice(ORG_ID, 'battery', beforeChange)).toBe(700);
+      expect(resolvePrice(ORG_ID, 'battery', afterChange)).toBe(900);
+    });
+
+    it('prices sun_battery leads, as solar + battery when no combined price is set', () => {
+      expect(resolvePrice(ORG_ID, 'sun_battery', beforeChange)).toBe(1700);
+      expect(resolvePrice(ORG_ID, 'sun_battery', afterChange)).toBe(1800);
+    });
+
+    it('prices site visits', () => {
+      expect(resolvePrice(ORG_ID, 'site_visit', beforeChange)).toBe(400);
+      expect(resolvePrice(ORG_ID, 'site_visit', afterChange)).toBe(500);
+    });
+
+    it('prices unknown types at 0', () => {
+      expect(resolvePrice(ORG_ID, 'wind', afterChange)).toBe(0);
+    });
+  });
+
+  describe('fallback to the current price', () => {
+    it('uses the current price before the first history record', () => {
+      expect(resolvePrice(ORG_ID, 'battery', new Date('2025-01-01T00:00:00Z'))).toBe(900);
+    });
+
+    it('uses the current price for organizations without history', () => {
+      const resolve = createPriceResolver([], [organization]);
+      expect(resolve(ORG_ID, 'sun', new Date('2025-01-01T00:00:00Z'))).toBe(1200);
+      expect(resolve(ORG_ID, 'sun_battery', new Date('2025-01-01T00:00:00Z'))).toBe(1800);
+    });
+
+    it('ignores other organizations\' history', () => {
+      const otherHistory = history.map(entry => ({ ...entry, organization_id: 'org-2' }));
+      const resolve = createPriceResolver(otherHistory, [organization]);
+      expect(resolve(ORG_ID, 'sun', new Date('2026-01-15T12:00:00Z'))).toBe(1200);
+    });
+
+    it('prices leads of unknown organizations at 0', () => {
+      expect(resolvePrice('missing', 'sun', new Date('2026-02-15T12:00:00Z'))).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Lead price resolution for Proffskontakt CRM
+ *
+ * Partner prices change over time and every change is captured in
+ * organization_price_history. A lead is always billed at the price that was
+ * in effect when it was sent, so every billing view (invoicing, partner
+ * stats and briefings) resolves prices through this module.
+ * get_organization_price() in the database follows the same rules for
+ * finalized invoices and the Deals list (see deals.ts).
+ *
+ * - sun: price_per_solar_deal
+ * - battery: price_per_battery_deal
+ * - sun_battery: price_per_sun_battery_deal, or solar + battery if not set
+ * - site_visit: price_per_site_visit
+ *
+ * If no history record covers the date, the organization's current price is used.
+ */
+import { supabase } from '@/integrations/supabase/client';
+
+export type PriceType = 'sun' | 'battery' | 'sun_battery' | 'site_visit';
+
+export interface PriceList {
+  price_per_solar_deal: number | null;
+  price_per_battery_deal: number | null;
+  price_per_sun_battery_deal?: number | null;
+  price_per_site_visit?: number | null;
+}
+
+export interface OrganizationPrices extends PriceList {
+  id: string;
+}
+
+export interface PriceHistoryEntry extends PriceList {
+  organization_id: string;
+  effective_from: string;
+  effective_until: string | null;
+}
+
+export type PriceResolver = (organizationId: string, priceType: string, date: Date) => number;
+
+/**
+ * Price of a given type from a single price list
+ */
+export const getPriceFromList = (prices: PriceList, priceType: string): number => {
+  switch (priceType) {
+    case 'sun':
+      return prices.price_per_solar_deal || 0;
+    case 'battery':
+      return prices.price_per_battery_deal || 0;
+    case 'sun_battery':
+      return prices.price_per_sun_battery_deal ?? ((prices.price_per_solar_deal || 0) + (prices.price_per_battery_deal || 0));
+    case 'site_visit':
+      return prices.price_per_site_visit || 0;
+    default:
+      return 0;
+  }
+};
+
+/**
+ * The history record that was in effect for an organization at a date.
+ * When records overlap, the most recent one wins.
+ */
+export const findPriceListAtDate = (
+  history: PriceHistoryEntry[],
+  organizationId: string,
+  date: Date
+): PriceHistoryEntry | undefined => {
+  let match: PriceHistoryEntry | undefined;
+
+  history.forEach(entry => {
+    if (entry.organization_id !== organizationId) return;
+    const effectiveFrom = new Date(entry.effective_from);
+    const effectiveUntil = entry.effective_until ? new Date(entry.effective_until) : null;
+    if (date < effectiveFrom || (effectiveUntil && date >= effectiveUntil)) return;
+    if (!match || effectiveFrom > new Date(match.effective_from)) {
+      match = entry;
+    }
+  });
+
+  return match;
+};
+
+/**
+ * Price of a given type for an organization at a date
+ */
+export const resolvePrice = (
+  history: PriceHistoryEntry[],
+  organization: OrganizationPrices | undefined,
+  priceType: string,
+  date: Date
+): number => {
+  if (!organization) return 0;
+  const priceList = findPriceListAtDate(history, organization.id, date) || organization;
+  return getPriceFromList(priceList, priceType);
+};
+
+/**
+ * Bind history and organizations once, e.g. inside a useMemo
+ */
+export const createPriceResolver = (
+  history: PriceHistoryEntry[],
+  organizations: OrganizationPrices[]
+): PriceResolver => {
+  const organizationMap = new Map(organizations.map(o => [o.id, o]));
+  return (organizationId, priceType, date) =>
+    resolvePrice(history, organizationMap.get(organizationId), priceType, date);
+};
+
+/**
+ * Load price history, optionally for a single organization
+ */
+export const fetchPriceHistory = async (organizationId?: string): Promise<PriceHistoryEntry[]> => {
+  let query = supabase
+    .from('organization_price_history')
+    .select('organization_id, price_per_solar_deal, price_per_battery_deal, price_per_sun_battery_deal, price_per_site_visit, effective_from, effective_until')
+    .order('effective_from', { ascending: false });
+
+  if (organizationId) {
+    query = query.eq('organization_id', organizationId);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    console.error('Error fetching price history:', error);
+    return [];
+  }
+  return data || [];
+};
@@ -0,0 +1,36 @@
+/**
+ * Query cache for Proffskontakt CRM
+ *
+ * Reads go through the hooks in src/hooks/queries and are cached under the
+ * keys in queryKeys.ts, so pages showing the same data share one fetch.
+ * Failed reads are retried with exponential backoff. Writes are not
+ * retried, since most of them aren't safe to run twice. After a write
+ * the mutation hooks invalidate only the keys that the write affects.
+ */
+import { QueryClient } from '@tanstack/react-query';
+
+const MAX_QUERY_RETRIES = 3;
+const MAX_RETRY_DELAY_MS = 30_000;
+
+// PostgREST and Postgres errors that fail the same way however often they run:
+// permission denied, missing rows and the 'CODE: message' errors from our functions
+const isPermanentError = (error: unknown): boolean => {
+  const { code, message } = (error || {}) as { code?: string; message?: string };
+  return code === '42501' || code === 'PGRST116' || code === 'P0001' || /^[A-Z_]+:/.test(message || '');
+};
+
+export const createQueryClient = () =>
+  new QueryClient({
+    defaultOptions: {
+      queries: {
+        staleTime: 30_000,
+        refetchOnWindowFocus: false,
+        retry: (failureCount, error) => failureCount < MAX_QUERY_RETRIES && !isPermanentError(error),
+        // 1 s, 2 s, 4 s ... capped at 30 s
+        retryDelay: (attempt) => Math.min(1000 * 2 ** attempt, MAX_RETRY_DELAY_MS),
+      },
+      mutations: {
+        retry: false,
+      },
+    },
+  });
@@ -0,0 +1,59 @@
+/**
+ * Query cache keys for Proffskontakt CRM
+ *
+ * Every key starts with its domain, so a write can invalidate a whole
+ * domain (queryKeys.credits.all) or a single list in it. Keys are built
+ * here only, never inline in components, so readers and writers always
+ * agree on them.
+ */
+import type { DealFilters, DealSort } from '@/lib/deals';
+
+export const queryKeys = {
+  contacts: {
+    all: ['contacts'] as const,
+    dealLists: ['contacts', 'deals'] as const,
+    deals: (filters: DealFilters, sort: DealSort) => ['contacts', 'deals', filters, sort] as const,
+    allDealTotals: ['contacts', 'deal-totals'] as const,
+    dealTotals: (filters: DealFilters) => ['contacts', 'deal-totals', filters] as const,
+  },
+  sales: {
+    all: ['sales'] as const,
+    pipelines: ['sales', 'pipeline'] as const,
+    // closerId is null for everyone's sales
+    pipeline: (closerId: string | null) => ['sales', 'pipeline', closerId] as const,
+    closers: () => ['sales', 'closers'] as const,
+  },
+  organizations: {
+    all: ['organizations'] as const,
+    list: () => ['organizations', 'list'] as const,
+    regions: () => ['organizations', 'regions'] as const,
+    // Lead and credit stats for a leads month ('yyyy-MM') and partner status
+    stats: (month: string, status: string) => ['organizations', 'stats', month, status] as const,
+  },
+  credits: {
+    all: ['credits'] as const,
+    requests: () => ['credits', 'requests'] as const,
+    // Requests for a leads month plus credits deferred to it, 'yyyy-MM'
+    month: (month: string) => ['credits', 'month', month] as const,
+    details: (creditRequestId: string) => ['credits', 'details', creditRequestId] as const,
+  },
+  invoicing: {
+    all: ['invoicing'] as const,
+    // Invoicing basis for a leads month, 'yyyy-MM'
+    month: (month: string) => ['invoicing', 'month', month] as const,
+  },
+  sellers: {
+    all: ['sellers'] as const,
+    openers: () => ['sellers', 'openers'] as const,
+    closers: () => ['sellers', 'closers'] as const,
+    teams: () => ['sellers', 'teams'] as const,
+    // Salaries for a month, 'yyyy-MM'
+    salaries: (month: string) => ['sellers', 'salaries', month] as const,
+  },
+  quotas: {
+    all: ['quotas'] as const,
+    // periodStart as 'yyyy-MM-dd'
+    monthly: (periodStart: string) => ['quotas', 'monthly', periodStart] as const,
+    changes: () => ['quotas', 'changes'] as const,
+  },
+};
@@ -0,0 +1,111 @@
+/**
+ * Teams and teamleader override commission for Proffskontakt CRM
+ *
+ * A team is a teamleader (teams.leader_id) and the openers whose
+ * profiles.team_id points at it. Openers earn their commission per
+ * qualified lead: a lead sold to 2+ partners that have not had it credited.
+ * The teamleader earns teams.override_percent of the team's opener
+ * commission for the month on top of the commission for their own leads.
+ */
+import { format, startOfMonth, endOfMonth } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type Team = Tables<'teams'>;
+
+export const DEFAULT_OPENER_COMMISSION_PER_DEAL = 1000;
+
+export interface QualifiableLead {
+  contact_organizations: { organization: { id: string } | null }[] | null;
+  credit_requests: { status: string; organization_id: string }[] | null;
+}
+
+export interface TeamMemberMonthStats {
+  id: string;
+  name: string;
+  email: string;
+  leads: number;
+  qualifiedLeads: number;
+  credits: number;
+  commission: number;
+}
+
+const isCredited = (lead: QualifiableLead, organizationId: string) =>
+  !!lead.credit_requests?.some(cr => cr.organization_id === organizationId && cr.status === 'approved');
+
+/**
+ * A lead gives opener commission when 2+ partners bought it and kept it
+ */
+export const isQualifiedLead = (lead: QualifiableLead): boolean => {
+  const organizations = lead.contact_organizations?.map(co => co.organization).filter(Boolean) || [];
+  return organizations.filter(org => !isCredited(lead, org.id)).length >= 2;
+};
+
+export const countApprovedCredits = (lead: QualifiableLead): number =>
+  lead.credit_requests?.filter(cr => cr.status === 'approved').length || 0;
+
+export const calculateOverrideCommission = (teamCommission: number, overridePercent: number): number =>
+  teamCommission * (Number(overridePercent) || 0) / 100;
+
+export const fetchTeams = async (): Promise<Team[]> => {
+  const { data, error } = await supabase
+    .from('teams')
+    .select('*')
+    .order('name');
+
+  if (error) {
+    console.error('Error fetching teams:', error);
+    return [];
+  }
+  return data || [];
+};
+
+/**
+ * Leads, qualified leads, credits and commission per team member for a month.
+ * Leads count in the month they were sent to partners.
+ */
+export const fetchTeamMonthStats = async (teamId: string, month: Date): Promise<TeamMemberMonthStats[]> => {
+  const { data: members, error: membersError } = await supabase
+    .from('profiles')
+    .select('id, email, full_name, opener_commission_per_deal')
+    .eq('team_id', teamId)
+    .order('full_name');
+
+  if (membersError) {
+    console.error('Error fetching team members:', membersError);
+    return [];
+  }
+  if (!members || members.length === 0) return [];
+
+  const { data: contacts, error: contactsError } = await supabase
+    .from('contacts')
+    .select(`
+      id,
+      opener_id,
+      contact_organizations(organization:organizations(id)),
+      credit_requests(status, organization_id)
+    `)
+    .in('opener_id', members.map(m => m.id))
+    .gte('date_sent', format(startOfMonth(month), 'yyyy-MM-dd'))
+    .lte('date_sent', format(endOfMonth(month), 'yyyy-MM-dd'));
+
+  if (contactsError) {
+    console.error('Error fetching team leads:', contactsError);
+  }
+
+  return members.map(member => {
+    const memberLeads = (contacts || []).filter(c => c.opener_id === member.id) as QualifiableLead[];
+    const qualifiedLeads = memberLeads.filter(isQualifiedLead).length;
+    const commissionPerDeal = member.opener_commission_per_deal || DEFAULT_OPENER_COMMISSION_PER_DEAL;
+
+    return {
+      id: member.id,
+      name: member.full_name || member.email,
+      email: member.email,
+      leads: memberLeads.length,
+      qualifiedLeads,
+      credits: memberLeads.reduce((sum, lead) => sum + countApprovedCredits(lead), 0),
+      commission: qualifiedLeads * commissionPerDeal,
+    };
+  });
+};
@@ -0,0 +1,38 @@
+/**
+ * Partner timeline events for Proffskontakt CRM
+ *
+ * process_scheduled_timeline_events() runs every 15 minutes from pg_cron. It
+ * applies due scheduled pause, activation and status change events to the
+ * partner, creates follow-up tasks for test batches and records the result in
+ * execution_status. Failed events keep their error in execution_error,
+ * starting with one of the codes below, until an admin retries them.
+ * Unscheduled events only log what already happened; they are completed on
+ * insert, and a logged test batch gets its follow-up task right away.
+ */
+import { supabase } from '@/integrations/supabase/client';
+
+export type TimelineExecutionStatus = 'pending' | 'completed' | 'failed';
+
+export type TimelineErrorCode = 'MISSED' | 'NO_RESPONSIBLE_ADMIN';
+
+const TIMELINE_ERROR_MESSAGES: Record<TimelineErrorCode, string> = {
+  MISSED: 'Datumet passerade innan händelser genomfördes automatiskt',
+  NO_RESPONSIBLE_ADMIN: 'Ingen admin att tilldela uppföljningen, händelsen skapades inte av en admin',
+};
+
+/**
+ * Swedish message for a failed event, falling back to the database error
+ */
+export const getTimelineErrorMessage = (error: string | null): string => {
+  const code = Object.keys(TIMELINE_ERROR_MESSAGES).find(c => error?.startsWith(c)) as TimelineErrorCode | undefined;
+  return code ? TIMELINE_ERROR_MESSAGES[code] : error || 'Okänt fel';
+};
+
+/**
+ * Queue a failed event for the next scheduler run
+ */
+export const retryTimelineEvent = async (eventId: string) =>
+  supabase
+    .from('organization_timeline_events')
+    .update({ execution_status: 'pending', execution_error: null, executed_at: null })
+    .eq('id', eventId);
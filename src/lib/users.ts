@@ -0,0 +1,87 @@
+/**
+ * User provisioning for Proffskontakt CRM
+ *
+ * Accounts are created, deactivated and deleted by the manage-users edge
+ * function with the auth admin API, so the admin's own session is never
+ * touched. New users get an email instead of a password set by the admin:
+ * - invite: the user chooses a password from the link
+ * - magic_link: the user signs in directly from the link
+ *
+ * Every function returns a Swedish error message or null.
+ */
+import { supabase } from '@/integrations/supabase/client';
+import type { UserRole } from '@/lib/permissions';
+
+export type UserDelivery = 'invite' | 'magic_link';
+
+export const USER_DELIVERY_OPTIONS: { key: UserDelivery; label: string; description: string }[] = [
+  { key: 'invite', label: 'Inbjudan', description: 'Användaren väljer sitt lösenord via länken i mejlet' },
+  { key: 'magic_link', label: 'Inloggningslänk', description: 'Användaren loggar in direkt via länken i mejlet' },
+];
+
+export interface CreateUserInput {
+  email: string;
+  full_name?: string;
+  role: UserRole;
+  organization_id?: string;
+  delivery: UserDelivery;
+  profile?: {
+    personal_number?: string;
+    bank_name?: string;
+    account_number?: string;
+    employer_fee_percent?: number;
+    vacation_pay_percent?: number;
+    opener_commission_per_lead?: number;
+    opener_commission_per_deal?: number;
+    closer_base_commission?: number;
+    closer_markup_percentage?: number;
+  };
+  closer_regions?: { region_id: string; organization_id: string }[];
+}
+
+const USER_ERROR_MESSAGES: Record<string, string> = {
+  FORBIDDEN: 'Endast admins kan hantera användare',
+  VALIDATION_FAILED: 'Uppgifterna är ogiltiga',
+  EMAIL_EXISTS: 'Det finns redan en användare med den e-postadressen',
+  ORGANIZATION_REQUIRED: 'Välj vilket bolag partneranvändaren tillhör',
+  USER_NOT_FOUND: 'Användaren finns inte',
+  CANNOT_CHANGE_SELF: 'Du kan inte inaktivera eller ta bort dig själv',
+  REASSIGNMENT_REQUIRED: 'Välj vem som ska ta över användarens leads och affärer',
+  INVALID_REASSIGNMENT: 'Användaren kan inte ta över leads och affärer',
+  USER_HAS_INVOICES: 'Användaren har låst fakturering och kan bara inaktiveras',
+};
+
+const invokeManageUsers = async (body: Record<string, unknown>, fallback: string): Promise<string | null> => {
+  const { error } = await supabase.functions.invoke('manage-users', { body });
+  if (!error) return null;
+
+  // Non-2xx responses carry { error: { code, message } }
+  let code: string | undefined;
+  try {
+    code = (await error.context.json()).error?.code;
+  } catch {
+    code = undefined;
+  }
+  return (code && USER_ERROR_MESSAGES[code]) || fallback;
+};
+
+export const createUser = (input: CreateUserInput) =>
+  invokeManageUsers(
+    { action: 'create', redirect_to: `${window.location.origin}/`, ...input },
+    'Kunde inte skapa användare'
+  );
+
+export const setUserActive = (userId: string, active: boolean) =>
+  invokeManageUsers(
+    { action: active ? 'reactivate' : 'deactivate', user_id: userId },
+    active ? 'Kunde inte aktivera användaren' : 'Kunde inte inaktivera användaren'
+  );
+
+/**
+ * Deletes a user. Their contacts, sales and credit requests move to reassignTo.
+ */
+export const deleteUser = (userId: string, reassignTo?: string) =>
+  invokeManageUsers(
+    { action: 'delete', user_id: userId, reassign_to: reassignTo },
+    'Kunde inte ta bort användare'
+  );
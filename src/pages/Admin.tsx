@@ -9,20 +9,25 @@ import { Table, TableBody, TableCell, TableHeader, TableRow } from '@/components
 import { ResizableTableHead } from '@/components/ui/resizable-table';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { StatusBadge } from '@/components/ui/status-badge';
+import { Badge } from '@/components/ui/badge';
 import { EmptyState } from '@/components/ui/empty-state';
 import { CreateOrganizationDialog } from '@/components/admin/CreateOrganizationDialog';
 import { BulkImportPartnersDialog } from '@/components/admin/BulkImportPartnersDialog';
 import { EditPartnerDialog } from '@/components/admin/EditPartnerDialog';
 import { AddUserDialog } from '@/components/admin/AddUserDialog';
 import { EditUserDialog } from '@/components/admin/EditUserDialog';
+import { DeleteUserDialog } from '@/components/admin/DeleteUserDialog';
 import { ProductManagement } from '@/components/admin/ProductManagement';
 import { AuditLogSection } from '@/components/admin/AuditLogSection';
+import { LeadSourceManagement } from '@/components/admin/LeadSourceManagement';
+import { DuplicateContactsSection } from '@/components/admin/DuplicateContactsSection';
+import { CreditDecisionDialog } from '@/components/partners/CreditDecisionDialog';
 import { toast } from 'sonner';
-import { Building2, Users, CreditCard, Check, X, Settings, Inbox, Archive, Trash2, Settings2, Package, History } from 'lucide-react';
+import { Building2, Users, CreditCard, Check, X, Settings, Inbox, Archive, Trash2, Settings2, Package, History, KeyRound, Copy, UserX, UserCheck } from 'lucide-react';
 import { format } from 'date-fns';
 import { sv } from 'date-fns/locale';
-import { Navigate } from 'react-router-dom';
 import type { Database } from '@/integrations/supabase/types';
+import { setUserActive } from '@/lib/users';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -61,12 +66,14 @@ interface Profile {
   full_name: string | null;
   role: UserRole;
   organization_id: string | null;
+  is_active: boolean;
 }
 
 interface CreditRequest {
   id: string;
   status: CreditStatus;
   reason: string | null;
+  reason_code_info: { label: string } | null;
   created_at: string;
   contact: { email: string } | null;
   organization: { name: string } | null;
@@ -82,9 +89,10 @@ const Admin = () => {
   const [editingOrg, setEditingOrg] = useState<Organization | null>(null);
   const [orgStatusFilter, setOrgStatusFilter] = useState<'active' | 'archived'>('active');
   const [deleteOrg, setDeleteOrg] = useState<{ id: string; name: string } | null>(null);
-  const [deleteUser, setDeleteUser] = useState<{ id: string; email: string } | null>(null);
+  const [deleteUser, setDeleteUser] = useState<Profile | null>(null);
   const [editingUser, setEditingUser] = useState<Profile | null>(null);
   const [userTypeFilter, setUserTypeFilter] = useState<'internal' | 'external'>('internal');
+  const [creditDecision, setCreditDecision] = useState<{ id: string; action: 'approved' | 'denied' } | null>(null);
 
   useEffect(() => {
     if (profile?.role === 'admin') {
@@ -100,6 +108,7 @@ const Admin = () => {
         supabase.from('credit_requests')
           .select(`
             *,
+            reason_code_info:credit_reason_codes(label),
             contact:contacts(email),
             organization:organizations(name),
             requested_by_profile:profiles!credit_requests_requested_by_fkey(email)
@@ -185,51 +194,16 @@ const Admin = () => {
     fetchData();
   };
 
-  const handleDeleteUser = async () => {
-    if (!deleteUser) return;
-
-    try {
-      // Delete from user_roles first
-      await supabase
-        .from('user_roles')
-        .delete()
-        .eq('user_id', deleteUser.id);
-
-      // Delete from profiles
-      const { error } = await supabase
-        .from('profiles')
-        .delete()
-        .eq('id', deleteUser.id);
-
-      if (error) throw error;
-
-      toast.success('Användare borttagen');
-      setDeleteUser(null);
-      fetchData();
-    } catch (error: any) {
-      toast.error('Kunde inte ta bort användare: ' + error.message);
-    }
-  };
-
-  const handleCreditAction = async (requestId: string, status: 'approved' | 'denied') => {
-    const { error } = await supabase
-      .from('credit_requests')
-      .update({ status })
-      .eq('id', requestId);
-
+  const handleToggleUserActive = async (user: Profile) => {
+    const error = await setUserActive(user.id, !user.is_active);
     if (error) {
-      toast.error('⚠️ Kunde inte uppdatera kreditbegäran');
+      toast.error(error);
       return;
     }
-
-    toast.success(status === 'approved' ? '🎉 Kredit godkänd' : '✓ Kredit nekad');
+    toast.success(user.is_active ? 'Användaren är inaktiverad' : 'Användaren är aktiverad');
     fetchData();
   };
 
-  if (profile?.role !== 'admin') {
-    return <Navigate to="/deals" replace />;
-  }
-
   if (loading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -256,7 +230,7 @@ const Admin = () => {
       </div>
 
       <Tabs defaultValue="organizations" className="space-y-6">
-        <TabsList className="grid w-full grid-cols-5 max-w-3xl bg-muted/50 p-1">
+        <TabsList className="grid w-full grid-cols-7 max-w-5xl bg-muted/50 p-1">
           <TabsTrigger value="organizations" className="gap-2 data-[state=active]:bg-background data-[state=active]:shadow-sm">
             <Building2 className="w-4 h-4" />
             <span className="hidden sm:inline">Partners</span>
@@ -273,6 +247,14 @@ const Admin = () => {
             <CreditCard className="w-4 h-4" />
             <span className="hidden sm:inline">Krediter</span>
           </TabsTrigger>
+          <TabsTrigger value="duplicates" className="gap-2 data-[state=active]:bg-background data-[state=active]:shadow-sm">
+            <Copy className="w-4 h-4" />
+            <span className="hidden sm:inline">Dubbletter</span>
+          </TabsTrigger>
+          <TabsTrigger value="leadsources" className="gap-2 data-[state=active]:bg-background data-[state=active]:shadow-sm">
+            <KeyRound className="w-4 h-4" />
+            <span className="hidden sm:inline">Leadkällor</span>
+          </TabsTrigger>
           <TabsTrigger value="auditlog" className="gap-2 data-[state=active]:bg-background data-[state=active]:shadow-sm">
             <History className="w-4 h-4" />
             <span className="hidden sm:inline">Ändringslogg</span>
@@ -429,6 +411,14 @@ const Admin = () => {
           <ProductManagement />
         </TabsContent>
 
+        <TabsContent value="duplicates" className="animate-fade-in">
+          <DuplicateContactsSection />
+        </TabsContent>
+
+        <TabsContent value="leadsources" className="animate-fade-in">
+          <LeadSourceManagement />
+        </TabsContent>
+
         <TabsContent value="users" className="animate-fade-in">
           <Card className="glass-card">
             <CardHeader className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 pb-4">
@@ -481,13 +471,18 @@ const Admin = () => {
                           <ResizableTableHead className="font-semibold">E-post</ResizableTableHead>
                           <ResizableTableHead className="font-semibold">Namn</ResizableTableHead>
                           <ResizableTableHead className="font-semibold">Roll</ResizableTableHead>
-                          <ResizableTableHead className="w-24 font-semibold">Åtgärder</ResizableTableHead>
+                          <ResizableTableHead className="w-32 font-semibold">Åtgärder</ResizableTableHead>
                         </TableRow>
                       </TableHeader>
                       <TableBody>
                         {filteredProfiles.map((user) => (
                           <TableRow key={user.id} className="group">
-                            <TableCell className="font-medium">{user.email}</TableCell>
+                            <TableCell className="font-medium">
+                              <div className="flex items-center gap-2">
+                                <span className={user.is_active ? '' : 'text-muted-foreground'}>{user.email}</span>
+                                {!user.is_active && <Badge variant="outline">Inaktiv</Badge>}
+                              </div>
+                            </TableCell>
                             <TableCell className="text-muted-foreground">
                               {user.full_name || '–'}
                             </TableCell>
@@ -519,12 +514,23 @@ const Admin = () => {
                                 >
                                   <Settings2 className="w-4 h-4" />
                                 </Button>
+                                {user.id !== profile?.id && (
+                                  <Button
+                                    size="sm"
+                                    variant="ghost"
+                                    className="opacity-0 group-hover:opacity-100 transition-opacity"
+                                    onClick={() => handleToggleUserActive(user)}
+                                    title={user.is_active ? 'Inaktivera' : 'Aktivera'}
+                                  >
+                                    {user.is_active ? <UserX className="w-4 h-4" /> : <UserCheck className="w-4 h-4" />}
+                                  </Button>
+                                )}
                                 {user.role !== 'admin' && (
                                   <Button
                                     size="sm"
                                     variant="ghost"
                                     className="opacity-0 group-hover:opacity-100 transition-opacity text-destructive hover:text-destructive"
-                                    onClick={() => setDeleteUser({ id: user.id, email: user.email })}
+                                    onClick={() => setDeleteUser(user)}
                                     title="Ta bort"
                                   >
                                     <Trash2 className="w-4 h-4" />
@@ -585,7 +591,7 @@ const Admin = () => {
                             {request.organization?.name || '–'}
                           </TableCell>
                           <TableCell className="text-muted-foreground max-w-xs truncate">
-                            {request.reason || '–'}
+                            {request.reason_code_info?.label || request.reason || '–'}
                           </TableCell>
                           <TableCell className="text-muted-foreground">
                             {format(new Date(request.created_at), 'dd MMM yyyy', { locale: sv })}
@@ -600,7 +606,7 @@ const Admin = () => {
                                   size="sm"
                                   variant="outline"
                                   className="h-8 w-8 p-0 text-success hover:bg-success/10 hover:text-success hover:border-success/30"
-                                  onClick={() => handleCreditAction(request.id, 'approved')}
+                                  onClick={() => setCreditDecision({ id: request.id, action: 'approved' })}
                                 >
                                   <Check className="w-4 h-4" />
                                 </Button>
@@ -608,7 +614,7 @@ const Admin = () => {
                                   size="sm"
                                   variant="outline"
                                   className="h-8 w-8 p-0 text-destructive hover:bg-destructive/10 hover:text-destructive hover:border-destructive/30"
-                                  onClick={() => handleCreditAction(request.id, 'denied')}
+                                  onClick={() => setCreditDecision({ id: request.id, action: 'denied' })}
                                 >
                                   <X className="w-4 h-4" />
                                 </Button>
@@ -626,6 +632,13 @@ const Admin = () => {
         </TabsContent>
       </Tabs>
 
+      <CreditDecisionDialog
+        creditRequestId={creditDecision?.id ?? null}
+        action={creditDecision?.action ?? 'approved'}
+        onOpenChange={(open) => !open && setCreditDecision(null)}
+        onDecided={fetchData}
+      />
+
       {/* Delete confirmation dialog */}
       <AlertDialog open={!!deleteOrg} onOpenChange={() => setDeleteOrg(null)}>
         <AlertDialogContent>
@@ -646,23 +659,12 @@ const Admin = () => {
       </AlertDialog>
 
       {/* Delete user confirmation dialog */}
-      <AlertDialog open={!!deleteUser} onOpenChange={() => setDeleteUser(null)}>
-        <AlertDialogContent>
-          <AlertDialogHeader>
-            <AlertDialogTitle>Ta bort användare?</AlertDialogTitle>
-            <AlertDialogDescription>
-              Är du säker på att du vill ta bort <strong>{deleteUser?.email}</strong>? 
-              Detta kan inte ångras.
-            </AlertDialogDescription>
-          </AlertDialogHeader>
-          <AlertDialogFooter>
-            <AlertDialogCancel>Avbryt</AlertDialogCancel>
-            <AlertDialogAction onClick={handleDeleteUser} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">
-              Ta bort
-            </AlertDialogAction>
-          </AlertDialogFooter>
-        </AlertDialogContent>
-      </AlertDialog>
+      <DeleteUserDialog
+        user={deleteUser}
+        users={profiles}
+        onOpenChange={(open) => !open && setDeleteUser(null)}
+        onDeleted={fetchData}
+      />
     </div>
   );
 };
@@ -1,7 +1,6 @@
 import { useState, useEffect, useMemo } from 'react';
 import ReactDOM from 'react-dom';
 import { useAuth } from '@/contexts/AuthContext';
-import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
@@ -14,17 +13,38 @@ import { EmptyState } from '@/components/ui/empty-state';
 import { CreateDealDialog } from '@/components/deals/CreateDealDialog';
 import { DealDetailsDialog } from '@/components/deals/DealDetailsDialog';
 import { AssignToCloserDialog } from '@/components/deals/AssignToCloserDialog';
+import { CreditDecisionDialog } from '@/components/partners/CreditDecisionDialog';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { Checkbox } from '@/components/ui/checkbox';
-import { toast } from 'sonner';
-import { Search, Filter, FileText, TrendingUp, Calendar, ChevronLeft, ChevronRight, Settings, GripVertical, UserCheck, CreditCard, Check, X, Inbox } from 'lucide-react';
-import { format, startOfMonth, endOfMonth, subMonths, addMonths } from 'date-fns';
+import { Search, Filter, FileText, TrendingUp, Calendar, ChevronLeft, ChevronRight, Settings, GripVertical, UserCheck, CreditCard, Check, X, Inbox, ArrowUp, ArrowDown } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
 import { sv } from 'date-fns/locale';
 import type { Database } from '@/integrations/supabase/types';
+import {
+  EMPTY_DEAL_TOTALS,
+  type DealContact,
+  type DealFilters,
+  type DealSort,
+  type DealSortColumn,
+} from '@/lib/deals';
+import {
+  DATE_RANGE_OPTIONS,
+  EMPTY_DEAL_VIEW_FILTERS,
+  formatDateRange,
+  getPeriodRange,
+  shiftPeriod,
+  type DateRangeType,
+  type DealViewSettings,
+} from '@/lib/dealViews';
+import { hasPermission } from '@/lib/permissions';
+import { DealViewsBar } from '@/components/deals/DealViewsBar';
+import { useDealTotals, useDeals, useInvalidateDeals } from '@/hooks/queries/use-contacts';
+import { useOrganizations, useRegions } from '@/hooks/queries/use-organizations';
+import { useCreditRequests } from '@/hooks/queries/use-credits';
 
 type CreditStatus = Database['public']['Enums']['credit_status'];
 
-type ColumnKey = 'name' | 'email' | 'phone' | 'address' | 'postalCode' | 'interest' | 'date' | 'opener' | 'bolag1' | 'bolag2' | 'bolag3' | 'bolag4' | 'totalRevenue' | 'creditStatus' | 'region';
+type ColumnKey = DealSortColumn;
 
 interface ColumnConfig {
   key: ColumnKey;
@@ -49,92 +69,106 @@ const DEFAULT_COLUMNS: ColumnConfig[] = [
   { key: 'creditStatus', label: 'Kredit Status' },
 ];
 
-interface ContactOrg {
-  id: string;
-  name: string;
-  price_per_solar_deal: number | null;
-  price_per_battery_deal: number | null;
-  is_sales_consultant?: boolean;
-  sales_consultant_lead_type?: string | null;
-  sold_to_partner?: boolean;
-}
+const ALL_COLUMN_KEYS = DEFAULT_COLUMNS.map(col => col.key);
 
-interface Contact {
-  id: string;
-  email: string;
-  name: string | null;
-  phone: string | null;
-  address: string | null;
-  postal_code: string | null;
-  date_sent: string;
-  interest: 'sun' | 'battery' | 'sun_battery';
-  opener_id: string;
-  region_id: string | null;
-  opener?: { email: string; full_name: string | null };
-  organizations?: ContactOrg[];
-  credit_requests?: { status: 'pending' | 'approved' | 'denied'; organization_id: string }[];
-  region?: { id: string; name: string };
-}
+const DEFAULT_VISIBLE_COLUMNS: ColumnKey[] = ['name', 'email', 'phone', 'interest', 'date', 'opener', 'bolag1', 'bolag2', 'bolag3', 'bolag4', 'totalRevenue', 'region', 'creditStatus'];
 
-interface Organization {
-  id: string;
-  name: string;
-  price_per_solar_deal: number | null;
-  price_per_battery_deal: number | null;
-  is_sales_consultant?: boolean;
-  sales_consultant_lead_type?: string | null;
-}
-
-interface PriceHistory {
-  organization_id: string;
-  price_per_solar_deal: number | null;
-  price_per_battery_deal: number | null;
-  effective_from: string;
-  effective_until: string | null;
-}
-
-interface CreditRequest {
-  id: string;
-  status: CreditStatus;
-  reason: string | null;
-  created_at: string;
-  contact: { email: string; date_sent: string } | null;
-  organization: { name: string } | null;
-  requested_by_profile: { email: string } | null;
-}
+const DEFAULT_SORT: DealSort = { column: 'date', ascending: false };
 
 const Deals = () => {
   const { profile } = useAuth();
-  const [contacts, setContacts] = useState<Contact[]>([]);
-  const [organizations, setOrganizations] = useState<Organization[]>([]);
-  const [priceHistory, setPriceHistory] = useState<PriceHistory[]>([]);
-  const [creditRequests, setCreditRequests] = useState<CreditRequest[]>([]);
-  const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
+  const [sort, setSort] = useState<DealSort>(DEFAULT_SORT);
   const [filterOrg, setFilterOrg] = useState<string>('all');
   const [filterStatus, setFilterStatus] = useState<string>('all');
   const [filterInterest, setFilterInterest] = useState<string>('all');
   const [filterRegion, setFilterRegion] = useState<string>('all');
-  const [regions, setRegions] = useState<{ id: string; name: string }[]>([]);
-  const [selectedContact, setSelectedContact] = useState<Contact | null>(null);
+  const [selectedContact, setSelectedContact] = useState<DealContact | null>(null);
   const [detailsOpen, setDetailsOpen] = useState(false);
-  const [selectedMonth, setSelectedMonth] = useState(new Date());
+
+  // Date range: a week, month or quarter around rangeDate, or custom dates
+  const [rangeType, setRangeType] = useState<DateRangeType>('month');
+  const [rangeDate, setRangeDate] = useState(new Date());
+  const [customRange, setCustomRange] = useState<{ from: string; to: string }>(() => ({
+    from: format(getPeriodRange('month', new Date()).from, 'yyyy-MM-dd'),
+    to: format(getPeriodRange('month', new Date()).to, 'yyyy-MM-dd'),
+  }));
+  // Deals are fetched once the user's default view is known
+  const [viewsReady, setViewsReady] = useState(false);
   
   // Column management with ordering
   const [columnOrder, setColumnOrder] = useState<ColumnConfig[]>(DEFAULT_COLUMNS);
-  const [visibleColumns, setVisibleColumns] = useState<Set<ColumnKey>>(new Set(['name', 'email', 'phone', 'interest', 'date', 'opener', 'bolag1', 'bolag2', 'bolag3', 'bolag4', 'totalRevenue', 'region', 'creditStatus']));
+  const [visibleColumns, setVisibleColumns] = useState<Set<ColumnKey>>(new Set(DEFAULT_VISIBLE_COLUMNS));
+  const [columnWidths, setColumnWidths] = useState<Partial<Record<ColumnKey, number>>>({});
   
   // Multi-select state
   const [selectedDeals, setSelectedDeals] = useState<Set<string>>(new Set());
   
   // Assign dialog state
   const [assignDialogOpen, setAssignDialogOpen] = useState(false);
+  const [creditDecision, setCreditDecision] = useState<{ id: string; action: 'approved' | 'denied' } | null>(null);
   
   // Drag state
   const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
 
-  const handlePreviousMonth = () => setSelectedMonth(prev => subMonths(prev, 1));
-  const handleNextMonth = () => setSelectedMonth(prev => addMonths(prev, 1));
+  const dateRange = useMemo(
+    () => rangeType === 'custom'
+      ? { from: parseISO(customRange.from), to: parseISO(customRange.to) }
+      : getPeriodRange(rangeType, rangeDate),
+    [rangeType, rangeDate, customRange]
+  );
+  const dateRangeLabel = formatDateRange(rangeType, dateRange);
+
+  const handlePreviousPeriod = () => rangeType !== 'custom' && setRangeDate(prev => shiftPeriod(rangeType, prev, -1));
+  const handleNextPeriod = () => rangeType !== 'custom' && setRangeDate(prev => shiftPeriod(rangeType, prev, 1));
+
+  const handleRangeTypeChange = (type: DateRangeType) => {
+    // A custom range starts from the period being shown
+    if (type === 'custom') {
+      setCustomRange({ from: format(dateRange.from, 'yyyy-MM-dd'), to: format(dateRange.to, 'yyyy-MM-dd') });
+    }
+    setRangeType(type);
+  };
+
+  // The page as a saved view
+  const viewSettings: DealViewSettings = useMemo(() => ({
+    columnOrder: columnOrder.map(col => col.key),
+    visibleColumns: columnOrder.map(col => col.key).filter(key => visibleColumns.has(key)),
+    columnWidths,
+    filters: {
+      search: searchTerm,
+      organizationId: filterOrg === 'all' ? null : filterOrg,
+      creditStatus: filterStatus === 'all' ? null : filterStatus,
+      interest: filterInterest === 'all' ? null : filterInterest,
+      regionId: filterRegion === 'all' ? null : filterRegion,
+    },
+    sort,
+    dateRangeType: rangeType,
+    customRange: rangeType === 'custom' ? customRange : null,
+  }), [columnOrder, visibleColumns, columnWidths, searchTerm, filterOrg, filterStatus, filterInterest, filterRegion, sort, rangeType, customRange]);
+
+  // Show a saved view, or the standard layout for null
+  const applyViewSettings = (settings: DealViewSettings | null) => {
+    const filters = settings?.filters || EMPTY_DEAL_VIEW_FILTERS;
+    setColumnOrder(
+      settings
+        ? settings.columnOrder.flatMap(key => DEFAULT_COLUMNS.filter(col => col.key === key))
+        : DEFAULT_COLUMNS
+    );
+    setVisibleColumns(new Set(settings?.visibleColumns || DEFAULT_VISIBLE_COLUMNS));
+    setColumnWidths(settings?.columnWidths || {});
+    setSearchTerm(filters.search);
+    setDebouncedSearch(filters.search);
+    setFilterOrg(filters.organizationId || 'all');
+    setFilterStatus(filters.creditStatus || 'all');
+    setFilterInterest(filters.interest || 'all');
+    setFilterRegion(filters.regionId || 'all');
+    setSort(settings?.sort || DEFAULT_SORT);
+    setRangeType(settings?.dateRangeType || 'month');
+    setRangeDate(new Date());
+    if (settings?.customRange) setCustomRange(settings.customRange);
+  };
 
   const toggleColumn = (key: ColumnKey) => {
     setVisibleColumns(prev => {
@@ -167,256 +201,74 @@ const Deals = () => {
     setDraggedIndex(null);
   };
 
-  useEffect(() => {
-    fetchData();
-  }, [profile]);
-
-  const fetchData = async () => {
-    if (!profile) return;
-
-    try {
-      // Fetch organizations with prices
-      const { data: orgsData } = await supabase
-        .from('organizations')
-        .select('id, name, price_per_solar_deal, price_per_battery_deal, is_sales_consultant, sales_consultant_lead_type');
-      setOrganizations((orgsData as Organization[]) || []);
-
-      // Fetch regions
-      const { data: regionsData } = await supabase
-        .from('regions')
-        .select('id, name')
-        .order('name');
-      setRegions(regionsData || []);
-
-      // Fetch price history for accurate historical calculations
-      const { data: historyData } = await supabase
-        .from('organization_price_history')
-        .select('organization_id, price_per_solar_deal, price_per_battery_deal, effective_from, effective_until')
-        .order('effective_from', { ascending: false });
-      setPriceHistory(historyData || []);
-
-      let query = supabase
-        .from('contacts')
-        .select(`
-          *,
-          opener:profiles!contacts_opener_id_fkey(email, full_name),
-          contact_organizations(organization:organizations(id, name, price_per_solar_deal, price_per_battery_deal, is_sales_consultant, sales_consultant_lead_type), sold_to_partner),
-          credit_requests(status, organization_id),
-          region:regions(id, name)
-        `)
-        .order('date_sent', { ascending: false });
-
-      const { data, error } = await query;
-      
-      if (error) {
-        console.error('Error fetching contacts:', error);
-        return;
-      }
-
-      const transformed = (data || []).map((c: any) => ({
-        ...c,
-        organizations: c.contact_organizations?.map((co: any) => ({
-          ...co.organization,
-          sold_to_partner: co.sold_to_partner || false,
-        })) || [],
-      }));
-
-      setContacts(transformed);
-
-      // Fetch credit requests for admin
-      if (profile?.role === 'admin') {
-        const { data: creditsRes } = await supabase
-          .from('credit_requests')
-          .select(`
-            *,
-            contact:contacts(email, date_sent),
-            organization:organizations(name),
-            requested_by_profile:profiles!credit_requests_requested_by_fkey(email)
-          `)
-          .order('created_at', { ascending: false });
-        setCreditRequests(creditsRes as CreditRequest[] || []);
-      }
-    } finally {
-      setLoading(false);
-    }
+  const handleSort = (column: DealSortColumn) => {
+    setSort(prev => ({
+      column,
+      // Dates and revenue start with the highest first
+      ascending: prev.column === column ? !prev.ascending : !['date', 'totalRevenue'].includes(column),
+    }));
   };
 
-  const handleCreditAction = async (requestId: string, status: 'approved' | 'denied') => {
-    const { error } = await supabase
-      .from('credit_requests')
-      .update({ status })
-      .eq('id', requestId);
-
-    if (error) {
-      toast.error('Kunde inte uppdatera kreditbegäran');
-      return;
-    }
-
-    toast.success(status === 'approved' ? 'Kredit godkänd' : 'Kredit nekad');
-    fetchData();
-  };
-
-  const filteredContacts = contacts.filter((contact) => {
-    const matchesSearch = 
-      contact.email.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      contact.name?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      contact.phone?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      contact.address?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      contact.postal_code?.toLowerCase().includes(searchTerm.toLowerCase());
-
-    const matchesOrg = filterOrg === 'all' || 
-      contact.organizations?.some(o => o.id === filterOrg);
-
-    const matchesStatus = filterStatus === 'all' ||
-      contact.credit_requests?.some(cr => cr.status === filterStatus);
-
-    const matchesInterest = filterInterest === 'all' || contact.interest === filterInterest;
-
-    const matchesRegion = filterRegion === 'all' || contact.region_id === filterRegion;
-
-    // Month filter
-    const contactDate = new Date(contact.date_sent);
-    const monthStart = startOfMonth(selectedMonth);
-    const monthEnd = endOfMonth(selectedMonth);
-    const matchesMonth = contactDate >= monthStart && contactDate <= monthEnd;
-
-    return matchesSearch && matchesOrg && matchesStatus && matchesInterest && matchesRegion && matchesMonth;
-  });
-
-  // Function to get price for a contact at its date from price history
-  const getPriceAtDate = (orgId: string, interest: string, contactDate: Date): number => {
-    // Find the price record that was effective at the contact's date
-    const priceRecord = priceHistory.find(ph => {
-      if (ph.organization_id !== orgId) return false;
-      const effectiveFrom = new Date(ph.effective_from);
-      const effectiveUntil = ph.effective_until ? new Date(ph.effective_until) : null;
-      
-      return contactDate >= effectiveFrom && (!effectiveUntil || contactDate < effectiveUntil);
-    });
-
-    if (!priceRecord) {
-      // Fallback to current org price
-      const org = organizations.find(o => o.id === orgId);
-      if (!org) return 0;
-      
-      if (interest === 'sun') return org.price_per_solar_deal || 0;
-      if (interest === 'battery') return org.price_per_battery_deal || 0;
-      if (interest === 'sun_battery') return (org.price_per_solar_deal || 0) + (org.price_per_battery_deal || 0);
-      return 0;
-    }
-
-    if (interest === 'sun') return priceRecord.price_per_solar_deal || 0;
-    if (interest === 'battery') return priceRecord.price_per_battery_deal || 0;
-    if (interest === 'sun_battery') return (priceRecord.price_per_solar_deal || 0) + (priceRecord.price_per_battery_deal || 0);
-    return 0;
-  };
+  // Wait for a pause in typing before searching
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(searchTerm), 300);
+    return () => clearTimeout(timeout);
+  }, [searchTerm]);
+
+  const filters: DealFilters = useMemo(() => ({
+    from: dateRange.from,
+    to: dateRange.to,
+    search: debouncedSearch,
+    organizationId: filterOrg === 'all' ? null : filterOrg,
+    creditStatus: filterStatus === 'all' ? null : filterStatus as CreditStatus,
+    interest: filterInterest === 'all' ? null : filterInterest as DealContact['interest'],
+    regionId: filterRegion === 'all' ? null : filterRegion,
+  }), [dateRange, debouncedSearch, filterOrg, filterStatus, filterInterest, filterRegion]);
+
+  const canManageCredits = hasPermission(profile?.role, 'credits.manage');
+  const { data: organizations = [], isLoading: loading } = useOrganizations();
+  const { data: regions = [] } = useRegions();
+  const { data: creditRequests = [] } = useCreditRequests(canManageCredits);
+  const invalidateDeals = useInvalidateDeals();
+
+  // Deals wait for the default view so they aren't fetched twice
+  const dealsQuery = useDeals(filters, sort, !!profile && viewsReady);
+  const { data: totals = EMPTY_DEAL_TOTALS } = useDealTotals(filters, !!profile && viewsReady);
+  const contacts: DealContact[] = useMemo(() => dealsQuery.data?.pages.flatMap(page => page.deals) || [], [dealsQuery.data]);
+  const dealsLoading = dealsQuery.isPending || (dealsQuery.isFetching && !dealsQuery.isFetchingNextPage);
+  // The open deal follows edits to the list, unless it no longer matches the filters
+  const detailsContact = useMemo(
+    () => contacts.find(c => c.id === selectedContact?.id) ?? selectedContact,
+    [contacts, selectedContact]
+  );
 
-  // Calculate summary data with proper historical pricing, excluding approved credits
-  const summaryData = useMemo(() => {
-    let totalValue = 0;
-    let creditedValue = 0;
-    const orgValues: Record<string, { name: string; value: number; leadCount: number; creditedValue: number; creditedLeads: number }> = {};
-
-    filteredContacts.forEach(contact => {
-      const contactDate = new Date(contact.date_sent);
-      
-      contact.organizations?.forEach(org => {
-        const priceForThisLead = getPriceAtDate(org.id, contact.interest, contactDate);
-        
-        // Check if there's an approved credit for this org on this contact
-        const hasApprovedCredit = contact.credit_requests?.some(
-          cr => cr.organization_id === org.id && cr.status === 'approved'
-        );
-        
-        if (!orgValues[org.id]) {
-          orgValues[org.id] = { name: org.name, value: 0, leadCount: 0, creditedValue: 0, creditedLeads: 0 };
-        }
-        
-        if (hasApprovedCredit) {
-          // This lead was credited - don't count towards invoice
-          creditedValue += priceForThisLead;
-          orgValues[org.id].creditedValue += priceForThisLead;
-          orgValues[org.id].creditedLeads += 1;
-        } else {
-          // Normal lead - counts towards invoice
-          totalValue += priceForThisLead;
-          orgValues[org.id].value += priceForThisLead;
-        }
-        orgValues[org.id].leadCount += 1;
-      });
-    });
+  useEffect(() => {
+    setSelectedDeals(new Set());
+  }, [filters, sort]);
 
-    return {
-      totalValue,
-      creditedValue,
-      orgValues: Object.values(orgValues),
-      totalLeads: filteredContacts.length,
-      totalOrgLinks: filteredContacts.reduce((sum, c) => sum + (c.organizations?.length || 0), 0)
-    };
-  }, [filteredContacts, priceHistory, organizations]);
-
-  // Filter credit requests by selected month based on lead's date_sent
-  // Show credits where the lead was generated in the selected month
+  // Filter credit requests by the selected range based on lead's date_sent
+  // Show credits where the lead was generated in the selected range
   const filteredCreditRequests = useMemo(() => {
-    const monthStart = startOfMonth(selectedMonth);
-    const monthEnd = endOfMonth(selectedMonth);
+    const from = format(dateRange.from, 'yyyy-MM-dd');
+    const to = format(dateRange.to, 'yyyy-MM-dd');
     
     return creditRequests.filter(request => {
       if (!request.contact?.date_sent) return false;
-      const leadDate = new Date(request.contact.date_sent);
-      return leadDate >= monthStart && leadDate <= monthEnd;
+      return request.contact.date_sent >= from && request.contact.date_sent <= to;
     });
-  }, [creditRequests, selectedMonth]);
+  }, [creditRequests, dateRange]);
 
-  const getLatestCreditStatus = (contact: Contact) => {
-    if (!contact.credit_requests || contact.credit_requests.length === 0) return null;
-    return contact.credit_requests[0].status;
-  };
-
-  // Calculate total revenue for a single contact based on its assigned organizations
-  // Excludes organizations where we are sales consultant for matching lead type
-  const getContactTotalRevenue = (contact: Contact): number => {
-    if (!contact.organizations || contact.organizations.length === 0) return 0;
-    
-    let total = 0;
-    const contactDate = new Date(contact.date_sent);
-    
-    contact.organizations.forEach(org => {
-      // Check if this org is a sales consultant for this lead type
-      const isSalesConsultantForLeadType = org.is_sales_consultant && 
-        org.sales_consultant_lead_type === contact.interest;
-      
-      // If sold_to_partner is true, include in invoicing regardless of sales consultant status
-      // Otherwise skip if we're selling on this ourselves
-      if (isSalesConsultantForLeadType && !org.sold_to_partner) return;
-      
-      // Check if there's an approved credit for this org on this contact
-      const hasApprovedCredit = contact.credit_requests?.some(
-        cr => cr.organization_id === org.id && cr.status === 'approved'
-      );
-      
-      // Skip if credited
-      if (hasApprovedCredit) return;
-      
-      // Get price for this lead
-      const price = getPriceAtDate(org.id, contact.interest, contactDate);
-      total += price;
-    });
-    
-    return total;
-  };
-
-  const handleContactClick = (contact: Contact) => {
+  const handleContactClick = (contact: DealContact) => {
     setSelectedContact(contact);
     setDetailsOpen(true);
   };
 
   // Multi-select handlers
   const handleSelectAll = () => {
-    if (selectedDeals.size === filteredContacts.length) {
+    if (selectedDeals.size === contacts.length) {
       setSelectedDeals(new Set());
     } else {
-      setSelectedDeals(new Set(filteredContacts.map(c => c.id)));
+      setSelectedDeals(new Set(contacts.map(c => c.id)));
     }
   };
 
@@ -433,8 +285,12 @@ const Deals = () => {
     });
   };
 
+  // Closers don't see what partners pay for their leads
+  const canViewRevenue = hasPermission(profile?.role, 'deals.view_revenue');
+  const isColumnAllowed = (key: ColumnKey) => key !== 'totalRevenue' || canViewRevenue;
+
   // Get visible columns in order
-  const orderedVisibleColumns = columnOrder.filter(col => visibleColumns.has(col.key));
+  const orderedVisibleColumns = columnOrder.filter(col => visibleColumns.has(col.key) && isColumnAllowed(col.key));
 
   if (loading) {
     return (
@@ -459,17 +315,21 @@ const Deals = () => {
             <h1 className="page-title">Deals</h1>
           </div>
           <p className="page-description">
-            Hantera och följ upp dina affärer
+            {profile?.role === 'teamleader'
+              ? 'Leads från ditt team'
+              : profile?.role === 'closer'
+                ? 'Leads som är tilldelade dig'
+                : 'Hantera och följ upp dina affärer'}
           </p>
         </div>
         <div className="flex items-center gap-3">
           <div className="flex items-center gap-2 px-3 py-1.5 rounded-full bg-muted/50 text-sm text-muted-foreground">
             <FileText className="w-4 h-4" />
-            <span className="font-medium">{filteredContacts.length}</span>
+            <span className="font-medium">{totals.totalLeads}</span>
             <span>deals</span>
           </div>
-          {(profile?.role === 'admin' || profile?.role === 'opener') && (
-            <CreateDealDialog onDealCreated={fetchData} />
+          {hasPermission(profile?.role, 'deals.create') && (
+            <CreateDealDialog />
           )}
         </div>
       </div>
@@ -478,23 +338,60 @@ const Deals = () => {
       <Card className="glass-card">
         <CardHeader className="pb-4">
           <div className="flex flex-col gap-4">
-            {/* Month selector */}
-            <div className="flex items-center justify-between">
+            <DealViewsBar
+              settings={viewSettings}
+              allColumns={ALL_COLUMN_KEYS}
+              onApply={applyViewSettings}
+              onReady={() => setViewsReady(true)}
+            />
+
+            {/* Period selector */}
+            <div className="flex flex-wrap items-center justify-between gap-3">
               <div className="flex items-center gap-2">
                 <Calendar className="w-5 h-5 text-primary" />
-                <span className="text-sm font-medium text-muted-foreground">Månad:</span>
-              </div>
-              <div className="flex items-center gap-2">
-                <Button variant="outline" size="icon" onClick={handlePreviousMonth}>
-                  <ChevronLeft className="w-4 h-4" />
-                </Button>
-                <span className="min-w-32 text-center font-medium">
-                  {format(selectedMonth, 'MMMM yyyy', { locale: sv })}
-                </span>
-                <Button variant="outline" size="icon" onClick={handleNextMonth}>
-                  <ChevronRight className="w-4 h-4" />
-                </Button>
+                <span className="text-sm font-medium text-muted-foreground">Period:</span>
+                <Select value={rangeType} onValueChange={(v) => handleRangeTypeChange(v as DateRangeType)}>
+                  <SelectTrigger className="w-32 h-9">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DATE_RANGE_OPTIONS.map(option => (
+                      <SelectItem key={option.key} value={option.key}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
               </div>
+              {rangeType === 'custom' ? (
+                <div className="flex items-center gap-2">
+                  <Input
+                    type="date"
+                    className="w-40 h-9"
+                    value={customRange.from}
+                    max={customRange.to}
+                    onChange={(e) => e.target.value && setCustomRange(prev => ({ ...prev, from: e.target.value }))}
+                  />
+                  <span className="text-muted-foreground">–</span>
+                  <Input
+                    type="date"
+                    className="w-40 h-9"
+                    value={customRange.to}
+                    min={customRange.from}
+                    onChange={(e) => e.target.value && setCustomRange(prev => ({ ...prev, to: e.target.value }))}
+                  />
+                </div>
+              ) : (
+                <div className="flex items-center gap-2">
+                  <Button variant="outline" size="icon" onClick={handlePreviousPeriod}>
+                    <ChevronLeft className="w-4 h-4" />
+                  </Button>
+                  <span className="min-w-32 text-center font-medium capitalize">
+                    {dateRangeLabel}
+                  </span>
+                  <Button variant="outline" size="icon" onClick={handleNextPeriod}>
+                    <ChevronRight className="w-4 h-4" />
+                  </Button>
+                </div>
+              )}
             </div>
             
             <div className="flex flex-col gap-4">
@@ -562,7 +459,11 @@ const Deals = () => {
           </div>
         </CardHeader>
         <CardContent>
-          {filteredContacts.length === 0 ? (
+          {dealsLoading && contacts.length === 0 ? (
+            <div className="flex items-center justify-center h-32">
+              <div className="w-6 h-6 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+            </div>
+          ) : contacts.length === 0 ? (
             <EmptyState
               icon={FileText}
               title="Inga deals hittades"
@@ -579,14 +480,28 @@ const Deals = () => {
                       {/* Select all checkbox */}
                       <ResizableTableHead className="w-12" minWidth={48}>
                         <Checkbox
-                          checked={selectedDeals.size === filteredContacts.length && filteredContacts.length > 0}
+                          checked={selectedDeals.size === contacts.length && contacts.length > 0}
                           onCheckedChange={handleSelectAll}
                           aria-label="Markera alla"
                         />
                       </ResizableTableHead>
                       {orderedVisibleColumns.map((col) => (
-                        <ResizableTableHead key={col.key} className="font-semibold whitespace-nowrap">
-                          {col.label}
+                        <ResizableTableHead
+                          key={col.key}
+                          className="font-semibold whitespace-nowrap"
+                          defaultWidth={columnWidths[col.key]}
+                          onWidthChange={(width) => setColumnWidths(prev => ({ ...prev, [col.key]: width }))}
+                        >
+                          <button
+                            type="button"
+                            className="inline-flex items-center gap-1 hover:text-foreground"
+                            onClick={() => handleSort(col.key)}
+                          >
+                            {col.label}
+                            {sort.column === col.key && (
+                              sort.ascending ? <ArrowUp className="w-3 h-3" /> : <ArrowDown className="w-3 h-3" />
+                            )}
+                          </button>
                         </ResizableTableHead>
                       ))}
                       {/* Always show settings cog */}
@@ -601,7 +516,7 @@ const Deals = () => {
                             <div className="space-y-1">
                               <p className="text-sm font-medium mb-3">Visa & ordna kolumner</p>
                               <p className="text-xs text-muted-foreground mb-3">Dra för att ändra ordning</p>
-                              {columnOrder.map((col, index) => (
+                              {columnOrder.map((col, index) => isColumnAllowed(col.key) && (
                                 <div
                                   key={col.key}
                                   draggable
@@ -630,8 +545,8 @@ const Deals = () => {
                     </TableRow>
                   </TableHeader>
                   <TableBody>
-                    {filteredContacts.map((contact) => {
-                      const creditStatus = getLatestCreditStatus(contact);
+                    {contacts.map((contact) => {
+                      const creditStatus = contact.credit_status;
                       const isSelected = selectedDeals.has(contact.id);
                       return (
                         <TableRow 
@@ -714,7 +629,7 @@ const Deals = () => {
                               )}
                               {col.key === 'totalRevenue' && (
                                 <span className="font-medium text-primary">
-                                  {getContactTotalRevenue(contact).toLocaleString('sv-SE')} kr
+                                  {contact.total_revenue.toLocaleString('sv-SE')} kr
                                 </span>
                               )}
                               {col.key === 'creditStatus' && (
@@ -732,61 +647,84 @@ const Deals = () => {
                       );
                     })}
                   </TableBody>
-                  <TableFooter>
-                    <TableRow className="bg-muted/50 font-medium">
-                      <TableCell colSpan={orderedVisibleColumns.length + 2}>
-                        <div className="flex flex-col gap-2 py-2">
-                          <div className="flex items-center justify-between text-sm">
-                            <span className="font-semibold">Summering</span>
-                            <span className="text-muted-foreground">
-                              {summaryData.totalLeads} leads × {summaryData.totalOrgLinks} partners
-                            </span>
-                          </div>
-                          <div className="flex flex-wrap gap-4 text-sm">
-                            {summaryData.orgValues.map((org) => (
-                              <div key={org.name} className="flex flex-col gap-1 px-3 py-2 rounded-lg bg-background border">
-                                <div className="flex items-center gap-2">
-                                  <span className="text-muted-foreground font-medium">{org.name}</span>
-                                </div>
-                                <div className="flex items-center gap-3">
-                                  <span className="text-xs text-muted-foreground">{org.leadCount} leads</span>
-                                  {org.creditedLeads > 0 && (
+                  {canViewRevenue && (
+                    <TableFooter>
+                      <TableRow className="bg-muted/50 font-medium">
+                        <TableCell colSpan={orderedVisibleColumns.length + 2}>
+                          <div className="flex flex-col gap-2 py-2">
+                            <div className="flex items-center justify-between text-sm">
+                              <span className="font-semibold">Summering</span>
+                              <span className="text-muted-foreground">
+                                {totals.totalLeads} leads × {totals.totalOrgLinks} partners
+                              </span>
+                            </div>
+                            <div className="flex flex-wrap gap-4 text-sm">
+                              {totals.orgValues.map((org) => (
+                                <div key={org.organizationId} className="flex flex-col gap-1 px-3 py-2 rounded-lg bg-background border">
+                                  <div className="flex items-center gap-2">
+                                    <span className="text-muted-foreground font-medium">{org.name}</span>
+                                  </div>
+                                  <div className="flex items-center gap-3">
+                                    <span className="text-xs text-muted-foreground">{org.leadCount} leads</span>
+                                    {org.creditedLeads > 0 && (
+                                      <span className="text-xs text-amber-600">
+                                        ({org.creditedLeads} krediterade: -{org.creditedValue.toLocaleString('sv-SE')} kr)
+                                      </span>
+                                    )}
+                                  </div>
+                                  {org.deferredCredits > 0 && (
                                     <span className="text-xs text-amber-600">
-                                      ({org.creditedLeads} krediterade: -{org.creditedValue.toLocaleString('sv-SE')} kr)
+                                      Tidigare månader: -{org.deferredCredits.toLocaleString('sv-SE')} kr
                                     </span>
                                   )}
+                                  <span className="text-primary font-bold">
+                                    {org.value.toLocaleString('sv-SE')} kr
+                                  </span>
                                 </div>
-                                <span className="text-primary font-bold">
-                                  {org.value.toLocaleString('sv-SE')} kr
-                                </span>
+                              ))}
+                            </div>
+                            {totals.creditedValue > 0 && (
+                              <div className="flex items-center justify-end gap-2 text-sm text-amber-600">
+                                <span>Totalt krediterat:</span>
+                                <span className="font-semibold">-{totals.creditedValue.toLocaleString('sv-SE')} kr</span>
                               </div>
-                            ))}
-                          </div>
-                          {summaryData.creditedValue > 0 && (
-                            <div className="flex items-center justify-end gap-2 text-sm text-amber-600">
-                              <span>Totalt krediterat:</span>
-                              <span className="font-semibold">-{summaryData.creditedValue.toLocaleString('sv-SE')} kr</span>
+                            )}
+                            {totals.deferredValue > 0 && (
+                              <div className="flex items-center justify-end gap-2 text-sm text-amber-600">
+                                <span>Kreditnotor för tidigare månader:</span>
+                                <span className="font-semibold">-{totals.deferredValue.toLocaleString('sv-SE')} kr</span>
+                              </div>
+                            )}
+                            <div className="flex items-center justify-end gap-2 pt-2 border-t border-border">
+                              <span className="text-base">Totalt fakturaunderlag:</span>
+                              <span className="text-lg font-bold text-primary">
+                                {totals.totalValue.toLocaleString('sv-SE')} kr
+                              </span>
                             </div>
-                          )}
-                          <div className="flex items-center justify-end gap-2 pt-2 border-t border-border">
-                            <span className="text-base">Totalt fakturaunderlag:</span>
-                            <span className="text-lg font-bold text-primary">
-                              {summaryData.totalValue.toLocaleString('sv-SE')} kr
-                            </span>
                           </div>
-                        </div>
-                      </TableCell>
-                    </TableRow>
-                  </TableFooter>
+                        </TableCell>
+                      </TableRow>
+                    </TableFooter>
+                  )}
                 </Table>
               </div>
+              {dealsQuery.hasNextPage && (
+                <div className="flex items-center justify-between gap-4 p-3 border-t border-border">
+                  <span className="text-sm text-muted-foreground">
+                    Visar {contacts.length} av {totals.totalLeads} deals
+                  </span>
+                  <Button variant="outline" size="sm" onClick={() => dealsQuery.fetchNextPage()} disabled={dealsQuery.isFetchingNextPage}>
+                    {dealsQuery.isFetchingNextPage ? 'Laddar...' : 'Visa fler'}
+                  </Button>
+                </div>
+              )}
             </div>
           )}
         </CardContent>
       </Card>
 
-      {/* Credit Requests Section - Admin Only */}
-      {profile?.role === 'admin' && (
+      {/* Credit Requests Section */}
+      {canManageCredits && (
         <Card className="glass-card">
           <CardHeader className="pb-4">
             <div className="flex items-center gap-2">
@@ -794,7 +732,7 @@ const Deals = () => {
               <CardTitle className="text-xl">Kreditförfrågningar</CardTitle>
             </div>
             <CardDescription>
-              Granska och hantera kreditförfrågningar för leads genererade i {format(selectedMonth, 'MMMM yyyy', { locale: sv })}
+              Granska och hantera kreditförfrågningar för leads genererade i {dateRangeLabel}
             </CardDescription>
           </CardHeader>
           <CardContent>
@@ -802,7 +740,7 @@ const Deals = () => {
               <EmptyState
                 icon={Inbox}
                 title="Inga kreditbegäranden"
-                description={`Det finns inga kreditförfrågningar för ${format(selectedMonth, 'MMMM yyyy', { locale: sv })}`}
+                description={`Det finns inga kreditförfrågningar för ${dateRangeLabel}`}
               />
             ) : (
               <div className="rounded-xl border border-border overflow-hidden">
@@ -823,7 +761,7 @@ const Deals = () => {
                       <TableRow key={request.id}>
                         <TableCell className="font-medium">{request.contact?.email || '–'}</TableCell>
                         <TableCell className="text-muted-foreground">{request.organization?.name || '–'}</TableCell>
-                        <TableCell className="text-muted-foreground max-w-xs truncate">{request.reason || '–'}</TableCell>
+                        <TableCell className="text-muted-foreground max-w-xs truncate">{request.reason_code_info?.label || request.reason || '–'}</TableCell>
                         <TableCell className="text-muted-foreground">
                           {request.contact?.date_sent ? format(new Date(request.contact.date_sent), 'dd MMM yyyy', { locale: sv }) : '–'}
                         </TableCell>
@@ -832,8 +770,8 @@ const Deals = () => {
                         <TableCell>
                           {request.status === 'pending' && (
                             <div className="flex gap-1.5">
-                              <Button size="sm" variant="outline" className="h-8 w-8 p-0 text-success hover:bg-success/10" onClick={() => handleCreditAction(request.id, 'approved')}><Check className="w-4 h-4" /></Button>
-                              <Button size="sm" variant="outline" className="h-8 w-8 p-0 text-destructive hover:bg-destructive/10" onClick={() => handleCreditAction(request.id, 'denied')}><X className="w-4 h-4" /></Button>
+                              <Button size="sm" variant="outline" className="h-8 w-8 p-0 text-success hover:bg-success/10" onClick={() => setCreditDecision({ id: request.id, action: 'approved' })}><Check className="w-4 h-4" /></Button>
+                              <Button size="sm" variant="outline" className="h-8 w-8 p-0 text-destructive hover:bg-destructive/10" onClick={() => setCreditDecision({ id: request.id, action: 'denied' })}><X className="w-4 h-4" /></Button>
                             </div>
                           )}
                         </TableCell>
@@ -852,7 +790,7 @@ const Deals = () => {
         <div className="fixed bottom-6 left-0 right-0 z-[9999] flex justify-center pointer-events-none" style={{ marginLeft: '16rem' }}>
           <div className="flex items-center gap-4 px-6 py-3 rounded-full bg-primary text-primary-foreground shadow-lg pointer-events-auto animate-in slide-in-from-bottom-4 duration-300">
             <span className="font-medium">{selectedDeals.size} deals markerade</span>
-            {(profile?.role === 'admin' || profile?.role === 'teamleader') && (
+            {hasPermission(profile?.role, 'deals.assign_closer') && (
               <Button
                 variant="secondary"
                 size="sm"
@@ -886,17 +824,22 @@ const Deals = () => {
           organizations: c.organizations || [],
         }))}
         onAssigned={() => {
-          fetchData();
+          invalidateDeals();
           setSelectedDeals(new Set());
         }}
       />
 
+      <CreditDecisionDialog
+        creditRequestId={creditDecision?.id ?? null}
+        action={creditDecision?.action ?? 'approved'}
+        onOpenChange={(open) => !open && setCreditDecision(null)}
+      />
+
       <DealDetailsDialog
-        contact={selectedContact}
+        contact={detailsContact}
         organizations={organizations}
         open={detailsOpen}
         onOpenChange={setDetailsOpen}
-        onDealUpdated={fetchData}
       />
     </div>
   );
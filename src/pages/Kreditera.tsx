@@ -5,12 +5,26 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { StatusBadge } from '@/components/ui/status-badge';
+import { EmptyState } from '@/components/ui/empty-state';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
-import { CreditCard, AlertTriangle, Send, ShieldX, Clock } from 'lucide-react';
+import { CreditCard, AlertTriangle, Send, ShieldX, Clock, Paperclip, History, X } from 'lucide-react';
 import { differenceInDays, format } from 'date-fns';
 import { sv } from 'date-fns/locale';
+import {
+  getCreditErrorMessage,
+  fetchCreditReasonCodes,
+  uploadCreditEvidence,
+  validateEvidenceFiles,
+  EVIDENCE_ACCEPT,
+  MAX_EVIDENCE_FILES,
+  type CreditReasonCode,
+} from '@/lib/credits';
+import { CreditEvidenceList, type CreditEvidence } from '@/components/partners/CreditEvidenceList';
+import type { Database } from '@/integrations/supabase/types';
 
 interface Contact {
   id: string;
@@ -19,6 +33,18 @@ interface Contact {
   interest: string;
 }
 
+interface CreditRequestHistoryItem {
+  id: string;
+  status: Database['public']['Enums']['credit_status'];
+  reason: string | null;
+  decision_comment: string | null;
+  decided_at: string | null;
+  created_at: string;
+  contact: { email: string } | null;
+  reason_code_info: { label: string } | null;
+  attachments: CreditEvidence[];
+}
+
 interface OrganizationSettings {
   can_request_credits: boolean;
   credit_deadline_days: number | null;
@@ -30,17 +56,25 @@ const Kreditera = () => {
   const [contacts, setContacts] = useState<Contact[]>([]);
   const [selectedContact, setSelectedContact] = useState<string>('');
   const [reason, setReason] = useState('');
+  const [reasonCode, setReasonCode] = useState('');
+  const [reasonCodes, setReasonCodes] = useState<CreditReasonCode[]>([]);
+  const [evidenceFiles, setEvidenceFiles] = useState<File[]>([]);
+  const [history, setHistory] = useState<CreditRequestHistoryItem[]>([]);
   const [loading, setLoading] = useState(true);
   const [submitting, setSubmitting] = useState(false);
   const [showWarning, setShowWarning] = useState(false);
   const [pendingSubmit, setPendingSubmit] = useState(false);
   const [canRequestCredits, setCanRequestCredits] = useState<boolean | null>(null);
   const [creditDeadlineDays, setCreditDeadlineDays] = useState<number>(14);
+  // Leads with an open or approved request can't be credited again
+  const [requestedContactIds, setRequestedContactIds] = useState<Set<string>>(new Set());
 
   useEffect(() => {
     if (profile?.organization_id) {
       fetchOrganizationSettings();
       fetchContacts();
+      fetchHistory();
+      fetchCreditReasonCodes().then(setReasonCodes);
     } else {
       setLoading(false);
     }
@@ -72,6 +106,13 @@ const Kreditera = () => {
     if (!profile?.organization_id) return;
 
     try {
+      const { data: requests } = await supabase
+        .from('credit_requests')
+        .select('contact_id')
+        .eq('organization_id', profile.organization_id)
+        .in('status', ['pending', 'approved']);
+      setRequestedContactIds(new Set((requests || []).map(r => r.contact_id)));
+
       const { data, error } = await supabase
         .from('contacts')
         .select(`
@@ -95,19 +136,58 @@ const Kreditera = () => {
     }
   };
 
+  const fetchHistory = async () => {
+    if (!profile?.organization_id) return;
+
+    const { data, error } = await supabase
+      .from('credit_requests')
+      .select(`
+        id, status, reason, decision_comment, decided_at, created_at,
+        contact:contacts(email),
+        reason_code_info:credit_reason_codes(label),
+        attachments:credit_request_attachments(id, file_name, storage_path, content_type)
+      `)
+      .eq('organization_id', profile.organization_id)
+      .order('created_at', { ascending: false })
+      .limit(50);
+
+    if (error) {
+      console.error('Error fetching credit request history:', error);
+      return;
+    }
+    setHistory((data || []) as unknown as CreditRequestHistoryItem[]);
+  };
+
+  const handleEvidenceSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = [...evidenceFiles, ...Array.from(e.target.files || [])];
+    e.target.value = '';
+
+    const problem = validateEvidenceFiles(files);
+    if (problem) {
+      toast({ title: 'Kan inte bifoga filen', description: problem, variant: 'destructive' });
+      return;
+    }
+    setEvidenceFiles(files);
+  };
+
+  // A free-text description is only required when no listed reason fits
+  const needsDescription = reasonCode === 'other';
+  const canSubmit = !!selectedContact && !!reasonCode && (!needsDescription || !!reason.trim());
+
   // Filter contacts to only show those within the credit deadline
   const eligibleContacts = useMemo(() => {
     return contacts.filter(contact => {
+      if (requestedContactIds.has(contact.id)) return false;
       const daysSinceSent = differenceInDays(new Date(), new Date(contact.date_sent));
       return daysSinceSent <= creditDeadlineDays;
     });
-  }, [contacts, creditDeadlineDays]);
+  }, [contacts, creditDeadlineDays, requestedContactIds]);
 
   const handleSubmit = async (force = false) => {
-    if (!selectedContact || !reason.trim() || !profile?.organization_id) {
+    if (!canSubmit || !profile?.organization_id) {
       toast({
         title: 'Fyll i alla fält',
-        description: 'Välj en deal och ange en anledning',
+        description: 'Välj en deal och en anledning',
         variant: 'destructive',
       });
       return;
@@ -136,55 +216,57 @@ const Kreditera = () => {
 
     setSubmitting(true);
     try {
-      const { error } = await supabase
+      const { data: request, error } = await supabase
         .from('credit_requests')
         .insert({
           contact_id: selectedContact,
           organization_id: profile.organization_id,
-          reason: reason.trim(),
+          reason_code: reasonCode,
+          reason: reason.trim() || null,
           requested_by: profile.id,
-        });
+        })
+        .select('id')
+        .single();
 
       if (error) {
         console.error('Error submitting credit request:', error);
         toast({
           title: 'Fel',
-          description: 'Kunde inte skicka kreditförfrågan',
+          description: getCreditErrorMessage(error),
           variant: 'destructive',
         });
         return;
       }
 
-      toast({
-        title: 'Förfrågan skickad',
-        description: 'Din kreditförfrågan har skickats till administratören',
-      });
+      const failedUploads = evidenceFiles.length > 0
+        ? await uploadCreditEvidence(profile.organization_id, request.id, profile.id, evidenceFiles)
+        : 0;
 
+      if (failedUploads > 0) {
+        toast({
+          title: 'Förfrågan skickad',
+          description: `${failedUploads} av ${evidenceFiles.length} filer kunde inte laddas upp`,
+          variant: 'destructive',
+        });
+      } else {
+        toast({
+          title: 'Förfrågan skickad',
+          description: 'Din kreditförfrågan har skickats till administratören',
+        });
+      }
+
+      setRequestedContactIds(prev => new Set(prev).add(selectedContact));
       setSelectedContact('');
+      setReasonCode('');
       setReason('');
+      setEvidenceFiles([]);
+      fetchHistory();
     } finally {
       setSubmitting(false);
       setPendingSubmit(false);
     }
   };
 
-  // Access denied for non-organization users
-  if (profile?.role !== 'organization') {
-    return (
-      <div className="flex items-center justify-center h-64">
-        <Card className="glass-card max-w-md w-full">
-          <CardContent className="pt-6 text-center">
-            <AlertTriangle className="w-12 h-12 text-amber-400 mx-auto mb-4" />
-            <h2 className="text-lg font-semibold text-foreground mb-2">Åtkomst nekad</h2>
-            <p className="text-muted-foreground">
-              Endast organisationer kan skicka kreditförfrågningar
-            </p>
-          </CardContent>
-        </Card>
-      </div>
-    );
-  }
-
   // Organization doesn't have credit permission
   if (canRequestCredits === false) {
     return (
@@ -271,19 +353,82 @@ const Kreditera = () => {
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="reason">Anledning</Label>
+            <Label htmlFor="reason_code">Anledning</Label>
+            <Select value={reasonCode} onValueChange={setReasonCode}>
+              <SelectTrigger id="reason_code">
+                <SelectValue placeholder="Välj anledning" />
+              </SelectTrigger>
+              <SelectContent>
+                {reasonCodes.map((code) => (
+                  <SelectItem key={code.code} value={code.code}>
+                    {code.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {reasonCodes.find(c => c.code === reasonCode)?.description && (
+              <p className="text-xs text-muted-foreground">
+                {reasonCodes.find(c => c.code === reasonCode)?.description}
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="reason">Beskrivning{needsDescription ? '' : ' (valfritt)'}</Label>
             <Textarea
               id="reason"
-              placeholder="Beskriv anledningen till kreditförfrågan..."
+              placeholder="Beskriv vad som hände med leadet..."
               value={reason}
               onChange={(e) => setReason(e.target.value)}
               rows={4}
             />
           </div>
 
+          <div className="space-y-2">
+            <Label htmlFor="evidence">Bevis (valfritt)</Label>
+            <p className="text-xs text-muted-foreground">
+              Samtalsinspelningar, skärmdumpar eller PDF. Högst {MAX_EVIDENCE_FILES} filer på 10 MB.
+            </p>
+            <input
+              id="evidence"
+              type="file"
+              multiple
+              accept={EVIDENCE_ACCEPT}
+              onChange={handleEvidenceSelected}
+              className="hidden"
+            />
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              className="gap-2"
+              onClick={() => document.getElementById('evidence')?.click()}
+              disabled={evidenceFiles.length >= MAX_EVIDENCE_FILES}
+            >
+              <Paperclip className="w-4 h-4" />
+              Bifoga fil
+            </Button>
+            {evidenceFiles.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {evidenceFiles.map((file, index) => (
+                  <Badge key={`${file.name}-${index}`} variant="secondary" className="gap-1">
+                    {file.name}
+                    <button
+                      type="button"
+                      onClick={() => setEvidenceFiles(prev => prev.filter((_, i) => i !== index))}
+                      aria-label={`Ta bort ${file.name}`}
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  </Badge>
+                ))}
+              </div>
+            )}
+          </div>
+
           <Button
             onClick={() => handleSubmit()}
-            disabled={submitting || !selectedContact || !reason.trim()}
+            disabled={submitting || !canSubmit}
             className="w-full"
           >
             {submitting ? (
@@ -298,6 +443,58 @@ const Kreditera = () => {
         </CardContent>
       </Card>
 
+      <Card className="glass-card">
+        <CardHeader>
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-lg bg-primary/20 flex items-center justify-center">
+              <History className="w-5 h-5 text-primary" />
+            </div>
+            <div>
+              <CardTitle>Mina kreditförfrågningar</CardTitle>
+              <CardDescription>Status och svar från administratören</CardDescription>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {history.length === 0 ? (
+            <EmptyState
+              icon={History}
+              title="Inga kreditförfrågningar"
+              description="Förfrågningar du skickar visas här"
+            />
+          ) : (
+            <div className="space-y-3">
+              {history.map((item) => (
+                <div key={item.id} className="p-3 rounded-lg border border-border space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="font-medium truncate">{item.contact?.email || '–'}</p>
+                      <p className="text-xs text-muted-foreground">
+                        Skickad {format(new Date(item.created_at), 'd MMM yyyy', { locale: sv })}
+                        {item.reason_code_info && ` • ${item.reason_code_info.label}`}
+                      </p>
+                    </div>
+                    <StatusBadge status={item.status} />
+                  </div>
+                  {item.reason && (
+                    <p className="text-sm text-muted-foreground whitespace-pre-wrap">{item.reason}</p>
+                  )}
+                  <CreditEvidenceList attachments={item.attachments} />
+                  {item.decision_comment && (
+                    <div className="p-2 rounded-md bg-muted/40 text-sm">
+                      <p className="text-xs text-muted-foreground mb-1">
+                        Svar{item.decided_at ? ` ${format(new Date(item.decided_at), 'd MMM yyyy', { locale: sv })}` : ''}
+                      </p>
+                      <p className="whitespace-pre-wrap">{item.decision_comment}</p>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
       <AlertDialog open={showWarning} onOpenChange={setShowWarning}>
         <AlertDialogContent>
           <AlertDialogHeader>
@@ -37,7 +37,7 @@ const Login = () => {
   }
 
   if (user) {
-    return <Navigate to="/deals" replace />;
+    return <Navigate to="/" replace />;
   }
 
   const handleAuth = async (mode: 'signin' | 'signup') => {
@@ -78,7 +78,7 @@ const Login = () => {
           description: 'Du kan nu logga in med dina uppgifter',
         });
       } else {
-        navigate('/deals');
+        navigate('/');
       }
     } finally {
       setIsSubmitting(false);
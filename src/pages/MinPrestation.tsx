@@ -0,0 +1,339 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHeader, TableRow } from '@/components/ui/table';
+import { ResizableTableHead } from '@/components/ui/resizable-table';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { StatCard } from '@/components/ui/stat-card';
+import { EmptyState } from '@/components/ui/empty-state';
+import { InterestBadge } from '@/components/ui/interest-badge';
+import { Gauge, CalendarDays, CalendarRange, Calendar, CheckCircle2, CreditCard, Wallet, TrendingUp, ChevronLeft, ChevronRight, Inbox } from 'lucide-react';
+import {
+  format, startOfMonth, endOfMonth, startOfWeek, subMonths, addMonths,
+  isSameMonth, isAfter, getDate, getDaysInMonth,
+} from 'date-fns';
+import { sv } from 'date-fns/locale';
+import { countApprovedCredits, isQualifiedLead, DEFAULT_OPENER_COMMISSION_PER_DEAL } from '@/lib/teams';
+import type { Database } from '@/integrations/supabase/types';
+
+interface PeriodCounts {
+  today: number;
+  week: number;
+  month: number;
+}
+
+interface MonthLead {
+  id: string;
+  email: string;
+  name: string | null;
+  interest: Database['public']['Enums']['interest_type'];
+  date_sent: string;
+  partners: string[];
+  qualified: boolean;
+  credits: number;
+}
+
+const toDateString = (date: Date) => format(date, 'yyyy-MM-dd');
+
+const MinPrestation = () => {
+  const { profile } = useAuth();
+  const [periodCounts, setPeriodCounts] = useState<PeriodCounts>({ today: 0, week: 0, month: 0 });
+  const [selectedMonth, setSelectedMonth] = useState(new Date());
+  const [leads, setLeads] = useState<MonthLead[]>([]);
+  const [commissionPerDeal, setCommissionPerDeal] = useState(DEFAULT_OPENER_COMMISSION_PER_DEAL);
+  const [loading, setLoading] = useState(true);
+  const [loadingMonth, setLoadingMonth] = useState(true);
+
+  useEffect(() => {
+    if (profile) {
+      fetchPeriodCounts();
+    }
+  }, [profile]);
+
+  useEffect(() => {
+    if (profile) {
+      fetchMonthLeads();
+    }
+  }, [profile, selectedMonth]);
+
+  const fetchPeriodCounts = async () => {
+    if (!profile) return;
+
+    const now = new Date();
+    const weekStart = startOfWeek(now, { weekStartsOn: 1 });
+    const monthStart = startOfMonth(now);
+    const from = weekStart < monthStart ? weekStart : monthStart;
+
+    const [{ data: contacts }, { data: ownProfile }] = await Promise.all([
+      supabase
+        .from('contacts')
+        .select('date_sent')
+        .eq('opener_id', profile.id)
+        .gte('date_sent', toDateString(from)),
+      supabase
+        .from('profiles')
+        .select('opener_commission_per_deal')
+        .eq('id', profile.id)
+        .single(),
+    ]);
+
+    const dates = contacts?.map(c => c.date_sent) || [];
+    setPeriodCounts({
+      today: dates.filter(d => d === toDateString(now)).length,
+      week: dates.filter(d => d >= toDateString(weekStart)).length,
+      month: dates.filter(d => d >= toDateString(monthStart)).length,
+    });
+    setCommissionPerDeal(ownProfile?.opener_commission_per_deal || DEFAULT_OPENER_COMMISSION_PER_DEAL);
+    setLoading(false);
+  };
+
+  const fetchMonthLeads = async () => {
+    if (!profile) return;
+
+    setLoadingMonth(true);
+    const { data, error } = await supabase
+      .from('contacts')
+      .select(`
+        id,
+        email,
+        name,
+        interest,
+        date_sent,
+        contact_organizations(organization:organizations(id, name)),
+        credit_requests(status, organization_id)
+      `)
+      .eq('opener_id', profile.id)
+      .gte('date_sent', toDateString(startOfMonth(selectedMonth)))
+      .lte('date_sent', toDateString(endOfMonth(selectedMonth)))
+      .order('date_sent', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching opener leads:', error);
+    }
+
+    setLeads((data || []).map(contact => ({
+      id: contact.id,
+      email: contact.email,
+      name: contact.name,
+      interest: contact.interest,
+      date_sent: contact.date_sent,
+      partners: contact.contact_organizations?.map(co => co.organization?.name).filter(Boolean) || [],
+      qualified: isQualifiedLead(contact),
+      credits: countApprovedCredits(contact),
+    })));
+    setLoadingMonth(false);
+  };
+
+  const monthSummary = useMemo(() => {
+    const qualifiedLeads = leads.filter(lead => lead.qualified).length;
+    const creditedLeads = leads.filter(lead => lead.credits > 0).length;
+    const earned = qualifiedLeads * commissionPerDeal;
+
+    // The current month is projected from the pace so far, past months are final
+    const now = new Date();
+    let projected = earned;
+    if (isSameMonth(selectedMonth, now)) {
+      projected = Math.round(earned / getDate(now) * getDaysInMonth(now));
+    } else if (isAfter(selectedMonth, now)) {
+      projected = 0;
+    }
+
+    return { qualifiedLeads, creditedLeads, earned, projected };
+  }, [leads, commissionPerDeal, selectedMonth]);
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('sv-SE', { style: 'currency', currency: 'SEK', minimumFractionDigits: 0 }).format(amount);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="flex flex-col items-center gap-3">
+          <div className="w-8 h-8 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+          <span className="text-muted-foreground text-sm">Laddar prestation...</span>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8 animate-fade-in">
+      {/* Header */}
+      <div className="page-header">
+        <div className="flex items-center gap-3 mb-2">
+          <div className="p-2 rounded-lg bg-primary/10">
+            <Gauge className="w-6 h-6 text-primary" />
+          </div>
+          <h1 className="page-title">Min prestation</h1>
+        </div>
+        <p className="page-description">
+          Dina leads, kvalificerade leads och provision
+        </p>
+      </div>
+
+      {/* Lead counts */}
+      <div className="grid gap-4 md:grid-cols-3">
+        <StatCard
+          title="Leads idag"
+          value={periodCounts.today}
+          subtitle={format(new Date(), 'EEEE d MMMM', { locale: sv })}
+          icon={CalendarDays}
+          iconColor="text-primary"
+        />
+        <StatCard
+          title="Leads denna vecka"
+          value={periodCounts.week}
+          subtitle={`Vecka ${format(new Date(), 'I', { locale: sv })}`}
+          icon={CalendarRange}
+          iconColor="text-primary"
+        />
+        <StatCard
+          title="Leads denna månad"
+          value={periodCounts.month}
+          subtitle={format(new Date(), 'MMMM yyyy', { locale: sv })}
+          icon={Calendar}
+          iconColor="text-primary"
+        />
+      </div>
+
+      {/* Month Navigation */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Calendar className="w-5 h-5 text-primary" />
+          <span className="text-sm font-medium text-muted-foreground">Månad:</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="icon" onClick={() => setSelectedMonth(prev => subMonths(prev, 1))}>
+            <ChevronLeft className="w-4 h-4" />
+          </Button>
+          <span className="min-w-40 text-center font-medium">
+            {format(selectedMonth, 'MMMM yyyy', { locale: sv })}
+          </span>
+          <Button variant="outline" size="icon" onClick={() => setSelectedMonth(prev => addMonths(prev, 1))}>
+            <ChevronRight className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+
+      {/* Month summary */}
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+        <StatCard
+          title="Kvalificerade leads"
+          value={monthSummary.qualifiedLeads}
+          subtitle={`Av ${leads.length} leads`}
+          icon={CheckCircle2}
+          iconColor="text-success"
+          valueColor="text-success"
+        />
+        <StatCard
+          title="Krediterade leads"
+          value={monthSummary.creditedLeads}
+          subtitle="Minst en partner krediterad"
+          icon={CreditCard}
+          iconColor="text-warning"
+          valueColor="text-warning"
+        />
+        <StatCard
+          title="Intjänad provision"
+          value={formatCurrency(monthSummary.earned)}
+          subtitle={`${formatCurrency(commissionPerDeal)} per kvalificerat lead`}
+          icon={Wallet}
+          iconColor="text-primary"
+        />
+        <StatCard
+          title="Prognos"
+          value={formatCurrency(monthSummary.projected)}
+          subtitle="Provision för hela månaden i nuvarande takt"
+          icon={TrendingUp}
+          iconColor="text-violet-500"
+        />
+      </div>
+
+      {/* Leads */}
+      <Card className="glass-card">
+        <CardHeader>
+          <CardTitle>Månadens leads</CardTitle>
+          <CardDescription>
+            Ett lead kvalificerar när det är sålt till 2+ partners som inte krediterat det
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loadingMonth ? (
+            <div className="flex items-center justify-center h-32">
+              <div className="w-6 h-6 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+            </div>
+          ) : leads.length === 0 ? (
+            <EmptyState
+              icon={Inbox}
+              title="Inga leads"
+              description="Du har inga leads skickade denna månad"
+            />
+          ) : (
+            <div className="rounded-xl border border-border overflow-hidden">
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-muted/50 hover:bg-muted/50">
+                    <ResizableTableHead className="font-semibold">Lead</ResizableTableHead>
+                    <ResizableTableHead className="font-semibold">Intresse</ResizableTableHead>
+                    <ResizableTableHead className="font-semibold">Skickat</ResizableTableHead>
+                    <ResizableTableHead className="font-semibold">Partners</ResizableTableHead>
+                    <ResizableTableHead className="font-semibold">Status</ResizableTableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {leads.map(lead => (
+                    <TableRow key={lead.id} className="hover:bg-muted/30">
+                      <TableCell>
+                        <p className="font-medium">{lead.name || lead.email}</p>
+                        {lead.name && <p className="text-sm text-muted-foreground">{lead.email}</p>}
+                      </TableCell>
+                      <TableCell>
+                        <InterestBadge interest={lead.interest} />
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">
+                        {format(new Date(lead.date_sent), 'd MMM yyyy', { locale: sv })}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {lead.partners.length > 0 ? (
+                            lead.partners.map((partner, i) => (
+                              <span key={i} className="px-2 py-0.5 text-xs rounded-full bg-muted">
+                                {partner}
+                              </span>
+                            ))
+                          ) : (
+                            <span className="text-muted-foreground text-sm">Inga partners</span>
+                          )}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {lead.qualified ? (
+                            <Badge className="bg-emerald-500/15 text-emerald-600 border border-emerald-500/30 hover:bg-emerald-500/15">
+                              Kvalificerad
+                            </Badge>
+                          ) : (
+                            <Badge variant="secondary">Ej kvalificerad</Badge>
+                          )}
+                          {lead.credits > 0 && (
+                            <Badge className="bg-amber-500/15 text-amber-600 border border-amber-500/30 hover:bg-amber-500/15">
+                              {lead.credits === 1 ? 'Krediterad' : `Krediterad ×${lead.credits}`}
+                            </Badge>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default MinPrestation;
@@ -0,0 +1,306 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHeader, TableRow } from '@/components/ui/table';
+import { ResizableTableHead } from '@/components/ui/resizable-table';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { StatCard } from '@/components/ui/stat-card';
+import { EmptyState } from '@/components/ui/empty-state';
+import { InterestBadge } from '@/components/ui/interest-badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Briefcase, Inbox, Wallet, Trophy, Percent, Mail, Phone, MapPin, Pencil } from 'lucide-react';
+import { format, startOfMonth, subMonths } from 'date-fns';
+import { sv } from 'date-fns/locale';
+import { cn } from '@/lib/utils';
+import { fetchPriceHistory, type PriceHistoryEntry } from '@/lib/pricing';
+import { fetchCreditLedgerSince, type CreditLedgerEntry } from '@/lib/creditLedger';
+import {
+  LOST_REASON_LABELS,
+  PARTNER_OUTCOMES,
+  PARTNER_OUTCOME_LABELS,
+  fetchPartnerLeads,
+  fetchPartnerOrganization,
+  summarizeMonthlyCosts,
+  summarizePartnerOutcomes,
+  type PartnerLead,
+  type PartnerLeadOutcome,
+  type PartnerOrganization,
+} from '@/lib/partnerPortal';
+import { PartnerLeadOutcomeDialog } from '@/components/partners/PartnerLeadOutcomeDialog';
+
+const ALL_OUTCOMES = 'all';
+const COST_HISTORY_MONTHS = 12;
+
+const OUTCOME_BADGE_CLASSES: Partial<Record<PartnerLeadOutcome, string>> = {
+  won: 'bg-emerald-500/15 text-emerald-600 border border-emerald-500/30 hover:bg-emerald-500/15',
+  lost: 'bg-red-500/15 text-red-600 border border-red-500/30 hover:bg-red-500/15',
+};
+
+const PartnerPortal = () => {
+  const { profile } = useAuth();
+  const [organization, setOrganization] = useState<PartnerOrganization | null>(null);
+  const [leads, setLeads] = useState<PartnerLead[]>([]);
+  const [priceHistory, setPriceHistory] = useState<PriceHistoryEntry[]>([]);
+  const [ledger, setLedger] = useState<CreditLedgerEntry[]>([]);
+  const [outcomeFilter, setOutcomeFilter] = useState<string>(ALL_OUTCOMES);
+  const [editingLead, setEditingLead] = useState<PartnerLead | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const months = useMemo(
+    () => Array.from({ length: COST_HISTORY_MONTHS }, (_, i) => startOfMonth(subMonths(new Date(), i))),
+    []
+  );
+
+  useEffect(() => {
+    if (profile?.organization_id) {
+      fetchPortalData(profile.organization_id);
+    }
+  }, [profile]);
+
+  const fetchPortalData = async (organizationId: string) => {
+    try {
+      const [org, orgLeads, history, ledgerEntries] = await Promise.all([
+        fetchPartnerOrganization(organizationId),
+        fetchPartnerLeads(organizationId),
+        fetchPriceHistory(organizationId),
+        fetchCreditLedgerSince(format(months[months.length - 1], 'yyyy-MM-dd')),
+      ]);
+      setOrganization(org);
+      setLeads(orgLeads);
+      setPriceHistory(history);
+      setLedger(ledgerEntries);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const refreshLeads = async () => {
+    if (!profile?.organization_id) return;
+    setLeads(await fetchPartnerLeads(profile.organization_id));
+  };
+
+  const monthlyCosts = useMemo(
+    () => (organization ? summarizeMonthlyCosts(months, leads, organization, priceHistory, ledger) : []),
+    [months, leads, organization, priceHistory, ledger]
+  );
+
+  const outcomeSummary = useMemo(() => summarizePartnerOutcomes(leads.map(lead => lead.partner_outcome)), [leads]);
+
+  const filteredLeads = useMemo(
+    () => (outcomeFilter === ALL_OUTCOMES ? leads : leads.filter(lead => lead.partner_outcome === outcomeFilter)),
+    [leads, outcomeFilter]
+  );
+
+  const currentMonth = monthlyCosts[0];
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('sv-SE', { style: 'currency', currency: 'SEK', minimumFractionDigits: 0 }).format(amount);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="flex flex-col items-center gap-3">
+          <div className="w-8 h-8 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+          <span className="text-muted-foreground text-sm">Laddar partnerportal...</span>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8 animate-fade-in">
+      {/* Header */}
+      <div className="page-header">
+        <div className="flex items-center gap-3 mb-2">
+          <div className="p-2 rounded-lg bg-primary/10">
+            <Briefcase className="w-6 h-6 text-primary" />
+          </div>
+          <h1 className="page-title">Partnerportal</h1>
+        </div>
+        <p className="page-description">
+          {organization?.name ? `Leads skickade till ${organization.name}` : 'Leads skickade till er'}
+        </p>
+      </div>
+
+      {/* Summary */}
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+        <StatCard
+          title="Leads denna månad"
+          value={currentMonth?.leads ?? 0}
+          subtitle={`${leads.length} totalt`}
+          icon={Inbox}
+          iconColor="text-primary"
+        />
+        <StatCard
+          title="Kostnad denna månad"
+          value={formatCurrency(currentMonth?.cost ?? 0)}
+          subtitle={currentMonth?.creditedLeads ? `${currentMonth.creditedLeads} krediterade leads avdragna` : 'Exkl. moms'}
+          icon={Wallet}
+          iconColor="text-primary"
+        />
+        <StatCard
+          title="Vunna affärer"
+          value={outcomeSummary.won}
+          subtitle={`${outcomeSummary.lost} förlorade, ${outcomeSummary.open} pågående`}
+          icon={Trophy}
+          iconColor="text-success"
+          valueColor="text-success"
+        />
+        <StatCard
+          title="Close rate"
+          value={`${outcomeSummary.closeRate.toFixed(0)}%`}
+          subtitle="Vunna av alla mottagna leads"
+          icon={Percent}
+          iconColor="text-violet-500"
+        />
+      </div>
+
+      {/* Monthly cost */}
+      <Card className="glass-card">
+        <CardHeader>
+          <CardTitle>Kostnad per månad</CardTitle>
+          <CardDescription>
+            Leads prissätts enligt det pris som gällde när de skickades
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="rounded-xl border border-border overflow-hidden">
+            <Table>
+              <TableHeader>
+                <TableRow className="bg-muted/50 hover:bg-muted/50">
+                  <ResizableTableHead className="font-semibold">Månad</ResizableTableHead>
+                  <ResizableTableHead className="font-semibold text-right">Leads</ResizableTableHead>
+                  <ResizableTableHead className="font-semibold text-right">Krediterade</ResizableTableHead>
+                  <ResizableTableHead className="font-semibold text-right">Kostnad</ResizableTableHead>
+                  <ResizableTableHead className="font-semibold text-right">Kreditnotor</ResizableTableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {monthlyCosts.map(month => (
+                  <TableRow key={month.month} className="hover:bg-muted/30">
+                    <TableCell className="font-medium capitalize">
+                      {format(new Date(month.month), 'MMMM yyyy', { locale: sv })}
+                    </TableCell>
+                    <TableCell className="text-right">{month.leads}</TableCell>
+                    <TableCell className="text-right text-muted-foreground">{month.creditedLeads}</TableCell>
+                    <TableCell className="text-right font-medium">{formatCurrency(month.cost)}</TableCell>
+                    <TableCell className="text-right text-muted-foreground">
+                      {month.creditNotes > 0 ? `−${formatCurrency(month.creditNotes)}` : '–'}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Leads */}
+      <Card className="glass-card">
+        <CardHeader className="flex flex-row items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle>Mottagna leads</CardTitle>
+            <CardDescription>
+              Uppdatera utfallet på varje lead så att vi kan skicka rätt leads till er
+            </CardDescription>
+          </div>
+          <Select value={outcomeFilter} onValueChange={setOutcomeFilter}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_OUTCOMES}>Alla utfall</SelectItem>
+              {PARTNER_OUTCOMES.map(key => (
+                <SelectItem key={key} value={key}>{PARTNER_OUTCOME_LABELS[key]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent>
+          {filteredLeads.length === 0 ? (
+            <EmptyState
+              icon={Inbox}
+              title="Inga leads"
+              description={outcomeFilter === ALL_OUTCOMES ? 'Ni har inte fått några leads ännu' : 'Inga leads med det utfallet'}
+            />
+          ) : (
+            <div className="rounded-xl border border-border overflow-hidden">
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-muted/50 hover:bg-muted/50">
+                    <ResizableTableHead className="font-semibold">Kund</ResizableTableHead>
+                    <ResizableTableHead className="font-semibold">Intresse</ResizableTableHead>
+                    <ResizableTableHead className="font-semibold">Skickat</ResizableTableHead>
+                    <ResizableTableHead className="font-semibold">Utfall</ResizableTableHead>
+                    <ResizableTableHead className="font-semibold">Anteckningar</ResizableTableHead>
+                    <ResizableTableHead className="w-12" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredLeads.map(lead => (
+                    <TableRow key={lead.id} className="hover:bg-muted/30">
+                      <TableCell>
+                        <p className="font-medium">{lead.contact.name || lead.contact.email}</p>
+                        <div className="text-sm text-muted-foreground space-y-0.5">
+                          <p className="flex items-center gap-1.5"><Mail className="w-3 h-3" />{lead.contact.email}</p>
+                          {lead.contact.phone && (
+                            <p className="flex items-center gap-1.5"><Phone className="w-3 h-3" />{lead.contact.phone}</p>
+                          )}
+                          {lead.contact.address && (
+                            <p className="flex items-center gap-1.5">
+                              <MapPin className="w-3 h-3" />
+                              {[lead.contact.address, lead.contact.postal_code].filter(Boolean).join(', ')}
+                            </p>
+                          )}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <InterestBadge interest={lead.contact.interest} />
+                      </TableCell>
+                      <TableCell className="text-muted-foreground whitespace-nowrap">
+                        {format(new Date(lead.contact.date_sent), 'd MMM yyyy', { locale: sv })}
+                      </TableCell>
+                      <TableCell>
+                        <Badge
+                          variant={OUTCOME_BADGE_CLASSES[lead.partner_outcome] ? 'default' : 'secondary'}
+                          className={cn(OUTCOME_BADGE_CLASSES[lead.partner_outcome])}
+                        >
+                          {PARTNER_OUTCOME_LABELS[lead.partner_outcome]}
+                        </Badge>
+                        {lead.partner_lost_reason && (
+                          <p className="text-xs text-muted-foreground mt-1">
+                            {LOST_REASON_LABELS[lead.partner_lost_reason] || lead.partner_lost_reason}
+                          </p>
+                        )}
+                      </TableCell>
+                      <TableCell className="max-w-xs">
+                        <p className="text-sm text-muted-foreground line-clamp-2 whitespace-pre-wrap">
+                          {lead.partner_notes || '–'}
+                        </p>
+                      </TableCell>
+                      <TableCell>
+                        <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => setEditingLead(lead)}>
+                          <Pencil className="w-4 h-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <PartnerLeadOutcomeDialog
+        lead={editingLead}
+        onOpenChange={(open) => !open && setEditingLead(null)}
+        onSaved={refreshLeads}
+      />
+    </div>
+  );
+};
+
+export default PartnerPortal;
@@ -1,7 +1,5 @@
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
-import { supabase } from '@/integrations/supabase/client';
-import { Navigate } from 'react-router-dom';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Table, TableBody, TableCell, TableHeader, TableRow } from '@/components/ui/table';
 import { ResizableTableHead } from '@/components/ui/resizable-table';
@@ -11,17 +9,27 @@ import { EmptyState } from '@/components/ui/empty-state';
 import { CreateOrganizationDialog } from '@/components/admin/CreateOrganizationDialog';
 import { BulkImportPartnersDialog } from '@/components/admin/BulkImportPartnersDialog';
 import { EditPartnerDialog } from '@/components/admin/EditPartnerDialog';
+import {
+  useDeleteOrganization,
+  useInvalidateOrganizations,
+  usePartnerStats,
+  useSetOrganizationStatus,
+  type PartnerStats,
+} from '@/hooks/queries/use-organizations';
 import { CollapsibleSection } from '@/components/partners/CollapsibleSection';
-import { PartnerGoalsSettings, DEFAULT_SETTINGS, getThresholdColor, type ThresholdSettings } from '@/components/partners/PartnerGoalsSettings';
+import { PartnerGoalsSettings } from '@/components/partners/PartnerGoalsSettings';
 import { PartnerBriefingDialog } from '@/components/partners/PartnerBriefingDialog';
 import { InvoicingOverview } from '@/components/partners/InvoicingOverview';
 import { CreditsManagement } from '@/components/partners/CreditsManagement';
 import { PartnerOverviewStats } from '@/components/partners/PartnerOverviewStats';
 import { PartnerTimelineSection } from '@/components/partners/PartnerTimelineSection';
 import { PartnerQuotasSection } from '@/components/partners/PartnerQuotasSection';
+import { CreditAnalyticsSection } from '@/components/partners/CreditAnalyticsSection';
+import { CreditAlertsPanel } from '@/components/partners/CreditAlertsPanel';
+import { FollowUpList } from '@/components/pipeline/FollowUpList';
 import { Separator } from '@/components/ui/separator';
-import { Building2, TrendingUp, Sun, Battery, Calendar, Archive, Trash2, ExternalLink, Target, FileText, CreditCard, Settings2, Clock } from 'lucide-react';
-import { format, subMonths, startOfMonth, endOfMonth } from 'date-fns';
+import { Building2, TrendingUp, Sun, Battery, Calendar, Archive, Trash2, ExternalLink, Target, FileText, CreditCard, Settings2, Clock, Percent } from 'lucide-react';
+import { format, subMonths } from 'date-fns';
 import { sv } from 'date-fns/locale';
 import { toast } from 'sonner';
 import {
@@ -35,24 +43,6 @@ import {
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
 
-interface PartnerStats {
-  id: string;
-  name: string;
-  status: 'active' | 'archived';
-  contact_person_name: string | null;
-  contact_phone: string | null;
-  totalLeads: number;
-  solarLeads: number;
-  batteryLeads: number;
-  sunBatteryLeads: number;
-  totalValue: number;
-  requestedCredits: number;
-  approvedCredits: number;
-  pricePerSolar: number;
-  pricePerBattery: number;
-  closeRate: number;
-}
-
 interface Organization {
   id: string;
   name: string;
@@ -61,6 +51,7 @@ interface Organization {
   contact_phone: string | null;
   price_per_solar_deal: number | null;
   price_per_battery_deal: number | null;
+  price_per_sun_battery_deal?: number | null;
   price_per_site_visit: number | null;
   is_sales_consultant?: boolean;
   billing_model?: string;
@@ -68,8 +59,6 @@ interface Organization {
 
 const Partners = () => {
   const { profile } = useAuth();
-  const [partners, setPartners] = useState<PartnerStats[]>([]);
-  const [loading, setLoading] = useState(true);
   const [statusFilter, setStatusFilter] = useState<'active' | 'archived'>('active');
   const [selectedMonth, setSelectedMonth] = useState(() => {
     const now = new Date();
@@ -78,7 +67,8 @@ const Partners = () => {
   const [deletePartner, setDeletePartner] = useState<{ id: string; name: string } | null>(null);
   const [briefingPartner, setBriefingPartner] = useState<PartnerStats | null>(null);
   const [editingOrg, setEditingOrg] = useState<Organization | null>(null);
-  const [thresholdSettings, setThresholdSettings] = useState<ThresholdSettings>(DEFAULT_SETTINGS);
+  // Bumped when goal thresholds are saved so the sections judging against them reload
+  const [goalsVersion, setGoalsVersion] = useState(0);
 
   const monthOptions = Array.from({ length: 12 }, (_, i) => {
     const date = subMonths(new Date(), i);
@@ -88,184 +78,37 @@ const Partners = () => {
     };
   });
 
-  useEffect(() => {
-    if (profile?.role === 'admin') {
-      fetchPartnerStats();
-    }
-  }, [profile, statusFilter, selectedMonth]);
-
-  const fetchPartnerStats = async () => {
-    try {
-      const selectedDate = new Date(selectedMonth + '-01');
-      const leadsStart = startOfMonth(selectedDate);
-      const leadsEnd = endOfMonth(selectedDate);
-
-      // Get all organizations first
-      const { data: allOrganizations } = await supabase
-        .from('organizations')
-        .select('id, name, price_per_solar_deal, price_per_battery_deal, price_per_site_visit, status, contact_person_name, contact_phone, is_sales_consultant, billing_model');
-
-      if (!allOrganizations) {
-        setPartners([]);
-        return;
-      }
-
-      // Get status history to filter by status during selected period
-      const periodStart = leadsStart.toISOString();
-      const periodEnd = leadsEnd.toISOString();
-      
-      const { data: statusHistory } = await supabase
-        .from('organization_status_history')
-        .select('organization_id, status, effective_from, effective_until');
-
-      // Filter organizations that had the selected status during the period
-      const organizations = allOrganizations.filter(org => {
-        const orgHistory = statusHistory?.filter(h => h.organization_id === org.id) || [];
-        
-        if (orgHistory.length === 0) {
-          // No history, fallback to current status
-          return org.status === statusFilter;
-        }
-
-        // Check if any status period overlaps with the selected period and matches the filter
-        return orgHistory.some(h => {
-          if (h.status !== statusFilter) return false;
-          
-          const historyStart = new Date(h.effective_from);
-          const historyEnd = h.effective_until ? new Date(h.effective_until) : new Date();
-          
-          // Check for overlap: period overlaps if it starts before history ends AND ends after history starts
-          return historyStart <= leadsEnd && historyEnd >= leadsStart;
-        });
-      });
-
-      const { data: contacts } = await supabase
-        .from('contacts')
-        .select('id, interest, date_sent')
-        .gte('date_sent', format(leadsStart, 'yyyy-MM-dd'))
-        .lte('date_sent', format(leadsEnd, 'yyyy-MM-dd'));
-
-      const { data: contactOrgs } = await supabase
-        .from('contact_organizations')
-        .select('organization_id, contact_id');
-
-      const { data: creditRequests } = await supabase
-        .from('credit_requests')
-        .select('organization_id, status, contact_id');
-
-      const { data: sales } = await supabase
-        .from('sales')
-        .select('organization_id, pipeline_status');
-
-      const contactInterestMap = new Map(contacts?.map(c => [c.id, c.interest]) || []);
-      const contactIdsInPeriod = new Set(contacts?.map(c => c.id) || []);
+  const { data: partners = [], isPending: loading } = usePartnerStats(selectedMonth, statusFilter, profile?.role === 'admin');
+  const invalidatePartners = useInvalidateOrganizations();
+  const setOrganizationStatus = useSetOrganizationStatus();
+  const deleteOrganization = useDeleteOrganization();
 
-      const partnerStats: PartnerStats[] = organizations.map((org) => {
-        const orgContactLinks = contactOrgs?.filter(co => 
-          co.organization_id === org.id && contactIdsInPeriod.has(co.contact_id)
-        ) || [];
-        
-        const orgCredits = creditRequests?.filter(cr => cr.organization_id === org.id) || [];
-        const orgSales = sales?.filter(s => s.organization_id === org.id) || [];
-        
-        let solarLeads = 0;
-        let batteryLeads = 0;
-        let sunBatteryLeads = 0;
-
-        orgContactLinks.forEach(link => {
-          const interest = contactInterestMap.get(link.contact_id);
-          if (interest === 'sun') solarLeads++;
-          else if (interest === 'battery') batteryLeads++;
-          else if (interest === 'sun_battery') sunBatteryLeads++;
-        });
-        
-        const solarPrice = org.price_per_solar_deal || 0;
-        const batteryPrice = org.price_per_battery_deal || 0;
-        const totalValue = (solarLeads * solarPrice) + (batteryLeads * batteryPrice) + (sunBatteryLeads * (solarPrice + batteryPrice));
-
-        const requestedCredits = orgCredits.length;
-        const approvedCredits = orgCredits.filter(cr => cr.status === 'approved').length;
-
-        const totalDeals = orgSales.length;
-        const wonDeals = orgSales.filter(s => s.pipeline_status === 'won').length;
-        const closeRate = totalDeals > 0 ? (wonDeals / totalDeals) * 100 : 0;
-
-        return {
-          id: org.id,
-          name: org.name,
-          status: org.status as 'active' | 'archived',
-          contact_person_name: org.contact_person_name,
-          contact_phone: org.contact_phone,
-          totalLeads: orgContactLinks.length,
-          solarLeads,
-          batteryLeads,
-          sunBatteryLeads,
-          totalValue,
-          requestedCredits,
-          approvedCredits,
-          pricePerSolar: solarPrice,
-          pricePerBattery: batteryPrice,
-          closeRate,
-        };
-      });
-
-      partnerStats.sort((a, b) => b.totalLeads - a.totalLeads);
-      setPartners(partnerStats);
-    } finally {
-      setLoading(false);
-    }
+  const handleArchivePartner = (partnerId: string) => {
+    setOrganizationStatus.mutate({ organizationId: partnerId, status: 'archived' }, {
+      onSuccess: () => toast.success('Partner arkiverad'),
+      onError: () => toast.error('Kunde inte arkivera partner'),
+    });
   };
 
-  const handleArchivePartner = async (partnerId: string) => {
-    const { error } = await supabase
-      .from('organizations')
-      .update({ status: 'archived' })
-      .eq('id', partnerId);
-
-    if (error) {
-      toast.error('Kunde inte arkivera partner');
-      return;
-    }
-    toast.success('Partner arkiverad');
-    fetchPartnerStats();
+  const handleActivatePartner = (partnerId: string) => {
+    setOrganizationStatus.mutate({ organizationId: partnerId, status: 'active' }, {
+      onSuccess: () => toast.success('Partner aktiverad'),
+      onError: () => toast.error('Kunde inte aktivera partner'),
+    });
   };
 
-  const handleActivatePartner = async (partnerId: string) => {
-    const { error } = await supabase
-      .from('organizations')
-      .update({ status: 'active' })
-      .eq('id', partnerId);
-
-    if (error) {
-      toast.error('Kunde inte aktivera partner');
-      return;
-    }
-    toast.success('Partner aktiverad');
-    fetchPartnerStats();
-  };
-
-  const handleDeletePartner = async () => {
+  const handleDeletePartner = () => {
     if (!deletePartner) return;
 
-    const { error } = await supabase
-      .from('organizations')
-      .delete()
-      .eq('id', deletePartner.id);
-
-    if (error) {
-      toast.error('Kunde inte ta bort partner: ' + error.message);
-      return;
-    }
-
-    toast.success('Partner borttagen');
-    setDeletePartner(null);
-    fetchPartnerStats();
+    deleteOrganization.mutate(deletePartner.id, {
+      onSuccess: () => {
+        toast.success('Partner borttagen');
+        setDeletePartner(null);
+      },
+      onError: (error) => toast.error('Kunde inte ta bort partner: ' + error.message),
+    });
   };
 
-  if (profile?.role !== 'admin') {
-    return <Navigate to="/deals" replace />;
-  }
-
   if (loading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -309,17 +152,20 @@ const Partners = () => {
               </SelectContent>
             </Select>
           </div>
-          <BulkImportPartnersDialog onImported={fetchPartnerStats} />
-          <CreateOrganizationDialog onCreated={fetchPartnerStats} />
+          <BulkImportPartnersDialog onImported={invalidatePartners} />
+          <CreateOrganizationDialog onCreated={invalidatePartners} />
         </div>
       </div>
 
+      {/* Partner follow-ups from test batches */}
+      {profile && <FollowUpList userId={profile.id} partnersOnly />}
+
       {/* Overview Stats */}
-      <PartnerOverviewStats selectedMonth={selectedMonth} />
+      <PartnerOverviewStats selectedMonth={selectedMonth} goalsVersion={goalsVersion} />
 
       {/* Goals Settings */}
       <CollapsibleSection title="Mål & Tröskelvärden" icon={<Target className="w-5 h-5 text-primary" />} defaultOpen={false}>
-        <PartnerGoalsSettings onSettingsChange={setThresholdSettings} />
+        <PartnerGoalsSettings selectedMonth={selectedMonth} onSaved={() => setGoalsVersion(v => v + 1)} />
       </CollapsibleSection>
 
       {/* Partner Statistics */}
@@ -358,6 +204,7 @@ const Partners = () => {
                     <ResizableTableHead className="text-center font-semibold">Önskade</ResizableTableHead>
                     <ResizableTableHead className="text-center font-semibold">Godkända</ResizableTableHead>
                     <ResizableTableHead className="text-center font-semibold">Close rate</ResizableTableHead>
+                    <ResizableTableHead className="text-center font-semibold" title="Enligt utfall som partnern rapporterat i partnerportalen">Egen close rate</ResizableTableHead>
                     <ResizableTableHead className="text-right font-semibold">Att fakturera</ResizableTableHead>
                     <ResizableTableHead className="w-32 font-semibold">Åtgärder</ResizableTableHead>
                   </TableRow>
@@ -381,6 +228,7 @@ const Partners = () => {
                       <TableCell className="text-center"><span className="text-amber-600">{partner.requestedCredits}</span></TableCell>
                       <TableCell className="text-center"><span className="text-success">{partner.approvedCredits}</span></TableCell>
                       <TableCell className="text-center"><span className={`px-2 py-1 rounded text-sm font-medium ${partner.closeRate >= 20 ? 'text-emerald-600 bg-emerald-500/10' : partner.closeRate >= 10 ? 'text-amber-600 bg-amber-500/10' : 'text-red-600 bg-red-500/10'}`}>{partner.closeRate.toFixed(0)}%</span></TableCell>
+                      <TableCell className="text-center">{partner.partnerCloseRate === null ? <span className="text-muted-foreground">–</span> : <span className="font-medium">{partner.partnerCloseRate.toFixed(0)}%</span>}</TableCell>
                       <TableCell className="text-right"><span className="font-semibold text-success">{partner.totalValue.toLocaleString('sv-SE')} kr</span></TableCell>
                       <TableCell>
                         <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
@@ -411,7 +259,16 @@ const Partners = () => {
       </CollapsibleSection>
       {/* Credits Management */}
       <CollapsibleSection title="Krediter" icon={<CreditCard className="w-5 h-5 text-primary" />} defaultOpen={false}>
-        <CreditsManagement selectedMonth={selectedMonth} onUpdate={fetchPartnerStats} />
+        <CreditsManagement selectedMonth={selectedMonth} onUpdate={invalidatePartners} />
+      </CollapsibleSection>
+
+      {/* Credit rates and alerts */}
+      <CollapsibleSection title="Kreditanalys" icon={<Percent className="w-5 h-5 text-primary" />} defaultOpen={false}>
+        <div className="space-y-8">
+          <CreditAlertsPanel />
+          <Separator />
+          <CreditAnalyticsSection selectedMonth={selectedMonth} />
+        </div>
       </CollapsibleSection>
 
       {/* Historik och planering */}
@@ -425,7 +282,7 @@ const Partners = () => {
             <PartnerQuotasSection selectedMonth={selectedMonth} />
           </div>
           <Separator />
-          <PartnerTimelineSection selectedMonth={selectedMonth} />
+          <PartnerTimelineSection selectedMonth={selectedMonth} goalsVersion={goalsVersion} />
         </div>
       </CollapsibleSection>
 
@@ -453,7 +310,7 @@ const Partners = () => {
         </AlertDialogContent>
       </AlertDialog>
 
-      <EditPartnerDialog partner={editingOrg} open={!!editingOrg} onOpenChange={(open) => !open && setEditingOrg(null)} onUpdated={fetchPartnerStats} />
+      <EditPartnerDialog partner={editingOrg} open={!!editingOrg} onOpenChange={(open) => !open && setEditingOrg(null)} onUpdated={invalidatePartners} />
     </div>
   );
 };
@@ -0,0 +1,197 @@
+import { useState, useMemo } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { InterestBadge } from '@/components/ui/interest-badge';
+import { SaleStageHistoryDialog } from '@/components/pipeline/SaleStageHistoryDialog';
+import { FollowUpList } from '@/components/pipeline/FollowUpList';
+import { toast } from 'sonner';
+import { Kanban, Building2, Phone, Filter } from 'lucide-react';
+import { format } from 'date-fns';
+import { sv } from 'date-fns/locale';
+import { cn } from '@/lib/utils';
+import { PIPELINE_STAGES, type PipelineStatus } from '@/lib/pipeline';
+import { useClosers, useMovePipelineSale, usePipelineSales, type PipelineSale } from '@/hooks/queries/use-sales';
+
+const Pipeline = () => {
+  const { profile } = useAuth();
+  const [filterCloser, setFilterCloser] = useState<string>('all');
+  const [draggedSaleId, setDraggedSaleId] = useState<string | null>(null);
+  const [dragOverStage, setDragOverStage] = useState<PipelineStatus | null>(null);
+  const [historySale, setHistorySale] = useState<PipelineSale | null>(null);
+
+  const isAdmin = profile?.role === 'admin';
+  const canViewPipeline = profile?.role === 'admin' || profile?.role === 'closer';
+
+  // Closers only see their own sales
+  const salesQuery = usePipelineSales(profile?.role === 'closer' ? profile.id : null, canViewPipeline);
+  const { data: closers = [] } = useClosers(isAdmin);
+  const movePipelineSale = useMovePipelineSale();
+
+  const sales = useMemo(() => salesQuery.data || [], [salesQuery.data]);
+  const loading = salesQuery.isLoading;
+
+  const moveSale = (saleId: string, toStatus: PipelineStatus) => {
+    const sale = sales.find(s => s.id === saleId);
+    if (!sale || sale.pipeline_status === toStatus) return;
+
+    movePipelineSale.mutate({ saleId, toStatus }, {
+      onSuccess: () => {
+        if (toStatus === 'closed_won') {
+          toast.success('Affären markerad som vunnen');
+        }
+      },
+      onError: () => toast.error('Kunde inte flytta affären'),
+    });
+  };
+
+  const handleDrop = (e: React.DragEvent, stage: PipelineStatus) => {
+    e.preventDefault();
+    if (draggedSaleId) {
+      moveSale(draggedSaleId, stage);
+    }
+    setDraggedSaleId(null);
+    setDragOverStage(null);
+  };
+
+  const visibleSales = useMemo(() => {
+    if (filterCloser === 'all') return sales;
+    return sales.filter(s => s.closer_id === filterCloser);
+  }, [sales, filterCloser]);
+
+  const salesByStage = useMemo(() => {
+    const grouped: Record<string, PipelineSale[]> = {};
+    PIPELINE_STAGES.forEach(stage => { grouped[stage.key] = []; });
+    visibleSales.forEach(sale => {
+      grouped[sale.pipeline_status]?.push(sale);
+    });
+    return grouped;
+  }, [visibleSales]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="flex flex-col items-center gap-3">
+          <div className="w-8 h-8 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+          <span className="text-muted-foreground text-sm">Laddar pipeline...</span>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div className="page-header mb-0">
+          <div className="flex items-center gap-3 mb-2">
+            <div className="p-2 rounded-lg bg-primary/10">
+              <Kanban className="w-6 h-6 text-primary" />
+            </div>
+            <h1 className="page-title">Pipeline</h1>
+          </div>
+          <p className="page-description">
+            Dra affärer mellan stegen för att uppdatera deras status
+          </p>
+        </div>
+        {isAdmin && (
+          <Select value={filterCloser} onValueChange={setFilterCloser}>
+            <SelectTrigger className="w-56 h-11">
+              <Filter className="w-4 h-4 mr-2 text-muted-foreground" />
+              <SelectValue placeholder="Closer" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Alla closers</SelectItem>
+              {closers.map((closer) => (
+                <SelectItem key={closer.id} value={closer.id}>
+                  {closer.full_name || closer.email}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+
+      {/* Follow-ups due for the signed in user */}
+      {profile && <FollowUpList userId={profile.id} />}
+
+      {/* Board */}
+      <div className="flex gap-4 overflow-x-auto pb-4">
+        {PIPELINE_STAGES.map((stage) => {
+          const stageSales = salesByStage[stage.key] || [];
+          return (
+            <div
+              key={stage.key}
+              onDragOver={(e) => {
+                e.preventDefault();
+                if (dragOverStage !== stage.key) setDragOverStage(stage.key);
+              }}
+              onDragLeave={() => setDragOverStage(null)}
+              onDrop={(e) => handleDrop(e, stage.key)}
+              className={cn(
+                'flex-shrink-0 w-72 rounded-xl border border-t-4 bg-muted/20 flex flex-col transition-colors',
+                stage.className,
+                dragOverStage === stage.key && 'bg-primary/5 border-primary/40'
+              )}
+            >
+              <div className="flex items-center justify-between px-4 py-3 border-b border-border/50">
+                <span className="font-semibold text-sm">{stage.label}</span>
+                <span className="text-xs text-muted-foreground px-2 py-0.5 rounded-full bg-muted/50">
+                  {stageSales.length}
+                </span>
+              </div>
+              <div className="flex-1 p-3 space-y-2 min-h-40">
+                {stageSales.map((sale) => (
+                  <div
+                    key={sale.id}
+                    draggable
+                    onDragStart={() => setDraggedSaleId(sale.id)}
+                    onDragEnd={() => {
+                      setDraggedSaleId(null);
+                      setDragOverStage(null);
+                    }}
+                    onClick={() => setHistorySale(sale)}
+                    className={cn(
+                      'p-3 rounded-lg bg-card border border-border/50 shadow-sm cursor-grab space-y-2 hover:border-primary/30 transition-colors',
+                      draggedSaleId === sale.id && 'opacity-50'
+                    )}
+                  >
+                    <div className="flex items-start justify-between gap-2">
+                      <p className="font-medium text-sm truncate">
+                        {sale.contact?.name || sale.contact?.email || 'Okänd kontakt'}
+                      </p>
+                      {sale.contact?.interest && <InterestBadge interest={sale.contact.interest} />}
+                    </div>
+                    <div className="flex items-center gap-1.5 text-xs text-muted-foreground">
+                      <Building2 className="w-3 h-3" />
+                      <span className="truncate">{sale.organization?.name || '–'}</span>
+                    </div>
+                    {sale.contact?.phone && (
+                      <div className="flex items-center gap-1.5 text-xs text-muted-foreground">
+                        <Phone className="w-3 h-3" />
+                        <span>{sale.contact.phone}</span>
+                      </div>
+                    )}
+                    {sale.closed_at && (
+                      <p className="text-xs text-muted-foreground">
+                        Stängd {format(new Date(sale.closed_at), 'dd MMM yyyy', { locale: sv })}
+                      </p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <SaleStageHistoryDialog
+        saleId={historySale?.id || null}
+        title={historySale?.contact?.name || historySale?.contact?.email || ''}
+        open={!!historySale}
+        onOpenChange={(open) => !open && setHistorySale(null)}
+      />
+    </div>
+  );
+};
+
+export default Pipeline;
@@ -1,7 +1,5 @@
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
-import { supabase } from '@/integrations/supabase/client';
-import { Navigate } from 'react-router-dom';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Table, TableBody, TableCell, TableHeader, TableRow } from '@/components/ui/table';
 import { ResizableTableHead } from '@/components/ui/resizable-table';
@@ -9,207 +7,42 @@ import { EmptyState } from '@/components/ui/empty-state';
 import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
-import { Users, TrendingUp, Sun, Battery, Calculator, UserCheck, MapPin, Wallet, Pencil } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Users, TrendingUp, Sun, Battery, Calculator, UserCheck, MapPin, Wallet, Pencil, UsersRound } from 'lucide-react';
 import { CreateOpenerDialog } from '@/components/saljare/CreateOpenerDialog';
 import { CreateCloserDialog } from '@/components/saljare/CreateCloserDialog';
 import { EditOpenerDialog } from '@/components/saljare/EditOpenerDialog';
 import { EditCloserDialog } from '@/components/saljare/EditCloserDialog';
 import { SalariesView } from '@/components/saljare/SalariesView';
-interface OpenerStats {
-  id: string;
-  email: string;
-  full_name: string | null;
-  totalDeals: number;
-  solarDeals: number;
-  batteryDeals: number;
-  sunBatteryDeals: number;
-  closedDeals: number;
-  openerCommission: number;
-  // Adversus API fields (placeholder - to be populated from API)
-  callsMade: number | null;
-  conversations: number | null;
-  bookings: number | null;
-  hitRate: number | null;
-}
-
-interface CloserStats {
-  id: string;
-  email: string;
-  full_name: string | null;
-  regions: { name: string; organization: string }[];
-  totalSales: number;
-  closedWonSales: number;
-  closedLostSales: number;
-  processedSales: number;
-  totalCommission: number;
-  totalInvoiceable: number;
-  generatedRevenue: number;
-  profitMargin: number;
-}
-
-interface Region {
-  id: string;
-  name: string;
-}
+import { TeamManagement } from '@/components/saljare/TeamManagement';
+import {
+  useCloserStats,
+  useInvalidateSellers,
+  useOpenerStats,
+  useTeams,
+  type CloserStats,
+  type OpenerStats,
+} from '@/hooks/queries/use-sellers';
+
+type MainTab = 'openers' | 'closers' | 'loner' | 'team';
+
+// Team filter values besides a team id
+const ALL_TEAMS = 'all';
+const NO_TEAM = 'none';
 
 const Saljare = () => {
   const { profile } = useAuth();
-  const [openers, setOpeners] = useState<OpenerStats[]>([]);
-  const [closers, setClosers] = useState<CloserStats[]>([]);
-  const [regions, setRegions] = useState<Region[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [activeMainTab, setActiveMainTab] = useState<'openers' | 'closers' | 'loner'>('openers');
+  const isAdmin = profile?.role === 'admin';
+  const { data: openers = [], isPending: openersLoading } = useOpenerStats(isAdmin);
+  const { data: closers = [], isPending: closersLoading } = useCloserStats(isAdmin);
+  const { data: teams = [], isPending: teamsLoading } = useTeams(isAdmin);
+  const refreshSellers = useInvalidateSellers();
+  const [teamFilter, setTeamFilter] = useState(ALL_TEAMS);
+  const [activeMainTab, setActiveMainTab] = useState<MainTab>('openers');
   const [activeSubTab, setActiveSubTab] = useState<'prestanda' | 'siffror'>('prestanda');
   const [editingOpener, setEditingOpener] = useState<OpenerStats | null>(null);
   const [editingCloser, setEditingCloser] = useState<CloserStats | null>(null);
-  useEffect(() => {
-    if (profile?.role === 'admin') {
-      fetchAllData();
-    }
-  }, [profile]);
-
-  const fetchAllData = async () => {
-    await Promise.all([fetchOpenerStats(), fetchCloserStats(), fetchRegions()]);
-    setLoading(false);
-  };
-
-  const fetchRegions = async () => {
-    const { data } = await supabase.from('regions').select('id, name');
-    if (data) setRegions(data);
-  };
-
-  const fetchOpenerStats = async () => {
-    try {
-      const { data: openerProfiles } = await supabase
-        .from('profiles')
-        .select('id, email, full_name')
-        .in('role', ['opener', 'teamleader']);
-
-      if (!openerProfiles) {
-        setOpeners([]);
-        return;
-      }
-
-      const { data: contacts } = await supabase
-        .from('contacts')
-        .select('opener_id, interest');
-
-      // Get closed sales to calculate opener commissions
-      const { data: closedSales } = await supabase
-        .from('sales')
-        .select('id, contact_id, opener_commission, pipeline_status')
-        .eq('pipeline_status', 'closed_won');
-
-      // Get contact opener mapping for closed sales
-      const closedContactIds = closedSales?.map(s => s.contact_id) || [];
-      const { data: closedContacts } = await supabase
-        .from('contacts')
-        .select('id, opener_id')
-        .in('id', closedContactIds.length > 0 ? closedContactIds : ['00000000-0000-0000-0000-000000000000']);
-
-      const openerStats: OpenerStats[] = openerProfiles.map((opener) => {
-        const openerContacts = contacts?.filter(c => c.opener_id === opener.id) || [];
-        
-        // Calculate closed deals and commission
-        const openerClosedContactIds = closedContacts?.filter(c => c.opener_id === opener.id).map(c => c.id) || [];
-        const openerClosedSales = closedSales?.filter(s => openerClosedContactIds.includes(s.contact_id)) || [];
-        const totalOpenerCommission = openerClosedSales.reduce((sum, s) => sum + (Number(s.opener_commission) || 1000), 0);
-
-        return {
-          id: opener.id,
-          email: opener.email,
-          full_name: opener.full_name,
-          totalDeals: openerContacts.length,
-          solarDeals: openerContacts.filter(c => c.interest === 'sun').length,
-          batteryDeals: openerContacts.filter(c => c.interest === 'battery').length,
-          sunBatteryDeals: openerContacts.filter(c => c.interest === 'sun_battery').length,
-          closedDeals: openerClosedSales.length,
-          openerCommission: totalOpenerCommission,
-          // Adversus API fields - placeholder (will be populated from API)
-          callsMade: null,
-          conversations: null,
-          bookings: null,
-          hitRate: null,
-        };
-      });
-
-      openerStats.sort((a, b) => b.totalDeals - a.totalDeals);
-      setOpeners(openerStats);
-    } catch (error) {
-      console.error('Error fetching opener stats:', error);
-    }
-  };
-
-  const fetchCloserStats = async () => {
-    try {
-      const { data: closerProfiles } = await supabase
-        .from('profiles')
-        .select('id, email, full_name')
-        .eq('role', 'closer');
-
-      if (!closerProfiles || closerProfiles.length === 0) {
-        setClosers([]);
-        return;
-      }
-
-      // Get closer regions with organization info
-      const { data: closerRegions } = await supabase
-        .from('closer_regions')
-        .select(`
-          closer_id,
-          region:regions(name),
-          organization:organizations(name)
-        `);
-
-      // Get sales data
-      const { data: sales } = await supabase
-        .from('sales')
-        .select('closer_id, pipeline_status, closer_commission, invoiceable_amount');
-
-      const closerStats: CloserStats[] = closerProfiles.map((closer) => {
-        const closerSales = sales?.filter(s => s.closer_id === closer.id) || [];
-        const closedWonSales = closerSales.filter(s => s.pipeline_status === 'closed_won');
-        const closedLostSales = closerSales.filter(s => s.pipeline_status === 'closed_lost');
-        const processedSales = closerSales.filter(s => 
-          s.pipeline_status === 'closed_won' || s.pipeline_status === 'closed_lost'
-        );
-        
-        const regionsForCloser = closerRegions
-          ?.filter(cr => cr.closer_id === closer.id)
-          .map(cr => ({
-            name: (cr.region as any)?.name || 'Okänd',
-            organization: (cr.organization as any)?.name || 'Okänt'
-          })) || [];
-
-        const totalCommission = closedWonSales.reduce((sum, s) => sum + (Number(s.closer_commission) || 0), 0);
-        const totalInvoiceable = closedWonSales.reduce((sum, s) => sum + (Number(s.invoiceable_amount) || 0), 0);
-
-        return {
-          id: closer.id,
-          email: closer.email,
-          full_name: closer.full_name,
-          regions: regionsForCloser,
-          totalSales: closerSales.length,
-          closedWonSales: closedWonSales.length,
-          closedLostSales: closedLostSales.length,
-          processedSales: processedSales.length,
-          totalCommission,
-          totalInvoiceable,
-          generatedRevenue: totalInvoiceable,
-          profitMargin: totalInvoiceable - totalCommission,
-        };
-      });
-
-      closerStats.sort((a, b) => b.closedWonSales - a.closedWonSales);
-      setClosers(closerStats);
-    } catch (error) {
-      console.error('Error fetching closer stats:', error);
-    }
-  };
-
-  if (profile?.role !== 'admin') {
-    return <Navigate to="/deals" replace />;
-  }
+  const loading = openersLoading || closersLoading || teamsLoading;
 
   if (loading) {
     return (
@@ -226,6 +59,17 @@ const Saljare = () => {
     return new Intl.NumberFormat('sv-SE', { style: 'currency', currency: 'SEK', minimumFractionDigits: 0 }).format(amount);
   };
 
+  // Teamleaders count towards the teams they lead as well as their own team
+  const visibleOpeners = teamFilter === ALL_TEAMS
+    ? openers
+    : openers.filter(opener => teamFilter === NO_TEAM
+        ? !opener.team_id && !teams.some(team => team.leader_id === opener.id)
+        : opener.team_id === teamFilter || teams.some(team => team.id === teamFilter && team.leader_id === opener.id));
+
+  const getTeamName = (opener: OpenerStats) =>
+    teams.find(team => team.id === opener.team_id)?.name
+      || teams.find(team => team.leader_id === opener.id)?.name;
+
   return (
     <div className="space-y-8 animate-fade-in">
       {/* Header */}
@@ -242,8 +86,8 @@ const Saljare = () => {
       </div>
 
       {/* Main Tabs - Openers / Closers / Löner */}
-      <Tabs value={activeMainTab} onValueChange={(v) => setActiveMainTab(v as 'openers' | 'closers' | 'loner')}>
-        <TabsList className="grid w-full max-w-lg grid-cols-3">
+      <Tabs value={activeMainTab} onValueChange={(v) => setActiveMainTab(v as MainTab)}>
+        <TabsList className="grid w-full max-w-2xl grid-cols-4">
           <TabsTrigger value="openers" className="gap-2">
             <Users className="w-4 h-4" />
             Openers
@@ -256,6 +100,10 @@ const Saljare = () => {
             <Wallet className="w-4 h-4" />
             Löner
           </TabsTrigger>
+          <TabsTrigger value="team" className="gap-2">
+            <UsersRound className="w-4 h-4" />
+            Team
+          </TabsTrigger>
         </TabsList>
 
         {/* Openers Tab Content */}
@@ -280,7 +128,21 @@ const Saljare = () => {
                 Siffror
               </Button>
             </div>
-            <CreateOpenerDialog onCreated={fetchAllData} />
+            <div className="flex items-center gap-2">
+              <Select value={teamFilter} onValueChange={setTeamFilter}>
+                <SelectTrigger className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_TEAMS}>Alla team</SelectItem>
+                  {teams.map(team => (
+                    <SelectItem key={team.id} value={team.id}>{team.name}</SelectItem>
+                  ))}
+                  <SelectItem value={NO_TEAM}>Utan team</SelectItem>
+                </SelectContent>
+              </Select>
+              <CreateOpenerDialog onCreated={refreshSellers} />
+            </div>
           </div>
 
           {/* Prestanda Tab */}
@@ -296,7 +158,7 @@ const Saljare = () => {
                 </CardDescription>
               </CardHeader>
               <CardContent>
-                {openers.length === 0 ? (
+                {visibleOpeners.length === 0 ? (
                   <EmptyState
                     icon={Users}
                     title="Inga openers"
@@ -308,6 +170,7 @@ const Saljare = () => {
                       <TableHeader>
                         <TableRow className="bg-muted/50 hover:bg-muted/50">
                           <ResizableTableHead className="font-semibold">Opener</ResizableTableHead>
+                          <ResizableTableHead className="font-semibold">Team</ResizableTableHead>
                           <ResizableTableHead className="text-center font-semibold">Totalt</ResizableTableHead>
                           <ResizableTableHead className="text-center font-semibold">
                             <div className="flex items-center justify-center gap-1">
@@ -331,7 +194,7 @@ const Saljare = () => {
                         </TableRow>
                       </TableHeader>
                       <TableBody>
-                        {openers.map((opener) => (
+                        {visibleOpeners.map((opener) => (
                           <TableRow key={opener.id} className="hover:bg-muted/30 group">
                             <TableCell>
                               <div className="flex items-center gap-2">
@@ -351,6 +214,13 @@ const Saljare = () => {
                                 </Button>
                               </div>
                             </TableCell>
+                            <TableCell>
+                              {getTeamName(opener) ? (
+                                <Badge variant="secondary" className="text-xs">{getTeamName(opener)}</Badge>
+                              ) : (
+                                <span className="text-muted-foreground text-sm">Inget team</span>
+                              )}
+                            </TableCell>
                             <TableCell className="text-center">
                               <span className="font-semibold text-primary">{opener.totalDeals}</span>
                             </TableCell>
@@ -380,7 +250,7 @@ const Saljare = () => {
                 </CardDescription>
               </CardHeader>
               <CardContent>
-                {openers.length === 0 ? (
+                {visibleOpeners.length === 0 ? (
                   <EmptyState
                     icon={Calculator}
                     title="Inga provisioner"
@@ -399,7 +269,7 @@ const Saljare = () => {
                         </TableRow>
                       </TableHeader>
                       <TableBody>
-                        {openers.map((opener) => (
+                        {visibleOpeners.map((opener) => (
                           <TableRow key={opener.id} className="hover:bg-muted/30 group">
                             <TableCell>
                               <div className="flex items-center gap-2">
@@ -464,7 +334,7 @@ const Saljare = () => {
                 Siffror
               </Button>
             </div>
-            <CreateCloserDialog onCreated={fetchAllData} />
+            <CreateCloserDialog onCreated={refreshSellers} />
           </div>
 
           {/* Prestanda Tab */}
@@ -641,6 +511,10 @@ const Saljare = () => {
         <TabsContent value="loner" className="space-y-6">
           <SalariesView />
         </TabsContent>
+
+        <TabsContent value="team" className="space-y-6">
+          <TeamManagement onChanged={refreshSellers} />
+        </TabsContent>
       </Tabs>
 
       {/* Edit Dialogs */}
@@ -648,13 +522,13 @@ const Saljare = () => {
         opener={editingOpener}
         open={!!editingOpener}
         onOpenChange={(open) => !open && setEditingOpener(null)}
-        onUpdated={fetchAllData}
+        onUpdated={refreshSellers}
       />
       <EditCloserDialog
         closer={editingCloser}
         open={!!editingCloser}
         onOpenChange={(open) => !open && setEditingCloser(null)}
-        onUpdated={fetchAllData}
+        onUpdated={refreshSellers}
       />
     </div>
   );
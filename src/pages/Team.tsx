@@ -0,0 +1,257 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableFooter, TableHeader, TableRow } from '@/components/ui/table';
+import { ResizableTableHead } from '@/components/ui/resizable-table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { StatCard } from '@/components/ui/stat-card';
+import { EmptyState } from '@/components/ui/empty-state';
+import { UsersRound, Users, CheckCircle2, CreditCard, Wallet, Percent, Calendar, ChevronLeft, ChevronRight } from 'lucide-react';
+import { format, subMonths, addMonths } from 'date-fns';
+import { sv } from 'date-fns/locale';
+import { calculateOverrideCommission, fetchTeamMonthStats, fetchTeams, type Team as TeamRow, type TeamMemberMonthStats } from '@/lib/teams';
+
+const Team = () => {
+  const { profile } = useAuth();
+  const [teams, setTeams] = useState<TeamRow[]>([]);
+  const [selectedTeamId, setSelectedTeamId] = useState<string | null>(null);
+  const [selectedMonth, setSelectedMonth] = useState(new Date());
+  const [members, setMembers] = useState<TeamMemberMonthStats[]>([]);
+  const [loadingTeams, setLoadingTeams] = useState(true);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (profile) {
+      loadTeams();
+    }
+  }, [profile]);
+
+  useEffect(() => {
+    if (selectedTeamId) {
+      loadMembers(selectedTeamId);
+    }
+  }, [selectedTeamId, selectedMonth]);
+
+  const loadTeams = async () => {
+    const allTeams = await fetchTeams();
+    // Admins follow every team, teamleaders the teams they lead
+    const visibleTeams = profile?.role === 'admin'
+      ? allTeams
+      : allTeams.filter(team => team.leader_id === profile?.id);
+
+    setTeams(visibleTeams);
+    setSelectedTeamId(prev => prev ?? visibleTeams[0]?.id ?? null);
+    setLoadingTeams(false);
+  };
+
+  const loadMembers = async (teamId: string) => {
+    setLoading(true);
+    setMembers(await fetchTeamMonthStats(teamId, selectedMonth));
+    setLoading(false);
+  };
+
+  const selectedTeam = teams.find(team => team.id === selectedTeamId) || null;
+
+  const totals = useMemo(() => members.reduce(
+    (sum, member) => ({
+      leads: sum.leads + member.leads,
+      qualifiedLeads: sum.qualifiedLeads + member.qualifiedLeads,
+      credits: sum.credits + member.credits,
+      commission: sum.commission + member.commission,
+    }),
+    { leads: 0, qualifiedLeads: 0, credits: 0, commission: 0 }
+  ), [members]);
+
+  const overrideCommission = selectedTeam
+    ? calculateOverrideCommission(totals.commission, selectedTeam.override_percent)
+    : 0;
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('sv-SE', { style: 'currency', currency: 'SEK', minimumFractionDigits: 0 }).format(amount);
+  };
+
+  if (loadingTeams) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="flex flex-col items-center gap-3">
+          <div className="w-8 h-8 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+          <span className="text-muted-foreground text-sm">Laddar team...</span>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8 animate-fade-in">
+      {/* Header */}
+      <div className="page-header">
+        <div className="flex items-center gap-3 mb-2">
+          <div className="p-2 rounded-lg bg-primary/10">
+            <UsersRound className="w-6 h-6 text-primary" />
+          </div>
+          <h1 className="page-title">Team</h1>
+        </div>
+        <p className="page-description">
+          Teamets leads, kvalificerade leads, krediteringar och provisioner per månad
+        </p>
+      </div>
+
+      {teams.length === 0 ? (
+        <Card className="glass-card">
+          <CardContent className="pt-6">
+            <EmptyState
+              icon={UsersRound}
+              title="Inget team"
+              description={profile?.role === 'admin'
+                ? 'Skapa team under Säljare → Team'
+                : 'Du leder inget team ännu. Be en admin att koppla dig till ett team.'}
+            />
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          {/* Team and month selection */}
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            {teams.length > 1 ? (
+              <Select value={selectedTeamId ?? undefined} onValueChange={setSelectedTeamId}>
+                <SelectTrigger className="w-64">
+                  <SelectValue placeholder="Välj team" />
+                </SelectTrigger>
+                <SelectContent>
+                  {teams.map(team => (
+                    <SelectItem key={team.id} value={team.id}>{team.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ) : (
+              <h2 className="text-lg font-semibold">{selectedTeam?.name}</h2>
+            )}
+            <div className="flex items-center gap-2">
+              <Calendar className="w-5 h-5 text-primary" />
+              <Button variant="outline" size="icon" onClick={() => setSelectedMonth(prev => subMonths(prev, 1))}>
+                <ChevronLeft className="w-4 h-4" />
+              </Button>
+              <span className="min-w-40 text-center font-medium">
+                {format(selectedMonth, 'MMMM yyyy', { locale: sv })}
+              </span>
+              <Button variant="outline" size="icon" onClick={() => setSelectedMonth(prev => addMonths(prev, 1))}>
+                <ChevronRight className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+
+          {/* Stats Grid */}
+          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-5">
+            <StatCard
+              title="Leads"
+              value={totals.leads}
+              subtitle="Skickade till partners"
+              icon={Users}
+              iconColor="text-primary"
+            />
+            <StatCard
+              title="Kvalificerade leads"
+              value={totals.qualifiedLeads}
+              subtitle="Sålda till 2+ partners"
+              icon={CheckCircle2}
+              iconColor="text-success"
+              valueColor="text-success"
+            />
+            <StatCard
+              title="Krediteringar"
+              value={totals.credits}
+              subtitle="Godkända på månadens leads"
+              icon={CreditCard}
+              iconColor="text-warning"
+              valueColor="text-warning"
+            />
+            <StatCard
+              title="Teamets provision"
+              value={formatCurrency(totals.commission)}
+              subtitle="Openers provision"
+              icon={Wallet}
+              iconColor="text-primary"
+            />
+            <StatCard
+              title="Override"
+              value={formatCurrency(overrideCommission)}
+              subtitle={`${Number(selectedTeam?.override_percent) || 0} % av teamets provision`}
+              icon={Percent}
+              iconColor="text-violet-500"
+            />
+          </div>
+
+          {/* Members */}
+          <Card className="glass-card">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Users className="w-5 h-5 text-primary" />
+                Openers i teamet
+              </CardTitle>
+              <CardDescription>
+                Provision per kvalificerat lead (sålt till 2+ partners, ej krediterat)
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {loading ? (
+                <div className="flex items-center justify-center h-32">
+                  <div className="w-6 h-6 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+                </div>
+              ) : members.length === 0 ? (
+                <EmptyState
+                  icon={Users}
+                  title="Inga openers"
+                  description="Det finns inga openers i teamet ännu"
+                />
+              ) : (
+                <div className="rounded-xl border border-border overflow-hidden">
+                  <Table>
+                    <TableHeader>
+                      <TableRow className="bg-muted/50 hover:bg-muted/50">
+                        <ResizableTableHead className="font-semibold">Opener</ResizableTableHead>
+                        <ResizableTableHead className="text-center font-semibold">Leads</ResizableTableHead>
+                        <ResizableTableHead className="text-center font-semibold">Kvalificerade</ResizableTableHead>
+                        <ResizableTableHead className="text-center font-semibold">Krediteringar</ResizableTableHead>
+                        <ResizableTableHead className="text-right font-semibold">Provision</ResizableTableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {members.map(member => (
+                        <TableRow key={member.id} className="hover:bg-muted/30">
+                          <TableCell>
+                            <p className="font-medium">{member.name}</p>
+                            {member.name !== member.email && (
+                              <p className="text-sm text-muted-foreground">{member.email}</p>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-center font-semibold">{member.leads}</TableCell>
+                          <TableCell className="text-center font-semibold text-emerald-600">{member.qualifiedLeads}</TableCell>
+                          <TableCell className="text-center font-semibold text-amber-600">{member.credits}</TableCell>
+                          <TableCell className="text-right font-semibold text-primary">
+                            {formatCurrency(member.commission)}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                    <TableFooter>
+                      <TableRow>
+                        <TableCell className="font-semibold">Totalt</TableCell>
+                        <TableCell className="text-center font-semibold">{totals.leads}</TableCell>
+                        <TableCell className="text-center font-semibold">{totals.qualifiedLeads}</TableCell>
+                        <TableCell className="text-center font-semibold">{totals.credits}</TableCell>
+                        <TableCell className="text-right font-semibold">{formatCurrency(totals.commission)}</TableCell>
+                      </TableRow>
+                    </TableFooter>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default Team;
@@ -0,0 +1,57 @@
+// Pluggable address geocoder used when a contact's postal code isn't in
+// postal_code_centroids. Configured with environment variables:
+//   GEOCODER_PROVIDER  'nominatim', or unset to only use postal code centroids
+//   GEOCODER_URL       base URL of the provider (defaults to the public Nominatim)
+//   GEOCODER_EMAIL     contact address sent to Nominatim as required by its usage policy
+
+export interface GeocodeResult {
+  latitude: number
+  longitude: number
+}
+
+export interface Geocoder {
+  geocode(address: string | null, postalCode: string | null): Promise<GeocodeResult | null>
+}
+
+const createNominatimGeocoder = (baseUrl: string, email?: string): Geocoder => ({
+  geocode: async (address, postalCode) => {
+    const query = [address, postalCode].filter(Boolean).join(', ')
+    if (!query) return null
+
+    const params = new URLSearchParams({
+      q: query,
+      countrycodes: 'se',
+      format: 'json',
+      limit: '1',
+    })
+    if (email) params.set('email', email)
+
+    const response = await fetch(`${baseUrl}/search?${params}`, {
+      headers: { 'User-Agent': 'deal-connector' },
+    })
+    if (!response.ok) {
+      throw new Error(`Geocoder responded with ${response.status}`)
+    }
+
+    const results = await response.json()
+    if (!Array.isArray(results) || results.length === 0) return null
+
+    return {
+      latitude: parseFloat(results[0].lat),
+      longitude: parseFloat(results[0].lon),
+    }
+  },
+})
+
+// null when no provider is configured
+export const createGeocoder = (): Geocoder | null => {
+  switch (Deno.env.get('GEOCODER_PROVIDER') ?? 'none') {
+    case 'nominatim':
+      return createNominatimGeocoder(
+        Deno.env.get('GEOCODER_URL') ?? 'https://nominatim.openstreetmap.org',
+        Deno.env.get('GEOCODER_EMAIL'),
+      )
+    default:
+      return null
+  }
+}
@@ -1,101 +1,220 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { z } from 'https://esm.sh/zod@3.23.8'
+import { createGeocoder } from '../_shared/geocoder.ts'
 
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+// Lead sources post server to server. Browser origins that may call the API
+// are listed comma separated in ALLOWED_ORIGINS.
+const allowedOrigins = (Deno.env.get('ALLOWED_ORIGINS') ?? '')
+  .split(',')
+  .map(origin => origin.trim())
+  .filter(Boolean)
+
+const corsHeadersFor = (req: Request): Record<string, string> => {
+  const headers: Record<string, string> = {
+    'Access-Control-Allow-Headers': 'authorization, x-api-key, idempotency-key, content-type',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Vary': 'Origin',
+  }
+  const origin = req.headers.get('Origin')
+  if (origin && allowedOrigins.includes(origin)) {
+    headers['Access-Control-Allow-Origin'] = origin
+  }
+  return headers
+}
+
+type ErrorCode =
+  | 'METHOD_NOT_ALLOWED'
+  | 'MISSING_API_KEY'
+  | 'INVALID_API_KEY'
+  | 'MISSING_IDEMPOTENCY_KEY'
+  | 'INVALID_JSON'
+  | 'VALIDATION_FAILED'
+  | 'OPENER_NOT_FOUND'
+  | 'ORGANIZATION_NOT_FOUND'
+  | 'IDEMPOTENCY_KEY_REUSED'
+  | 'IDEMPOTENCY_CONFLICT'
+  | 'INTERNAL_ERROR'
+
+const dealSchema = z.object({
+  email: z.string().trim().email().max(255),
+  name: z.string().trim().min(1).max(200).optional(),
+  phone: z.string().trim().regex(/^\+?[0-9\s()-]{6,20}$/, 'Invalid phone number').optional(),
+  address: z.string().trim().min(1).max(500).optional(),
+  postal_code: z.string().trim()
+    .regex(/^\d{3}\s?\d{2}$/, 'Postal code must be five digits')
+    .transform(value => value.replace(/\s/g, ''))
+    .optional(),
+  latitude: z.number().min(-90).max(90).optional(),
+  longitude: z.number().min(-180).max(180).optional(),
+  interest: z.enum(['sun', 'battery', 'sun_battery']),
+  opener_email: z.string().trim().email(),
+  organization_ids: z.array(z.string().uuid()).max(20).optional(),
+  max_organizations: z.number().int().min(1).max(10).optional(),
+  date_sent: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'date_sent must be YYYY-MM-DD').optional(),
+}).refine(deal => (deal.latitude === undefined) === (deal.longitude === undefined), {
+  message: 'latitude and longitude must be sent together',
+  path: ['latitude'],
+})
+
+const sha256 = async (value: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value))
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('')
 }
 
 Deno.serve(async (req) => {
+  const corsHeaders = corsHeadersFor(req)
+
+  const json = (body: unknown, status: number, extraHeaders: Record<string, string> = {}) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { ...corsHeaders, ...extraHeaders, 'Content-Type': 'application/json' },
+    })
+
+  const error = (code: ErrorCode, message: string, status: number, details?: unknown) =>
+    json({ error: { code, message, ...(details ? { details } : {}) } }, status)
+
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders })
   }
 
+  if (req.method !== 'POST') {
+    return error('METHOD_NOT_ALLOWED', 'Use POST', 405)
+  }
+
   try {
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
     const supabase = createClient(supabaseUrl, supabaseServiceKey)
 
-    const body = await req.json()
-    
-    // Validate required fields
-    const { email, phone, address, interest, opener_email, organization_ids, date_sent } = body
+    // Authenticate the lead source
+    const apiKey = req.headers.get('x-api-key')
+      ?? req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '')
+    if (!apiKey) {
+      return error('MISSING_API_KEY', 'Send the API key in the X-Api-Key header', 401)
+    }
+
+    const { data: source } = await supabase
+      .from('lead_sources')
+      .select('id')
+      .eq('api_key_hash', await sha256(apiKey))
+      .eq('is_active', true)
+      .maybeSingle()
 
-    if (!email || !interest || !opener_email) {
-      return new Response(
-        JSON.stringify({ error: 'Missing required fields: email, interest, opener_email' }),
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
+    if (!source) {
+      return error('INVALID_API_KEY', 'Unknown or revoked API key', 401)
     }
 
-    // Validate interest type
-    if (!['sun', 'battery', 'sun_battery'].includes(interest)) {
-      return new Response(
-        JSON.stringify({ error: 'Invalid interest type. Must be: sun, battery, or sun_battery' }),
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
+    const idempotencyKey = req.headers.get('Idempotency-Key')?.trim()
+    if (!idempotencyKey || idempotencyKey.length > 255) {
+      return error('MISSING_IDEMPOTENCY_KEY', 'Send a unique Idempotency-Key header (max 255 characters) per lead', 400)
+    }
+
+    // Validate the body
+    let body: unknown
+    try {
+      body = await req.json()
+    } catch {
+      return error('INVALID_JSON', 'Request body must be JSON', 400)
+    }
+
+    const parsed = dealSchema.safeParse(body)
+    if (!parsed.success) {
+      return error('VALIDATION_FAILED', 'Request body is invalid', 422, parsed.error.issues.map(issue => ({
+        field: issue.path.join('.'),
+        message: issue.message,
+      })))
+    }
+    const deal = parsed.data
+    const requestHash = await sha256(JSON.stringify(deal))
+
+    // Replay the stored response and status for a retried request
+    const { data: previous } = await supabase
+      .from('lead_ingestion_requests')
+      .select('request_hash, response, response_status')
+      .eq('source_id', source.id)
+      .eq('idempotency_key', idempotencyKey)
+      .maybeSingle()
+
+    if (previous) {
+      if (previous.request_hash !== requestHash) {
+        return error('IDEMPOTENCY_KEY_REUSED', 'Idempotency-Key was already used for a different request', 409)
+      }
+      return json(previous.response, previous.response_status, { 'Idempotent-Replayed': 'true' })
     }
 
     // Find opener by email
-    const { data: opener, error: openerError } = await supabase
+    const { data: opener } = await supabase
       .from('profiles')
       .select('id')
-      .eq('email', opener_email)
-      .single()
-
-    if (openerError || !opener) {
-      return new Response(
-        JSON.stringify({ error: `Opener not found with email: ${opener_email}` }),
-        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
-    }
+      .eq('email', deal.opener_email)
+      .maybeSingle()
 
-    // Create the contact
-    const { data: contact, error: contactError } = await supabase
-      .from('contacts')
-      .insert({
-        email,
-        phone: phone || null,
-        address: address || null,
-        interest,
-        opener_id: opener.id,
-        date_sent: date_sent || new Date().toISOString().split('T')[0],
-      })
-      .select()
-      .single()
-
-    if (contactError) {
-      return new Response(
-        JSON.stringify({ error: contactError.message }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
+    if (!opener) {
+      return error('OPENER_NOT_FOUND', `Opener not found with email: ${deal.opener_email}`, 422)
     }
 
-    // Link to organizations if provided
-    if (organization_ids && Array.isArray(organization_ids) && organization_ids.length > 0) {
-      const orgLinks = organization_ids.map((orgId: string) => ({
-        contact_id: contact.id,
-        organization_id: orgId,
-      }))
+    // Geocode by address when neither coordinates nor a known postal code are sent
+    let latitude = deal.latitude ?? null
+    let longitude = deal.longitude ?? null
+    let geocodeSource = latitude !== null ? 'provided' : null
+
+    if (latitude === null && deal.address) {
+      const { data: fromPostalCode } = deal.postal_code
+        ? await supabase.rpc('geocode_postal_code', { _postal_code: deal.postal_code })
+        : { data: [] }
+      const geocoder = createGeocoder()
+
+      if ((!fromPostalCode || fromPostalCode.length === 0) && geocoder) {
+        try {
+          const location = await geocoder.geocode(deal.address, deal.postal_code ?? null)
+          if (location) {
+            latitude = location.latitude
+            longitude = location.longitude
+            geocodeSource = 'geocoder'
+          }
+        } catch (geocodeError) {
+          console.error('Error geocoding contact:', geocodeError)
+        }
+      }
+    }
 
-      const { error: linkError } = await supabase
-        .from('contact_organizations')
-        .insert(orgLinks)
+    // Contact, partner links and idempotency record in one transaction
+    const { data: result, error: ingestError } = await supabase.rpc('ingest_contact', {
+      _source_id: source.id,
+      _idempotency_key: idempotencyKey,
+      _request_hash: requestHash,
+      _contact: {
+        email: deal.email,
+        name: deal.name ?? null,
+        phone: deal.phone ?? null,
+        address: deal.address ?? null,
+        postal_code: deal.postal_code ?? null,
+        latitude,
+        longitude,
+        geocode_source: geocodeSource,
+        interest: deal.interest,
+        opener_id: opener.id,
+        date_sent: deal.date_sent ?? null,
+      },
+      _organization_ids: deal.organization_ids ?? null,
+      ...(deal.max_organizations ? { _max_organizations: deal.max_organizations } : {}),
+    })
 
-      if (linkError) {
-        console.error('Error linking organizations:', linkError)
+    if (ingestError) {
+      if (ingestError.message.startsWith('ORGANIZATION_NOT_FOUND')) {
+        return error('ORGANIZATION_NOT_FOUND', `Organization not found: ${ingestError.message.split(': ')[1]}`, 422)
       }
+      if (ingestError.message.startsWith('IDEMPOTENCY_CONFLICT')) {
+        return error('IDEMPOTENCY_CONFLICT', 'A request with this Idempotency-Key is already being processed', 409)
+      }
+      console.error('Error ingesting contact:', ingestError)
+      return error('INTERNAL_ERROR', 'Could not create the deal', 500)
     }
 
-    return new Response(
-      JSON.stringify({ success: true, contact }),
-      { status: 201, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    )
-
-  } catch (error) {
-    console.error('Error:', error)
-    return new Response(
-      JSON.stringify({ error: 'Internal server error' }),
-      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    )
+    return json(result, 201)
+
+  } catch (err) {
+    console.error('Error:', err)
+    return error('INTERNAL_ERROR', 'Internal server error', 500)
   }
 })
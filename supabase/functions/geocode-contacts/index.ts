@@ -0,0 +1,142 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { createGeocoder } from '../_shared/geocoder.ts'
+
+// One geocoder request per second, so this bounds a single run to a few minutes
+const MAX_LIMIT = 100
+const TIME_BUDGET_MS = 100_000
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Backfill job for contact coordinates. First fills everything the postal code
+// centroid table can, then geocodes up to `limit` remaining contacts by address.
+// The address pass stops early to stay within the edge runtime's wall clock
+// limit and returns `next_cursor` when contacts are left; pass it back as
+// `cursor` to continue with older contacts.
+// Callable by admins or with the service role key (e.g. from a cron job).
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    const token = (req.headers.get('Authorization') ?? '').replace('Bearer ', '')
+    if (token !== supabaseServiceKey) {
+      const { data: { user } } = await supabase.auth.getUser(token)
+      if (!user) {
+        return new Response(
+          JSON.stringify({ error: 'Unauthorized' }),
+          { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+
+      const { data: profile } = await supabase
+        .from('profiles')
+        .select('role')
+        .eq('id', user.id)
+        .single()
+
+      if (profile?.role !== 'admin') {
+        return new Response(
+          JSON.stringify({ error: 'Only admins can geocode contacts' }),
+          { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+    }
+
+    const body = await req.json().catch(() => ({}))
+    const limit = Math.min(Number(body.limit) || 50, MAX_LIMIT)
+    const cursor = typeof body.cursor === 'string' ? body.cursor : null
+    const startedAt = Date.now()
+
+    // Postal code centroids
+    const { data: fromPostalCodes, error: backfillError } = await supabase
+      .rpc('backfill_contact_coordinates')
+
+    if (backfillError) {
+      return new Response(
+        JSON.stringify({ error: backfillError.message }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // Address geocoder for what's left
+    const geocoder = createGeocoder()
+    let fromGeocoder = 0
+    let nextCursor: string | null = null
+
+    if (geocoder) {
+      let query = supabase
+        .from('contacts')
+        .select('id, address, postal_code, created_at')
+        .is('latitude', null)
+        .not('address', 'is', null)
+        .order('created_at', { ascending: false })
+        .limit(limit)
+
+      // Contacts the geocoder couldn't place stay without coordinates, so
+      // continue after the previous run instead of retrying them first
+      if (cursor) {
+        query = query.lt('created_at', cursor)
+      }
+
+      const { data: remaining } = await query
+      const contacts = remaining || []
+      let processed = 0
+
+      for (const contact of contacts) {
+        if (Date.now() - startedAt > TIME_BUDGET_MS) break
+        processed++
+
+        try {
+          const location = await geocoder.geocode(contact.address, contact.postal_code)
+          if (location) {
+            const { error } = await supabase
+              .from('contacts')
+              .update({
+                latitude: location.latitude,
+                longitude: location.longitude,
+                geocode_source: 'geocoder',
+                geocoded_at: new Date().toISOString(),
+              })
+              .eq('id', contact.id)
+
+            if (!error) fromGeocoder++
+          }
+        } catch (error) {
+          console.error(`Error geocoding contact ${contact.id}:`, error)
+        }
+
+        // Stay within public geocoder rate limits (1 request per second)
+        await new Promise(resolve => setTimeout(resolve, 1000))
+      }
+
+      if (processed > 0 && (processed < contacts.length || contacts.length === limit)) {
+        nextCursor = contacts[processed - 1].created_at
+      }
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        from_postal_codes: fromPostalCodes,
+        from_geocoder: fromGeocoder,
+        next_cursor: nextCursor,
+      }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+
+  } catch (error) {
+    console.error('Error:', error)
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+})
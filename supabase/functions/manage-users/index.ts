@@ -0,0 +1,269 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { z } from 'https://esm.sh/zod@3.23.8'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+type ErrorCode =
+  | 'UNAUTHORIZED'
+  | 'FORBIDDEN'
+  | 'INVALID_JSON'
+  | 'VALIDATION_FAILED'
+  | 'EMAIL_EXISTS'
+  | 'ORGANIZATION_REQUIRED'
+  | 'USER_NOT_FOUND'
+  | 'CANNOT_CHANGE_SELF'
+  | 'REASSIGNMENT_REQUIRED'
+  | 'INVALID_REASSIGNMENT'
+  | 'USER_HAS_INVOICES'
+  | 'INTERNAL_ERROR'
+
+// Codes raised by reassign_user_records() as 'CODE: message'
+const databaseErrorCodes: ErrorCode[] = ['REASSIGNMENT_REQUIRED', 'INVALID_REASSIGNMENT', 'USER_HAS_INVOICES']
+
+const internalRoles = ['admin', 'teamleader', 'opener', 'closer']
+
+// Ban long enough to never expire; reactivation lifts it
+const DEACTIVATED_BAN_DURATION = '876000h'
+
+const createSchema = z.object({
+  action: z.literal('create'),
+  email: z.string().trim().toLowerCase().email().max(255),
+  full_name: z.string().trim().max(200).optional(),
+  role: z.enum(['admin', 'teamleader', 'opener', 'closer', 'organization']),
+  organization_id: z.string().uuid().optional(),
+  // invite: the user sets a password from the email. magic_link: the user signs in from the email.
+  delivery: z.enum(['invite', 'magic_link']).default('invite'),
+  redirect_to: z.string().url().optional(),
+  profile: z.object({
+    personal_number: z.string().trim().max(20),
+    bank_name: z.string().trim().max(100),
+    account_number: z.string().trim().max(50),
+    employer_fee_percent: z.number().min(0).max(100),
+    vacation_pay_percent: z.number().min(0).max(100),
+    opener_commission_per_lead: z.number().min(0),
+    opener_commission_per_deal: z.number().min(0),
+    closer_base_commission: z.number().min(0),
+    closer_markup_percentage: z.number().min(0).max(100),
+  }).partial().optional(),
+  closer_regions: z.array(z.object({
+    region_id: z.string().uuid(),
+    organization_id: z.string().uuid(),
+  })).max(200).optional(),
+})
+
+const requestSchema = z.discriminatedUnion('action', [
+  createSchema,
+  z.object({ action: z.literal('deactivate'), user_id: z.string().uuid() }),
+  z.object({ action: z.literal('reactivate'), user_id: z.string().uuid() }),
+  z.object({
+    action: z.literal('delete'),
+    user_id: z.string().uuid(),
+    reassign_to: z.string().uuid().optional(),
+  }),
+])
+
+// Admin-only user provisioning with the auth admin API, so the admin's own
+// session is never touched. Actions: create, deactivate, reactivate, delete.
+Deno.serve(async (req) => {
+  const json = (body: unknown, status: number) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    })
+
+  const error = (code: ErrorCode, message: string, status: number, details?: unknown) =>
+    json({ error: { code, message, ...(details ? { details } : {}) } }, status)
+
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: { persistSession: false, autoRefreshToken: false },
+    })
+
+    // Only admins may manage users
+    const token = (req.headers.get('Authorization') ?? '').replace('Bearer ', '')
+    const { data: { user: caller } } = await supabase.auth.getUser(token)
+    if (!caller) {
+      return error('UNAUTHORIZED', 'Sign in first', 401)
+    }
+
+    const { data: callerProfile } = await supabase
+      .from('profiles')
+      .select('role, is_active')
+      .eq('id', caller.id)
+      .single()
+
+    if (callerProfile?.role !== 'admin' || !callerProfile.is_active) {
+      return error('FORBIDDEN', 'Only admins can manage users', 403)
+    }
+
+    let body: unknown
+    try {
+      body = await req.json()
+    } catch {
+      return error('INVALID_JSON', 'Request body must be JSON', 400)
+    }
+
+    const parsed = requestSchema.safeParse(body)
+    if (!parsed.success) {
+      return error('VALIDATION_FAILED', 'Request body is invalid', 422, parsed.error.issues.map(issue => ({
+        field: issue.path.join('.'),
+        message: issue.message,
+      })))
+    }
+    const request = parsed.data
+
+    if (request.action === 'create') {
+      if (request.role === 'organization' && !request.organization_id) {
+        return error('ORGANIZATION_REQUIRED', 'Partner users need an organization', 422)
+      }
+
+      const { data: existing } = await supabase
+        .from('profiles')
+        .select('id')
+        .eq('email', request.email)
+        .maybeSingle()
+
+      if (existing) {
+        return error('EMAIL_EXISTS', 'A user with this email already exists', 409)
+      }
+
+      const metadata = { full_name: request.full_name || null }
+      const { data: created, error: createError } = request.delivery === 'invite'
+        ? await supabase.auth.admin.inviteUserByEmail(request.email, {
+            data: metadata,
+            redirectTo: request.redirect_to,
+          })
+        : await supabase.auth.admin.createUser({
+            email: request.email,
+            email_confirm: true,
+            user_metadata: metadata,
+          })
+
+      if (createError || !created.user) {
+        console.error('Error creating user:', createError)
+        return error('INTERNAL_ERROR', 'Could not create the user', 500)
+      }
+      const userId = created.user.id
+
+      // handle_new_user() created the profile as an opener; set the real role
+      const isInternal = internalRoles.includes(request.role)
+      const { error: profileError } = await supabase
+        .from('profiles')
+        .update({
+          role: request.role,
+          full_name: request.full_name || null,
+          organization_id: request.role === 'organization' ? request.organization_id : null,
+          user_type: isInternal ? 'internal' : 'external',
+          ...(isInternal ? request.profile : {}),
+        })
+        .eq('id', userId)
+
+      const { error: roleError } = await supabase
+        .from('user_roles')
+        .update({ role: request.role })
+        .eq('user_id', userId)
+
+      const { error: regionsError } = request.role === 'closer' && request.closer_regions?.length
+        ? await supabase.from('closer_regions').insert(request.closer_regions.map(region => ({
+            closer_id: userId,
+            region_id: region.region_id,
+            organization_id: region.organization_id,
+          })))
+        : { error: null }
+
+      // A half set up user would sign in as an opener, so undo the whole thing
+      if (profileError || roleError || regionsError) {
+        console.error('Error setting up user:', profileError ?? roleError ?? regionsError)
+        await supabase.auth.admin.deleteUser(userId)
+        return error('INTERNAL_ERROR', 'Could not set up the user', 500)
+      }
+
+      if (request.delivery === 'magic_link') {
+        const { error: linkError } = await supabase.auth.signInWithOtp({
+          email: request.email,
+          options: { shouldCreateUser: false, emailRedirectTo: request.redirect_to },
+        })
+        if (linkError) {
+          console.error('Error sending magic link:', linkError)
+        }
+      }
+
+      return json({ success: true, user_id: userId }, 201)
+    }
+
+    if (request.user_id === caller.id) {
+      return error('CANNOT_CHANGE_SELF', 'Admins cannot deactivate or delete themselves', 422)
+    }
+
+    const { data: target } = await supabase
+      .from('profiles')
+      .select('id')
+      .eq('id', request.user_id)
+      .maybeSingle()
+
+    if (!target) {
+      return error('USER_NOT_FOUND', 'User not found', 404)
+    }
+
+    if (request.action === 'deactivate' || request.action === 'reactivate') {
+      const active = request.action === 'reactivate'
+
+      const { error: banError } = await supabase.auth.admin.updateUserById(request.user_id, {
+        ban_duration: active ? 'none' : DEACTIVATED_BAN_DURATION,
+      })
+      if (banError) {
+        console.error('Error updating auth user:', banError)
+        return error('INTERNAL_ERROR', 'Could not update the user', 500)
+      }
+
+      const { error: profileError } = await supabase
+        .from('profiles')
+        .update({ is_active: active, deactivated_at: active ? null : new Date().toISOString() })
+        .eq('id', request.user_id)
+
+      if (profileError) {
+        console.error('Error updating profile:', profileError)
+        return error('INTERNAL_ERROR', 'Could not update the user', 500)
+      }
+
+      return json({ success: true, user_id: request.user_id }, 200)
+    }
+
+    // delete: hand over the user's records first, then remove the auth user
+    // (profiles and user_roles cascade)
+    const { data: reassigned, error: reassignError } = await supabase.rpc('reassign_user_records', {
+      _user_id: request.user_id,
+      _reassign_to: request.reassign_to ?? null,
+    })
+
+    if (reassignError) {
+      const code = databaseErrorCodes.find(c => reassignError.message.startsWith(c))
+      if (code) {
+        return error(code, reassignError.message.slice(code.length + 2), 422)
+      }
+      console.error('Error reassigning user records:', reassignError)
+      return error('INTERNAL_ERROR', 'Could not reassign the user\'s records', 500)
+    }
+
+    const { error: deleteError } = await supabase.auth.admin.deleteUser(request.user_id)
+    if (deleteError) {
+      console.error('Error deleting user:', deleteError)
+      return error('INTERNAL_ERROR', 'Could not delete the user', 500)
+    }
+
+    return json({ success: true, user_id: request.user_id, reassigned }, 200)
+
+  } catch (err) {
+    console.error('Error:', err)
+    return error('INTERNAL_ERROR', 'Internal server error', 500)
+  }
+})
@@ -0,0 +1,95 @@
+-- Create table to track every pipeline stage transition on sales
+CREATE TABLE public.sales_stage_history (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  sale_id UUID NOT NULL REFERENCES public.sales(id) ON DELETE CASCADE,
+  from_status TEXT,
+  to_status TEXT NOT NULL,
+  changed_by UUID REFERENCES auth.users(id),
+  changed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Create index for efficient lookups per sale
+CREATE INDEX idx_sales_stage_history_sale_id ON public.sales_stage_history(sale_id, changed_at);
+
+-- Enable RLS
+ALTER TABLE public.sales_stage_history ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies
+CREATE POLICY "Admins can manage sales stage history"
+ON public.sales_stage_history
+FOR ALL
+USING (has_role(auth.uid(), 'admin'::user_role));
+
+CREATE POLICY "Teamleaders can view sales stage history"
+ON public.sales_stage_history
+FOR SELECT
+USING (has_role(auth.uid(), 'teamleader'::user_role));
+
+CREATE POLICY "Closers can view stage history of own sales"
+ON public.sales_stage_history
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.sales
+    WHERE sales.id = sales_stage_history.sale_id
+    AND sales.closer_id = auth.uid()
+  )
+);
+
+-- Stamp closed_at when a sale enters a closed stage, clear it when reopened
+CREATE OR REPLACE FUNCTION public.stamp_sale_closed_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.pipeline_status IN ('closed_won', 'closed_lost') THEN
+    IF TG_OP = 'INSERT' OR OLD.pipeline_status IS DISTINCT FROM NEW.pipeline_status THEN
+      NEW.closed_at := COALESCE(NEW.closed_at, now());
+    END IF;
+  ELSE
+    NEW.closed_at := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER stamp_sale_closed_at_on_insert
+BEFORE INSERT ON public.sales
+FOR EACH ROW
+EXECUTE FUNCTION public.stamp_sale_closed_at();
+
+CREATE TRIGGER stamp_sale_closed_at_on_update
+BEFORE UPDATE OF pipeline_status ON public.sales
+FOR EACH ROW
+WHEN (OLD.pipeline_status IS DISTINCT FROM NEW.pipeline_status)
+EXECUTE FUNCTION public.stamp_sale_closed_at();
+
+-- Record stage transitions (including the initial stage on insert)
+CREATE OR REPLACE FUNCTION public.track_sale_stage_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.sales_stage_history (sale_id, from_status, to_status, changed_by)
+    VALUES (NEW.id, NULL, NEW.pipeline_status, auth.uid());
+  ELSIF OLD.pipeline_status IS DISTINCT FROM NEW.pipeline_status THEN
+    INSERT INTO public.sales_stage_history (sale_id, from_status, to_status, changed_by)
+    VALUES (NEW.id, OLD.pipeline_status, NEW.pipeline_status, auth.uid());
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER track_sale_stage_change
+AFTER INSERT OR UPDATE OF pipeline_status ON public.sales
+FOR EACH ROW
+EXECUTE FUNCTION public.track_sale_stage_change();
+
+-- Backfill the current stage of existing sales as their first history entry
+INSERT INTO public.sales_stage_history (sale_id, from_status, to_status, changed_at)
+SELECT id, NULL, pipeline_status, COALESCE(closed_at, updated_at)
+FROM public.sales;
@@ -0,0 +1,234 @@
+-- =====================================================
+-- COMMISSION ENGINE (v1)
+-- Single source of truth for invoiceable amount, closer commission
+-- and opener commission. Used by the sales trigger and by every UI preview.
+-- =====================================================
+
+-- Track which commission type a sale uses and which engine version calculated it
+ALTER TABLE public.sales
+ADD COLUMN commission_type_id UUID REFERENCES public.closer_commission_types(id) ON DELETE SET NULL,
+ADD COLUMN commission_engine_version TEXT,
+ADD COLUMN commission_calculated_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN public.sales.commission_engine_version IS 'Version of compute_commission() that produced invoiceable_amount, closer_commission and opener_commission';
+
+-- Current engine version
+CREATE OR REPLACE FUNCTION public.commission_engine_version()
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT 'v1'::text
+$$;
+
+-- Pure calculation. All inputs are explicit so previews of unsaved settings
+-- go through exactly the same rules as won sales.
+--
+-- Billing is based on the full price incl. moms (the green tech deduction only
+-- benefits the customer):
+--   påslag = price / 1.25 - base cost - material (EUR × rate) - LF Finans fee - cost segments
+-- 'above_cost' ("Allt över"): ProffsKontakt invoices the whole påslag
+-- 'fixed' ("Satt provision"): the product provision if set, otherwise company share of påslag
+--
+-- Closer commission:
+--   commission type or base commission, reduced by 50% of any shortfall below
+--   22 000 kr invoiceable; 'above_cost' without a commission type uses the closer's
+--   share of the påslag instead. 50% of any discount is taken from the commission.
+CREATE OR REPLACE FUNCTION public.compute_commission(
+  _price_incl_moms NUMERIC,
+  _discount_amount NUMERIC DEFAULT 0,
+  _material_cost_eur NUMERIC DEFAULT 0,
+  _eur_to_sek_rate NUMERIC DEFAULT 11,
+  _base_cost NUMERIC DEFAULT 23000,
+  _lf_finans_percent NUMERIC DEFAULT 3,
+  _cost_segments_sek NUMERIC DEFAULT 0,
+  _billing_model TEXT DEFAULT 'fixed',
+  _company_markup_share NUMERIC DEFAULT 70,
+  _fixed_provision NUMERIC DEFAULT NULL,
+  _closer_base_commission NUMERIC DEFAULT 8000,
+  _closer_markup_percentage NUMERIC DEFAULT 40,
+  _uses_commission_type BOOLEAN DEFAULT false,
+  _opener_commission NUMERIC DEFAULT 1000
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  minimum_invoice_threshold CONSTANT NUMERIC := 22000;
+  price NUMERIC := GREATEST(COALESCE(_price_incl_moms, 0) - COALESCE(_discount_amount, 0), 0);
+  price_ex_moms NUMERIC;
+  material_cost_sek NUMERIC;
+  lf_finans_fee NUMERIC;
+  total_costs NUMERIC;
+  billable_amount NUMERIC;
+  invoiceable_amount NUMERIC;
+  closer_commission NUMERIC;
+BEGIN
+  price_ex_moms := price / 1.25;
+  material_cost_sek := COALESCE(_material_cost_eur, 0) * COALESCE(_eur_to_sek_rate, 11);
+  lf_finans_fee := price * (COALESCE(_lf_finans_percent, 3) / 100);
+  total_costs := COALESCE(_base_cost, 23000) + material_cost_sek + lf_finans_fee + COALESCE(_cost_segments_sek, 0);
+  billable_amount := price_ex_moms - total_costs;
+
+  IF _billing_model = 'above_cost' THEN
+    invoiceable_amount := billable_amount;
+  ELSIF _fixed_provision IS NOT NULL THEN
+    invoiceable_amount := _fixed_provision;
+  ELSE
+    invoiceable_amount := billable_amount * (COALESCE(_company_markup_share, 70) / 100);
+  END IF;
+
+  IF _billing_model = 'above_cost' AND NOT _uses_commission_type THEN
+    closer_commission := GREATEST(invoiceable_amount, 0) * (COALESCE(_closer_markup_percentage, 40) / 100);
+  ELSE
+    closer_commission := COALESCE(_closer_base_commission, 8000);
+    IF invoiceable_amount < minimum_invoice_threshold THEN
+      closer_commission := closer_commission - (minimum_invoice_threshold - invoiceable_amount) * 0.5;
+    END IF;
+  END IF;
+
+  closer_commission := GREATEST(closer_commission - COALESCE(_discount_amount, 0) * 0.5, 0);
+
+  RETURN jsonb_build_object(
+    'engine_version', commission_engine_version(),
+    'price_incl_moms', round(price, 2),
+    'price_ex_moms', round(price_ex_moms, 2),
+    'base_cost', round(COALESCE(_base_cost, 23000), 2),
+    'material_cost_sek', round(material_cost_sek, 2),
+    'lf_finans_fee', round(lf_finans_fee, 2),
+    'cost_segments_sek', round(COALESCE(_cost_segments_sek, 0), 2),
+    'total_costs', round(total_costs, 2),
+    'billable_amount', round(billable_amount, 2),
+    'invoiceable_amount', round(invoiceable_amount, 2),
+    'closer_commission', round(closer_commission, 2),
+    'opener_commission', round(COALESCE(_opener_commission, 1000), 2)
+  );
+END;
+$$;
+
+-- Resolve all settings for a (prospective) sale and run the engine
+CREATE OR REPLACE FUNCTION public.calculate_sale_commission(
+  _organization_id UUID,
+  _closer_id UUID,
+  _contact_id UUID,
+  _product_id UUID DEFAULT NULL,
+  _commission_type_id UUID DEFAULT NULL,
+  _price_to_customer_incl_moms NUMERIC DEFAULT NULL,
+  _discount_amount NUMERIC DEFAULT 0,
+  _custom_product_price NUMERIC DEFAULT NULL,
+  _custom_product_material_cost_eur NUMERIC DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  org RECORD;
+  settings RECORD;
+  product RECORD;
+  closer RECORD;
+  commission_type RECORD;
+  opener_commission NUMERIC;
+  eur_rate NUMERIC;
+  segments_sek NUMERIC;
+  fixed_provision NUMERIC;
+BEGIN
+  SELECT * INTO org FROM public.organizations WHERE id = _organization_id;
+  SELECT * INTO settings FROM public.organization_commission_settings WHERE organization_id = _organization_id;
+  SELECT * INTO product FROM public.products WHERE id = _product_id;
+  SELECT * INTO closer FROM public.profiles WHERE id = _closer_id;
+  SELECT * INTO commission_type FROM public.closer_commission_types
+  WHERE id = _commission_type_id AND closer_id = _closer_id;
+
+  SELECT p.opener_commission_per_deal INTO opener_commission
+  FROM public.contacts c
+  JOIN public.profiles p ON p.id = c.opener_id
+  WHERE c.id = _contact_id;
+
+  eur_rate := COALESCE(org.eur_to_sek_rate, settings.eur_to_sek_rate, 11);
+
+  SELECT COALESCE(SUM(CASE WHEN is_eur THEN amount * eur_rate ELSE amount END), 0)
+  INTO segments_sek
+  FROM public.organization_cost_segments
+  WHERE organization_id = _organization_id;
+
+  SELECT provision_amount INTO fixed_provision
+  FROM public.organization_product_provisions
+  WHERE organization_id = _organization_id AND product_id = _product_id;
+
+  RETURN compute_commission(
+    _price_incl_moms := COALESCE(_price_to_customer_incl_moms, _custom_product_price, product.base_price_incl_moms, org.default_customer_price, 0),
+    _discount_amount := COALESCE(_discount_amount, 0),
+    _material_cost_eur := COALESCE(_custom_product_material_cost_eur, product.material_cost_eur, 0),
+    _eur_to_sek_rate := eur_rate,
+    _base_cost := COALESCE(org.base_cost_for_billing, settings.base_cost, 23000),
+    _lf_finans_percent := COALESCE(org.lf_finans_percent, settings.lf_finans_percent, 3),
+    _cost_segments_sek := segments_sek,
+    _billing_model := COALESCE(org.billing_model, 'fixed'),
+    _company_markup_share := COALESCE(org.company_markup_share, 70),
+    _fixed_provision := fixed_provision,
+    _closer_base_commission := COALESCE(commission_type.commission_amount, closer.closer_base_commission, 8000),
+    _closer_markup_percentage := COALESCE(closer.closer_markup_percentage, 40),
+    _uses_commission_type := commission_type.id IS NOT NULL,
+    _opener_commission := COALESCE(opener_commission, 1000)
+  );
+END;
+$$;
+
+-- Write engine results onto won sales
+CREATE OR REPLACE FUNCTION public.apply_sale_commission()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  result JSONB;
+BEGIN
+  IF NEW.pipeline_status <> 'closed_won' THEN
+    RETURN NEW;
+  END IF;
+
+  result := calculate_sale_commission(
+    NEW.organization_id,
+    NEW.closer_id,
+    NEW.contact_id,
+    NEW.product_id,
+    NEW.commission_type_id,
+    NEW.price_to_customer_incl_moms,
+    NEW.discount_amount,
+    NEW.custom_product_price,
+    NEW.custom_product_material_cost_eur
+  );
+
+  NEW.total_order_value := (result->>'price_incl_moms')::numeric;
+  NEW.invoiceable_amount := (result->>'invoiceable_amount')::numeric;
+  NEW.closer_commission := (result->>'closer_commission')::numeric;
+  NEW.opener_commission := (result->>'opener_commission')::numeric;
+  NEW.commission_engine_version := result->>'engine_version';
+  NEW.commission_calculated_at := now();
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_sale_commission_on_insert
+BEFORE INSERT ON public.sales
+FOR EACH ROW
+EXECUTE FUNCTION public.apply_sale_commission();
+
+CREATE TRIGGER apply_sale_commission_on_update
+BEFORE UPDATE OF pipeline_status, product_id, commission_type_id, price_to_customer_incl_moms,
+  discount_amount, custom_product_price, custom_product_material_cost_eur, organization_id, closer_id
+ON public.sales
+FOR EACH ROW
+EXECUTE FUNCTION public.apply_sale_commission();
+
+-- Recalculate already won sales with the engine
+UPDATE public.sales
+SET pipeline_status = pipeline_status
+WHERE pipeline_status = 'closed_won';
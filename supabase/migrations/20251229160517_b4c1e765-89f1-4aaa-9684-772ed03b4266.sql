@@ -0,0 +1,305 @@
+-- =====================================================
+-- INVOICES
+-- Finalizing a leads month snapshots every billable lead per organization
+-- into a numbered invoice. Invoices are locked once created; credits approved
+-- afterwards produce credit notes against the locked invoice.
+-- =====================================================
+
+-- Finalized (locked) leads months
+CREATE TABLE public.invoicing_periods (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  period_month DATE NOT NULL UNIQUE,
+  finalized_by UUID REFERENCES auth.users(id),
+  finalized_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Invoices and credit notes share one number series
+CREATE SEQUENCE public.invoice_number_seq START WITH 1001;
+
+CREATE TABLE public.invoices (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  invoice_number INTEGER NOT NULL UNIQUE DEFAULT nextval('public.invoice_number_seq'),
+  invoice_type TEXT NOT NULL DEFAULT 'invoice' CHECK (invoice_type IN ('invoice', 'credit_note')),
+  organization_id UUID NOT NULL REFERENCES public.organizations(id),
+  period_month DATE NOT NULL,
+  credited_invoice_id UUID REFERENCES public.invoices(id),
+  amount_incl_moms NUMERIC NOT NULL DEFAULT 0,
+  amount_ex_moms NUMERIC NOT NULL DEFAULT 0,
+  vat_amount NUMERIC NOT NULL DEFAULT 0,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK ((invoice_type = 'credit_note') = (credited_invoice_id IS NOT NULL))
+);
+
+-- One invoice per organization and month
+CREATE UNIQUE INDEX idx_invoices_org_period
+ON public.invoices(organization_id, period_month)
+WHERE invoice_type = 'invoice';
+
+CREATE INDEX idx_invoices_period ON public.invoices(period_month);
+
+-- Lead snapshot rows. Contact details are copied so later edits don't change the invoice.
+CREATE TABLE public.invoice_lines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  invoice_id UUID NOT NULL REFERENCES public.invoices(id),
+  contact_id UUID,
+  contact_name TEXT,
+  contact_email TEXT,
+  contact_phone TEXT,
+  contact_address TEXT,
+  interest TEXT,
+  lead_date DATE,
+  description TEXT NOT NULL,
+  amount_incl_moms NUMERIC NOT NULL DEFAULT 0,
+  credited_line_id UUID REFERENCES public.invoice_lines(id),
+  credit_request_id UUID,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_invoice_lines_invoice ON public.invoice_lines(invoice_id);
+CREATE INDEX idx_invoice_lines_contact ON public.invoice_lines(contact_id);
+
+-- A line can only be credited once
+CREATE UNIQUE INDEX idx_invoice_lines_credited_line
+ON public.invoice_lines(credited_line_id)
+WHERE credited_line_id IS NOT NULL;
+
+-- Enable RLS
+ALTER TABLE public.invoicing_periods ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.invoices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.invoice_lines ENABLE ROW LEVEL SECURITY;
+
+-- Rows are only written by finalize_invoicing_month() and the credit note trigger
+CREATE POLICY "Admins can view invoicing periods"
+ON public.invoicing_periods
+FOR SELECT
+USING (has_role(auth.uid(), 'admin'::user_role));
+
+CREATE POLICY "Admins can view invoices"
+ON public.invoices
+FOR SELECT
+USING (has_role(auth.uid(), 'admin'::user_role));
+
+CREATE POLICY "Organizations can view own invoices"
+ON public.invoices
+FOR SELECT
+USING (has_role(auth.uid(), 'organization'::user_role) AND organization_id = get_user_organization(auth.uid()));
+
+CREATE POLICY "Admins can view invoice lines"
+ON public.invoice_lines
+FOR SELECT
+USING (has_role(auth.uid(), 'admin'::user_role));
+
+CREATE POLICY "Organizations can view own invoice lines"
+ON public.invoice_lines
+FOR SELECT
+USING (
+  has_role(auth.uid(), 'organization'::user_role)
+  AND EXISTS (
+    SELECT 1 FROM public.invoices i
+    WHERE i.id = invoice_lines.invoice_id
+    AND i.organization_id = get_user_organization(auth.uid())
+  )
+);
+
+-- Invoices are locked: no updates or deletes, not even for admins
+CREATE OR REPLACE FUNCTION public.prevent_invoice_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  RAISE EXCEPTION 'Invoices are locked and cannot be changed. Create a credit note instead.';
+END;
+$$;
+
+CREATE TRIGGER lock_invoices
+BEFORE UPDATE OR DELETE ON public.invoices
+FOR EACH ROW
+EXECUTE FUNCTION public.prevent_invoice_changes();
+
+CREATE TRIGGER lock_invoice_lines
+BEFORE UPDATE OR DELETE ON public.invoice_lines
+FOR EACH ROW
+EXECUTE FUNCTION public.prevent_invoice_changes();
+
+CREATE TRIGGER lock_invoicing_periods
+BEFORE UPDATE OR DELETE ON public.invoicing_periods
+FOR EACH ROW
+EXECUTE FUNCTION public.prevent_invoice_changes();
+
+-- Billable leads for an organization in a leads month:
+-- leads sent in the month, minus leads with an approved credit
+CREATE OR REPLACE FUNCTION public.invoice_billable_leads(_organization_id UUID, _period_month DATE)
+RETURNS TABLE (
+  contact_id UUID,
+  contact_name TEXT,
+  contact_email TEXT,
+  contact_phone TEXT,
+  contact_address TEXT,
+  interest TEXT,
+  lead_date DATE,
+  amount_incl_moms NUMERIC
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    c.id,
+    c.name,
+    c.email,
+    c.phone,
+    c.address,
+    c.interest::text,
+    c.date_sent,
+    CASE c.interest
+      WHEN 'sun' THEN COALESCE(o.price_per_solar_deal, 0)
+      WHEN 'battery' THEN COALESCE(o.price_per_battery_deal, 0)
+      WHEN 'sun_battery' THEN COALESCE(o.price_per_solar_deal, 0) + COALESCE(o.price_per_battery_deal, 0)
+      ELSE 0
+    END
+  FROM public.contact_organizations co
+  JOIN public.contacts c ON c.id = co.contact_id
+  JOIN public.organizations o ON o.id = co.organization_id
+  WHERE co.organization_id = _organization_id
+  AND c.date_sent >= date_trunc('month', _period_month)::date
+  AND c.date_sent < (date_trunc('month', _period_month) + INTERVAL '1 month')::date
+  AND NOT EXISTS (
+    SELECT 1 FROM public.credit_requests cr
+    WHERE cr.contact_id = c.id
+    AND cr.organization_id = co.organization_id
+    AND cr.status = 'approved'
+  )
+  ORDER BY c.date_sent, c.id
+$$;
+
+-- Lock a leads month and create one numbered invoice per active organization
+CREATE OR REPLACE FUNCTION public.finalize_invoicing_month(_period_month DATE)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  period DATE := date_trunc('month', _period_month)::date;
+  org RECORD;
+  total NUMERIC;
+  line_count INTEGER;
+  new_invoice_id UUID;
+  invoice_count INTEGER := 0;
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin'::user_role) THEN
+    RAISE EXCEPTION 'Only admins can finalize invoicing';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.invoicing_periods WHERE period_month = period) THEN
+    RAISE EXCEPTION 'Invoicing for % is already finalized', to_char(period, 'YYYY-MM');
+  END IF;
+
+  INSERT INTO public.invoicing_periods (period_month, finalized_by)
+  VALUES (period, auth.uid());
+
+  FOR org IN
+    SELECT id FROM public.organizations WHERE status = 'active' ORDER BY name
+  LOOP
+    SELECT COALESCE(SUM(b.amount_incl_moms), 0), COUNT(*)
+    INTO total, line_count
+    FROM public.invoice_billable_leads(org.id, period) b;
+
+    CONTINUE WHEN line_count = 0;
+
+    INSERT INTO public.invoices (organization_id, period_month, amount_incl_moms, amount_ex_moms, vat_amount, created_by)
+    VALUES (org.id, period, total, round(total / 1.25, 2), total - round(total / 1.25, 2), auth.uid())
+    RETURNING id INTO new_invoice_id;
+
+    INSERT INTO public.invoice_lines (
+      invoice_id, contact_id, contact_name, contact_email, contact_phone,
+      contact_address, interest, lead_date, description, amount_incl_moms
+    )
+    SELECT
+      new_invoice_id, b.contact_id, b.contact_name, b.contact_email, b.contact_phone,
+      b.contact_address, b.interest, b.lead_date,
+      CASE b.interest
+        WHEN 'sun' THEN 'Lead Solceller'
+        WHEN 'battery' THEN 'Lead Batteri'
+        WHEN 'sun_battery' THEN 'Lead Solceller & Batteri'
+        ELSE 'Lead'
+      END,
+      b.amount_incl_moms
+    FROM public.invoice_billable_leads(org.id, period) b;
+
+    invoice_count := invoice_count + 1;
+  END LOOP;
+
+  RETURN invoice_count;
+END;
+$$;
+
+-- Credits approved after the invoice was locked produce a credit note
+CREATE OR REPLACE FUNCTION public.create_credit_note_for_credit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  line RECORD;
+  credit_note_id UUID;
+BEGIN
+  IF NEW.status <> 'approved' OR (TG_OP = 'UPDATE' AND OLD.status = 'approved') THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT l.*, i.period_month AS invoice_period_month
+  INTO line
+  FROM public.invoice_lines l
+  JOIN public.invoices i ON i.id = l.invoice_id
+  WHERE i.invoice_type = 'invoice'
+  AND i.organization_id = NEW.organization_id
+  AND l.contact_id = NEW.contact_id
+  AND NOT EXISTS (SELECT 1 FROM public.invoice_lines c WHERE c.credited_line_id = l.id)
+  LIMIT 1;
+
+  IF line.id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.invoices (
+    invoice_type, organization_id, period_month, credited_invoice_id,
+    amount_incl_moms, amount_ex_moms, vat_amount, created_by
+  )
+  VALUES (
+    'credit_note', NEW.organization_id, line.invoice_period_month, line.invoice_id,
+    -line.amount_incl_moms, -round(line.amount_incl_moms / 1.25, 2),
+    -(line.amount_incl_moms - round(line.amount_incl_moms / 1.25, 2)), auth.uid()
+  )
+  RETURNING id INTO credit_note_id;
+
+  INSERT INTO public.invoice_lines (
+    invoice_id, contact_id, contact_name, contact_email, contact_phone, contact_address,
+    interest, lead_date, description, amount_incl_moms, credited_line_id, credit_request_id
+  )
+  VALUES (
+    credit_note_id, line.contact_id, line.contact_name, line.contact_email, line.contact_phone, line.contact_address,
+    line.interest, line.lead_date, 'Kredit: ' || line.description, -line.amount_incl_moms, line.id, NEW.id
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER create_credit_note_on_credit_approval
+AFTER INSERT OR UPDATE OF status ON public.credit_requests
+FOR EACH ROW
+EXECUTE FUNCTION public.create_credit_note_for_credit();
+
+-- Audit trail
+CREATE TRIGGER audit_invoicing_periods
+AFTER INSERT OR UPDATE OR DELETE ON public.invoicing_periods
+FOR EACH ROW EXECUTE FUNCTION public.audit_trigger_function();
+
+CREATE TRIGGER audit_invoices
+AFTER INSERT OR UPDATE OR DELETE ON public.invoices
+FOR EACH ROW EXECUTE FUNCTION public.audit_trigger_function();
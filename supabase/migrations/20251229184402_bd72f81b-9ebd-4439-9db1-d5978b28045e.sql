@@ -0,0 +1,124 @@
+-- Separate sun+battery lead price. NULL means solar + battery price.
+ALTER TABLE public.organizations
+ADD COLUMN price_per_sun_battery_deal NUMERIC;
+
+ALTER TABLE public.organization_price_history
+ADD COLUMN price_per_sun_battery_deal NUMERIC;
+
+-- Capture the sun+battery price together with the other prices
+CREATE OR REPLACE FUNCTION public.capture_organization_price_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Close out any existing active price record
+  UPDATE public.organization_price_history
+  SET effective_until = now()
+  WHERE organization_id = NEW.id
+    AND effective_until IS NULL;
+
+  -- Insert new price record
+  INSERT INTO public.organization_price_history (
+    organization_id,
+    price_per_solar_deal,
+    price_per_battery_deal,
+    price_per_sun_battery_deal,
+    price_per_site_visit,
+    effective_from,
+    created_by
+  ) VALUES (
+    NEW.id,
+    NEW.price_per_solar_deal,
+    NEW.price_per_battery_deal,
+    NEW.price_per_sun_battery_deal,
+    NEW.price_per_site_visit,
+    now(),
+    auth.uid()
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_capture_price_change ON public.organizations;
+CREATE TRIGGER trigger_capture_price_change
+AFTER INSERT OR UPDATE OF price_per_solar_deal, price_per_battery_deal, price_per_sun_battery_deal, price_per_site_visit
+ON public.organizations
+FOR EACH ROW
+EXECUTE FUNCTION public.capture_organization_price_change();
+
+-- Price effective for an organization at a point in time.
+-- _price_type: 'sun', 'battery', 'sun_battery' or 'site_visit'.
+-- Mirrors resolvePrice() in src/lib/pricing.ts; falls back to the current price.
+CREATE OR REPLACE FUNCTION public.get_organization_price(_organization_id UUID, _price_type TEXT, _at TIMESTAMPTZ)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH prices AS (
+    SELECT price_per_solar_deal, price_per_battery_deal, price_per_sun_battery_deal, price_per_site_visit
+    FROM (
+      SELECT ph.price_per_solar_deal, ph.price_per_battery_deal, ph.price_per_sun_battery_deal, ph.price_per_site_visit, 0 AS priority, ph.effective_from
+      FROM public.organization_price_history ph
+      WHERE ph.organization_id = _organization_id
+      AND ph.effective_from <= _at
+      AND (ph.effective_until IS NULL OR ph.effective_until > _at)
+      UNION ALL
+      SELECT o.price_per_solar_deal, o.price_per_battery_deal, o.price_per_sun_battery_deal, o.price_per_site_visit, 1, NULL
+      FROM public.organizations o
+      WHERE o.id = _organization_id
+    ) candidates
+    ORDER BY priority, effective_from DESC
+    LIMIT 1
+  )
+  SELECT COALESCE(
+    CASE _price_type
+      WHEN 'sun' THEN price_per_solar_deal
+      WHEN 'battery' THEN price_per_battery_deal
+      WHEN 'sun_battery' THEN COALESCE(price_per_sun_battery_deal, COALESCE(price_per_solar_deal, 0) + COALESCE(price_per_battery_deal, 0))
+      WHEN 'site_visit' THEN price_per_site_visit
+    END,
+    0
+  )
+  FROM prices
+$$;
+
+-- Invoices bill each lead at the price in effect when it was sent
+CREATE OR REPLACE FUNCTION public.invoice_billable_leads(_organization_id UUID, _period_month DATE)
+RETURNS TABLE (
+  contact_id UUID,
+  contact_name TEXT,
+  contact_email TEXT,
+  contact_phone TEXT,
+  contact_address TEXT,
+  interest TEXT,
+  lead_date DATE,
+  amount_incl_moms NUMERIC
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    c.id,
+    c.name,
+    c.email,
+    c.phone,
+    c.address,
+    c.interest::text,
+    c.date_sent,
+    get_organization_price(co.organization_id, c.interest::text, c.date_sent::timestamptz)
+  FROM public.contact_organizations co
+  JOIN public.contacts c ON c.id = co.contact_id
+  WHERE co.organization_id = _organization_id
+  AND c.date_sent >= date_trunc('month', _period_month)::date
+  AND c.date_sent < (date_trunc('month', _period_month) + INTERVAL '1 month')::date
+  AND NOT EXISTS (
+    SELECT 1 FROM public.credit_requests cr
+    WHERE cr.contact_id = c.id
+    AND cr.organization_id = co.organization_id
+    AND cr.status = 'approved'
+  )
+  ORDER BY c.date_sent, c.id
+$$;
@@ -0,0 +1,44 @@
+-- Replace the CHECK constraint on sales.pipeline_status with a proper enum
+-- so the allowed stages are generated into the client types
+CREATE TYPE public.pipeline_status AS ENUM (
+  'new',
+  'contacted',
+  'meeting_booked',
+  'offer_sent',
+  'negotiation',
+  'closed_won',
+  'closed_lost'
+);
+
+-- Triggers depending on the column have to be dropped while its type changes
+DROP TRIGGER IF EXISTS stamp_sale_closed_at_on_update ON public.sales;
+DROP TRIGGER IF EXISTS track_sale_stage_change ON public.sales;
+DROP TRIGGER IF EXISTS apply_sale_commission_on_update ON public.sales;
+
+ALTER TABLE public.sales DROP CONSTRAINT IF EXISTS sales_pipeline_status_check;
+ALTER TABLE public.sales ALTER COLUMN pipeline_status DROP DEFAULT;
+ALTER TABLE public.sales
+ALTER COLUMN pipeline_status TYPE public.pipeline_status USING pipeline_status::public.pipeline_status;
+ALTER TABLE public.sales ALTER COLUMN pipeline_status SET DEFAULT 'new';
+
+ALTER TABLE public.sales_stage_history
+ALTER COLUMN from_status TYPE public.pipeline_status USING from_status::public.pipeline_status,
+ALTER COLUMN to_status TYPE public.pipeline_status USING to_status::public.pipeline_status;
+
+CREATE TRIGGER stamp_sale_closed_at_on_update
+BEFORE UPDATE OF pipeline_status ON public.sales
+FOR EACH ROW
+WHEN (OLD.pipeline_status IS DISTINCT FROM NEW.pipeline_status)
+EXECUTE FUNCTION public.stamp_sale_closed_at();
+
+CREATE TRIGGER track_sale_stage_change
+AFTER INSERT OR UPDATE OF pipeline_status ON public.sales
+FOR EACH ROW
+EXECUTE FUNCTION public.track_sale_stage_change();
+
+CREATE TRIGGER apply_sale_commission_on_update
+BEFORE UPDATE OF pipeline_status, product_id, commission_type_id, price_to_customer_incl_moms,
+  discount_amount, custom_product_price, custom_product_material_cost_eur, organization_id, closer_id
+ON public.sales
+FOR EACH ROW
+EXECUTE FUNCTION public.apply_sale_commission();
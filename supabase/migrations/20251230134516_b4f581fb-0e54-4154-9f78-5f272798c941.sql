@@ -0,0 +1,190 @@
+-- =====================================================
+-- LEAD DISTRIBUTION
+-- distribute_contact() assigns a new contact to up to N partners and records
+-- for every partner why it was selected or skipped.
+-- =====================================================
+
+CREATE TABLE public.lead_distribution_decisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  contact_id UUID NOT NULL REFERENCES public.contacts(id) ON DELETE CASCADE,
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  selected BOOLEAN NOT NULL DEFAULT false,
+  reason TEXT NOT NULL CHECK (reason IN (
+    'selected',
+    'inactive',
+    'interest_not_offered',
+    'outside_area',
+    'quota_full',
+    'limit_reached'
+  )),
+  rank INTEGER,
+  leads_this_month INTEGER NOT NULL DEFAULT 0,
+  quota_amount INTEGER,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_lead_distribution_contact ON public.lead_distribution_decisions(contact_id);
+CREATE INDEX idx_lead_distribution_org ON public.lead_distribution_decisions(organization_id);
+
+ALTER TABLE public.lead_distribution_decisions ENABLE ROW LEVEL SECURITY;
+
+-- Rows are only written by distribute_contact()
+CREATE POLICY "Admins can view lead distribution decisions"
+ON public.lead_distribution_decisions
+FOR SELECT
+USING (has_role(auth.uid(), 'admin'::user_role));
+
+CREATE POLICY "Teamleaders can view lead distribution decisions"
+ON public.lead_distribution_decisions
+FOR SELECT
+USING (has_role(auth.uid(), 'teamleader'::user_role));
+
+-- Assign a contact to up to _max_organizations partners.
+--
+-- A partner is eligible when it is
+--   1. active according to organization_status_history (falls back to organizations.status)
+--   2. priced for the contact's interest (sun_battery needs a sun+battery price or both sun and battery)
+--   3. covering the contact: its region is in organization_regions, or the
+--      given coordinates are inside one of its organization_coverage_areas
+--   4. below its monthly organization_lead_quotas for the month the contact is sent (no quota = unlimited)
+--
+-- Eligible partners are ranked by how much of their quota is used, then by the
+-- number of leads they got this month, so leads are spread evenly.
+CREATE OR REPLACE FUNCTION public.distribute_contact(
+  _contact_id UUID,
+  _max_organizations INTEGER DEFAULT 3,
+  _latitude DOUBLE PRECISION DEFAULT NULL,
+  _longitude DOUBLE PRECISION DEFAULT NULL
+)
+RETURNS TABLE (
+  organization_id UUID,
+  organization_name TEXT,
+  selected BOOLEAN,
+  reason TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  contact RECORD;
+  period DATE;
+  contact_point GEOMETRY;
+  candidate RECORD;
+  decision TEXT;
+  selected_count INTEGER := 0;
+BEGIN
+  IF auth.uid() IS NOT NULL
+    AND NOT has_role(auth.uid(), 'admin'::user_role)
+    AND NOT has_role(auth.uid(), 'teamleader'::user_role)
+    AND NOT has_role(auth.uid(), 'opener'::user_role) THEN
+    RAISE EXCEPTION 'Not allowed to distribute contacts';
+  END IF;
+
+  SELECT * INTO contact FROM public.contacts WHERE id = _contact_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Contact % not found', _contact_id;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.contact_organizations co WHERE co.contact_id = _contact_id) THEN
+    RAISE EXCEPTION 'Contact % is already assigned to partners', _contact_id;
+  END IF;
+
+  period := date_trunc('month', contact.date_sent)::date;
+
+  IF _latitude IS NOT NULL AND _longitude IS NOT NULL THEN
+    contact_point := ST_SetSRID(ST_MakePoint(_longitude, _latitude), 4326);
+  END IF;
+
+  FOR candidate IN
+    WITH partners AS (
+      SELECT
+        o.id,
+        o.name,
+        COALESCE((
+          SELECT h.status
+          FROM public.organization_status_history h
+          WHERE h.organization_id = o.id
+          AND h.effective_from <= now()
+          AND (h.effective_until IS NULL OR h.effective_until > now())
+          ORDER BY h.effective_from DESC
+          LIMIT 1
+        ), o.status::text) = 'active' AS is_active,
+        CASE contact.interest
+          WHEN 'sun' THEN o.price_per_solar_deal IS NOT NULL
+          WHEN 'battery' THEN o.price_per_battery_deal IS NOT NULL
+          WHEN 'sun_battery' THEN o.price_per_sun_battery_deal IS NOT NULL
+            OR (o.price_per_solar_deal IS NOT NULL AND o.price_per_battery_deal IS NOT NULL)
+          ELSE false
+        END AS offers_interest,
+        (
+          (contact.region_id IS NOT NULL AND EXISTS (
+            SELECT 1 FROM public.organization_regions r
+            WHERE r.organization_id = o.id AND r.region_id = contact.region_id
+          ))
+          OR (contact_point IS NOT NULL AND EXISTS (
+            SELECT 1 FROM public.organization_coverage_areas a
+            WHERE a.organization_id = o.id AND ST_Contains(a.coverage_polygon, contact_point)
+          ))
+        ) AS in_area,
+        (
+          SELECT q.quota_amount FROM public.organization_lead_quotas q
+          WHERE q.organization_id = o.id
+          AND q.period_type = 'monthly'
+          AND q.period_start = period
+          LIMIT 1
+        ) AS quota_amount,
+        (
+          SELECT COUNT(*)::integer
+          FROM public.contact_organizations co
+          JOIN public.contacts c ON c.id = co.contact_id
+          WHERE co.organization_id = o.id
+          AND c.date_sent >= period
+          AND c.date_sent < (period + INTERVAL '1 month')::date
+        ) AS leads_this_month
+      FROM public.organizations o
+    )
+    SELECT p.*
+    FROM partners p
+    ORDER BY
+      COALESCE(p.leads_this_month::numeric / NULLIF(p.quota_amount, 0), 0),
+      p.leads_this_month,
+      p.name
+  LOOP
+    IF NOT candidate.is_active THEN
+      decision := 'inactive';
+    ELSIF NOT candidate.offers_interest THEN
+      decision := 'interest_not_offered';
+    ELSIF NOT candidate.in_area THEN
+      decision := 'outside_area';
+    ELSIF candidate.quota_amount IS NOT NULL AND candidate.leads_this_month >= candidate.quota_amount THEN
+      decision := 'quota_full';
+    ELSIF selected_count >= _max_organizations THEN
+      decision := 'limit_reached';
+    ELSE
+      decision := 'selected';
+      selected_count := selected_count + 1;
+
+      INSERT INTO public.contact_organizations (contact_id, organization_id)
+      VALUES (_contact_id, candidate.id);
+    END IF;
+
+    INSERT INTO public.lead_distribution_decisions (
+      contact_id, organization_id, selected, reason, rank,
+      leads_this_month, quota_amount, created_by
+    )
+    VALUES (
+      _contact_id, candidate.id, decision = 'selected', decision,
+      CASE WHEN decision = 'selected' THEN selected_count END,
+      candidate.leads_this_month, candidate.quota_amount, auth.uid()
+    );
+
+    organization_id := candidate.id;
+    organization_name := candidate.name;
+    selected := decision = 'selected';
+    reason := decision;
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;
@@ -0,0 +1,253 @@
+-- =====================================================
+-- COVERAGE AREAS
+-- Partners' coverage is drawn as GeoJSON polygons per lead type ('offert'
+-- or 'salj'). Leads with coordinates are matched against the polygons
+-- instead of the two-digit postal prefix regions.
+-- =====================================================
+
+-- Replace all polygons of a lead type for a partner.
+-- _polygons is a JSON array of GeoJSON Polygon geometries (WGS 84).
+CREATE OR REPLACE FUNCTION public.replace_organization_coverage_areas(
+  _organization_id UUID,
+  _lead_type TEXT,
+  _polygons JSONB
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  polygon JSONB;
+  geom GEOMETRY;
+  polygon_count INTEGER := 0;
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin'::user_role) THEN
+    RAISE EXCEPTION 'Only admins can edit coverage areas';
+  END IF;
+
+  IF _lead_type NOT IN ('offert', 'salj') THEN
+    RAISE EXCEPTION 'Invalid lead type: %', _lead_type;
+  END IF;
+
+  IF jsonb_typeof(_polygons) <> 'array' THEN
+    RAISE EXCEPTION 'Polygons must be a JSON array';
+  END IF;
+
+  DELETE FROM public.organization_coverage_areas
+  WHERE organization_id = _organization_id
+  AND lead_type = _lead_type;
+
+  FOR polygon IN SELECT * FROM jsonb_array_elements(_polygons)
+  LOOP
+    geom := ST_SetSRID(ST_GeomFromGeoJSON(polygon::text), 4326);
+
+    IF GeometryType(geom) <> 'POLYGON' THEN
+      RAISE EXCEPTION 'Only polygons are supported, got %', GeometryType(geom);
+    END IF;
+
+    IF NOT ST_IsValid(geom) THEN
+      RAISE EXCEPTION 'Invalid polygon: %', ST_IsValidReason(geom);
+    END IF;
+
+    INSERT INTO public.organization_coverage_areas (organization_id, lead_type, coverage_polygon)
+    VALUES (_organization_id, _lead_type, geom);
+
+    polygon_count := polygon_count + 1;
+  END LOOP;
+
+  RETURN polygon_count;
+END;
+$$;
+
+-- Coverage polygons as GeoJSON, since the geometry column is returned as WKB
+CREATE OR REPLACE FUNCTION public.get_organization_coverage_areas(_organization_id UUID)
+RETURNS TABLE (
+  id UUID,
+  lead_type TEXT,
+  polygon JSONB,
+  area_km2 NUMERIC
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    a.id,
+    a.lead_type,
+    ST_AsGeoJSON(a.coverage_polygon)::jsonb,
+    round((ST_Area(a.coverage_polygon::geography) / 1000000)::numeric, 1)
+  FROM public.organization_coverage_areas a
+  WHERE a.organization_id = _organization_id
+  ORDER BY a.lead_type, a.created_at
+$$;
+
+-- Partners whose coverage contains a point, optionally for one lead type
+CREATE OR REPLACE FUNCTION public.find_partners_by_location(
+  _latitude DOUBLE PRECISION,
+  _longitude DOUBLE PRECISION,
+  _lead_type TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  organization_id UUID,
+  organization_name TEXT,
+  lead_type TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT DISTINCT o.id, o.name, a.lead_type
+  FROM public.organization_coverage_areas a
+  JOIN public.organizations o ON o.id = a.organization_id
+  WHERE ST_Contains(a.coverage_polygon, ST_SetSRID(ST_MakePoint(_longitude, _latitude), 4326))
+  AND (_lead_type IS NULL OR a.lead_type = _lead_type)
+  ORDER BY o.name
+$$;
+
+-- Distribution matches on 'offert' coverage polygons when the contact has
+-- coordinates and the partner has drawn its area; otherwise on regions.
+CREATE OR REPLACE FUNCTION public.distribute_contact(
+  _contact_id UUID,
+  _max_organizations INTEGER DEFAULT 3,
+  _latitude DOUBLE PRECISION DEFAULT NULL,
+  _longitude DOUBLE PRECISION DEFAULT NULL
+)
+RETURNS TABLE (
+  organization_id UUID,
+  organization_name TEXT,
+  selected BOOLEAN,
+  reason TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  contact RECORD;
+  period DATE;
+  contact_point GEOMETRY;
+  candidate RECORD;
+  decision TEXT;
+  selected_count INTEGER := 0;
+BEGIN
+  IF auth.uid() IS NOT NULL
+    AND NOT has_role(auth.uid(), 'admin'::user_role)
+    AND NOT has_role(auth.uid(), 'teamleader'::user_role)
+    AND NOT has_role(auth.uid(), 'opener'::user_role) THEN
+    RAISE EXCEPTION 'Not allowed to distribute contacts';
+  END IF;
+
+  SELECT * INTO contact FROM public.contacts WHERE id = _contact_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Contact % not found', _contact_id;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.contact_organizations co WHERE co.contact_id = _contact_id) THEN
+    RAISE EXCEPTION 'Contact % is already assigned to partners', _contact_id;
+  END IF;
+
+  period := date_trunc('month', contact.date_sent)::date;
+
+  IF _latitude IS NOT NULL AND _longitude IS NOT NULL THEN
+    contact_point := ST_SetSRID(ST_MakePoint(_longitude, _latitude), 4326);
+  END IF;
+
+  FOR candidate IN
+    WITH partners AS (
+      SELECT
+        o.id,
+        o.name,
+        COALESCE((
+          SELECT h.status
+          FROM public.organization_status_history h
+          WHERE h.organization_id = o.id
+          AND h.effective_from <= now()
+          AND (h.effective_until IS NULL OR h.effective_until > now())
+          ORDER BY h.effective_from DESC
+          LIMIT 1
+        ), o.status::text) = 'active' AS is_active,
+        CASE contact.interest
+          WHEN 'sun' THEN o.price_per_solar_deal IS NOT NULL
+          WHEN 'battery' THEN o.price_per_battery_deal IS NOT NULL
+          WHEN 'sun_battery' THEN o.price_per_sun_battery_deal IS NOT NULL
+            OR (o.price_per_solar_deal IS NOT NULL AND o.price_per_battery_deal IS NOT NULL)
+          ELSE false
+        END AS offers_interest,
+        CASE
+          WHEN contact_point IS NOT NULL AND EXISTS (
+            SELECT 1 FROM public.organization_coverage_areas a
+            WHERE a.organization_id = o.id AND a.lead_type = 'offert'
+          ) THEN EXISTS (
+            SELECT 1 FROM public.organization_coverage_areas a
+            WHERE a.organization_id = o.id
+            AND a.lead_type = 'offert'
+            AND ST_Contains(a.coverage_polygon, contact_point)
+          )
+          ELSE contact.region_id IS NOT NULL AND EXISTS (
+            SELECT 1 FROM public.organization_regions r
+            WHERE r.organization_id = o.id AND r.region_id = contact.region_id
+          )
+        END AS in_area,
+        (
+          SELECT q.quota_amount FROM public.organization_lead_quotas q
+          WHERE q.organization_id = o.id
+          AND q.period_type = 'monthly'
+          AND q.period_start = period
+          LIMIT 1
+        ) AS quota_amount,
+        (
+          SELECT COUNT(*)::integer
+          FROM public.contact_organizations co
+          JOIN public.contacts c ON c.id = co.contact_id
+          WHERE co.organization_id = o.id
+          AND c.date_sent >= period
+          AND c.date_sent < (period + INTERVAL '1 month')::date
+        ) AS leads_this_month
+      FROM public.organizations o
+    )
+    SELECT p.*
+    FROM partners p
+    ORDER BY
+      COALESCE(p.leads_this_month::numeric / NULLIF(p.quota_amount, 0), 0),
+      p.leads_this_month,
+      p.name
+  LOOP
+    IF NOT candidate.is_active THEN
+      decision := 'inactive';
+    ELSIF NOT candidate.offers_interest THEN
+      decision := 'interest_not_offered';
+    ELSIF NOT candidate.in_area THEN
+      decision := 'outside_area';
+    ELSIF candidate.quota_amount IS NOT NULL AND candidate.leads_this_month >= candidate.quota_amount THEN
+      decision := 'quota_full';
+    ELSIF selected_count >= _max_organizations THEN
+      decision := 'limit_reached';
+    ELSE
+      decision := 'selected';
+      selected_count := selected_count + 1;
+
+      INSERT INTO public.contact_organizations (contact_id, organization_id)
+      VALUES (_contact_id, candidate.id);
+    END IF;
+
+    INSERT INTO public.lead_distribution_decisions (
+      contact_id, organization_id, selected, reason, rank,
+      leads_this_month, quota_amount, created_by
+    )
+    VALUES (
+      _contact_id, candidate.id, decision = 'selected', decision,
+      CASE WHEN decision = 'selected' THEN selected_count END,
+      candidate.leads_this_month, candidate.quota_amount, auth.uid()
+    );
+
+    organization_id := candidate.id;
+    organization_name := candidate.name;
+    selected := decision = 'selected';
+    reason := decision;
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;
@@ -0,0 +1,297 @@
+-- =====================================================
+-- CONTACT GEOCODING
+-- Contacts get coordinates from a Swedish postal code centroid table so
+-- coverage polygons can be matched at real precision. Contacts whose postal
+-- code is missing from the table can be geocoded by the geocode-contacts
+-- edge function, which also runs the backfill.
+-- =====================================================
+
+-- Centroid per five-digit postal code (WGS 84). Loaded from the postal code
+-- dataset with a CSV import: postal_code,locality,latitude,longitude
+CREATE TABLE public.postal_code_centroids (
+  postal_code TEXT PRIMARY KEY CHECK (postal_code ~ '^[0-9]{5}$'),
+  locality TEXT,
+  latitude DOUBLE PRECISION NOT NULL,
+  longitude DOUBLE PRECISION NOT NULL
+);
+
+ALTER TABLE public.postal_code_centroids ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage postal code centroids"
+ON public.postal_code_centroids
+FOR ALL
+USING (has_role(auth.uid(), 'admin'::user_role));
+
+CREATE POLICY "Authenticated users can view postal code centroids"
+ON public.postal_code_centroids
+FOR SELECT
+TO authenticated
+USING (true);
+
+-- Contact coordinates and where they came from:
+-- provided (sent with the lead), postal_code (exact centroid),
+-- postal_area (average of the three-digit area) or geocoder (external adapter)
+ALTER TABLE public.contacts
+ADD COLUMN latitude DOUBLE PRECISION,
+ADD COLUMN longitude DOUBLE PRECISION,
+ADD COLUMN geocode_source TEXT CHECK (geocode_source IN ('provided', 'postal_code', 'postal_area', 'geocoder')),
+ADD COLUMN geocoded_at TIMESTAMPTZ;
+
+-- Coordinates for a postal code. Falls back to the average of all postal
+-- codes sharing the first three digits when the exact code is missing.
+CREATE OR REPLACE FUNCTION public.geocode_postal_code(_postal_code TEXT)
+RETURNS TABLE (
+  latitude DOUBLE PRECISION,
+  longitude DOUBLE PRECISION,
+  source TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH normalized AS (
+    SELECT regexp_replace(COALESCE(_postal_code, ''), '\D', '', 'g') AS code
+  )
+  SELECT latitude, longitude, source
+  FROM (
+    SELECT p.latitude, p.longitude, 'postal_code' AS source, 0 AS priority
+    FROM public.postal_code_centroids p, normalized n
+    WHERE p.postal_code = n.code
+    UNION ALL
+    SELECT AVG(p.latitude), AVG(p.longitude), 'postal_area', 1
+    FROM public.postal_code_centroids p, normalized n
+    WHERE length(n.code) = 5
+    AND LEFT(p.postal_code, 3) = LEFT(n.code, 3)
+    HAVING COUNT(*) > 0
+  ) candidates
+  ORDER BY priority
+  LIMIT 1
+$$;
+
+-- Fill coordinates from the postal code when a contact is created or its
+-- postal code changes. Coordinates sent with the lead are kept.
+CREATE OR REPLACE FUNCTION public.geocode_contact()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  location RECORD;
+BEGIN
+  IF TG_OP = 'INSERT' AND NEW.latitude IS NOT NULL AND NEW.longitude IS NOT NULL THEN
+    NEW.geocode_source := COALESCE(NEW.geocode_source, 'provided');
+    NEW.geocoded_at := COALESCE(NEW.geocoded_at, now());
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.geocode_source IN ('provided', 'geocoder') THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO location FROM geocode_postal_code(NEW.postal_code);
+
+  IF FOUND THEN
+    NEW.latitude := location.latitude;
+    NEW.longitude := location.longitude;
+    NEW.geocode_source := location.source;
+    NEW.geocoded_at := now();
+  ELSE
+    NEW.latitude := NULL;
+    NEW.longitude := NULL;
+    NEW.geocode_source := NULL;
+    NEW.geocoded_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER geocode_contact_on_insert
+BEFORE INSERT ON public.contacts
+FOR EACH ROW
+EXECUTE FUNCTION public.geocode_contact();
+
+CREATE TRIGGER geocode_contact_on_update
+BEFORE UPDATE OF postal_code ON public.contacts
+FOR EACH ROW
+WHEN (OLD.postal_code IS DISTINCT FROM NEW.postal_code)
+EXECUTE FUNCTION public.geocode_contact();
+
+-- Backfill contacts without coordinates from the centroid table.
+-- Run after (re)loading postal_code_centroids; returns the number of geocoded contacts.
+CREATE OR REPLACE FUNCTION public.backfill_contact_coordinates()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  updated_count INTEGER;
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT has_role(auth.uid(), 'admin'::user_role) THEN
+    RAISE EXCEPTION 'Only admins can backfill coordinates';
+  END IF;
+
+  UPDATE public.contacts c
+  SET latitude = g.latitude,
+      longitude = g.longitude,
+      geocode_source = g.source,
+      geocoded_at = now()
+  FROM public.contacts src
+  CROSS JOIN LATERAL geocode_postal_code(src.postal_code) g
+  WHERE c.id = src.id
+  AND src.latitude IS NULL
+  AND src.postal_code IS NOT NULL;
+
+  GET DIAGNOSTICS updated_count = ROW_COUNT;
+  RETURN updated_count;
+END;
+$$;
+
+-- Distribution falls back to the contact's own coordinates
+CREATE OR REPLACE FUNCTION public.distribute_contact(
+  _contact_id UUID,
+  _max_organizations INTEGER DEFAULT 3,
+  _latitude DOUBLE PRECISION DEFAULT NULL,
+  _longitude DOUBLE PRECISION DEFAULT NULL
+)
+RETURNS TABLE (
+  organization_id UUID,
+  organization_name TEXT,
+  selected BOOLEAN,
+  reason TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  contact RECORD;
+  period DATE;
+  contact_point GEOMETRY;
+  candidate RECORD;
+  decision TEXT;
+  selected_count INTEGER := 0;
+BEGIN
+  IF auth.uid() IS NOT NULL
+    AND NOT has_role(auth.uid(), 'admin'::user_role)
+    AND NOT has_role(auth.uid(), 'teamleader'::user_role)
+    AND NOT has_role(auth.uid(), 'opener'::user_role) THEN
+    RAISE EXCEPTION 'Not allowed to distribute contacts';
+  END IF;
+
+  SELECT * INTO contact FROM public.contacts WHERE id = _contact_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Contact % not found', _contact_id;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.contact_organizations co WHERE co.contact_id = _contact_id) THEN
+    RAISE EXCEPTION 'Contact % is already assigned to partners', _contact_id;
+  END IF;
+
+  period := date_trunc('month', contact.date_sent)::date;
+
+  IF _latitude IS NOT NULL AND _longitude IS NOT NULL THEN
+    contact_point := ST_SetSRID(ST_MakePoint(_longitude, _latitude), 4326);
+  ELSIF contact.latitude IS NOT NULL AND contact.longitude IS NOT NULL THEN
+    contact_point := ST_SetSRID(ST_MakePoint(contact.longitude, contact.latitude), 4326);
+  END IF;
+
+  FOR candidate IN
+    WITH partners AS (
+      SELECT
+        o.id,
+        o.name,
+        COALESCE((
+          SELECT h.status
+          FROM public.organization_status_history h
+          WHERE h.organization_id = o.id
+          AND h.effective_from <= now()
+          AND (h.effective_until IS NULL OR h.effective_until > now())
+          ORDER BY h.effective_from DESC
+          LIMIT 1
+        ), o.status::text) = 'active' AS is_active,
+        CASE contact.interest
+          WHEN 'sun' THEN o.price_per_solar_deal IS NOT NULL
+          WHEN 'battery' THEN o.price_per_battery_deal IS NOT NULL
+          WHEN 'sun_battery' THEN o.price_per_sun_battery_deal IS NOT NULL
+            OR (o.price_per_solar_deal IS NOT NULL AND o.price_per_battery_deal IS NOT NULL)
+          ELSE false
+        END AS offers_interest,
+        CASE
+          WHEN contact_point IS NOT NULL AND EXISTS (
+            SELECT 1 FROM public.organization_coverage_areas a
+            WHERE a.organization_id = o.id AND a.lead_type = 'offert'
+          ) THEN EXISTS (
+            SELECT 1 FROM public.organization_coverage_areas a
+            WHERE a.organization_id = o.id
+            AND a.lead_type = 'offert'
+            AND ST_Contains(a.coverage_polygon, contact_point)
+          )
+          ELSE contact.region_id IS NOT NULL AND EXISTS (
+            SELECT 1 FROM public.organization_regions r
+            WHERE r.organization_id = o.id AND r.region_id = contact.region_id
+          )
+        END AS in_area,
+        (
+          SELECT q.quota_amount FROM public.organization_lead_quotas q
+          WHERE q.organization_id = o.id
+          AND q.period_type = 'monthly'
+          AND q.period_start = period
+          LIMIT 1
+        ) AS quota_amount,
+        (
+          SELECT COUNT(*)::integer
+          FROM public.contact_organizations co
+          JOIN public.contacts c ON c.id = co.contact_id
+          WHERE co.organization_id = o.id
+          AND c.date_sent >= period
+          AND c.date_sent < (period + INTERVAL '1 month')::date
+        ) AS leads_this_month
+      FROM public.organizations o
+    )
+    SELECT p.*
+    FROM partners p
+    ORDER BY
+      COALESCE(p.leads_this_month::numeric / NULLIF(p.quota_amount, 0), 0),
+      p.leads_this_month,
+      p.name
+  LOOP
+    IF NOT candidate.is_active THEN
+      decision := 'inactive';
+    ELSIF NOT candidate.offers_interest THEN
+      decision := 'interest_not_offered';
+    ELSIF NOT candidate.in_area THEN
+      decision := 'outside_area';
+    ELSIF candidate.quota_amount IS NOT NULL AND candidate.leads_this_month >= candidate.quota_amount THEN
+      decision := 'quota_full';
+    ELSIF selected_count >= _max_organizations THEN
+      decision := 'limit_reached';
+    ELSE
+      decision := 'selected';
+      selected_count := selected_count + 1;
+
+      INSERT INTO public.contact_organizations (contact_id, organization_id)
+      VALUES (_contact_id, candidate.id);
+    END IF;
+
+    INSERT INTO public.lead_distribution_decisions (
+      contact_id, organization_id, selected, reason, rank,
+      leads_this_month, quota_amount, created_by
+    )
+    VALUES (
+      _contact_id, candidate.id, decision = 'selected', decision,
+      CASE WHEN decision = 'selected' THEN selected_count END,
+      candidate.leads_this_month, candidate.quota_amount, auth.uid()
+    );
+
+    organization_id := candidate.id;
+    organization_name := candidate.name;
+    selected := decision = 'selected';
+    reason := decision;
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;
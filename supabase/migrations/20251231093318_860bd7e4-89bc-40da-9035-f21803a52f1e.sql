@@ -0,0 +1,166 @@
+-- =====================================================
+-- LEAD INGESTION API
+-- The create-deal edge function authenticates each lead source with its own
+-- API key, stores every request under its Idempotency-Key and creates the
+-- contact and its partner links in one transaction through ingest_contact().
+-- =====================================================
+
+-- Lead sources with hashed API keys. The plain key is only shown once.
+CREATE TABLE public.lead_sources (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  api_key_hash TEXT NOT NULL UNIQUE,
+  api_key_prefix TEXT NOT NULL,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  last_used_at TIMESTAMPTZ,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Processed requests per source and Idempotency-Key. A retried request with
+-- the same key gets the stored response instead of creating a second contact.
+CREATE TABLE public.lead_ingestion_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  source_id UUID NOT NULL REFERENCES public.lead_sources(id) ON DELETE CASCADE,
+  idempotency_key TEXT NOT NULL,
+  request_hash TEXT NOT NULL,
+  contact_id UUID REFERENCES public.contacts(id) ON DELETE SET NULL,
+  response JSONB NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (source_id, idempotency_key)
+);
+
+ALTER TABLE public.lead_sources ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.lead_ingestion_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage lead sources"
+ON public.lead_sources
+FOR ALL
+USING (has_role(auth.uid(), 'admin'::user_role));
+
+CREATE POLICY "Admins can view lead ingestion requests"
+ON public.lead_ingestion_requests
+FOR SELECT
+USING (has_role(auth.uid(), 'admin'::user_role));
+
+CREATE TRIGGER update_lead_sources_updated_at
+BEFORE UPDATE ON public.lead_sources
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER audit_lead_sources
+AFTER INSERT OR UPDATE OR DELETE ON public.lead_sources
+FOR EACH ROW EXECUTE FUNCTION public.audit_trigger_function();
+
+-- Create a lead source and return its API key. Only the hash is stored.
+CREATE OR REPLACE FUNCTION public.create_lead_source(_name TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  api_key TEXT;
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin'::user_role) THEN
+    RAISE EXCEPTION 'Only admins can create lead sources';
+  END IF;
+
+  api_key := 'pk_' || replace(gen_random_uuid()::text, '-', '') || replace(gen_random_uuid()::text, '-', '');
+
+  INSERT INTO public.lead_sources (name, api_key_hash, api_key_prefix, created_by)
+  VALUES (trim(_name), encode(sha256(convert_to(api_key, 'UTF8')), 'hex'), left(api_key, 11), auth.uid());
+
+  RETURN api_key;
+END;
+$$;
+
+-- Create a contact, link it to the given partners (or distribute it) and
+-- record the idempotency key, all in one transaction. Errors are raised with
+-- a stable message prefix that create-deal maps to its error codes.
+CREATE OR REPLACE FUNCTION public.ingest_contact(
+  _source_id UUID,
+  _idempotency_key TEXT,
+  _request_hash TEXT,
+  _contact JSONB,
+  _organization_ids UUID[] DEFAULT NULL,
+  _max_organizations INTEGER DEFAULT 3
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_contact public.contacts;
+  unknown_organization UUID;
+  distribution JSONB := NULL;
+  result JSONB;
+BEGIN
+  IF _organization_ids IS NOT NULL AND cardinality(_organization_ids) > 0 THEN
+    SELECT requested INTO unknown_organization
+    FROM unnest(_organization_ids) requested
+    WHERE NOT EXISTS (SELECT 1 FROM public.organizations o WHERE o.id = requested)
+    LIMIT 1;
+
+    IF unknown_organization IS NOT NULL THEN
+      RAISE EXCEPTION 'ORGANIZATION_NOT_FOUND: %', unknown_organization;
+    END IF;
+  END IF;
+
+  INSERT INTO public.contacts (
+    email, name, phone, address, postal_code, latitude, longitude,
+    geocode_source, interest, opener_id, date_sent
+  )
+  VALUES (
+    _contact->>'email',
+    _contact->>'name',
+    _contact->>'phone',
+    _contact->>'address',
+    _contact->>'postal_code',
+    (_contact->>'latitude')::double precision,
+    (_contact->>'longitude')::double precision,
+    _contact->>'geocode_source',
+    (_contact->>'interest')::interest_type,
+    (_contact->>'opener_id')::uuid,
+    COALESCE((_contact->>'date_sent')::date, CURRENT_DATE)
+  )
+  RETURNING * INTO new_contact;
+
+  IF _organization_ids IS NOT NULL AND cardinality(_organization_ids) > 0 THEN
+    INSERT INTO public.contact_organizations (contact_id, organization_id)
+    SELECT DISTINCT new_contact.id, requested
+    FROM unnest(_organization_ids) requested;
+  ELSE
+    SELECT COALESCE(jsonb_agg(to_jsonb(d)), '[]'::jsonb) INTO distribution
+    FROM distribute_contact(new_contact.id, _max_organizations) d;
+  END IF;
+
+  result := jsonb_build_object(
+    'success', true,
+    'contact', to_jsonb(new_contact),
+    'organization_ids', (
+      SELECT COALESCE(jsonb_agg(co.organization_id), '[]'::jsonb)
+      FROM public.contact_organizations co
+      WHERE co.contact_id = new_contact.id
+    ),
+    'distribution', distribution
+  );
+
+  BEGIN
+    INSERT INTO public.lead_ingestion_requests (source_id, idempotency_key, request_hash, contact_id, response)
+    VALUES (_source_id, _idempotency_key, _request_hash, new_contact.id, result);
+  EXCEPTION WHEN unique_violation THEN
+    -- A concurrent request with the same key won; roll back this contact
+    RAISE EXCEPTION 'IDEMPOTENCY_CONFLICT: %', _idempotency_key;
+  END;
+
+  UPDATE public.lead_sources SET last_used_at = now() WHERE id = _source_id;
+
+  RETURN result;
+END;
+$$;
+
+-- Only the edge function (service role) may ingest
+REVOKE EXECUTE ON FUNCTION public.ingest_contact(UUID, TEXT, TEXT, JSONB, UUID[], INTEGER) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,259 @@
+-- =====================================================
+-- DUPLICATE CONTACTS
+-- New contacts are compared with existing ones on normalized email, phone and
+-- address + postal code. Likely duplicates are flagged for an admin, who can
+-- merge the two contacts or dismiss the flag.
+-- =====================================================
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- Lowercase, trimmed, without +tags
+CREATE OR REPLACE FUNCTION public.normalize_email(_email TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT NULLIF(regexp_replace(lower(trim(_email)), '\+[^@]*@', '@'), '')
+$$;
+
+-- Digits only, with +46 / 0046 written as a leading 0
+CREATE OR REPLACE FUNCTION public.normalize_phone(_phone TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT NULLIF(regexp_replace(regexp_replace(COALESCE(_phone, ''), '\D', '', 'g'), '^(0046|46)', '0'), '')
+$$;
+
+-- Lowercase letters and digits only, e.g. 'Storgatan 1 B' -> 'storgatan1b'
+CREATE OR REPLACE FUNCTION public.normalize_address(_address TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT NULLIF(regexp_replace(lower(COALESCE(_address, '')), '[^a-z0-9åäöéü]', '', 'g'), '')
+$$;
+
+ALTER TABLE public.contacts
+ADD COLUMN email_normalized TEXT GENERATED ALWAYS AS (public.normalize_email(email)) STORED,
+ADD COLUMN phone_normalized TEXT GENERATED ALWAYS AS (public.normalize_phone(phone)) STORED,
+ADD COLUMN address_normalized TEXT GENERATED ALWAYS AS (public.normalize_address(address)) STORED;
+
+CREATE INDEX idx_contacts_email_normalized ON public.contacts(email_normalized);
+CREATE INDEX idx_contacts_phone_normalized ON public.contacts(phone_normalized);
+CREATE INDEX idx_contacts_address_trgm ON public.contacts USING GIN(address_normalized gin_trgm_ops);
+
+-- Flagged pairs. contact_id is the newer contact.
+CREATE TABLE public.contact_duplicate_flags (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  contact_id UUID NOT NULL REFERENCES public.contacts(id) ON DELETE CASCADE,
+  duplicate_of_contact_id UUID NOT NULL REFERENCES public.contacts(id) ON DELETE CASCADE,
+  match_reasons TEXT[] NOT NULL,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'dismissed')),
+  resolved_by UUID REFERENCES auth.users(id),
+  resolved_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (contact_id, duplicate_of_contact_id),
+  CHECK (contact_id <> duplicate_of_contact_id)
+);
+
+CREATE INDEX idx_contact_duplicate_flags_open ON public.contact_duplicate_flags(created_at DESC) WHERE status = 'open';
+
+ALTER TABLE public.contact_duplicate_flags ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage contact duplicate flags"
+ON public.contact_duplicate_flags
+FOR ALL
+USING (has_role(auth.uid(), 'admin'::user_role));
+
+CREATE POLICY "Teamleaders can view contact duplicate flags"
+ON public.contact_duplicate_flags
+FOR SELECT
+USING (has_role(auth.uid(), 'teamleader'::user_role));
+
+-- Existing contacts that look like the same homeowner.
+-- match_reasons: 'email', 'phone' and/or 'address' (same postal code and a
+-- similar address, or the exact same address when no postal code is known).
+-- Contact details are hidden for other openers' contacts.
+CREATE OR REPLACE FUNCTION public.find_contact_duplicates(
+  _email TEXT,
+  _phone TEXT DEFAULT NULL,
+  _address TEXT DEFAULT NULL,
+  _postal_code TEXT DEFAULT NULL,
+  _exclude_contact_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  contact_id UUID,
+  name TEXT,
+  email TEXT,
+  phone TEXT,
+  address TEXT,
+  date_sent DATE,
+  match_reasons TEXT[]
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH input AS (
+    SELECT
+      normalize_email(_email) AS email,
+      normalize_phone(_phone) AS phone,
+      normalize_address(_address) AS address,
+      NULLIF(regexp_replace(COALESCE(_postal_code, ''), '\D', '', 'g'), '') AS postal_code
+  ),
+  matches AS (
+    SELECT
+      c.*,
+      -- Openers only see the details of their own contacts
+      (auth.uid() IS NULL
+        OR c.opener_id = auth.uid()
+        OR has_role(auth.uid(), 'admin'::user_role)
+        OR has_role(auth.uid(), 'teamleader'::user_role)) AS visible,
+      array_remove(ARRAY[
+        CASE WHEN c.email_normalized = i.email THEN 'email' END,
+        CASE WHEN c.phone_normalized = i.phone THEN 'phone' END,
+        CASE WHEN i.address IS NOT NULL AND (
+          (i.postal_code IS NOT NULL
+            AND regexp_replace(COALESCE(c.postal_code, ''), '\D', '', 'g') = i.postal_code
+            AND similarity(c.address_normalized, i.address) >= 0.6)
+          OR c.address_normalized = i.address
+        ) THEN 'address' END
+      ], NULL) AS reasons
+    FROM public.contacts c, input i
+    WHERE (_exclude_contact_id IS NULL OR c.id <> _exclude_contact_id)
+    AND (
+      c.email_normalized = i.email
+      OR c.phone_normalized = i.phone
+      OR (i.address IS NOT NULL AND c.address_normalized % i.address)
+    )
+  )
+  SELECT
+    m.id,
+    CASE WHEN m.visible THEN m.name END,
+    CASE WHEN m.visible THEN m.email END,
+    CASE WHEN m.visible THEN m.phone END,
+    CASE WHEN m.visible THEN m.address END,
+    m.date_sent,
+    m.reasons
+  FROM matches m
+  WHERE cardinality(m.reasons) > 0
+  ORDER BY cardinality(m.reasons) DESC, m.date_sent DESC
+  LIMIT 20
+$$;
+
+-- Flag likely duplicates when a contact is created
+CREATE OR REPLACE FUNCTION public.flag_contact_duplicates()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.contact_duplicate_flags (contact_id, duplicate_of_contact_id, match_reasons)
+  SELECT NEW.id, d.contact_id, d.match_reasons
+  FROM find_contact_duplicates(NEW.email, NEW.phone, NEW.address, NEW.postal_code, NEW.id) d
+  ON CONFLICT (contact_id, duplicate_of_contact_id) DO NOTHING;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER flag_contact_duplicates_on_insert
+AFTER INSERT ON public.contacts
+FOR EACH ROW
+EXECUTE FUNCTION public.flag_contact_duplicates();
+
+-- Merge _merge_contact_id into _keep_contact_id: partner links, credits,
+-- sales and distribution history are moved, empty fields on the kept contact
+-- are filled in and the merged contact is deleted. Logged in audit_log as MERGE.
+CREATE OR REPLACE FUNCTION public.merge_contacts(_keep_contact_id UUID, _merge_contact_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  kept public.contacts;
+  merged public.contacts;
+  moved_organizations INTEGER;
+  moved_credits INTEGER;
+  moved_sales INTEGER;
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin'::user_role) THEN
+    RAISE EXCEPTION 'Only admins can merge contacts';
+  END IF;
+
+  IF _keep_contact_id = _merge_contact_id THEN
+    RAISE EXCEPTION 'Cannot merge a contact with itself';
+  END IF;
+
+  SELECT * INTO kept FROM public.contacts WHERE id = _keep_contact_id FOR UPDATE;
+  SELECT * INTO merged FROM public.contacts WHERE id = _merge_contact_id FOR UPDATE;
+
+  IF kept.id IS NULL OR merged.id IS NULL THEN
+    RAISE EXCEPTION 'Contact not found';
+  END IF;
+
+  -- Partner links: keep one link per partner, sold if either was sold
+  UPDATE public.contact_organizations k
+  SET sold_to_partner = k.sold_to_partner OR m.sold_to_partner
+  FROM public.contact_organizations m
+  WHERE k.contact_id = _keep_contact_id
+  AND m.contact_id = _merge_contact_id
+  AND m.organization_id = k.organization_id;
+
+  DELETE FROM public.contact_organizations m
+  WHERE m.contact_id = _merge_contact_id
+  AND EXISTS (
+    SELECT 1 FROM public.contact_organizations k
+    WHERE k.contact_id = _keep_contact_id AND k.organization_id = m.organization_id
+  );
+
+  UPDATE public.contact_organizations SET contact_id = _keep_contact_id
+  WHERE contact_id = _merge_contact_id;
+  GET DIAGNOSTICS moved_organizations = ROW_COUNT;
+
+  UPDATE public.credit_requests SET contact_id = _keep_contact_id
+  WHERE contact_id = _merge_contact_id;
+  GET DIAGNOSTICS moved_credits = ROW_COUNT;
+
+  UPDATE public.sales SET contact_id = _keep_contact_id
+  WHERE contact_id = _merge_contact_id;
+  GET DIAGNOSTICS moved_sales = ROW_COUNT;
+
+  UPDATE public.lead_distribution_decisions SET contact_id = _keep_contact_id
+  WHERE contact_id = _merge_contact_id;
+
+  UPDATE public.lead_ingestion_requests SET contact_id = _keep_contact_id
+  WHERE contact_id = _merge_contact_id;
+
+  UPDATE public.contacts
+  SET name = COALESCE(kept.name, merged.name),
+      phone = COALESCE(kept.phone, merged.phone),
+      address = COALESCE(kept.address, merged.address),
+      postal_code = COALESCE(kept.postal_code, merged.postal_code)
+  WHERE id = _keep_contact_id;
+
+  DELETE FROM public.contacts WHERE id = _merge_contact_id;
+
+  INSERT INTO public.audit_log (table_name, record_id, action, old_values, new_values, changed_by)
+  VALUES (
+    'contacts',
+    _keep_contact_id,
+    'MERGE',
+    jsonb_build_object('kept_contact', to_jsonb(kept), 'merged_contact', to_jsonb(merged)),
+    jsonb_build_object(
+      'contact', (SELECT to_jsonb(c) FROM public.contacts c WHERE c.id = _keep_contact_id),
+      'moved_organizations', moved_organizations,
+      'moved_credit_requests', moved_credits,
+      'moved_sales', moved_sales
+    ),
+    auth.uid()
+  );
+END;
+$$;
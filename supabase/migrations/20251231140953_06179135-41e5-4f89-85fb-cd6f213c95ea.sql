@@ -0,0 +1,86 @@
+-- =====================================================
+-- CREDIT REQUEST RULES
+-- Partner credit requests were only checked in the browser. The database now
+-- enforces the same rules for every insert, whichever client sends it.
+-- Errors start with a code that the client maps to a message.
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.validate_credit_request()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  org RECORD;
+  lead_date DATE;
+BEGIN
+  -- Admins register credits on behalf of partners; locked months get a credit note
+  IF has_role(auth.uid(), 'admin'::user_role) THEN
+    RETURN NEW;
+  END IF;
+
+  -- Partners can only open a request; the decision is the admin's
+  NEW.status := 'pending';
+  NEW.requested_by := auth.uid();
+  NEW.credit_date := CURRENT_DATE;
+
+  SELECT can_request_credits, COALESCE(credit_deadline_days, 14) AS credit_deadline_days
+  INTO org
+  FROM public.organizations
+  WHERE id = NEW.organization_id;
+
+  IF NOT COALESCE(org.can_request_credits, false) THEN
+    RAISE EXCEPTION 'CREDITS_NOT_ALLOWED: organization cannot request credits';
+  END IF;
+
+  SELECT c.date_sent INTO lead_date
+  FROM public.contacts c
+  JOIN public.contact_organizations co ON co.contact_id = c.id
+  WHERE c.id = NEW.contact_id
+  AND co.organization_id = NEW.organization_id;
+
+  IF lead_date IS NULL THEN
+    RAISE EXCEPTION 'LEAD_NOT_ASSIGNED: lead is not assigned to the organization';
+  END IF;
+
+  IF CURRENT_DATE - lead_date > org.credit_deadline_days THEN
+    RAISE EXCEPTION 'CREDIT_DEADLINE_PASSED: lead is older than % days', org.credit_deadline_days;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.invoicing_periods p
+    WHERE p.period_month = date_trunc('month', lead_date)::date
+  ) THEN
+    RAISE EXCEPTION 'BILLING_MONTH_LOCKED: lead belongs to a finalized billing month';
+  END IF;
+
+  -- Serialize requests for the same lead so two concurrent inserts can't both pass
+  PERFORM pg_advisory_xact_lock(hashtext(NEW.contact_id::text || NEW.organization_id::text));
+
+  IF EXISTS (
+    SELECT 1 FROM public.credit_requests cr
+    WHERE cr.contact_id = NEW.contact_id
+    AND cr.organization_id = NEW.organization_id
+    AND cr.status = 'pending'
+  ) THEN
+    RAISE EXCEPTION 'CREDIT_ALREADY_REQUESTED: an open credit request already exists';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.credit_requests cr
+    WHERE cr.contact_id = NEW.contact_id
+    AND cr.organization_id = NEW.organization_id
+    AND cr.status = 'approved'
+  ) THEN
+    RAISE EXCEPTION 'ALREADY_CREDITED: lead is already credited';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_credit_request_on_insert
+BEFORE INSERT ON public.credit_requests
+FOR EACH ROW
+EXECUTE FUNCTION public.validate_credit_request();
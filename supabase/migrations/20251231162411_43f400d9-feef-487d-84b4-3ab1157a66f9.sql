@@ -0,0 +1,254 @@
+-- =====================================================
+-- CREDIT REASONS, EVIDENCE AND DECISIONS
+-- Partners pick a reason code and can attach evidence (call recordings,
+-- screenshots) when requesting a credit. Admins answer with a decision
+-- comment that the partner sees in their request history.
+-- =====================================================
+
+CREATE TABLE public.credit_reason_codes (
+  code TEXT PRIMARY KEY,
+  label TEXT NOT NULL,
+  description TEXT,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.credit_reason_codes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view credit reason codes"
+ON public.credit_reason_codes
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can manage credit reason codes"
+ON public.credit_reason_codes
+FOR ALL
+TO authenticated
+USING (has_role(auth.uid(), 'admin'::user_role))
+WITH CHECK (has_role(auth.uid(), 'admin'::user_role));
+
+INSERT INTO public.credit_reason_codes (code, label, description, sort_order) VALUES
+  ('wrong_number', 'Fel nummer', 'Telefonnumret går till fel person eller finns inte', 10),
+  ('duplicate', 'Dubblett', 'Samma kund har redan skickats till oss', 20),
+  ('outside_area', 'Utanför område', 'Kunden bor utanför vårt täckningsområde', 30),
+  ('not_homeowner', 'Inte husägare', 'Kunden äger inte fastigheten', 40),
+  ('no_interest', 'Inget intresse', 'Kunden har inte bett om att bli kontaktad', 50),
+  ('unreachable', 'Går inte att nå', 'Kunden svarar inte efter upprepade försök', 60),
+  ('other', 'Annat', NULL, 100);
+
+-- =====================================================
+-- REQUEST COLUMNS
+-- =====================================================
+
+ALTER TABLE public.credit_requests
+ADD COLUMN reason_code TEXT REFERENCES public.credit_reason_codes(code),
+ADD COLUMN decision_comment TEXT,
+ADD COLUMN decided_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+ADD COLUMN decided_at TIMESTAMP WITH TIME ZONE;
+
+-- Who decided and when is stamped by the database, not sent by the client
+CREATE OR REPLACE FUNCTION public.stamp_credit_decision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status AND NEW.status <> 'pending' THEN
+    NEW.decided_by := auth.uid();
+    NEW.decided_at := now();
+  ELSIF NEW.status = 'pending' THEN
+    NEW.decided_by := NULL;
+    NEW.decided_at := NULL;
+  ELSE
+    NEW.decided_by := OLD.decided_by;
+    NEW.decided_at := OLD.decided_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER stamp_credit_decision_on_update
+BEFORE UPDATE ON public.credit_requests
+FOR EACH ROW
+EXECUTE FUNCTION public.stamp_credit_decision();
+
+-- Same rules as before, plus a required reason code for partners
+CREATE OR REPLACE FUNCTION public.validate_credit_request()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  org RECORD;
+  lead_date DATE;
+BEGIN
+  -- Admins register credits on behalf of partners; locked months get a credit note
+  IF has_role(auth.uid(), 'admin'::user_role) THEN
+    RETURN NEW;
+  END IF;
+
+  -- Partners can only open a request; the decision is the admin's
+  NEW.status := 'pending';
+  NEW.requested_by := auth.uid();
+  NEW.credit_date := CURRENT_DATE;
+  NEW.decision_comment := NULL;
+  NEW.decided_by := NULL;
+  NEW.decided_at := NULL;
+
+  IF NEW.reason_code IS NULL OR NOT EXISTS (
+    SELECT 1 FROM public.credit_reason_codes rc
+    WHERE rc.code = NEW.reason_code
+    AND rc.is_active
+  ) THEN
+    RAISE EXCEPTION 'REASON_REQUIRED: an active reason code is required';
+  END IF;
+
+  SELECT can_request_credits, COALESCE(credit_deadline_days, 14) AS credit_deadline_days
+  INTO org
+  FROM public.organizations
+  WHERE id = NEW.organization_id;
+
+  IF NOT COALESCE(org.can_request_credits, false) THEN
+    RAISE EXCEPTION 'CREDITS_NOT_ALLOWED: organization cannot request credits';
+  END IF;
+
+  SELECT c.date_sent INTO lead_date
+  FROM public.contacts c
+  JOIN public.contact_organizations co ON co.contact_id = c.id
+  WHERE c.id = NEW.contact_id
+  AND co.organization_id = NEW.organization_id;
+
+  IF lead_date IS NULL THEN
+    RAISE EXCEPTION 'LEAD_NOT_ASSIGNED: lead is not assigned to the organization';
+  END IF;
+
+  IF CURRENT_DATE - lead_date > org.credit_deadline_days THEN
+    RAISE EXCEPTION 'CREDIT_DEADLINE_PASSED: lead is older than % days', org.credit_deadline_days;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.invoicing_periods p
+    WHERE p.period_month = date_trunc('month', lead_date)::date
+  ) THEN
+    RAISE EXCEPTION 'BILLING_MONTH_LOCKED: lead belongs to a finalized billing month';
+  END IF;
+
+  -- Serialize requests for the same lead so two concurrent inserts can't both pass
+  PERFORM pg_advisory_xact_lock(hashtext(NEW.contact_id::text || NEW.organization_id::text));
+
+  IF EXISTS (
+    SELECT 1 FROM public.credit_requests cr
+    WHERE cr.contact_id = NEW.contact_id
+    AND cr.organization_id = NEW.organization_id
+    AND cr.status = 'pending'
+  ) THEN
+    RAISE EXCEPTION 'CREDIT_ALREADY_REQUESTED: an open credit request already exists';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.credit_requests cr
+    WHERE cr.contact_id = NEW.contact_id
+    AND cr.organization_id = NEW.organization_id
+    AND cr.status = 'approved'
+  ) THEN
+    RAISE EXCEPTION 'ALREADY_CREDITED: lead is already credited';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- =====================================================
+-- EVIDENCE ATTACHMENTS
+-- Files live in the private credit-evidence bucket under
+-- <organization_id>/<credit_request_id>/<file name>.
+-- =====================================================
+
+CREATE TABLE public.credit_request_attachments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  credit_request_id UUID NOT NULL REFERENCES public.credit_requests(id) ON DELETE CASCADE,
+  storage_path TEXT NOT NULL UNIQUE,
+  file_name TEXT NOT NULL,
+  content_type TEXT,
+  size_bytes BIGINT,
+  uploaded_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_credit_request_attachments_request ON public.credit_request_attachments(credit_request_id);
+
+ALTER TABLE public.credit_request_attachments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage credit request attachments"
+ON public.credit_request_attachments
+FOR ALL
+TO authenticated
+USING (has_role(auth.uid(), 'admin'::user_role))
+WITH CHECK (has_role(auth.uid(), 'admin'::user_role));
+
+CREATE POLICY "Organizations can view own credit request attachments"
+ON public.credit_request_attachments
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.credit_requests cr
+    WHERE cr.id = credit_request_id
+    AND cr.organization_id = get_user_organization(auth.uid())
+  )
+);
+
+-- Evidence can only be added while the request is still open
+CREATE POLICY "Organizations can add attachments to own pending credit requests"
+ON public.credit_request_attachments
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  uploaded_by = auth.uid()
+  AND EXISTS (
+    SELECT 1 FROM public.credit_requests cr
+    WHERE cr.id = credit_request_id
+    AND cr.organization_id = get_user_organization(auth.uid())
+    AND cr.status = 'pending'
+  )
+  AND split_part(storage_path, '/', 1) = get_user_organization(auth.uid())::text
+);
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'credit-evidence',
+  'credit-evidence',
+  false,
+  10485760,
+  ARRAY['image/png', 'image/jpeg', 'image/webp', 'application/pdf', 'audio/mpeg', 'audio/mp4', 'audio/wav', 'audio/x-wav', 'audio/ogg']
+)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Admins can view credit evidence"
+ON storage.objects
+FOR SELECT
+TO authenticated
+USING (bucket_id = 'credit-evidence' AND has_role(auth.uid(), 'admin'::user_role));
+
+CREATE POLICY "Organizations can view own credit evidence"
+ON storage.objects
+FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'credit-evidence'
+  AND (storage.foldername(name))[1] = get_user_organization(auth.uid())::text
+);
+
+CREATE POLICY "Organizations can upload own credit evidence"
+ON storage.objects
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'credit-evidence'
+  AND (storage.foldername(name))[1] = get_user_organization(auth.uid())::text
+);
+
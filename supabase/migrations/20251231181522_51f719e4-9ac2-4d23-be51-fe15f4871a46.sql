@@ -0,0 +1,335 @@
+-- =====================================================
+-- CREDIT ANALYTICS AND ALERTS
+-- Credit rate = credit requests (any status) / leads delivered, counted on
+-- the lead's date_sent. Alert rules flag partners or openers whose rate
+-- goes above a threshold and can switch off a partner's credit permission
+-- until an admin has reviewed it.
+-- =====================================================
+
+CREATE TABLE public.credit_alert_rules (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  scope TEXT NOT NULL CHECK (scope IN ('organization', 'opener')),
+  max_credit_rate NUMERIC NOT NULL CHECK (max_credit_rate >= 0 AND max_credit_rate <= 100),
+  min_leads INTEGER NOT NULL DEFAULT 20 CHECK (min_leads > 0),
+  window_days INTEGER NOT NULL DEFAULT 30 CHECK (window_days > 0),
+  auto_suspend BOOLEAN NOT NULL DEFAULT false,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  -- Only partners have a credit permission to switch off
+  CHECK (scope = 'organization' OR NOT auto_suspend)
+);
+
+ALTER TABLE public.credit_alert_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage credit alert rules"
+ON public.credit_alert_rules
+FOR ALL
+TO authenticated
+USING (has_role(auth.uid(), 'admin'::user_role))
+WITH CHECK (has_role(auth.uid(), 'admin'::user_role));
+
+CREATE TRIGGER update_credit_alert_rules_updated_at
+BEFORE UPDATE ON public.credit_alert_rules
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER audit_credit_alert_rules
+AFTER INSERT OR UPDATE OR DELETE ON public.credit_alert_rules
+FOR EACH ROW EXECUTE FUNCTION public.audit_trigger_function();
+
+INSERT INTO public.credit_alert_rules (scope, max_credit_rate, min_leads, window_days, auto_suspend) VALUES
+  ('organization', 25, 20, 30, false),
+  ('opener', 30, 20, 30, false);
+
+CREATE TABLE public.credit_alerts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  rule_id UUID REFERENCES public.credit_alert_rules(id) ON DELETE SET NULL,
+  scope TEXT NOT NULL CHECK (scope IN ('organization', 'opener')),
+  organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE,
+  opener_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE,
+  credit_rate NUMERIC NOT NULL,
+  max_credit_rate NUMERIC NOT NULL,
+  lead_count INTEGER NOT NULL,
+  credit_count INTEGER NOT NULL,
+  window_start DATE NOT NULL,
+  window_end DATE NOT NULL,
+  credits_suspended BOOLEAN NOT NULL DEFAULT false,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'resolved')),
+  resolution_note TEXT,
+  resolved_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK ((scope = 'organization') = (organization_id IS NOT NULL)),
+  CHECK ((scope = 'opener') = (opener_id IS NOT NULL))
+);
+
+CREATE INDEX idx_credit_alerts_status ON public.credit_alerts(status);
+
+ALTER TABLE public.credit_alerts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view credit alerts"
+ON public.credit_alerts
+FOR SELECT
+TO authenticated
+USING (has_role(auth.uid(), 'admin'::user_role));
+
+-- =====================================================
+-- ALERT EVALUATION
+-- Runs after every credit request for the partner and opener involved,
+-- and for everyone when an admin runs it manually.
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.evaluate_credit_alerts(
+  _organization_id UUID DEFAULT NULL,
+  _opener_id UUID DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  rule RECORD;
+  stat RECORD;
+  rate NUMERIC;
+  suspend BOOLEAN;
+  raised INTEGER := 0;
+BEGIN
+  FOR rule IN SELECT * FROM public.credit_alert_rules WHERE is_active LOOP
+    FOR stat IN
+      SELECT
+        CASE rule.scope WHEN 'organization' THEN co.organization_id ELSE c.opener_id END AS subject_id,
+        COUNT(*) AS lead_count,
+        COUNT(*) FILTER (
+          WHERE EXISTS (
+            SELECT 1 FROM public.credit_requests cr
+            WHERE cr.contact_id = co.contact_id
+            AND cr.organization_id = co.organization_id
+          )
+        ) AS credit_count
+      FROM public.contact_organizations co
+      JOIN public.contacts c ON c.id = co.contact_id
+      WHERE c.date_sent > CURRENT_DATE - rule.window_days
+      AND (rule.scope <> 'organization' OR _organization_id IS NULL OR co.organization_id = _organization_id)
+      AND (rule.scope <> 'opener' OR _opener_id IS NULL OR c.opener_id = _opener_id)
+      GROUP BY 1
+      HAVING COUNT(*) >= rule.min_leads
+    LOOP
+      rate := round(stat.credit_count * 100.0 / stat.lead_count, 1);
+      CONTINUE WHEN rate <= rule.max_credit_rate;
+
+      -- One open alert per rule and subject until an admin resolves it
+      CONTINUE WHEN EXISTS (
+        SELECT 1 FROM public.credit_alerts a
+        WHERE a.rule_id = rule.id
+        AND a.status = 'open'
+        AND (a.organization_id = stat.subject_id OR a.opener_id = stat.subject_id)
+      );
+
+      suspend := false;
+      IF rule.auto_suspend THEN
+        UPDATE public.organizations
+        SET can_request_credits = false
+        WHERE id = stat.subject_id
+        AND can_request_credits;
+        suspend := FOUND;
+      END IF;
+
+      INSERT INTO public.credit_alerts (
+        rule_id, scope, organization_id, opener_id, credit_rate, max_credit_rate,
+        lead_count, credit_count, window_start, window_end, credits_suspended
+      )
+      VALUES (
+        rule.id,
+        rule.scope,
+        CASE WHEN rule.scope = 'organization' THEN stat.subject_id END,
+        CASE WHEN rule.scope = 'opener' THEN stat.subject_id END,
+        rate,
+        rule.max_credit_rate,
+        stat.lead_count,
+        stat.credit_count,
+        CURRENT_DATE - rule.window_days + 1,
+        CURRENT_DATE,
+        suspend
+      );
+
+      raised := raised + 1;
+    END LOOP;
+  END LOOP;
+
+  RETURN raised;
+END;
+$$;
+
+-- Only reachable through the trigger and run_credit_alert_check()
+REVOKE EXECUTE ON FUNCTION public.evaluate_credit_alerts(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.check_credit_alerts()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.evaluate_credit_alerts(
+    NEW.organization_id,
+    (SELECT opener_id FROM public.contacts WHERE id = NEW.contact_id)
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_credit_alerts_on_request
+AFTER INSERT ON public.credit_requests
+FOR EACH ROW
+EXECUTE FUNCTION public.check_credit_alerts();
+
+CREATE OR REPLACE FUNCTION public.run_credit_alert_check()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin'::user_role) THEN
+    RAISE EXCEPTION 'Only admins can run the credit alert check';
+  END IF;
+
+  RETURN public.evaluate_credit_alerts();
+END;
+$$;
+
+-- Closes an alert and optionally gives the partner its credit permission back
+CREATE OR REPLACE FUNCTION public.resolve_credit_alert(
+  _alert_id UUID,
+  _restore_credits BOOLEAN DEFAULT false,
+  _note TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  alert RECORD;
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin'::user_role) THEN
+    RAISE EXCEPTION 'Only admins can resolve credit alerts';
+  END IF;
+
+  SELECT * INTO alert FROM public.credit_alerts WHERE id = _alert_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Credit alert not found';
+  END IF;
+
+  UPDATE public.credit_alerts
+  SET status = 'resolved',
+      resolution_note = NULLIF(trim(_note), ''),
+      resolved_by = auth.uid(),
+      resolved_at = now()
+  WHERE id = _alert_id;
+
+  IF _restore_credits AND alert.organization_id IS NOT NULL THEN
+    UPDATE public.organizations
+    SET can_request_credits = true
+    WHERE id = alert.organization_id;
+  END IF;
+END;
+$$;
+
+-- =====================================================
+-- ANALYTICS
+-- Monthly lead and credit counts grouped by partner, opener, region or
+-- reason. For reasons, lead_count is all leads of the month so the rate is
+-- the share of leads credited for that reason, and uncredited leads come
+-- back as a row with a NULL group_key so months without credits still show.
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.get_credit_rate_stats(
+  _group_by TEXT,
+  _from DATE,
+  _to DATE
+)
+RETURNS TABLE(
+  month DATE,
+  group_key TEXT,
+  group_label TEXT,
+  lead_count BIGINT,
+  credit_count BIGINT,
+  approved_count BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin'::user_role) THEN
+    RAISE EXCEPTION 'Only admins can view credit analytics';
+  END IF;
+
+  IF _group_by NOT IN ('organization', 'opener', 'region', 'reason') THEN
+    RAISE EXCEPTION 'Unknown grouping: %', _group_by;
+  END IF;
+
+  RETURN QUERY
+  WITH deliveries AS (
+    SELECT
+      date_trunc('month', c.date_sent)::date AS lead_month,
+      co.organization_id,
+      c.opener_id,
+      c.region_id,
+      cr.status AS credit_status,
+      cr.reason_code
+    FROM public.contact_organizations co
+    JOIN public.contacts c ON c.id = co.contact_id
+    -- The request that counts: an approved one if there is one, else the latest
+    LEFT JOIN LATERAL (
+      SELECT r.status, r.reason_code
+      FROM public.credit_requests r
+      WHERE r.contact_id = co.contact_id
+      AND r.organization_id = co.organization_id
+      ORDER BY (r.status = 'approved') DESC, r.created_at DESC
+      LIMIT 1
+    ) cr ON true
+    WHERE c.date_sent >= _from
+    AND c.date_sent <= _to
+  ),
+  grouped AS (
+    SELECT
+      d.lead_month,
+      CASE _group_by
+        WHEN 'organization' THEN d.organization_id::text
+        WHEN 'opener' THEN d.opener_id::text
+        WHEN 'region' THEN COALESCE(d.region_id::text, 'none')
+        ELSE CASE WHEN d.credit_status IS NOT NULL THEN COALESCE(d.reason_code, 'none') END
+      END AS key,
+      COUNT(*) AS leads,
+      COUNT(d.credit_status) AS credits,
+      COUNT(*) FILTER (WHERE d.credit_status = 'approved') AS approved
+    FROM deliveries d
+    GROUP BY 1, 2
+  ),
+  with_totals AS (
+    SELECT g.*, SUM(g.leads) OVER (PARTITION BY g.lead_month)::bigint AS month_leads
+    FROM grouped g
+  )
+  SELECT
+    w.lead_month,
+    w.key,
+    CASE _group_by
+      WHEN 'organization' THEN (SELECT o.name FROM public.organizations o WHERE o.id::text = w.key)
+      WHEN 'opener' THEN (SELECT COALESCE(p.full_name, p.email) FROM public.profiles p WHERE p.id::text = w.key)
+      WHEN 'region' THEN (SELECT rg.name FROM public.regions rg WHERE rg.id::text = w.key)
+      ELSE (SELECT rc.label FROM public.credit_reason_codes rc WHERE rc.code = w.key)
+    END,
+    CASE WHEN _group_by = 'reason' THEN w.month_leads ELSE w.leads END,
+    w.credits,
+    w.approved
+  FROM with_totals w
+  WHERE w.key IS NOT NULL OR _group_by = 'reason'
+  ORDER BY w.lead_month, w.key;
+END;
+$$;
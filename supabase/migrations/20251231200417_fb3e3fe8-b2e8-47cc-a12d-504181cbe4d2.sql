@@ -0,0 +1,204 @@
+-- =====================================================
+-- PARTNER CREDIT LEDGER
+-- Every approved credit gets one ledger entry that says which billing
+-- month it reduces. Invoicing, the Deals summary and the partner view all
+-- read the ledger instead of working out deferred credits themselves.
+--
+-- billing_month is the lead's own month while that month is still open;
+-- the lead is then left off the month's invoice. Once the lead's month is
+-- finalized the credit goes to the next open month and is paid back with
+-- the credit note that create_credit_note_for_credit() issues.
+-- =====================================================
+
+CREATE TABLE public.partner_credit_ledger (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  credit_request_id UUID NOT NULL UNIQUE REFERENCES public.credit_requests(id) ON DELETE CASCADE,
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  lead_month DATE NOT NULL,
+  billing_month DATE NOT NULL,
+  amount_incl_moms NUMERIC NOT NULL DEFAULT 0,
+  credit_note_id UUID REFERENCES public.invoices(id),
+  is_deferred BOOLEAN GENERATED ALWAYS AS (billing_month > lead_month) STORED,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (billing_month >= lead_month)
+);
+
+CREATE INDEX idx_partner_credit_ledger_billing ON public.partner_credit_ledger(billing_month, organization_id);
+
+ALTER TABLE public.partner_credit_ledger ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view partner credit ledger"
+ON public.partner_credit_ledger
+FOR SELECT
+TO authenticated
+USING (has_role(auth.uid(), 'admin'::user_role));
+
+CREATE POLICY "Organizations can view own credit ledger"
+ON public.partner_credit_ledger
+FOR SELECT
+TO authenticated
+USING (organization_id = get_user_organization(auth.uid()));
+
+-- First month from _lead_month on that hasn't been finalized
+CREATE OR REPLACE FUNCTION public.credit_billing_month(_lead_month DATE)
+RETURNS DATE
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT MIN(m)::date
+  FROM generate_series(
+    date_trunc('month', _lead_month),
+    date_trunc('month', _lead_month) + INTERVAL '5 years',
+    INTERVAL '1 month'
+  ) m
+  WHERE NOT EXISTS (
+    SELECT 1 FROM public.invoicing_periods p
+    WHERE p.period_month = m::date
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.record_credit_ledger_entry()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  lead RECORD;
+  note RECORD;
+  entry RECORD;
+  lead_month DATE;
+  billing DATE;
+BEGIN
+  IF NEW.status = 'approved' AND (TG_OP = 'INSERT' OR OLD.status <> 'approved') THEN
+    SELECT c.date_sent, c.interest INTO lead
+    FROM public.contacts c
+    WHERE c.id = NEW.contact_id;
+
+    lead_month := date_trunc('month', lead.date_sent)::date;
+
+    -- Written by create_credit_note_for_credit(), which runs first
+    SELECT l.invoice_id, -l.amount_incl_moms AS amount INTO note
+    FROM public.invoice_lines l
+    WHERE l.credit_request_id = NEW.id
+    LIMIT 1;
+
+    -- An invoiced lead is paid back by the credit note in the next open month;
+    -- otherwise it is left off (or was never on) its own month's invoice
+    billing := CASE
+      WHEN note.invoice_id IS NOT NULL THEN public.credit_billing_month(lead_month)
+      ELSE lead_month
+    END;
+
+    INSERT INTO public.partner_credit_ledger (
+      credit_request_id, organization_id, lead_month, billing_month, amount_incl_moms, credit_note_id
+    )
+    VALUES (
+      NEW.id,
+      NEW.organization_id,
+      lead_month,
+      billing,
+      COALESCE(note.amount, get_organization_price(NEW.organization_id, lead.interest::text, lead.date_sent::timestamptz)),
+      note.invoice_id
+    );
+  ELSIF TG_OP = 'UPDATE' AND OLD.status = 'approved' AND NEW.status <> 'approved' THEN
+    SELECT * INTO entry
+    FROM public.partner_credit_ledger
+    WHERE credit_request_id = NEW.id;
+
+    IF entry.id IS NOT NULL AND (
+      entry.credit_note_id IS NOT NULL
+      OR EXISTS (SELECT 1 FROM public.invoicing_periods p WHERE p.period_month = entry.billing_month)
+    ) THEN
+      RAISE EXCEPTION 'CREDIT_ALREADY_SETTLED: the credit is already on an invoice or credit note';
+    END IF;
+
+    DELETE FROM public.partner_credit_ledger WHERE credit_request_id = NEW.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_credit_ledger_on_approval
+AFTER INSERT OR UPDATE OF status ON public.credit_requests
+FOR EACH ROW
+EXECUTE FUNCTION public.record_credit_ledger_entry();
+
+-- Billable leads for an organization in a leads month:
+-- leads sent in the month, minus leads credited against the month
+CREATE OR REPLACE FUNCTION public.invoice_billable_leads(_organization_id UUID, _period_month DATE)
+RETURNS TABLE (
+  contact_id UUID,
+  contact_name TEXT,
+  contact_email TEXT,
+  contact_phone TEXT,
+  contact_address TEXT,
+  interest TEXT,
+  lead_date DATE,
+  amount_incl_moms NUMERIC
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    c.id,
+    c.name,
+    c.email,
+    c.phone,
+    c.address,
+    c.interest::text,
+    c.date_sent,
+    get_organization_price(co.organization_id, c.interest::text, c.date_sent::timestamptz)
+  FROM public.contact_organizations co
+  JOIN public.contacts c ON c.id = co.contact_id
+  WHERE co.organization_id = _organization_id
+  AND c.date_sent >= date_trunc('month', _period_month)::date
+  AND c.date_sent < (date_trunc('month', _period_month) + INTERVAL '1 month')::date
+  AND NOT EXISTS (
+    SELECT 1
+    FROM public.partner_credit_ledger l
+    JOIN public.credit_requests cr ON cr.id = l.credit_request_id
+    WHERE cr.contact_id = c.id
+    AND l.organization_id = co.organization_id
+    AND l.billing_month = date_trunc('month', _period_month)::date
+  )
+  ORDER BY c.date_sent, c.id
+$$;
+
+-- =====================================================
+-- BACKFILL
+-- Credits paid back with a credit note count in the month the note was
+-- issued, but never before the month after the lead.
+-- =====================================================
+
+INSERT INTO public.partner_credit_ledger (
+  credit_request_id, organization_id, lead_month, billing_month, amount_incl_moms, credit_note_id, created_at
+)
+SELECT
+  cr.id,
+  cr.organization_id,
+  date_trunc('month', c.date_sent)::date,
+  CASE
+    WHEN note.invoice_id IS NULL THEN date_trunc('month', c.date_sent)::date
+    ELSE GREATEST(
+      (date_trunc('month', c.date_sent) + INTERVAL '1 month')::date,
+      date_trunc('month', note.created_at)::date
+    )
+  END,
+  COALESCE(-note.amount_incl_moms, get_organization_price(cr.organization_id, c.interest::text, c.date_sent::timestamptz)),
+  note.invoice_id,
+  cr.updated_at
+FROM public.credit_requests cr
+JOIN public.contacts c ON c.id = cr.contact_id
+LEFT JOIN LATERAL (
+  SELECT l.invoice_id, l.amount_incl_moms, l.created_at
+  FROM public.invoice_lines l
+  WHERE l.credit_request_id = cr.id
+  LIMIT 1
+) note ON true
+WHERE cr.status = 'approved';
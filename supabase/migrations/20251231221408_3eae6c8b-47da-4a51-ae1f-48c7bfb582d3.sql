@@ -0,0 +1,150 @@
+-- =====================================================
+-- TEAMS AND TEAMLEADER DATA SCOPE
+-- =====================================================
+-- Teamleaders used to see every contact and sale. They now only see the
+-- leads of the openers in the teams they lead, plus their own.
+
+CREATE TABLE public.teams (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  leader_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_teams_leader_id ON public.teams(leader_id);
+
+CREATE TRIGGER update_teams_updated_at
+BEFORE UPDATE ON public.teams
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- An opener belongs to at most one team
+ALTER TABLE public.profiles
+ADD COLUMN team_id UUID REFERENCES public.teams(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_profiles_team_id ON public.profiles(team_id);
+
+-- True if _member_id is _leader_id or an opener in a team led by _leader_id
+CREATE OR REPLACE FUNCTION public.is_team_member(_leader_id UUID, _member_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT _member_id = _leader_id OR EXISTS (
+    SELECT 1
+    FROM public.profiles p
+    JOIN public.teams t ON t.id = p.team_id
+    WHERE p.id = _member_id
+    AND t.leader_id = _leader_id
+  )
+$$;
+
+-- True if the contact was opened by someone in _leader_id's teams
+CREATE OR REPLACE FUNCTION public.is_team_contact(_leader_id UUID, _contact_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.contacts
+    WHERE id = _contact_id
+    AND is_team_member(_leader_id, opener_id)
+  )
+$$;
+
+ALTER TABLE public.teams ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage teams"
+ON public.teams
+FOR ALL
+USING (has_role(auth.uid(), 'admin'::user_role));
+
+CREATE POLICY "Members can view own team"
+ON public.teams
+FOR SELECT
+USING (
+  leader_id = auth.uid()
+  OR id = (SELECT team_id FROM public.profiles WHERE profiles.id = auth.uid())
+);
+
+-- Teamleaders see the profiles of their team, e.g. opener names on Deals
+CREATE POLICY "Teamleaders view team profiles"
+ON public.profiles
+FOR SELECT
+USING (
+  has_role(auth.uid(), 'teamleader'::user_role)
+  AND is_team_member(auth.uid(), id)
+);
+
+-- =====================================================
+-- Replace teamleader "view all" policies with team scope
+-- =====================================================
+DROP POLICY IF EXISTS "Admins and teamleaders can view all contacts" ON public.contacts;
+
+CREATE POLICY "Admins can view all contacts"
+ON public.contacts FOR SELECT
+USING (has_role(auth.uid(), 'admin'::user_role));
+
+CREATE POLICY "Teamleaders view team contacts"
+ON public.contacts FOR SELECT
+USING (
+  has_role(auth.uid(), 'teamleader'::user_role)
+  AND is_team_member(auth.uid(), opener_id)
+);
+
+DROP POLICY IF EXISTS "Admins and teamleaders view all contact_orgs" ON public.contact_organizations;
+
+CREATE POLICY "Admins view all contact_orgs"
+ON public.contact_organizations FOR SELECT
+USING (has_role(auth.uid(), 'admin'::user_role));
+
+CREATE POLICY "Teamleaders view team contact_orgs"
+ON public.contact_organizations FOR SELECT
+USING (
+  has_role(auth.uid(), 'teamleader'::user_role)
+  AND is_team_contact(auth.uid(), contact_id)
+);
+
+DROP POLICY IF EXISTS "Teamleaders can view all sales" ON public.sales;
+
+CREATE POLICY "Teamleaders view team sales"
+ON public.sales FOR SELECT
+USING (
+  has_role(auth.uid(), 'teamleader'::user_role)
+  AND is_team_contact(auth.uid(), contact_id)
+);
+
+DROP POLICY IF EXISTS "Teamleaders can view sales stage history" ON public.sales_stage_history;
+
+CREATE POLICY "Teamleaders view team sales stage history"
+ON public.sales_stage_history FOR SELECT
+USING (
+  has_role(auth.uid(), 'teamleader'::user_role)
+  AND EXISTS (
+    SELECT 1 FROM public.sales
+    WHERE sales.id = sales_stage_history.sale_id
+    AND is_team_contact(auth.uid(), sales.contact_id)
+  )
+);
+
+DROP POLICY IF EXISTS "Teamleaders can view lead distribution decisions" ON public.lead_distribution_decisions;
+
+CREATE POLICY "Teamleaders view team lead distribution decisions"
+ON public.lead_distribution_decisions FOR SELECT
+USING (
+  has_role(auth.uid(), 'teamleader'::user_role)
+  AND is_team_contact(auth.uid(), contact_id)
+);
+
+DROP POLICY IF EXISTS "Teamleaders can view contact duplicate flags" ON public.contact_duplicate_flags;
+
+CREATE POLICY "Teamleaders view team contact duplicate flags"
+ON public.contact_duplicate_flags FOR SELECT
+USING (
+  has_role(auth.uid(), 'teamleader'::user_role)
+  AND is_team_contact(auth.uid(), contact_id)
+);
@@ -0,0 +1,84 @@
+-- =====================================================
+-- USER PROVISIONING: DEACTIVATION AND DELETION
+-- =====================================================
+-- Users are created, deactivated and deleted by the manage-users edge
+-- function with the auth admin API. Deactivated users are banned in auth
+-- and keep their data; deleted users hand their leads and sales over first.
+
+ALTER TABLE public.profiles
+ADD COLUMN is_active BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN deactivated_at TIMESTAMP WITH TIME ZONE;
+
+-- Moves a user's contacts, sales and credit requests to another user and
+-- clears their name from history rows, so the auth user can be deleted.
+-- Raises REASSIGNMENT_REQUIRED if the user has records and no target is given.
+-- Raises USER_HAS_INVOICES for users referenced by locked invoices.
+CREATE OR REPLACE FUNCTION public.reassign_user_records(_user_id UUID, _reassign_to UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _contact_count INTEGER;
+  _sale_count INTEGER;
+  _credit_count INTEGER;
+  _target_role user_role;
+BEGIN
+  -- Invoices are locked, so whoever finalized invoicing stays referenced
+  IF EXISTS (SELECT 1 FROM public.invoicing_periods WHERE finalized_by = _user_id)
+    OR EXISTS (SELECT 1 FROM public.invoices WHERE created_by = _user_id) THEN
+    RAISE EXCEPTION 'USER_HAS_INVOICES: User has finalized invoicing and can only be deactivated';
+  END IF;
+
+  SELECT count(*) INTO _contact_count FROM public.contacts WHERE opener_id = _user_id;
+  SELECT count(*) INTO _sale_count FROM public.sales WHERE closer_id = _user_id;
+  SELECT count(*) INTO _credit_count FROM public.credit_requests WHERE requested_by = _user_id;
+
+  IF _contact_count + _sale_count + _credit_count > 0 THEN
+    IF _reassign_to IS NULL THEN
+      RAISE EXCEPTION 'REASSIGNMENT_REQUIRED: User has % contacts, % sales and % credit requests',
+        _contact_count, _sale_count, _credit_count;
+    END IF;
+
+    SELECT role INTO _target_role
+    FROM public.profiles
+    WHERE id = _reassign_to AND id <> _user_id AND is_active;
+
+    IF _target_role IS NULL THEN
+      RAISE EXCEPTION 'INVALID_REASSIGNMENT: Target user must be another active user';
+    END IF;
+
+    IF _contact_count > 0 AND _target_role NOT IN ('admin', 'teamleader', 'opener') THEN
+      RAISE EXCEPTION 'INVALID_REASSIGNMENT: Contacts can only be reassigned to an opener, teamleader or admin';
+    END IF;
+
+    IF _sale_count > 0 AND _target_role NOT IN ('admin', 'closer') THEN
+      RAISE EXCEPTION 'INVALID_REASSIGNMENT: Sales can only be reassigned to a closer or admin';
+    END IF;
+
+    UPDATE public.contacts SET opener_id = _reassign_to WHERE opener_id = _user_id;
+    UPDATE public.sales SET closer_id = _reassign_to WHERE closer_id = _user_id;
+    UPDATE public.credit_requests SET requested_by = _reassign_to WHERE requested_by = _user_id;
+  END IF;
+
+  -- History keeps the rows but loses the reference to the deleted user
+  UPDATE public.organization_price_history SET created_by = NULL WHERE created_by = _user_id;
+  UPDATE public.organization_status_history SET created_by = NULL WHERE created_by = _user_id;
+  UPDATE public.organization_timeline_events SET created_by = NULL WHERE created_by = _user_id;
+  UPDATE public.organization_lead_quotas SET created_by = NULL WHERE created_by = _user_id;
+  UPDATE public.sales_stage_history SET changed_by = NULL WHERE changed_by = _user_id;
+  UPDATE public.lead_distribution_decisions SET created_by = NULL WHERE created_by = _user_id;
+  UPDATE public.lead_sources SET created_by = NULL WHERE created_by = _user_id;
+  UPDATE public.contact_duplicate_flags SET resolved_by = NULL WHERE resolved_by = _user_id;
+
+  RETURN jsonb_build_object(
+    'contacts', _contact_count,
+    'sales', _sale_count,
+    'credit_requests', _credit_count
+  );
+END;
+$$;
+
+-- Only the edge function (service role) may reassign
+REVOKE EXECUTE ON FUNCTION public.reassign_user_records(UUID, UUID) FROM PUBLIC, anon, authenticated;
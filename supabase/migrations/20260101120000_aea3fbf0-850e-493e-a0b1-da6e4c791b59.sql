@@ -0,0 +1,18 @@
+-- =====================================================
+-- TEAMLEADER OVERRIDE COMMISSION AND TEAM DASHBOARD
+-- =====================================================
+-- A teamleader earns an override on the production of the openers in the
+-- teams they lead: override_percent of the team's opener commission for
+-- the month. The rate is set per team by admins.
+
+ALTER TABLE public.teams
+ADD COLUMN override_percent NUMERIC NOT NULL DEFAULT 0
+CHECK (override_percent >= 0 AND override_percent <= 100);
+
+-- Teamleaders see the credits on their team's leads on the team dashboard
+CREATE POLICY "Teamleaders view team credit requests"
+ON public.credit_requests FOR SELECT
+USING (
+  has_role(auth.uid(), 'teamleader'::user_role)
+  AND is_team_contact(auth.uid(), contact_id)
+);
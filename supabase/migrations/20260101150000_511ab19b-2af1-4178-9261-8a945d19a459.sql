@@ -0,0 +1,25 @@
+-- =====================================================
+-- OPENER PERFORMANCE: PARTNERS AND CREDITS ON OWN LEADS
+-- =====================================================
+-- Openers see which partners bought their leads and which of them were
+-- credited, so they can follow their qualified leads and commission.
+
+CREATE POLICY "Openers view own contact_orgs"
+ON public.contact_organizations FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.contacts
+    WHERE contacts.id = contact_organizations.contact_id
+    AND contacts.opener_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Openers view credit requests on own contacts"
+ON public.credit_requests FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.contacts
+    WHERE contacts.id = credit_requests.contact_id
+    AND contacts.opener_id = auth.uid()
+  )
+);
@@ -0,0 +1,162 @@
+-- =====================================================
+-- CONTACT ACTIVITY LOG AND FOLLOW-UP TASKS
+-- =====================================================
+-- Everything that happens with a contact after it is created: calls,
+-- emails, notes, meetings and pipeline stage changes. Activities are
+-- internal unless shared with the partners that bought the lead.
+-- Follow-up tasks are reminders with a due date, usually for closers.
+
+CREATE TYPE public.contact_activity_type AS ENUM ('call', 'email', 'note', 'meeting', 'stage_change');
+CREATE TYPE public.activity_visibility AS ENUM ('internal', 'partner');
+
+CREATE TABLE public.contact_activities (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  contact_id UUID NOT NULL REFERENCES public.contacts(id) ON DELETE CASCADE,
+  sale_id UUID REFERENCES public.sales(id) ON DELETE SET NULL,
+  activity_type public.contact_activity_type NOT NULL,
+  visibility public.activity_visibility NOT NULL DEFAULT 'internal',
+  body TEXT,
+  -- Only set for stage_change
+  from_status public.pipeline_status,
+  to_status public.pipeline_status,
+  author_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT contact_activities_body_required CHECK (activity_type = 'stage_change' OR length(trim(body)) > 0)
+);
+
+CREATE INDEX idx_contact_activities_contact_id ON public.contact_activities(contact_id, created_at DESC);
+
+ALTER TABLE public.contact_activities ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage contact activities"
+ON public.contact_activities
+FOR ALL
+USING (has_role(auth.uid(), 'admin'::user_role));
+
+-- Internal users see the activities of every contact they can see
+CREATE POLICY "Internal users view activities of visible contacts"
+ON public.contact_activities FOR SELECT
+USING (
+  NOT has_role(auth.uid(), 'organization'::user_role)
+  AND EXISTS (SELECT 1 FROM public.contacts WHERE contacts.id = contact_activities.contact_id)
+);
+
+-- Partners only see what was shared with them, on leads they bought
+CREATE POLICY "Organizations view shared activities"
+ON public.contact_activities FOR SELECT
+USING (
+  has_role(auth.uid(), 'organization'::user_role)
+  AND visibility = 'partner'
+  AND EXISTS (
+    SELECT 1 FROM public.contact_organizations
+    WHERE contact_organizations.contact_id = contact_activities.contact_id
+    AND contact_organizations.organization_id = get_user_organization(auth.uid())
+  )
+);
+
+-- Stage changes are only written by the trigger below
+CREATE POLICY "Internal users log activities on visible contacts"
+ON public.contact_activities FOR INSERT
+WITH CHECK (
+  author_id = auth.uid()
+  AND activity_type <> 'stage_change'
+  AND NOT has_role(auth.uid(), 'organization'::user_role)
+  AND EXISTS (SELECT 1 FROM public.contacts WHERE contacts.id = contact_activities.contact_id)
+);
+
+CREATE POLICY "Authors can delete own activities"
+ON public.contact_activities FOR DELETE
+USING (author_id = auth.uid() AND activity_type <> 'stage_change');
+
+-- Every pipeline stage transition also shows up on the contact's timeline
+CREATE OR REPLACE FUNCTION public.log_stage_change_activity()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.contact_activities (contact_id, sale_id, activity_type, from_status, to_status, author_id, created_at)
+  SELECT s.contact_id, NEW.sale_id, 'stage_change', NEW.from_status, NEW.to_status, NEW.changed_by, NEW.changed_at
+  FROM public.sales s
+  WHERE s.id = NEW.sale_id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER log_stage_change_activity
+AFTER INSERT ON public.sales_stage_history
+FOR EACH ROW
+EXECUTE FUNCTION public.log_stage_change_activity();
+
+-- Backfill: existing stage history, and the sale note columns the timeline replaces
+INSERT INTO public.contact_activities (contact_id, sale_id, activity_type, from_status, to_status, author_id, created_at)
+SELECT s.contact_id, h.sale_id, 'stage_change', h.from_status, h.to_status, h.changed_by, h.changed_at
+FROM public.sales_stage_history h
+JOIN public.sales s ON s.id = h.sale_id
+WHERE h.changed_by IS NULL OR EXISTS (SELECT 1 FROM public.profiles p WHERE p.id = h.changed_by);
+
+INSERT INTO public.contact_activities (contact_id, sale_id, activity_type, visibility, body, author_id, created_at)
+SELECT contact_id, id, 'note', 'internal', closer_notes, closer_id, updated_at
+FROM public.sales
+WHERE length(trim(closer_notes)) > 0;
+
+INSERT INTO public.contact_activities (contact_id, sale_id, activity_type, visibility, body, author_id, created_at)
+SELECT contact_id, id, 'note', 'internal', 'Offert: ' || offer_details, closer_id, updated_at
+FROM public.sales
+WHERE length(trim(offer_details)) > 0;
+
+INSERT INTO public.contact_activities (contact_id, sale_id, activity_type, visibility, body, author_id, created_at)
+SELECT contact_id, id, 'note', 'partner', partner_notes, NULL, updated_at
+FROM public.sales
+WHERE length(trim(partner_notes)) > 0;
+
+-- =====================================================
+-- FOLLOW-UP TASKS
+-- =====================================================
+CREATE TABLE public.follow_up_tasks (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  contact_id UUID NOT NULL REFERENCES public.contacts(id) ON DELETE CASCADE,
+  sale_id UUID REFERENCES public.sales(id) ON DELETE SET NULL,
+  title TEXT NOT NULL CHECK (length(trim(title)) > 0),
+  due_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  assigned_to UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_follow_up_tasks_assigned_open ON public.follow_up_tasks(assigned_to, due_at) WHERE completed_at IS NULL;
+CREATE INDEX idx_follow_up_tasks_contact_id ON public.follow_up_tasks(contact_id);
+
+CREATE TRIGGER update_follow_up_tasks_updated_at
+BEFORE UPDATE ON public.follow_up_tasks
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.follow_up_tasks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage follow-up tasks"
+ON public.follow_up_tasks
+FOR ALL
+USING (has_role(auth.uid(), 'admin'::user_role));
+
+CREATE POLICY "Users view own follow-up tasks"
+ON public.follow_up_tasks FOR SELECT
+USING (assigned_to = auth.uid() OR created_by = auth.uid());
+
+CREATE POLICY "Users schedule own follow-up tasks"
+ON public.follow_up_tasks FOR INSERT
+WITH CHECK (
+  assigned_to = auth.uid()
+  AND created_by = auth.uid()
+  AND EXISTS (SELECT 1 FROM public.contacts WHERE contacts.id = follow_up_tasks.contact_id)
+);
+
+CREATE POLICY "Users update own follow-up tasks"
+ON public.follow_up_tasks FOR UPDATE
+USING (assigned_to = auth.uid());
+
+CREATE POLICY "Users delete own follow-up tasks"
+ON public.follow_up_tasks FOR DELETE
+USING (assigned_to = auth.uid());
@@ -0,0 +1,74 @@
+-- =====================================================
+-- PARTNER PORTAL: OUTCOMES REPORTED BY PARTNERS
+-- =====================================================
+-- Partners report what happened with every lead they received, from first
+-- contact to won or lost. The outcome lives on the contact_organizations
+-- link since two partners can work the same lead with different results.
+-- Partners that sell themselves get a close rate from these reports.
+
+CREATE TYPE public.partner_lead_outcome AS ENUM ('new', 'contacted', 'site_visit_booked', 'offer_sent', 'won', 'lost');
+
+ALTER TABLE public.contact_organizations
+  ADD COLUMN partner_outcome public.partner_lead_outcome NOT NULL DEFAULT 'new',
+  ADD COLUMN partner_lost_reason TEXT,
+  ADD COLUMN partner_notes TEXT,
+  ADD COLUMN partner_outcome_updated_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN partner_outcome_updated_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  ADD CONSTRAINT contact_organizations_partner_lost_reason_check CHECK (
+    partner_lost_reason IS NULL
+    OR partner_lost_reason IN ('price', 'competitor', 'not_interested', 'unreachable', 'not_feasible', 'financing', 'other')
+  ),
+  ADD CONSTRAINT contact_organizations_lost_reason_required CHECK (
+    partner_outcome <> 'lost' OR partner_lost_reason IS NOT NULL
+  );
+
+CREATE INDEX idx_contact_organizations_organization_outcome ON public.contact_organizations(organization_id, partner_outcome);
+
+-- Partners can't update contact_organizations directly, that would let them
+-- move leads between organizations or flip sold_to_partner. They report
+-- through this function, which only touches the partner columns.
+CREATE OR REPLACE FUNCTION public.set_partner_lead_outcome(
+  _contact_organization_id UUID,
+  _outcome public.partner_lead_outcome,
+  _lost_reason TEXT DEFAULT NULL,
+  _notes TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _organization_id UUID;
+BEGIN
+  SELECT organization_id INTO _organization_id
+  FROM public.contact_organizations
+  WHERE id = _contact_organization_id;
+
+  IF _organization_id IS NULL THEN
+    RAISE EXCEPTION 'LEAD_NOT_FOUND: Lead does not exist';
+  END IF;
+
+  IF NOT (
+    has_role(auth.uid(), 'admin'::user_role)
+    OR (has_role(auth.uid(), 'organization'::user_role) AND _organization_id = get_user_organization(auth.uid()))
+  ) THEN
+    RAISE EXCEPTION 'LEAD_NOT_ASSIGNED: Lead was not sent to your organization';
+  END IF;
+
+  IF _outcome = 'lost' AND nullif(trim(_lost_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'LOST_REASON_REQUIRED: A lost lead needs a reason';
+  END IF;
+
+  UPDATE public.contact_organizations
+  SET partner_outcome = _outcome,
+      partner_lost_reason = CASE WHEN _outcome = 'lost' THEN trim(_lost_reason) END,
+      partner_notes = nullif(trim(_notes), ''),
+      partner_outcome_updated_at = now(),
+      partner_outcome_updated_by = auth.uid()
+  WHERE id = _contact_organization_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.set_partner_lead_outcome(UUID, public.partner_lead_outcome, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.set_partner_lead_outcome(UUID, public.partner_lead_outcome, TEXT, TEXT) TO authenticated;
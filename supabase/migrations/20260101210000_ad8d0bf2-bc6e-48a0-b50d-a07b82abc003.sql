@@ -0,0 +1,167 @@
+-- =====================================================
+-- AUTOMATED EXECUTION OF SCHEDULED TIMELINE EVENTS
+-- =====================================================
+-- process_scheduled_timeline_events() existed but nothing ever called it,
+-- it cast test_batch_complete to organization_status and it left
+-- organization_status_history dated to whenever it happened to run.
+-- It now runs every 15 minutes from pg_cron and:
+-- - applies due pause_scheduled, activation_scheduled and status_change events
+--   to organizations.status, dating the status history to the event
+-- - creates a follow-up task for the admin who logged a test_batch_complete
+--   event, due follow_up_days after the event
+-- - records the outcome on the event. The status column already holds the
+--   target status of status_change events, so the outcome has its own
+--   execution_status, with the error message when it failed.
+
+ALTER TABLE public.organization_timeline_events
+  ADD COLUMN follow_up_days INTEGER CHECK (follow_up_days > 0),
+  ADD COLUMN execution_status TEXT NOT NULL DEFAULT 'pending' CHECK (execution_status IN ('pending', 'completed', 'failed')),
+  ADD COLUMN execution_error TEXT,
+  ADD COLUMN executed_at TIMESTAMP WITH TIME ZONE;
+
+-- Unscheduled events have already happened. Scheduled events whose date
+-- passed while nothing executed them are left for an admin to retry.
+UPDATE public.organization_timeline_events
+SET execution_status = 'completed', executed_at = updated_at
+WHERE is_scheduled = false;
+
+UPDATE public.organization_timeline_events
+SET execution_status = 'failed',
+    execution_error = 'MISSED: The event date passed before scheduled events were executed',
+    executed_at = now()
+WHERE is_scheduled = true AND event_date <= now();
+
+CREATE INDEX idx_timeline_events_pending ON public.organization_timeline_events(event_date) WHERE execution_status = 'pending';
+
+-- Partner follow-ups are tasks on an organization instead of a contact
+ALTER TABLE public.follow_up_tasks
+  ALTER COLUMN contact_id DROP NOT NULL,
+  ADD COLUMN organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE,
+  ADD COLUMN timeline_event_id UUID UNIQUE REFERENCES public.organization_timeline_events(id) ON DELETE CASCADE,
+  ADD CONSTRAINT follow_up_tasks_subject_required CHECK (contact_id IS NOT NULL OR organization_id IS NOT NULL);
+
+-- Scheduled status changes pass their own date and author through
+-- app.status_change_at / app.status_change_by
+CREATE OR REPLACE FUNCTION public.track_organization_status_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  _changed_at TIMESTAMP WITH TIME ZONE := COALESCE(nullif(current_setting('app.status_change_at', true), '')::timestamptz, now());
+  _changed_by UUID := COALESCE(nullif(current_setting('app.status_change_by', true), '')::uuid, auth.uid());
+BEGIN
+  -- Only track if status actually changed
+  IF OLD.status IS DISTINCT FROM NEW.status THEN
+    -- Close the previous status period
+    UPDATE public.organization_status_history
+    SET effective_until = _changed_at
+    WHERE organization_id = NEW.id
+      AND effective_until IS NULL;
+
+    -- Insert new status period
+    INSERT INTO public.organization_status_history (organization_id, status, effective_from, created_by)
+    VALUES (NEW.id, NEW.status::text, _changed_at, _changed_by);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Now returns the number of events it processed
+DROP FUNCTION IF EXISTS public.process_scheduled_timeline_events();
+
+CREATE FUNCTION public.process_scheduled_timeline_events()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _event RECORD;
+  _target_status public.organization_status;
+  _effective_at TIMESTAMP WITH TIME ZONE;
+  _processed INTEGER := 0;
+BEGIN
+  FOR _event IN
+    SELECT e.*, o.name AS organization_name
+    FROM public.organization_timeline_events e
+    JOIN public.organizations o ON o.id = e.organization_id
+    WHERE e.execution_status = 'pending'
+    AND e.event_date <= now()
+    ORDER BY e.event_date
+    FOR UPDATE OF e SKIP LOCKED
+  LOOP
+    BEGIN
+      _target_status := CASE
+        WHEN _event.event_type = 'pause_scheduled' THEN 'archived'
+        WHEN _event.event_type = 'activation_scheduled' THEN 'active'
+        WHEN _event.event_type = 'status_change' AND _event.status <> 'test_batch_complete' THEN _event.status::public.organization_status
+      END;
+
+      IF _target_status IS NOT NULL THEN
+        -- Never date a status before the period it replaces started
+        SELECT GREATEST(_event.event_date, MAX(effective_from)) INTO _effective_at
+        FROM public.organization_status_history
+        WHERE organization_id = _event.organization_id
+        AND effective_until IS NULL;
+
+        PERFORM set_config('app.status_change_at', COALESCE(_effective_at, _event.event_date)::text, true);
+        PERFORM set_config('app.status_change_by', COALESCE(_event.created_by::text, ''), true);
+
+        UPDATE public.organizations
+        SET status = _target_status, updated_at = now()
+        WHERE id = _event.organization_id
+        AND status IS DISTINCT FROM _target_status;
+
+        PERFORM set_config('app.status_change_at', '', true);
+        PERFORM set_config('app.status_change_by', '', true);
+      END IF;
+
+      IF _event.event_type = 'status_change' AND _event.status = 'test_batch_complete' AND _event.follow_up_days IS NOT NULL THEN
+        IF _event.created_by IS NULL OR NOT has_role(_event.created_by, 'admin'::user_role) THEN
+          RAISE EXCEPTION 'NO_RESPONSIBLE_ADMIN: The event was not created by an admin who can follow up';
+        END IF;
+
+        INSERT INTO public.follow_up_tasks (organization_id, timeline_event_id, title, due_at, assigned_to, created_by)
+        VALUES (
+          _event.organization_id,
+          _event.id,
+          'Återkoppla till ' || _event.organization_name || ' efter test-batch',
+          _event.event_date + make_interval(days => _event.follow_up_days),
+          _event.created_by,
+          _event.created_by
+        )
+        ON CONFLICT (timeline_event_id) DO NOTHING;
+      END IF;
+
+      UPDATE public.organization_timeline_events
+      SET is_scheduled = false,
+          execution_status = 'completed',
+          execution_error = NULL,
+          executed_at = now()
+      WHERE id = _event.id;
+    EXCEPTION WHEN OTHERS THEN
+      -- Everything the event did so far is rolled back, the event stays
+      -- scheduled until an admin retries it
+      UPDATE public.organization_timeline_events
+      SET execution_status = 'failed',
+          execution_error = SQLERRM,
+          executed_at = now()
+      WHERE id = _event.id;
+    END;
+
+    _processed := _processed + 1;
+  END LOOP;
+
+  RETURN _processed;
+END;
+$$;
+
+-- Only pg_cron runs this
+REVOKE EXECUTE ON FUNCTION public.process_scheduled_timeline_events() FROM PUBLIC, anon, authenticated;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'process-scheduled-timeline-events',
+  '*/15 * * * *',
+  $$SELECT public.process_scheduled_timeline_events()$$
+);
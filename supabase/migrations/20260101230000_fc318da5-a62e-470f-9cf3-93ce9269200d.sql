@@ -0,0 +1,58 @@
+-- =====================================================
+-- PARTNER GOAL THRESHOLDS
+-- =====================================================
+-- The green/orange/red partner-count thresholds and the target number of
+-- partners per lead used to live in each admin's browser. They are now
+-- stored here as a global default with overrides per region and per
+-- partner. Every row applies from effective_from (first day of a month)
+-- until a newer row for the same scope takes over, so past months keep
+-- being judged by the targets that applied then.
+
+CREATE TABLE public.partner_goal_thresholds (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  -- Both empty: global default
+  region_id UUID REFERENCES public.regions(id) ON DELETE CASCADE,
+  organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE,
+  effective_from DATE NOT NULL,
+  green_threshold INTEGER NOT NULL CHECK (green_threshold >= 0),
+  yellow_threshold INTEGER NOT NULL CHECK (yellow_threshold >= 0),
+  red_threshold INTEGER NOT NULL CHECK (red_threshold >= 0),
+  target_leads_per_company INTEGER NOT NULL CHECK (target_leads_per_company > 0),
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT partner_goal_thresholds_single_scope CHECK (region_id IS NULL OR organization_id IS NULL),
+  CONSTRAINT partner_goal_thresholds_month_start CHECK (effective_from = date_trunc('month', effective_from)::date),
+  CONSTRAINT partner_goal_thresholds_order CHECK (green_threshold >= yellow_threshold AND yellow_threshold >= red_threshold)
+);
+
+-- One row per scope and month
+CREATE UNIQUE INDEX idx_partner_goal_thresholds_scope_month ON public.partner_goal_thresholds(
+  COALESCE(region_id, '00000000-0000-0000-0000-000000000000'::uuid),
+  COALESCE(organization_id, '00000000-0000-0000-0000-000000000000'::uuid),
+  effective_from
+);
+
+CREATE TRIGGER update_partner_goal_thresholds_updated_at
+BEFORE UPDATE ON public.partner_goal_thresholds
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER audit_partner_goal_thresholds
+AFTER INSERT OR UPDATE OR DELETE ON public.partner_goal_thresholds
+FOR EACH ROW EXECUTE FUNCTION public.audit_trigger_function();
+
+ALTER TABLE public.partner_goal_thresholds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage partner goal thresholds"
+ON public.partner_goal_thresholds
+FOR ALL
+USING (has_role(auth.uid(), 'admin'::user_role));
+
+CREATE POLICY "Teamleaders can view partner goal thresholds"
+ON public.partner_goal_thresholds
+FOR SELECT
+USING (has_role(auth.uid(), 'teamleader'::user_role));
+
+-- The defaults the settings panel used to fall back to, for all past months
+INSERT INTO public.partner_goal_thresholds (effective_from, green_threshold, yellow_threshold, red_threshold, target_leads_per_company)
+VALUES ('2020-01-01', 4, 2, 1, 3);
@@ -0,0 +1,306 @@
+-- =====================================================
+-- SERVER-SIDE DEALS QUERY
+-- The Deals page loaded every contact with its partners, credits and region
+-- and filtered, sorted and summed them in the browser. It now asks the
+-- database for one page at a time:
+-- - search_deals() returns a page of the month's deals, filtered and sorted
+--   on any column, with keyset pagination on (sort value, id)
+-- - get_deal_totals() returns the summary for all deals matching the filters
+-- Both run as the caller, so the contacts RLS still decides who sees what.
+-- =====================================================
+
+-- Everything the free text search matches on, phone numbers also as digits
+ALTER TABLE public.contacts
+ADD COLUMN search_text TEXT GENERATED ALWAYS AS (
+  lower(
+    COALESCE(name, '') || ' ' ||
+    email || ' ' ||
+    COALESCE(phone, '') || ' ' ||
+    COALESCE(public.normalize_phone(phone), '') || ' ' ||
+    COALESCE(address, '') || ' ' ||
+    COALESCE(postal_code, '')
+  )
+) STORED;
+
+CREATE INDEX idx_contacts_search_trgm ON public.contacts USING GIN(search_text gin_trgm_ops);
+CREATE INDEX idx_contacts_date_sent ON public.contacts(date_sent, id);
+CREATE INDEX idx_credit_requests_contact ON public.credit_requests(contact_id, created_at DESC);
+
+-- Contacts of a month matching the Deals filters. NULL means no filter.
+CREATE OR REPLACE FUNCTION public.filter_deals(
+  _month DATE,
+  _search TEXT DEFAULT NULL,
+  _organization_id UUID DEFAULT NULL,
+  _credit_status credit_status DEFAULT NULL,
+  _interest interest_type DEFAULT NULL,
+  _region_id UUID DEFAULT NULL
+)
+RETURNS TABLE(contact_id UUID)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT c.id
+  FROM public.contacts c
+  WHERE c.date_sent >= date_trunc('month', _month)::date
+  AND c.date_sent < (date_trunc('month', _month) + INTERVAL '1 month')::date
+  AND (
+    NULLIF(trim(_search), '') IS NULL
+    OR c.search_text LIKE '%' || replace(replace(replace(lower(trim(_search)), '\', '\\'), '%', '\%'), '_', '\_') || '%'
+  )
+  AND (_organization_id IS NULL OR EXISTS (
+    SELECT 1 FROM public.contact_organizations co
+    WHERE co.contact_id = c.id AND co.organization_id = _organization_id
+  ))
+  AND (_credit_status IS NULL OR EXISTS (
+    SELECT 1 FROM public.credit_requests cr
+    WHERE cr.contact_id = c.id AND cr.status = _credit_status
+  ))
+  AND (_interest IS NULL OR c.interest = _interest)
+  AND (_region_id IS NULL OR c.region_id = _region_id)
+$$;
+
+-- One row per deal as the Deals table shows it. total_revenue follows the
+-- table: leads we sell ourselves as sales consultant (unless sold on to the
+-- partner) and leads credited in the month's ledger are left out.
+CREATE OR REPLACE FUNCTION public.deal_list_rows(
+  _month DATE,
+  _search TEXT DEFAULT NULL,
+  _organization_id UUID DEFAULT NULL,
+  _credit_status credit_status DEFAULT NULL,
+  _interest interest_type DEFAULT NULL,
+  _region_id UUID DEFAULT NULL
+)
+RETURNS TABLE(
+  id UUID,
+  name TEXT,
+  email TEXT,
+  phone TEXT,
+  address TEXT,
+  postal_code TEXT,
+  date_sent DATE,
+  interest interest_type,
+  opener_id UUID,
+  region_id UUID,
+  opener_name TEXT,
+  opener_email TEXT,
+  region_name TEXT,
+  organizations JSONB,
+  credit_requests JSONB,
+  credit_status credit_status,
+  total_revenue NUMERIC
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    c.id, c.name, c.email, c.phone, c.address, c.postal_code, c.date_sent, c.interest, c.opener_id, c.region_id,
+    p.full_name,
+    p.email,
+    r.name,
+    COALESCE(orgs.organizations, '[]'::jsonb),
+    COALESCE(credits.credit_requests, '[]'::jsonb),
+    credits.latest_status,
+    COALESCE(orgs.total_revenue, 0)
+  FROM public.filter_deals(_month, _search, _organization_id, _credit_status, _interest, _region_id) f
+  JOIN public.contacts c ON c.id = f.contact_id
+  LEFT JOIN public.profiles p ON p.id = c.opener_id
+  LEFT JOIN public.regions r ON r.id = c.region_id
+  LEFT JOIN LATERAL (
+    -- Partners in name order, so Bolag 1-4 are stable between pages
+    SELECT
+      jsonb_agg(jsonb_build_object(
+        'id', o.id,
+        'name', o.name,
+        'price_per_solar_deal', o.price_per_solar_deal,
+        'price_per_battery_deal', o.price_per_battery_deal,
+        'is_sales_consultant', o.is_sales_consultant,
+        'sales_consultant_lead_type', o.sales_consultant_lead_type,
+        'sold_to_partner', co.sold_to_partner
+      ) ORDER BY o.name, o.id) AS organizations,
+      SUM(get_organization_price(o.id, c.interest::text, c.date_sent::timestamptz)) FILTER (
+        WHERE NOT (COALESCE(o.is_sales_consultant, false) AND o.sales_consultant_lead_type = c.interest::text AND NOT co.sold_to_partner)
+        AND NOT EXISTS (
+          SELECT 1 FROM public.partner_credit_ledger l
+          JOIN public.credit_requests cr ON cr.id = l.credit_request_id
+          WHERE cr.contact_id = c.id
+          AND l.organization_id = o.id
+          AND l.billing_month = date_trunc('month', _month)::date
+          AND NOT l.is_deferred
+        )
+      ) AS total_revenue
+    FROM public.contact_organizations co
+    JOIN public.organizations o ON o.id = co.organization_id
+    WHERE co.contact_id = c.id
+  ) orgs ON true
+  LEFT JOIN LATERAL (
+    SELECT
+      jsonb_agg(jsonb_build_object('status', cr.status, 'organization_id', cr.organization_id) ORDER BY cr.created_at DESC) AS credit_requests,
+      (array_agg(cr.status ORDER BY cr.created_at DESC))[1] AS latest_status
+    FROM public.credit_requests cr
+    WHERE cr.contact_id = c.id
+  ) credits ON true
+$$;
+
+-- A page of deals. Pass the sort_value and id of the last row of the
+-- previous page as cursor to get the next one.
+CREATE OR REPLACE FUNCTION public.search_deals(
+  _month DATE,
+  _search TEXT DEFAULT NULL,
+  _organization_id UUID DEFAULT NULL,
+  _credit_status credit_status DEFAULT NULL,
+  _interest interest_type DEFAULT NULL,
+  _region_id UUID DEFAULT NULL,
+  _sort_column TEXT DEFAULT 'date',
+  _sort_ascending BOOLEAN DEFAULT false,
+  _cursor_value TEXT DEFAULT NULL,
+  _cursor_id UUID DEFAULT NULL,
+  _limit INTEGER DEFAULT 50
+)
+RETURNS TABLE(
+  id UUID,
+  name TEXT,
+  email TEXT,
+  phone TEXT,
+  address TEXT,
+  postal_code TEXT,
+  date_sent DATE,
+  interest interest_type,
+  opener_id UUID,
+  region_id UUID,
+  opener_name TEXT,
+  opener_email TEXT,
+  region_name TEXT,
+  organizations JSONB,
+  credit_requests JSONB,
+  credit_status credit_status,
+  total_revenue NUMERIC,
+  sort_value TEXT
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _sort_expression TEXT;
+  _sort_type TEXT;
+BEGIN
+  -- Column keys are the Deals table's; NULLs sort as empty so the cursor can compare them
+  SELECT s.expression, s.value_type INTO _sort_expression, _sort_type
+  FROM (VALUES
+    ('name', 'lower(COALESCE(d.name, ''''))', 'text'),
+    ('email', 'lower(d.email)', 'text'),
+    ('phone', 'COALESCE(d.phone, '''')', 'text'),
+    ('address', 'lower(COALESCE(d.address, ''''))', 'text'),
+    ('postalCode', 'COALESCE(d.postal_code, '''')', 'text'),
+    ('interest', 'd.interest::text', 'text'),
+    ('date', 'd.date_sent', 'date'),
+    ('opener', 'lower(COALESCE(d.opener_name, d.opener_email, ''''))', 'text'),
+    ('bolag1', 'lower(COALESCE(d.organizations->0->>''name'', ''''))', 'text'),
+    ('bolag2', 'lower(COALESCE(d.organizations->1->>''name'', ''''))', 'text'),
+    ('bolag3', 'lower(COALESCE(d.organizations->2->>''name'', ''''))', 'text'),
+    ('bolag4', 'lower(COALESCE(d.organizations->3->>''name'', ''''))', 'text'),
+    ('totalRevenue', 'd.total_revenue', 'numeric'),
+    ('creditStatus', 'COALESCE(d.credit_status::text, '''')', 'text'),
+    ('region', 'lower(COALESCE(d.region_name, ''''))', 'text')
+  ) AS s(key, expression, value_type)
+  WHERE s.key = _sort_column;
+
+  IF _sort_expression IS NULL THEN
+    RAISE EXCEPTION 'UNKNOWN_SORT: Unknown sort column %', _sort_column;
+  END IF;
+
+  RETURN QUERY EXECUTE format(
+    'SELECT d.*, (%1$s)::text
+     FROM public.deal_list_rows($1, $2, $3, $4, $5, $6) d
+     WHERE $7 IS NULL OR ((%1$s), d.id) %2$s ($7::%3$s, $8)
+     ORDER BY %1$s %4$s, d.id %4$s
+     LIMIT $9',
+    _sort_expression,
+    CASE WHEN _sort_ascending THEN '>' ELSE '<' END,
+    _sort_type,
+    CASE WHEN _sort_ascending THEN 'ASC' ELSE 'DESC' END
+  )
+  USING _month, _search, _organization_id, _credit_status, _interest, _region_id,
+    _cursor_value, _cursor_id, LEAST(GREATEST(_limit, 1), 200);
+END;
+$$;
+
+-- Summary for every deal matching the filters, priced like the Deals
+-- footer: every partner link at the price in effect on the lead's date,
+-- with leads credited in the month's ledger counted separately. Credits
+-- for earlier months' leads are per partner, whatever the filters.
+CREATE OR REPLACE FUNCTION public.get_deal_totals(
+  _month DATE,
+  _search TEXT DEFAULT NULL,
+  _organization_id UUID DEFAULT NULL,
+  _credit_status credit_status DEFAULT NULL,
+  _interest interest_type DEFAULT NULL,
+  _region_id UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH deals AS (
+    SELECT f.contact_id FROM public.filter_deals(_month, _search, _organization_id, _credit_status, _interest, _region_id) f
+  ),
+  links AS (
+    SELECT
+      co.organization_id,
+      get_organization_price(co.organization_id, c.interest::text, c.date_sent::timestamptz) AS price,
+      EXISTS (
+        SELECT 1 FROM public.partner_credit_ledger l
+        JOIN public.credit_requests cr ON cr.id = l.credit_request_id
+        WHERE cr.contact_id = c.id
+        AND l.organization_id = co.organization_id
+        AND l.billing_month = date_trunc('month', _month)::date
+        AND NOT l.is_deferred
+      ) AS is_credited
+    FROM deals d
+    JOIN public.contacts c ON c.id = d.contact_id
+    JOIN public.contact_organizations co ON co.contact_id = c.id
+  ),
+  deferred AS (
+    SELECT organization_id, SUM(amount_incl_moms) AS amount
+    FROM public.partner_credit_ledger
+    WHERE billing_month = date_trunc('month', _month)::date
+    AND is_deferred
+    GROUP BY organization_id
+  ),
+  per_organization AS (
+    SELECT
+      l.organization_id,
+      o.name,
+      COUNT(*) AS lead_count,
+      COALESCE(SUM(l.price) FILTER (WHERE NOT l.is_credited), 0) AS value,
+      COALESCE(SUM(l.price) FILTER (WHERE l.is_credited), 0) AS credited_value,
+      COUNT(*) FILTER (WHERE l.is_credited) AS credited_leads,
+      COALESCE(MAX(df.amount), 0) AS deferred_credits
+    FROM links l
+    JOIN public.organizations o ON o.id = l.organization_id
+    LEFT JOIN deferred df ON df.organization_id = l.organization_id
+    GROUP BY l.organization_id, o.name
+  )
+  SELECT jsonb_build_object(
+    'total_leads', (SELECT COUNT(*) FROM deals),
+    'total_org_links', (SELECT COUNT(*) FROM links),
+    'total_value', (SELECT COALESCE(SUM(value), 0) FROM per_organization),
+    'credited_value', (SELECT COALESCE(SUM(credited_value), 0) FROM per_organization),
+    'deferred_value', (SELECT COALESCE(SUM(amount), 0) FROM deferred),
+    'organizations', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'organization_id', organization_id,
+        'name', name,
+        'lead_count', lead_count,
+        'value', value,
+        'credited_value', credited_value,
+        'credited_leads', credited_leads,
+        'deferred_credits', deferred_credits
+      ) ORDER BY name)
+      FROM per_organization
+    ), '[]'::jsonb)
+  )
+$$;
@@ -0,0 +1,84 @@
+-- =====================================================
+-- COMMISSION ACCESS
+-- calculate_sale_commission() runs as definer and reads every
+-- organization's commission settings and every closer's rates. Only
+-- admins and the closer on the sale may call it; backend jobs without a
+-- user keep working.
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.calculate_sale_commission(
+  _organization_id UUID,
+  _closer_id UUID,
+  _contact_id UUID,
+  _product_id UUID DEFAULT NULL,
+  _commission_type_id UUID DEFAULT NULL,
+  _price_to_customer_incl_moms NUMERIC DEFAULT NULL,
+  _discount_amount NUMERIC DEFAULT 0,
+  _custom_product_price NUMERIC DEFAULT NULL,
+  _custom_product_material_cost_eur NUMERIC DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  org RECORD;
+  settings RECORD;
+  product RECORD;
+  closer RECORD;
+  commission_type RECORD;
+  opener_commission NUMERIC;
+  eur_rate NUMERIC;
+  segments_sek NUMERIC;
+  fixed_provision NUMERIC;
+BEGIN
+  -- The sales trigger runs as the admin or closer editing the sale
+  IF auth.uid() IS NOT NULL
+    AND NOT has_role(auth.uid(), 'admin'::user_role)
+    AND _closer_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Not allowed to calculate commission for this sale';
+  END IF;
+
+  SELECT * INTO org FROM public.organizations WHERE id = _organization_id;
+  SELECT * INTO settings FROM public.organization_commission_settings WHERE organization_id = _organization_id;
+  SELECT * INTO product FROM public.products WHERE id = _product_id;
+  SELECT * INTO closer FROM public.profiles WHERE id = _closer_id;
+  SELECT * INTO commission_type FROM public.closer_commission_types
+  WHERE id = _commission_type_id AND closer_id = _closer_id;
+
+  SELECT p.opener_commission_per_deal INTO opener_commission
+  FROM public.contacts c
+  JOIN public.profiles p ON p.id = c.opener_id
+  WHERE c.id = _contact_id;
+
+  eur_rate := COALESCE(org.eur_to_sek_rate, settings.eur_to_sek_rate, 11);
+
+  SELECT COALESCE(SUM(CASE WHEN is_eur THEN amount * eur_rate ELSE amount END), 0)
+  INTO segments_sek
+  FROM public.organization_cost_segments
+  WHERE organization_id = _organization_id;
+
+  SELECT provision_amount INTO fixed_provision
+  FROM public.organization_product_provisions
+  WHERE organization_id = _organization_id AND product_id = _product_id;
+
+  RETURN compute_commission(
+    _price_incl_moms := COALESCE(_price_to_customer_incl_moms, _custom_product_price, product.base_price_incl_moms, org.default_customer_price, 0),
+    _discount_amount := COALESCE(_discount_amount, 0),
+    _material_cost_eur := COALESCE(_custom_product_material_cost_eur, product.material_cost_eur, 0),
+    _eur_to_sek_rate := eur_rate,
+    _base_cost := COALESCE(org.base_cost_for_billing, settings.base_cost, 23000),
+    _lf_finans_percent := COALESCE(org.lf_finans_percent, settings.lf_finans_percent, 3),
+    _cost_segments_sek := segments_sek,
+    _billing_model := COALESCE(org.billing_model, 'fixed'),
+    _company_markup_share := COALESCE(org.company_markup_share, 70),
+    _fixed_provision := fixed_provision,
+    _closer_base_commission := COALESCE(commission_type.commission_amount, closer.closer_base_commission, 8000),
+    _closer_markup_percentage := COALESCE(closer.closer_markup_percentage, 40),
+    _uses_commission_type := commission_type.id IS NOT NULL,
+    _opener_commission := COALESCE(opener_commission, 1000)
+  );
+END;
+$$;
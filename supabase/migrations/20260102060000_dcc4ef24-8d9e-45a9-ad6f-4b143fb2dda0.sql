@@ -0,0 +1,49 @@
+-- =====================================================
+-- CREATE DEAL IN ONE TRANSACTION
+-- The Deals dialog inserted the contact and then distributed it in a
+-- second call, so a failed distribution left a contact without partners
+-- that nothing retried. create_deal() does both in one transaction: if
+-- linking or distribution fails, the contact is rolled back too.
+-- Runs as the caller, so the contact and link policies still apply.
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.create_deal(
+  _contact JSONB,
+  _organization_ids UUID[] DEFAULT NULL,
+  _max_organizations INTEGER DEFAULT 3
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  new_contact_id UUID;
+  distribution JSONB := NULL;
+BEGIN
+  INSERT INTO public.contacts (email, phone, address, postal_code, interest, opener_id)
+  VALUES (
+    _contact->>'email',
+    _contact->>'phone',
+    _contact->>'address',
+    _contact->>'postal_code',
+    (_contact->>'interest')::interest_type,
+    (_contact->>'opener_id')::uuid
+  )
+  RETURNING id INTO new_contact_id;
+
+  IF _organization_ids IS NOT NULL AND cardinality(_organization_ids) > 0 THEN
+    INSERT INTO public.contact_organizations (contact_id, organization_id)
+    SELECT DISTINCT new_contact_id, requested
+    FROM unnest(_organization_ids) requested;
+  ELSE
+    -- Let the distribution engine pick partners based on area, interest, quota and status
+    SELECT COALESCE(jsonb_agg(to_jsonb(d)), '[]'::jsonb) INTO distribution
+    FROM distribute_contact(new_contact_id, _max_organizations) d;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'contact_id', new_contact_id,
+    'distribution', distribution
+  );
+END;
+$$;
@@ -0,0 +1,74 @@
+-- =====================================================
+-- COVERAGE ACCESS
+-- The coverage functions run as definer and read every partner's areas.
+-- Partner accounts must not see other partners' coverage, so only
+-- internal roles may call them.
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.get_organization_coverage_areas(_organization_id UUID)
+RETURNS TABLE (
+  id UUID,
+  lead_type TEXT,
+  polygon JSONB,
+  area_km2 NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT COALESCE(get_user_role(auth.uid()) IN ('admin', 'teamleader', 'opener', 'closer'), false) THEN
+    RAISE EXCEPTION 'Not allowed to view coverage areas';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    a.id,
+    a.lead_type,
+    ST_AsGeoJSON(a.coverage_polygon)::jsonb,
+    round((ST_Area(a.coverage_polygon::geography) / 1000000)::numeric, 1)
+  FROM public.organization_coverage_areas a
+  WHERE a.organization_id = _organization_id
+  ORDER BY a.lead_type, a.created_at;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.find_partners_by_location(
+  _latitude DOUBLE PRECISION,
+  _longitude DOUBLE PRECISION,
+  _lead_type TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  organization_id UUID,
+  organization_name TEXT,
+  lead_type TEXT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT COALESCE(get_user_role(auth.uid()) IN ('admin', 'teamleader', 'opener', 'closer'), false) THEN
+    RAISE EXCEPTION 'Not allowed to search partner coverage';
+  END IF;
+
+  RETURN QUERY
+  SELECT DISTINCT o.id, o.name, a.lead_type
+  FROM public.organization_coverage_areas a
+  JOIN public.organizations o ON o.id = a.organization_id
+  WHERE ST_Contains(a.coverage_polygon, ST_SetSRID(ST_MakePoint(_longitude, _latitude), 4326))
+  AND (_lead_type IS NULL OR a.lead_type = _lead_type)
+  ORDER BY o.name;
+END;
+$$;
+
+-- The table itself was readable by every authenticated user, which let
+-- partner accounts read other partners' polygons straight through the API.
+-- Partners keep "Organizations can view their own coverage areas".
+DROP POLICY IF EXISTS "Authenticated users can view coverage areas" ON public.organization_coverage_areas;
+
+CREATE POLICY "Internal roles view all coverage areas"
+ON public.organization_coverage_areas FOR SELECT
+USING (COALESCE(get_user_role(auth.uid()) IN ('admin', 'teamleader', 'opener', 'closer'), false));
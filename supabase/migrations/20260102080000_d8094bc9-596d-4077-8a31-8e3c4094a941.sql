@@ -0,0 +1,51 @@
+-- =====================================================
+-- RE-GEOCODE CONTACTS ON POSTAL CODE CHANGE
+-- Coordinates sent with the lead or found by the address geocoder belong to
+-- the old address once the postal code changes. They are now only kept when
+-- the same update sets new coordinates; otherwise the contact is geocoded
+-- from the new postal code, or cleared for the geocode-contacts job.
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.geocode_contact()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  location RECORD;
+BEGIN
+  IF TG_OP = 'INSERT' AND NEW.latitude IS NOT NULL AND NEW.longitude IS NOT NULL THEN
+    NEW.geocode_source := COALESCE(NEW.geocode_source, 'provided');
+    NEW.geocoded_at := COALESCE(NEW.geocoded_at, now());
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+    AND NEW.latitude IS NOT NULL AND NEW.longitude IS NOT NULL
+    AND (NEW.latitude IS DISTINCT FROM OLD.latitude OR NEW.longitude IS DISTINCT FROM OLD.longitude) THEN
+    NEW.geocode_source := CASE
+      WHEN NEW.geocode_source IS DISTINCT FROM OLD.geocode_source THEN NEW.geocode_source
+      ELSE 'provided'
+    END;
+    NEW.geocoded_at := now();
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO location FROM geocode_postal_code(NEW.postal_code);
+
+  IF FOUND THEN
+    NEW.latitude := location.latitude;
+    NEW.longitude := location.longitude;
+    NEW.geocode_source := location.source;
+    NEW.geocoded_at := now();
+  ELSE
+    NEW.latitude := NULL;
+    NEW.longitude := NULL;
+    NEW.geocode_source := NULL;
+    NEW.geocoded_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,8 @@
+-- =====================================================
+-- IDEMPOTENT REPLAY STATUS
+-- A retried lead request gets the status of the original response, not a
+-- generic 200. Every stored request so far created a deal.
+-- =====================================================
+
+ALTER TABLE public.lead_ingestion_requests
+ADD COLUMN response_status INTEGER NOT NULL DEFAULT 201;
@@ -0,0 +1,143 @@
+-- =====================================================
+-- MERGE CONTACTS: ACTIVITIES AND FOLLOW-UPS
+-- contact_activities and follow_up_tasks are deleted with their contact,
+-- so merging used to drop the merged contact's activity log and open
+-- follow-ups. They are now moved to the kept contact like sales and credits.
+-- =====================================================
+
+-- Same merge as before, plus activities and follow-up tasks
+CREATE OR REPLACE FUNCTION public.merge_contacts(_keep_contact_id UUID, _merge_contact_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  kept public.contacts;
+  merged public.contacts;
+  moved_organizations INTEGER;
+  moved_credits INTEGER;
+  closed_credits INTEGER;
+  closed_merged_credits INTEGER;
+  moved_sales INTEGER;
+  moved_activities INTEGER;
+  moved_follow_ups INTEGER;
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin'::user_role) THEN
+    RAISE EXCEPTION 'Only admins can merge contacts';
+  END IF;
+
+  IF _keep_contact_id = _merge_contact_id THEN
+    RAISE EXCEPTION 'Cannot merge a contact with itself';
+  END IF;
+
+  SELECT * INTO kept FROM public.contacts WHERE id = _keep_contact_id FOR UPDATE;
+  SELECT * INTO merged FROM public.contacts WHERE id = _merge_contact_id FOR UPDATE;
+
+  IF kept.id IS NULL OR merged.id IS NULL THEN
+    RAISE EXCEPTION 'Contact not found';
+  END IF;
+
+  -- Partner links: keep one link per partner, sold if either was sold
+  UPDATE public.contact_organizations k
+  SET sold_to_partner = k.sold_to_partner OR m.sold_to_partner
+  FROM public.contact_organizations m
+  WHERE k.contact_id = _keep_contact_id
+  AND m.contact_id = _merge_contact_id
+  AND m.organization_id = k.organization_id;
+
+  DELETE FROM public.contact_organizations m
+  WHERE m.contact_id = _merge_contact_id
+  AND EXISTS (
+    SELECT 1 FROM public.contact_organizations k
+    WHERE k.contact_id = _keep_contact_id AND k.organization_id = m.organization_id
+  );
+
+  UPDATE public.contact_organizations SET contact_id = _keep_contact_id
+  WHERE contact_id = _merge_contact_id;
+  GET DIAGNOSTICS moved_organizations = ROW_COUNT;
+
+  -- Credit requests: one open or approved request per partner. An approved
+  -- request wins over a pending one; between two of the same status the kept
+  -- contact's request wins. The losing pending requests are denied, so the
+  -- partner can still see what happened to them.
+  UPDATE public.credit_requests k
+  SET status = 'denied',
+      decision_comment = 'Kontakten slogs ihop med en dubblett som redan är krediterad'
+  WHERE k.contact_id = _keep_contact_id
+  AND k.status = 'pending'
+  AND EXISTS (
+    SELECT 1 FROM public.credit_requests m
+    WHERE m.contact_id = _merge_contact_id
+    AND m.organization_id = k.organization_id
+    AND m.status = 'approved'
+  );
+  GET DIAGNOSTICS closed_credits = ROW_COUNT;
+
+  -- Denying a duplicate approved credit removes its ledger entry; a credit
+  -- that is already settled stops the merge (CREDIT_ALREADY_SETTLED)
+  UPDATE public.credit_requests m
+  SET status = 'denied',
+      decision_comment = 'Kontakten slogs ihop med en dubblett som redan har en kreditansökan'
+  WHERE m.contact_id = _merge_contact_id
+  AND m.status IN ('pending', 'approved')
+  AND EXISTS (
+    SELECT 1 FROM public.credit_requests k
+    WHERE k.contact_id = _keep_contact_id
+    AND k.organization_id = m.organization_id
+    AND k.status IN ('pending', 'approved')
+  );
+  GET DIAGNOSTICS closed_merged_credits = ROW_COUNT;
+  closed_credits := closed_credits + closed_merged_credits;
+
+  UPDATE public.credit_requests SET contact_id = _keep_contact_id
+  WHERE contact_id = _merge_contact_id;
+  GET DIAGNOSTICS moved_credits = ROW_COUNT;
+
+  UPDATE public.sales SET contact_id = _keep_contact_id
+  WHERE contact_id = _merge_contact_id;
+  GET DIAGNOSTICS moved_sales = ROW_COUNT;
+
+  -- Activity log and follow-ups cascade on delete, so they must move too
+  UPDATE public.contact_activities SET contact_id = _keep_contact_id
+  WHERE contact_id = _merge_contact_id;
+  GET DIAGNOSTICS moved_activities = ROW_COUNT;
+
+  UPDATE public.follow_up_tasks SET contact_id = _keep_contact_id
+  WHERE contact_id = _merge_contact_id;
+  GET DIAGNOSTICS moved_follow_ups = ROW_COUNT;
+
+  UPDATE public.lead_distribution_decisions SET contact_id = _keep_contact_id
+  WHERE contact_id = _merge_contact_id;
+
+  UPDATE public.lead_ingestion_requests SET contact_id = _keep_contact_id
+  WHERE contact_id = _merge_contact_id;
+
+  UPDATE public.contacts
+  SET name = COALESCE(kept.name, merged.name),
+      phone = COALESCE(kept.phone, merged.phone),
+      address = COALESCE(kept.address, merged.address),
+      postal_code = COALESCE(kept.postal_code, merged.postal_code)
+  WHERE id = _keep_contact_id;
+
+  DELETE FROM public.contacts WHERE id = _merge_contact_id;
+
+  INSERT INTO public.audit_log (table_name, record_id, action, old_values, new_values, changed_by)
+  VALUES (
+    'contacts',
+    _keep_contact_id,
+    'MERGE',
+    jsonb_build_object('kept_contact', to_jsonb(kept), 'merged_contact', to_jsonb(merged)),
+    jsonb_build_object(
+      'contact', (SELECT to_jsonb(c) FROM public.contacts c WHERE c.id = _keep_contact_id),
+      'moved_organizations', moved_organizations,
+      'moved_credit_requests', moved_credits,
+      'closed_credit_requests', closed_credits,
+      'moved_sales', moved_sales,
+      'moved_activities', moved_activities,
+      'moved_follow_up_tasks', moved_follow_ups
+    ),
+    auth.uid()
+  );
+END;
+$$;
@@ -0,0 +1,179 @@
+-- =====================================================
+-- UNSCHEDULED TIMELINE EVENTS
+-- Events logged without is_scheduled record something that already
+-- happened, but they were inserted as pending and the scheduler then
+-- applied them, e.g. changing a partner's status from a logged note about
+-- a past status change. They are now completed on insert and the scheduler
+-- only picks scheduled events. A logged test_batch_complete still gets its
+-- follow-up task, created with the event instead of by the scheduler.
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.complete_unscheduled_timeline_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT NEW.is_scheduled THEN
+    NEW.execution_status := 'completed';
+    NEW.execution_error := NULL;
+    NEW.executed_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER complete_unscheduled_timeline_event
+BEFORE INSERT ON public.organization_timeline_events
+FOR EACH ROW
+EXECUTE FUNCTION public.complete_unscheduled_timeline_event();
+
+-- Follow-up for a logged test batch, assigned to whoever logged it
+CREATE OR REPLACE FUNCTION public.create_timeline_event_follow_up()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT NEW.is_scheduled
+    AND NEW.event_type = 'status_change'
+    AND NEW.status = 'test_batch_complete'
+    AND NEW.follow_up_days IS NOT NULL
+    AND NEW.created_by IS NOT NULL THEN
+    INSERT INTO public.follow_up_tasks (organization_id, timeline_event_id, title, due_at, assigned_to, created_by)
+    SELECT
+      NEW.organization_id,
+      NEW.id,
+      'Återkoppla till ' || o.name || ' efter test-batch',
+      NEW.event_date + make_interval(days => NEW.follow_up_days),
+      NEW.created_by,
+      NEW.created_by
+    FROM public.organizations o
+    WHERE o.id = NEW.organization_id
+    ON CONFLICT (timeline_event_id) DO NOTHING;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER create_timeline_event_follow_up
+AFTER INSERT ON public.organization_timeline_events
+FOR EACH ROW
+EXECUTE FUNCTION public.create_timeline_event_follow_up();
+
+-- Logged events still waiting for the scheduler: give logged test batches
+-- their follow-up, then mark them completed without applying them
+INSERT INTO public.follow_up_tasks (organization_id, timeline_event_id, title, due_at, assigned_to, created_by)
+SELECT
+  e.organization_id,
+  e.id,
+  'Återkoppla till ' || o.name || ' efter test-batch',
+  e.event_date + make_interval(days => e.follow_up_days),
+  e.created_by,
+  e.created_by
+FROM public.organization_timeline_events e
+JOIN public.organizations o ON o.id = e.organization_id
+WHERE NOT e.is_scheduled
+AND e.execution_status = 'pending'
+AND e.event_type = 'status_change'
+AND e.status = 'test_batch_complete'
+AND e.follow_up_days IS NOT NULL
+AND e.created_by IS NOT NULL
+ON CONFLICT (timeline_event_id) DO NOTHING;
+
+UPDATE public.organization_timeline_events
+SET execution_status = 'completed', executed_at = now()
+WHERE NOT is_scheduled
+AND execution_status = 'pending';
+
+-- Same as before, but only for scheduled events
+CREATE OR REPLACE FUNCTION public.process_scheduled_timeline_events()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _event RECORD;
+  _target_status public.organization_status;
+  _effective_at TIMESTAMP WITH TIME ZONE;
+  _processed INTEGER := 0;
+BEGIN
+  FOR _event IN
+    SELECT e.*, o.name AS organization_name
+    FROM public.organization_timeline_events e
+    JOIN public.organizations o ON o.id = e.organization_id
+    WHERE e.execution_status = 'pending'
+    AND e.is_scheduled
+    AND e.event_date <= now()
+    ORDER BY e.event_date
+    FOR UPDATE OF e SKIP LOCKED
+  LOOP
+    BEGIN
+      _target_status := CASE
+        WHEN _event.event_type = 'pause_scheduled' THEN 'archived'
+        WHEN _event.event_type = 'activation_scheduled' THEN 'active'
+        WHEN _event.event_type = 'status_change' AND _event.status <> 'test_batch_complete' THEN _event.status::public.organization_status
+      END;
+
+      IF _target_status IS NOT NULL THEN
+        -- Never date a status before the period it replaces started
+        SELECT GREATEST(_event.event_date, MAX(effective_from)) INTO _effective_at
+        FROM public.organization_status_history
+        WHERE organization_id = _event.organization_id
+        AND effective_until IS NULL;
+
+        PERFORM set_config('app.status_change_at', COALESCE(_effective_at, _event.event_date)::text, true);
+        PERFORM set_config('app.status_change_by', COALESCE(_event.created_by::text, ''), true);
+
+        UPDATE public.organizations
+        SET status = _target_status, updated_at = now()
+        WHERE id = _event.organization_id
+        AND status IS DISTINCT FROM _target_status;
+
+        PERFORM set_config('app.status_change_at', '', true);
+        PERFORM set_config('app.status_change_by', '', true);
+      END IF;
+
+      IF _event.event_type = 'status_change' AND _event.status = 'test_batch_complete' AND _event.follow_up_days IS NOT NULL THEN
+        IF _event.created_by IS NULL OR NOT has_role(_event.created_by, 'admin'::user_role) THEN
+          RAISE EXCEPTION 'NO_RESPONSIBLE_ADMIN: The event was not created by an admin who can follow up';
+        END IF;
+
+        INSERT INTO public.follow_up_tasks (organization_id, timeline_event_id, title, due_at, assigned_to, created_by)
+        VALUES (
+          _event.organization_id,
+          _event.id,
+          'Återkoppla till ' || _event.organization_name || ' efter test-batch',
+          _event.event_date + make_interval(days => _event.follow_up_days),
+          _event.created_by,
+          _event.created_by
+        )
+        ON CONFLICT (timeline_event_id) DO NOTHING;
+      END IF;
+
+      UPDATE public.organization_timeline_events
+      SET is_scheduled = false,
+          execution_status = 'completed',
+          execution_error = NULL,
+          executed_at = now()
+      WHERE id = _event.id;
+    EXCEPTION WHEN OTHERS THEN
+      -- Everything the event did so far is rolled back, the event stays
+      -- scheduled until an admin retries it
+      UPDATE public.organization_timeline_events
+      SET execution_status = 'failed',
+          execution_error = SQLERRM,
+          executed_at = now()
+      WHERE id = _event.id;
+    END;
+
+    _processed := _processed + 1;
+  END LOOP;
+
+  RETURN _processed;
+END;
+$$;
@@ -0,0 +1,239 @@
+-- =====================================================
+-- PAGE DEALS BEFORE AGGREGATING
+-- search_deals() built every row in the date range, with its partners,
+-- prices and credits, and only then sorted and cut a page out of it. Sorts
+-- on the contact's own fields, including the default date sort, and on its
+-- opener and region now apply the cursor and limit to the contacts first
+-- and only aggregate the page. Sorts on partners, revenue or credit status
+-- still need every row.
+-- =====================================================
+
+-- Deals table rows for the given contacts
+CREATE FUNCTION public.deal_rows(_contact_ids UUID[])
+RETURNS TABLE(
+  id UUID,
+  name TEXT,
+  email TEXT,
+  phone TEXT,
+  address TEXT,
+  postal_code TEXT,
+  date_sent DATE,
+  interest interest_type,
+  opener_id UUID,
+  region_id UUID,
+  opener_name TEXT,
+  opener_email TEXT,
+  region_name TEXT,
+  organizations JSONB,
+  credit_requests JSONB,
+  credit_status credit_status,
+  total_revenue NUMERIC
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    c.id, c.name, c.email, c.phone, c.address, c.postal_code, c.date_sent, c.interest, c.opener_id, c.region_id,
+    p.full_name,
+    p.email,
+    r.name,
+    COALESCE(orgs.organizations, '[]'::jsonb),
+    COALESCE(credits.credit_requests, '[]'::jsonb),
+    credits.latest_status,
+    COALESCE(orgs.total_revenue, 0)
+  FROM unnest(_contact_ids) AS ids(contact_id)
+  JOIN public.contacts c ON c.id = ids.contact_id
+  LEFT JOIN public.profiles p ON p.id = c.opener_id
+  LEFT JOIN public.regions r ON r.id = c.region_id
+  LEFT JOIN LATERAL (
+    -- Partners in name order, so Bolag 1-4 are stable between pages
+    SELECT
+      jsonb_agg(jsonb_build_object(
+        'id', o.id,
+        'name', o.name,
+        'price_per_solar_deal', o.price_per_solar_deal,
+        'price_per_battery_deal', o.price_per_battery_deal,
+        'is_sales_consultant', o.is_sales_consultant,
+        'sales_consultant_lead_type', o.sales_consultant_lead_type,
+        'sold_to_partner', co.sold_to_partner
+      ) ORDER BY o.name, o.id) AS organizations,
+      SUM(get_organization_price(o.id, c.interest::text, c.date_sent::timestamptz)) FILTER (
+        WHERE NOT (COALESCE(o.is_sales_consultant, false) AND o.sales_consultant_lead_type = c.interest::text AND NOT co.sold_to_partner)
+        AND NOT EXISTS (
+          SELECT 1 FROM public.partner_credit_ledger l
+          JOIN public.credit_requests cr ON cr.id = l.credit_request_id
+          WHERE cr.contact_id = c.id
+          AND l.organization_id = o.id
+          AND l.lead_month = date_trunc('month', c.date_sent)::date
+          AND NOT l.is_deferred
+        )
+      ) AS total_revenue
+    FROM public.contact_organizations co
+    JOIN public.organizations o ON o.id = co.organization_id
+    WHERE co.contact_id = c.id
+  ) orgs ON true
+  LEFT JOIN LATERAL (
+    SELECT
+      jsonb_agg(jsonb_build_object('status', cr.status, 'organization_id', cr.organization_id) ORDER BY cr.created_at DESC) AS credit_requests,
+      (array_agg(cr.status ORDER BY cr.created_at DESC))[1] AS latest_status
+    FROM public.credit_requests cr
+    WHERE cr.contact_id = c.id
+  ) credits ON true
+$$;
+
+-- Unchanged rows, now built by deal_rows()
+CREATE OR REPLACE FUNCTION public.deal_list_rows(
+  _from DATE,
+  _to DATE,
+  _search TEXT DEFAULT NULL,
+  _organization_id UUID DEFAULT NULL,
+  _credit_status credit_status DEFAULT NULL,
+  _interest interest_type DEFAULT NULL,
+  _region_id UUID DEFAULT NULL
+)
+RETURNS TABLE(
+  id UUID,
+  name TEXT,
+  email TEXT,
+  phone TEXT,
+  address TEXT,
+  postal_code TEXT,
+  date_sent DATE,
+  interest interest_type,
+  opener_id UUID,
+  region_id UUID,
+  opener_name TEXT,
+  opener_email TEXT,
+  region_name TEXT,
+  organizations JSONB,
+  credit_requests JSONB,
+  credit_status credit_status,
+  total_revenue NUMERIC
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT d.*
+  FROM public.deal_rows(ARRAY(
+    SELECT f.contact_id FROM public.filter_deals(_from, _to, _search, _organization_id, _credit_status, _interest, _region_id) f
+  )) d
+$$;
+
+-- A page of deals. Pass the sort_value and id of the last row of the
+-- previous page as cursor to get the next one. Sorts marked paged_first
+-- only reference contact, opener and region fields.
+CREATE OR REPLACE FUNCTION public.search_deals(
+  _from DATE,
+  _to DATE,
+  _search TEXT DEFAULT NULL,
+  _organization_id UUID DEFAULT NULL,
+  _credit_status credit_status DEFAULT NULL,
+  _interest interest_type DEFAULT NULL,
+  _region_id UUID DEFAULT NULL,
+  _sort_column TEXT DEFAULT 'date',
+  _sort_ascending BOOLEAN DEFAULT false,
+  _cursor_value TEXT DEFAULT NULL,
+  _cursor_id UUID DEFAULT NULL,
+  _limit INTEGER DEFAULT 50
+)
+RETURNS TABLE(
+  id UUID,
+  name TEXT,
+  email TEXT,
+  phone TEXT,
+  address TEXT,
+  postal_code TEXT,
+  date_sent DATE,
+  interest interest_type,
+  opener_id UUID,
+  region_id UUID,
+  opener_name TEXT,
+  opener_email TEXT,
+  region_name TEXT,
+  organizations JSONB,
+  credit_requests JSONB,
+  credit_status credit_status,
+  total_revenue NUMERIC,
+  sort_value TEXT
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _sort_expression TEXT;
+  _sort_type TEXT;
+  _paged_first BOOLEAN;
+BEGIN
+  -- Column keys are the Deals table's; NULLs sort as empty so the cursor can compare them
+  SELECT s.expression, s.value_type, s.paged_first INTO _sort_expression, _sort_type, _paged_first
+  FROM (VALUES
+    ('name', 'lower(COALESCE(d.name, ''''))', 'text', true),
+    ('email', 'lower(d.email)', 'text', true),
+    ('phone', 'COALESCE(d.phone, '''')', 'text', true),
+    ('address', 'lower(COALESCE(d.address, ''''))', 'text', true),
+    ('postalCode', 'COALESCE(d.postal_code, '''')', 'text', true),
+    ('interest', 'd.interest::text', 'text', true),
+    ('date', 'd.date_sent', 'date', true),
+    ('opener', 'lower(COALESCE(d.opener_name, d.opener_email, ''''))', 'text', true),
+    ('bolag1', 'lower(COALESCE(d.organizations->0->>''name'', ''''))', 'text', false),
+    ('bolag2', 'lower(COALESCE(d.organizations->1->>''name'', ''''))', 'text', false),
+    ('bolag3', 'lower(COALESCE(d.organizations->2->>''name'', ''''))', 'text', false),
+    ('bolag4', 'lower(COALESCE(d.organizations->3->>''name'', ''''))', 'text', false),
+    ('totalRevenue', 'd.total_revenue', 'numeric', false),
+    ('creditStatus', 'COALESCE(d.credit_status::text, '''')', 'text', false),
+    ('region', 'lower(COALESCE(d.region_name, ''''))', 'text', true)
+  ) AS s(key, expression, value_type, paged_first)
+  WHERE s.key = _sort_column;
+
+  IF _sort_expression IS NULL THEN
+    RAISE EXCEPTION 'UNKNOWN_SORT: Unknown sort column %', _sort_column;
+  END IF;
+
+  IF _paged_first THEN
+    -- The page's contacts, as a d with the fields the sort expressions use
+    RETURN QUERY EXECUTE format(
+      'WITH page AS (
+         SELECT d.id
+         FROM (
+           SELECT c.id, c.name, c.email, c.phone, c.address, c.postal_code, c.date_sent, c.interest,
+             p.full_name AS opener_name, p.email AS opener_email, r.name AS region_name
+           FROM public.filter_deals($1, $2, $3, $4, $5, $6, $7) f
+           JOIN public.contacts c ON c.id = f.contact_id
+           LEFT JOIN public.profiles p ON p.id = c.opener_id
+           LEFT JOIN public.regions r ON r.id = c.region_id
+         ) d
+         WHERE $8 IS NULL OR ((%1$s), d.id) %2$s ($8::%3$s, $9)
+         ORDER BY %1$s %4$s, d.id %4$s
+         LIMIT $10
+       )
+       SELECT d.*, (%1$s)::text
+       FROM public.deal_rows(ARRAY(SELECT id FROM page)) d
+       ORDER BY %1$s %4$s, d.id %4$s',
+      _sort_expression,
+      CASE WHEN _sort_ascending THEN '>' ELSE '<' END,
+      _sort_type,
+      CASE WHEN _sort_ascending THEN 'ASC' ELSE 'DESC' END
+    )
+    USING _from, _to, _search, _organization_id, _credit_status, _interest, _region_id,
+      _cursor_value, _cursor_id, LEAST(GREATEST(_limit, 1), 200);
+    RETURN;
+  END IF;
+
+  RETURN QUERY EXECUTE format(
+    'SELECT d.*, (%1$s)::text
+     FROM public.deal_list_rows($1, $2, $3, $4, $5, $6, $7) d
+     WHERE $8 IS NULL OR ((%1$s), d.id) %2$s ($8::%3$s, $9)
+     ORDER BY %1$s %4$s, d.id %4$s
+     LIMIT $10',
+    _sort_expression,
+    CASE WHEN _sort_ascending THEN '>' ELSE '<' END,
+    _sort_type,
+    CASE WHEN _sort_ascending THEN 'ASC' ELSE 'DESC' END
+  )
+  USING _from, _to, _search, _organization_id, _credit_status, _interest, _region_id,
+    _cursor_value, _cursor_id, LEAST(GREATEST(_limit, 1), 200);
+END;
+$$;
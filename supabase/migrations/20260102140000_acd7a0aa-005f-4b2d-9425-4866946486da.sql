@@ -0,0 +1,88 @@
+-- =====================================================
+-- DEFERRED CREDITS FOR WHOLE BILLING MONTHS
+-- A deferred credit is paid back once for its billing month, but the Deals
+-- totals counted it for any range touching the month, so every week of a
+-- month showed the whole month's credit notes. Only billing months the
+-- range covers from the first to the last day are counted now.
+-- =====================================================
+
+-- Summary for every deal matching the filters, priced like the Deals
+-- footer: every partner link at the price in effect on the lead's date,
+-- with leads credited off their own month's invoice counted separately.
+-- Credits for earlier months' leads billed in the months the range
+-- covers in full are per partner, whatever the filters.
+CREATE OR REPLACE FUNCTION public.get_deal_totals(
+  _from DATE,
+  _to DATE,
+  _search TEXT DEFAULT NULL,
+  _organization_id UUID DEFAULT NULL,
+  _credit_status credit_status DEFAULT NULL,
+  _interest interest_type DEFAULT NULL,
+  _region_id UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH deals AS (
+    SELECT f.contact_id FROM public.filter_deals(_from, _to, _search, _organization_id, _credit_status, _interest, _region_id) f
+  ),
+  links AS (
+    SELECT
+      co.organization_id,
+      get_organization_price(co.organization_id, c.interest::text, c.date_sent::timestamptz) AS price,
+      EXISTS (
+        SELECT 1 FROM public.partner_credit_ledger l
+        JOIN public.credit_requests cr ON cr.id = l.credit_request_id
+        WHERE cr.contact_id = c.id
+        AND l.organization_id = co.organization_id
+        AND l.lead_month = date_trunc('month', c.date_sent)::date
+        AND NOT l.is_deferred
+      ) AS is_credited
+    FROM deals d
+    JOIN public.contacts c ON c.id = d.contact_id
+    JOIN public.contact_organizations co ON co.contact_id = c.id
+  ),
+  deferred AS (
+    SELECT organization_id, SUM(amount_incl_moms) AS amount
+    FROM public.partner_credit_ledger
+    WHERE billing_month >= _from
+    AND (billing_month + INTERVAL '1 month')::date <= _to + 1
+    AND is_deferred
+    GROUP BY organization_id
+  ),
+  per_organization AS (
+    SELECT
+      l.organization_id,
+      o.name,
+      COUNT(*) AS lead_count,
+      COALESCE(SUM(l.price) FILTER (WHERE NOT l.is_credited), 0) AS value,
+      COALESCE(SUM(l.price) FILTER (WHERE l.is_credited), 0) AS credited_value,
+      COUNT(*) FILTER (WHERE l.is_credited) AS credited_leads,
+      COALESCE(MAX(df.amount), 0) AS deferred_credits
+    FROM links l
+    JOIN public.organizations o ON o.id = l.organization_id
+    LEFT JOIN deferred df ON df.organization_id = l.organization_id
+    GROUP BY l.organization_id, o.name
+  )
+  SELECT jsonb_build_object(
+    'total_leads', (SELECT COUNT(*) FROM deals),
+    'total_org_links', (SELECT COUNT(*) FROM links),
+    'total_value', (SELECT COALESCE(SUM(value), 0) FROM per_organization),
+    'credited_value', (SELECT COALESCE(SUM(credited_value), 0) FROM per_organization),
+    'deferred_value', (SELECT COALESCE(SUM(amount), 0) FROM deferred),
+    'organizations', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'organization_id', organization_id,
+        'name', name,
+        'lead_count', lead_count,
+        'value', value,
+        'credited_value', credited_value,
+        'credited_leads', credited_leads,
+        'deferred_credits', deferred_credits
+      ) ORDER BY name)
+      FROM per_organization
+    ), '[]'::jsonb)
+  )
+$$;
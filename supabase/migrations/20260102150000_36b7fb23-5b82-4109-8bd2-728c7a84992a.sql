@@ -0,0 +1,178 @@
+-- =====================================================
+-- MERGE CONTACTS: PARTNER OUTCOMES AND SALES
+-- Merging deleted the merged contact's link to a partner the kept contact
+-- already had, and with it the outcome and notes the partner reported.
+-- They are now merged into the kept link. Two sales for the same partner
+-- used to end up on the kept contact; the merge now stops instead
+-- (SALE_CONFLICT) so the admin can resolve them without losing either.
+-- =====================================================
+
+-- Same merge as before, plus partner outcomes and the sale check
+CREATE OR REPLACE FUNCTION public.merge_contacts(_keep_contact_id UUID, _merge_contact_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  kept public.contacts;
+  merged public.contacts;
+  moved_organizations INTEGER;
+  moved_credits INTEGER;
+  closed_credits INTEGER;
+  closed_merged_credits INTEGER;
+  moved_sales INTEGER;
+  moved_activities INTEGER;
+  moved_follow_ups INTEGER;
+  conflicting_partner TEXT;
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin'::user_role) THEN
+    RAISE EXCEPTION 'Only admins can merge contacts';
+  END IF;
+
+  IF _keep_contact_id = _merge_contact_id THEN
+    RAISE EXCEPTION 'Cannot merge a contact with itself';
+  END IF;
+
+  SELECT * INTO kept FROM public.contacts WHERE id = _keep_contact_id FOR UPDATE;
+  SELECT * INTO merged FROM public.contacts WHERE id = _merge_contact_id FOR UPDATE;
+
+  IF kept.id IS NULL OR merged.id IS NULL THEN
+    RAISE EXCEPTION 'Contact not found';
+  END IF;
+
+  -- A sale holds pipeline work and commissions, so two sales for the same
+  -- partner are never merged or dropped here. The admin resolves them first.
+  SELECT o.name INTO conflicting_partner
+  FROM public.sales k
+  JOIN public.sales m ON m.organization_id = k.organization_id
+  JOIN public.organizations o ON o.id = k.organization_id
+  WHERE k.contact_id = _keep_contact_id
+  AND m.contact_id = _merge_contact_id
+  LIMIT 1;
+
+  IF conflicting_partner IS NOT NULL THEN
+    RAISE EXCEPTION 'SALE_CONFLICT: both contacts have a sale for %', conflicting_partner;
+  END IF;
+
+  -- Partner links: keep one link per partner, sold if either was sold. The
+  -- latest outcome the partner reported wins and both notes are kept.
+  UPDATE public.contact_organizations k
+  SET sold_to_partner = k.sold_to_partner OR m.sold_to_partner,
+      partner_outcome = CASE WHEN m.merged_is_newer THEN m.partner_outcome ELSE k.partner_outcome END,
+      partner_lost_reason = CASE WHEN m.merged_is_newer THEN m.partner_lost_reason ELSE k.partner_lost_reason END,
+      partner_outcome_updated_at = CASE WHEN m.merged_is_newer THEN m.partner_outcome_updated_at ELSE k.partner_outcome_updated_at END,
+      partner_outcome_updated_by = CASE WHEN m.merged_is_newer THEN m.partner_outcome_updated_by ELSE k.partner_outcome_updated_by END,
+      partner_notes = CASE
+        WHEN m.partner_notes IS NULL OR m.partner_notes = k.partner_notes THEN k.partner_notes
+        WHEN k.partner_notes IS NULL THEN m.partner_notes
+        ELSE k.partner_notes || E'\n\n' || m.partner_notes
+      END
+  FROM (
+    SELECT
+      mo.*,
+      COALESCE(mo.partner_outcome_updated_at > ko.partner_outcome_updated_at,
+               mo.partner_outcome_updated_at IS NOT NULL) AS merged_is_newer
+    FROM public.contact_organizations mo
+    JOIN public.contact_organizations ko
+      ON ko.organization_id = mo.organization_id AND ko.contact_id = _keep_contact_id
+    WHERE mo.contact_id = _merge_contact_id
+  ) m
+  WHERE k.contact_id = _keep_contact_id
+  AND m.organization_id = k.organization_id;
+
+  DELETE FROM public.contact_organizations m
+  WHERE m.contact_id = _merge_contact_id
+  AND EXISTS (
+    SELECT 1 FROM public.contact_organizations k
+    WHERE k.contact_id = _keep_contact_id AND k.organization_id = m.organization_id
+  );
+
+  UPDATE public.contact_organizations SET contact_id = _keep_contact_id
+  WHERE contact_id = _merge_contact_id;
+  GET DIAGNOSTICS moved_organizations = ROW_COUNT;
+
+  -- Credit requests: one open or approved request per partner. An approved
+  -- request wins over a pending one; between two of the same status the kept
+  -- contact's request wins. The losing pending requests are denied, so the
+  -- partner can still see what happened to them.
+  UPDATE public.credit_requests k
+  SET status = 'denied',
+      decision_comment = 'Kontakten slogs ihop med en dubblett som redan är krediterad'
+  WHERE k.contact_id = _keep_contact_id
+  AND k.status = 'pending'
+  AND EXISTS (
+    SELECT 1 FROM public.credit_requests m
+    WHERE m.contact_id = _merge_contact_id
+    AND m.organization_id = k.organization_id
+    AND m.status = 'approved'
+  );
+  GET DIAGNOSTICS closed_credits = ROW_COUNT;
+
+  -- Denying a duplicate approved credit removes its ledger entry; a credit
+  -- that is already settled stops the merge (CREDIT_ALREADY_SETTLED)
+  UPDATE public.credit_requests m
+  SET status = 'denied',
+      decision_comment = 'Kontakten slogs ihop med en dubblett som redan har en kreditansökan'
+  WHERE m.contact_id = _merge_contact_id
+  AND m.status IN ('pending', 'approved')
+  AND EXISTS (
+    SELECT 1 FROM public.credit_requests k
+    WHERE k.contact_id = _keep_contact_id
+    AND k.organization_id = m.organization_id
+    AND k.status IN ('pending', 'approved')
+  );
+  GET DIAGNOSTICS closed_merged_credits = ROW_COUNT;
+  closed_credits := closed_credits + closed_merged_credits;
+
+  UPDATE public.credit_requests SET contact_id = _keep_contact_id
+  WHERE contact_id = _merge_contact_id;
+  GET DIAGNOSTICS moved_credits = ROW_COUNT;
+
+  UPDATE public.sales SET contact_id = _keep_contact_id
+  WHERE contact_id = _merge_contact_id;
+  GET DIAGNOSTICS moved_sales = ROW_COUNT;
+
+  -- Activity log and follow-ups cascade on delete, so they must move too
+  UPDATE public.contact_activities SET contact_id = _keep_contact_id
+  WHERE contact_id = _merge_contact_id;
+  GET DIAGNOSTICS moved_activities = ROW_COUNT;
+
+  UPDATE public.follow_up_tasks SET contact_id = _keep_contact_id
+  WHERE contact_id = _merge_contact_id;
+  GET DIAGNOSTICS moved_follow_ups = ROW_COUNT;
+
+  UPDATE public.lead_distribution_decisions SET contact_id = _keep_contact_id
+  WHERE contact_id = _merge_contact_id;
+
+  UPDATE public.lead_ingestion_requests SET contact_id = _keep_contact_id
+  WHERE contact_id = _merge_contact_id;
+
+  UPDATE public.contacts
+  SET name = COALESCE(kept.name, merged.name),
+      phone = COALESCE(kept.phone, merged.phone),
+      address = COALESCE(kept.address, merged.address),
+      postal_code = COALESCE(kept.postal_code, merged.postal_code)
+  WHERE id = _keep_contact_id;
+
+  DELETE FROM public.contacts WHERE id = _merge_contact_id;
+
+  INSERT INTO public.audit_log (table_name, record_id, action, old_values, new_values, changed_by)
+  VALUES (
+    'contacts',
+    _keep_contact_id,
+    'MERGE',
+    jsonb_build_object('kept_contact', to_jsonb(kept), 'merged_contact', to_jsonb(merged)),
+    jsonb_build_object(
+      'contact', (SELECT to_jsonb(c) FROM public.contacts c WHERE c.id = _keep_contact_id),
+      'moved_organizations', moved_organizations,
+      'moved_credit_requests', moved_credits,
+      'closed_credit_requests', closed_credits,
+      'moved_sales', moved_sales,
+      'moved_activities', moved_activities,
+      'moved_follow_up_tasks', moved_follow_ups
+    ),
+    auth.uid()
+  );
+END;
+$$;
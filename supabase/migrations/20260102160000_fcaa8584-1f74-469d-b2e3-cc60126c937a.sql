@@ -0,0 +1,77 @@
+-- =====================================================
+-- UPDATE DEAL IN ONE TRANSACTION
+-- Saving a deal wrote the contact, its partner links and its sale's product
+-- in separate calls, so a failure partway left the deal half edited.
+-- update_deal() does all of it in one transaction, like create_deal().
+-- Runs as the caller, so the contact, link and sale policies still apply.
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.update_deal(
+  _contact_id UUID,
+  _contact JSONB,
+  _organizations JSONB,
+  _sale_id UUID DEFAULT NULL,
+  _sale JSONB DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.contacts
+  SET name = _contact->>'name',
+      email = _contact->>'email',
+      phone = _contact->>'phone',
+      address = _contact->>'address',
+      interest = (_contact->>'interest')::interest_type,
+      opener_id = (_contact->>'opener_id')::uuid
+  WHERE id = _contact_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Contact not found';
+  END IF;
+
+  -- _organizations is every partner linked after the edit, as
+  -- [{ organization_id, sold_to_partner }]. Kept links are updated in place
+  -- so the outcome and notes the partner reported on the lead survive.
+  DELETE FROM public.contact_organizations co
+  WHERE co.contact_id = _contact_id
+  AND NOT EXISTS (
+    SELECT 1 FROM jsonb_array_elements(_organizations) o
+    WHERE (o->>'organization_id')::uuid = co.organization_id
+  );
+
+  UPDATE public.contact_organizations co
+  SET sold_to_partner = COALESCE((o->>'sold_to_partner')::boolean, false)
+  FROM jsonb_array_elements(_organizations) o
+  WHERE co.contact_id = _contact_id
+  AND co.organization_id = (o->>'organization_id')::uuid
+  AND co.sold_to_partner IS DISTINCT FROM COALESCE((o->>'sold_to_partner')::boolean, false);
+
+  INSERT INTO public.contact_organizations (contact_id, organization_id, sold_to_partner)
+  SELECT DISTINCT ON ((o->>'organization_id')::uuid)
+    _contact_id,
+    (o->>'organization_id')::uuid,
+    COALESCE((o->>'sold_to_partner')::boolean, false)
+  FROM jsonb_array_elements(_organizations) o
+  WHERE NOT EXISTS (
+    SELECT 1 FROM public.contact_organizations co
+    WHERE co.contact_id = _contact_id
+    AND co.organization_id = (o->>'organization_id')::uuid
+  );
+
+  IF _sale_id IS NOT NULL THEN
+    UPDATE public.sales
+    SET product_id = (_sale->>'product_id')::uuid,
+        custom_product_name = _sale->>'custom_product_name',
+        custom_product_price = (_sale->>'custom_product_price')::numeric,
+        custom_product_material_cost_eur = (_sale->>'custom_product_material_cost_eur')::numeric
+    WHERE id = _sale_id
+    AND contact_id = _contact_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Sale not found';
+    END IF;
+  END IF;
+END;
+$$;